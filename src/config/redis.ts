@@ -100,6 +100,98 @@ export class RedisManager {
     await this.connect();
     return await this.client.lLen(queueName);
   }
+
+  async ping(): Promise<string> {
+    await this.connect();
+    return await this.client.ping();
+  }
+
+  // List and sorted set primitives used by the job queue
+  async lPush(key: string, value: string): Promise<void> {
+    await this.connect();
+    await this.client.lPush(key, value);
+  }
+
+  async lRem(key: string, value: string): Promise<number> {
+    await this.connect();
+    return await this.client.lRem(key, 0, value);
+  }
+
+  async lRange(key: string, start: number, stop: number): Promise<string[]> {
+    await this.connect();
+    return await this.client.lRange(key, start, stop);
+  }
+
+  async zAdd(key: string, score: number, member: string): Promise<void> {
+    await this.connect();
+    await this.client.zAdd(key, { score, value: member });
+  }
+
+  async zRem(key: string, member: string): Promise<number> {
+    await this.connect();
+    return await this.client.zRem(key, member);
+  }
+
+  async zCard(key: string): Promise<number> {
+    await this.connect();
+    return await this.client.zCard(key);
+  }
+
+  async zRange(key: string, start: number, stop: number): Promise<string[]> {
+    await this.connect();
+    return await this.client.zRange(key, start, stop);
+  }
+
+  async zRangeByScore(key: string, min: number, max: number, limit: number = 100): Promise<string[]> {
+    await this.connect();
+    return await this.client.zRangeByScore(key, min, max, {
+      LIMIT: { offset: 0, count: limit }
+    });
+  }
+
+  /**
+   * Atomically pop the oldest member of a list into a sorted set with the given score.
+   * Used to claim queued jobs so a crash between the two steps cannot lose a job.
+   */
+  async popToSortedSet(listKey: string, zsetKey: string, score: number): Promise<string | null> {
+    await this.connect();
+    const result = await this.client.eval(
+      `local member = redis.call('RPOP', KEYS[1])
+       if member then redis.call('ZADD', KEYS[2], ARGV[1], member) end
+       return member`,
+      { keys: [listKey, zsetKey], arguments: [score.toString()] }
+    );
+    return typeof result === 'string' ? result : null;
+  }
+
+  /**
+   * Atomically take one token from a token bucket, refilling it for the time elapsed
+   * since it was last used. Returns 0 when a token was taken, otherwise the number of
+   * milliseconds until one will be available.
+   */
+  async takeToken(key: string, capacity: number, refillPerMs: number, now: number): Promise<number> {
+    await this.connect();
+    const result = await this.client.eval(
+      `local bucket = redis.call('HMGET', KEYS[1], 'tokens', 'updatedAt')
+       local capacity = tonumber(ARGV[1])
+       local rate = tonumber(ARGV[2])
+       local now = tonumber(ARGV[3])
+       local tokens = tonumber(bucket[1]) or capacity
+       local updatedAt = tonumber(bucket[2]) or now
+       tokens = math.min(capacity, tokens + math.max(0, now - updatedAt) * rate)
+       local wait = 0
+       if tokens >= 1 then
+         tokens = tokens - 1
+       else
+         wait = math.ceil((1 - tokens) / rate)
+       end
+       redis.call('HSET', KEYS[1], 'tokens', tostring(tokens), 'updatedAt', ARGV[3])
+       redis.call('PEXPIRE', KEYS[1], math.ceil(capacity / rate))
+       return wait`,
+      { keys: [key], arguments: [capacity.toString(), refillPerMs.toString(), now.toString()] }
+    );
+    return typeof result === 'number' ? result : 0;
+  }
 }
 
 export const redis = new RedisManager();
\ No newline at end of file
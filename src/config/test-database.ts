@@ -459,6 +459,27 @@ export class TestDatabaseManager {
       });
     });
 
+    // Create encryption keys table for stored secrets
+    await new Promise<void>((resolve, reject) => {
+      this.db.run(`
+        CREATE TABLE IF NOT EXISTS encryption_keys (
+          id TEXT PRIMARY KEY,
+          tenant_id TEXT,
+          key_type TEXT NOT NULL,
+          key_hash TEXT NOT NULL,
+          encrypted_key TEXT,
+          algorithm TEXT NOT NULL DEFAULT 'aes-256-gcm',
+          key_status TEXT NOT NULL DEFAULT 'active',
+          created_at DATETIME DEFAULT (datetime('now')),
+          rotated_at DATETIME,
+          expires_at DATETIME
+        )
+      `, (err) => {
+        if (err) reject(err);
+        else resolve();
+      });
+    });
+
     // Create AI provider tables for testing
     await new Promise<void>((resolve, reject) => {
       this.db.run(`
@@ -495,6 +516,9 @@ export class TestDatabaseManager {
           response_status TEXT NOT NULL,
           error_message TEXT,
           processing_time INTEGER DEFAULT 0,
+          routing_decision TEXT,
+          prompt_template_id TEXT,
+          prompt_template_version INTEGER,
           created_at DATETIME DEFAULT (datetime('now'))
         )
       `, (err) => {
@@ -543,6 +567,46 @@ export class TestDatabaseManager {
       });
     });
 
+    // Create prompt templates tables
+    await new Promise<void>((resolve, reject) => {
+      this.db.run(`
+        CREATE TABLE IF NOT EXISTS prompt_templates (
+          id TEXT PRIMARY KEY,
+          key TEXT NOT NULL,
+          name TEXT NOT NULL,
+          body TEXT NOT NULL,
+          version INTEGER DEFAULT 1,
+          tenant_id TEXT,
+          created_by TEXT,
+          created_at DATETIME DEFAULT (datetime('now')),
+          updated_at DATETIME DEFAULT (datetime('now')),
+          UNIQUE(key, tenant_id)
+        )
+      `, (err) => {
+        if (err) reject(err);
+        else resolve();
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      this.db.run(`
+        CREATE TABLE IF NOT EXISTS prompt_template_versions (
+          id TEXT PRIMARY KEY,
+          template_id TEXT NOT NULL,
+          version INTEGER NOT NULL,
+          body TEXT NOT NULL,
+          change_note TEXT,
+          tenant_id TEXT,
+          created_by TEXT,
+          created_at DATETIME DEFAULT (datetime('now')),
+          UNIQUE(template_id, version)
+        )
+      `, (err) => {
+        if (err) reject(err);
+        else resolve();
+      });
+    });
+
     // Create brand voice guidelines table
     await new Promise<void>((resolve, reject) => {
       this.db.run(`
@@ -575,14 +639,15 @@ export class TestDatabaseManager {
           title TEXT NOT NULL,
           description TEXT,
           scheduled_at DATETIME NOT NULL,
-          platform TEXT NOT NULL CHECK (platform IN ('instagram', 'tiktok', 'facebook', 'linkedin')),
-          status TEXT NOT NULL DEFAULT 'scheduled' CHECK (status IN ('scheduled', 'published', 'failed', 'cancelled')),
+          platform TEXT NOT NULL CHECK (platform IN ('instagram', 'tiktok', 'facebook', 'linkedin', 'x', 'youtube', 'pinterest', 'threads', 'bluesky', 'google_business')),
+          status TEXT NOT NULL DEFAULT 'scheduled' CHECK (status IN ('scheduled', 'publishing', 'published', 'failed', 'cancelled')),
           tenant_id TEXT NOT NULL,
           client_id TEXT,
           created_by TEXT NOT NULL,
           published_at DATETIME,
           failure_reason TEXT,
           retry_count INTEGER NOT NULL DEFAULT 0,
+          queue_job_id TEXT,
           metadata TEXT DEFAULT '{}',
           created_at DATETIME DEFAULT (datetime('now')),
           updated_at DATETIME DEFAULT (datetime('now'))
@@ -598,7 +663,7 @@ export class TestDatabaseManager {
       this.db.run(`
         CREATE TABLE IF NOT EXISTS platform_scheduling_rules (
           id TEXT PRIMARY KEY,
-          platform TEXT NOT NULL CHECK (platform IN ('instagram', 'tiktok', 'facebook', 'linkedin')),
+          platform TEXT NOT NULL CHECK (platform IN ('instagram', 'tiktok', 'facebook', 'linkedin', 'x', 'youtube', 'pinterest', 'threads', 'bluesky', 'google_business')),
           max_posts_per_hour INTEGER NOT NULL DEFAULT 1,
           max_posts_per_day INTEGER NOT NULL DEFAULT 10,
           min_interval_minutes INTEGER NOT NULL DEFAULT 60,
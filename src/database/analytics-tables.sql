@@ -20,7 +20,7 @@ CREATE TABLE IF NOT EXISTS public.metrics_collection_jobs (
 CREATE TABLE IF NOT EXISTS public.content_performance_history (
     id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
     content_id UUID NOT NULL REFERENCES public.content(id) ON DELETE CASCADE,
-    platform VARCHAR(50) NOT NULL CHECK (platform IN ('instagram', 'tiktok', 'facebook', 'linkedin')),
+    platform VARCHAR(50) NOT NULL CHECK (platform IN ('instagram', 'tiktok', 'facebook', 'linkedin', 'x', 'youtube', 'pinterest', 'threads', 'bluesky', 'google_business')),
     metrics JSONB NOT NULL DEFAULT '{}',
     score INTEGER NOT NULL DEFAULT 0,
     ranking_position INTEGER,
@@ -86,7 +86,7 @@ CREATE TABLE IF NOT EXISTS public.platform_analytics_summary (
     id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
     tenant_id UUID NOT NULL REFERENCES public.tenants(id),
     client_id UUID REFERENCES public.tenants(id),
-    platform VARCHAR(50) NOT NULL CHECK (platform IN ('instagram', 'tiktok', 'facebook', 'linkedin')),
+    platform VARCHAR(50) NOT NULL CHECK (platform IN ('instagram', 'tiktok', 'facebook', 'linkedin', 'x', 'youtube', 'pinterest', 'threads', 'bluesky', 'google_business')),
     period_start TIMESTAMP NOT NULL,
     period_end TIMESTAMP NOT NULL,
     total_posts INTEGER NOT NULL DEFAULT 0,
@@ -0,0 +1,23 @@
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+import { db } from '../config/database';
+import { encryptStoredSecrets } from '../services/secret-encryption';
+
+// Encrypts secrets stored in plain JSON; run once after deploying envelope encryption
+const run = async () => {
+  // Databases created before envelope encryption lack the wrapped key column
+  await db.query('ALTER TABLE public.encryption_keys ADD COLUMN IF NOT EXISTS encrypted_key TEXT');
+  await db.query('ALTER TABLE public.encryption_keys ALTER COLUMN tenant_id DROP NOT NULL');
+
+  const summary = await encryptStoredSecrets(db);
+  console.log(`Encrypted ${summary.platformCredentials} platform credentials and ${summary.aiProviders} AI provider API keys`);
+
+  await db.close();
+};
+
+run().catch(error => {
+  console.error('Failed to encrypt stored secrets:', error);
+  process.exit(1);
+});
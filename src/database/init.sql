@@ -333,9 +333,19 @@ CREATE TABLE IF NOT EXISTS public.ai_request_logs (
     response_status VARCHAR(50) NOT NULL CHECK (response_status IN ('success', 'error', 'partial')),
     error_message TEXT,
     processing_time INTEGER NOT NULL DEFAULT 0,
+    routing_decision JSONB, -- provider, model and fallback chain the request was routed with
+    prompt_template_id UUID, -- prompt template version the prompt was rendered from
+    prompt_template_version INTEGER,
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
 );
 
+-- Add routing_decision column to ai_request_logs table
+ALTER TABLE public.ai_request_logs ADD COLUMN IF NOT EXISTS routing_decision JSONB;
+
+-- Add prompt template columns to ai_request_logs table
+ALTER TABLE public.ai_request_logs ADD COLUMN IF NOT EXISTS prompt_template_id UUID;
+ALTER TABLE public.ai_request_logs ADD COLUMN IF NOT EXISTS prompt_template_version INTEGER;
+
 -- Create AI usage logs table for billing and monitoring
 CREATE TABLE IF NOT EXISTS public.ai_usage_logs (
     id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
@@ -394,6 +404,7 @@ CREATE INDEX IF NOT EXISTS idx_ai_request_logs_provider_id ON public.ai_request_
 CREATE INDEX IF NOT EXISTS idx_ai_request_logs_user_id ON public.ai_request_logs(user_id);
 CREATE INDEX IF NOT EXISTS idx_ai_request_logs_created_at ON public.ai_request_logs(created_at);
 CREATE INDEX IF NOT EXISTS idx_ai_request_logs_request_type ON public.ai_request_logs(request_type);
+CREATE INDEX IF NOT EXISTS idx_ai_request_logs_prompt_template ON public.ai_request_logs(prompt_template_id, prompt_template_version);
 
 CREATE INDEX IF NOT EXISTS idx_ai_usage_logs_tenant_id ON public.ai_usage_logs(tenant_id);
 CREATE INDEX IF NOT EXISTS idx_ai_usage_logs_provider_id ON public.ai_usage_logs(provider_id);
@@ -463,13 +474,44 @@ CREATE INDEX IF NOT EXISTS idx_brand_voice_guidelines_is_active ON public.brand_
 CREATE TRIGGER update_brand_voice_guidelines_updated_at BEFORE UPDATE ON public.brand_voice_guidelines
     FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
+-- Create prompt templates table (tenant_id NULL for platform defaults)
+CREATE TABLE IF NOT EXISTS public.prompt_templates (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    key VARCHAR(100) NOT NULL CHECK (key IN ('content_generation', 'video_script_section')),
+    name VARCHAR(255) NOT NULL,
+    body TEXT NOT NULL,
+    version INTEGER NOT NULL DEFAULT 1,
+    tenant_id UUID REFERENCES public.tenants(id),
+    created_by UUID REFERENCES public.users(id),
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE(key, tenant_id)
+);
+
+-- Create prompt template versions table
+CREATE TABLE IF NOT EXISTS public.prompt_template_versions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    template_id UUID NOT NULL REFERENCES public.prompt_templates(id) ON DELETE CASCADE,
+    version INTEGER NOT NULL,
+    body TEXT NOT NULL,
+    change_note TEXT,
+    tenant_id UUID REFERENCES public.tenants(id),
+    created_by UUID REFERENCES public.users(id),
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE(template_id, version)
+);
+
+CREATE INDEX IF NOT EXISTS idx_prompt_templates_tenant_id ON public.prompt_templates(tenant_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_prompt_templates_platform_key ON public.prompt_templates(key) WHERE tenant_id IS NULL;
+CREATE INDEX IF NOT EXISTS idx_prompt_template_versions_template_id ON public.prompt_template_versions(template_id);
+
 -- Create video script templates table
 CREATE TABLE IF NOT EXISTS public.script_templates (
     id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
     name VARCHAR(255) NOT NULL,
     description TEXT,
     content_type VARCHAR(100) NOT NULL,
-    platform VARCHAR(50) NOT NULL DEFAULT 'universal' CHECK (platform IN ('instagram', 'tiktok', 'facebook', 'linkedin', 'universal')),
+    platform VARCHAR(50) NOT NULL DEFAULT 'universal' CHECK (platform IN ('instagram', 'tiktok', 'facebook', 'linkedin', 'x', 'youtube', 'pinterest', 'threads', 'bluesky', 'google_business', 'universal')),
     sections JSONB NOT NULL DEFAULT '[]',
     duration_min INTEGER NOT NULL DEFAULT 15,
     duration_max INTEGER NOT NULL DEFAULT 180,
@@ -481,6 +523,10 @@ CREATE TABLE IF NOT EXISTS public.script_templates (
     UNIQUE(name, tenant_id)
 );
 
+-- Allow every supported platform in existing script_templates tables
+ALTER TABLE public.script_templates DROP CONSTRAINT IF EXISTS script_templates_platform_check;
+ALTER TABLE public.script_templates ADD CONSTRAINT script_templates_platform_check CHECK (platform IN ('instagram', 'tiktok', 'facebook', 'linkedin', 'x', 'youtube', 'pinterest', 'threads', 'bluesky', 'google_business', 'universal'));
+
 -- Create video scripts table
 CREATE TABLE IF NOT EXISTS public.video_scripts (
     id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
@@ -751,23 +797,35 @@ CREATE TABLE IF NOT EXISTS public.calendar_events (
     title VARCHAR(500) NOT NULL,
     description TEXT,
     scheduled_at TIMESTAMP NOT NULL,
-    platform VARCHAR(50) NOT NULL CHECK (platform IN ('instagram', 'tiktok', 'facebook', 'linkedin')),
-    status VARCHAR(50) NOT NULL DEFAULT 'scheduled' CHECK (status IN ('scheduled', 'published', 'failed', 'cancelled')),
+    platform VARCHAR(50) NOT NULL CHECK (platform IN ('instagram', 'tiktok', 'facebook', 'linkedin', 'x', 'youtube', 'pinterest', 'threads', 'bluesky', 'google_business')),
+    status VARCHAR(50) NOT NULL DEFAULT 'scheduled' CHECK (status IN ('scheduled', 'publishing', 'published', 'failed', 'cancelled')),
     tenant_id UUID NOT NULL REFERENCES public.tenants(id),
     client_id UUID REFERENCES public.tenants(id),
     created_by UUID NOT NULL REFERENCES public.users(id),
     published_at TIMESTAMP,
     failure_reason TEXT,
     retry_count INTEGER NOT NULL DEFAULT 0,
+    queue_job_id VARCHAR(255),
     metadata JSONB DEFAULT '{}',
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
 );
 
+-- Add queue_job_id column to calendar_events table for queued publishing
+ALTER TABLE public.calendar_events ADD COLUMN IF NOT EXISTS queue_job_id VARCHAR(255);
+
+-- Allow the publishing status on databases created before scheduled publishing
+ALTER TABLE public.calendar_events DROP CONSTRAINT IF EXISTS calendar_events_status_check;
+ALTER TABLE public.calendar_events ADD CONSTRAINT calendar_events_status_check CHECK (status IN ('scheduled', 'publishing', 'published', 'failed', 'cancelled'));
+
+-- Allow every supported platform in existing calendar_events tables
+ALTER TABLE public.calendar_events DROP CONSTRAINT IF EXISTS calendar_events_platform_check;
+ALTER TABLE public.calendar_events ADD CONSTRAINT calendar_events_platform_check CHECK (platform IN ('instagram', 'tiktok', 'facebook', 'linkedin', 'x', 'youtube', 'pinterest', 'threads', 'bluesky', 'google_business'));
+
 -- Create platform scheduling rules table
 CREATE TABLE IF NOT EXISTS public.platform_scheduling_rules (
     id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
-    platform VARCHAR(50) NOT NULL CHECK (platform IN ('instagram', 'tiktok', 'facebook', 'linkedin')),
+    platform VARCHAR(50) NOT NULL CHECK (platform IN ('instagram', 'tiktok', 'facebook', 'linkedin', 'x', 'youtube', 'pinterest', 'threads', 'bluesky', 'google_business')),
     max_posts_per_hour INTEGER NOT NULL DEFAULT 1,
     max_posts_per_day INTEGER NOT NULL DEFAULT 10,
     min_interval_minutes INTEGER NOT NULL DEFAULT 60,
@@ -780,6 +838,10 @@ CREATE TABLE IF NOT EXISTS public.platform_scheduling_rules (
     UNIQUE(platform, tenant_id)
 );
 
+-- Allow every supported platform in existing platform_scheduling_rules tables
+ALTER TABLE public.platform_scheduling_rules DROP CONSTRAINT IF EXISTS platform_scheduling_rules_platform_check;
+ALTER TABLE public.platform_scheduling_rules ADD CONSTRAINT platform_scheduling_rules_platform_check CHECK (platform IN ('instagram', 'tiktok', 'facebook', 'linkedin', 'x', 'youtube', 'pinterest', 'threads', 'bluesky', 'google_business'));
+
 -- Create rescheduling rules table
 CREATE TABLE IF NOT EXISTS public.rescheduling_rules (
     id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
@@ -903,6 +965,115 @@ VALUES
         {"dayOfWeek": 0, "hour": 11, "score": 35, "reason": "Sunday minimal professional engagement"}
     ]',
     '00000000-0000-0000-0000-000000000000'
+),
+(
+    'x',
+    3,
+    10,
+    30,
+    '[
+        {"dayOfWeek": 1, "hour": 8, "score": 80, "reason": "Monday morning news check"},
+        {"dayOfWeek": 1, "hour": 12, "score": 78, "reason": "Monday lunch scrolling"},
+        {"dayOfWeek": 2, "hour": 9, "score": 88, "reason": "Tuesday morning peak"},
+        {"dayOfWeek": 2, "hour": 13, "score": 82, "reason": "Tuesday early afternoon"},
+        {"dayOfWeek": 3, "hour": 9, "score": 90, "reason": "Wednesday morning highest engagement"},
+        {"dayOfWeek": 3, "hour": 15, "score": 80, "reason": "Wednesday afternoon"},
+        {"dayOfWeek": 4, "hour": 9, "score": 85, "reason": "Thursday morning"},
+        {"dayOfWeek": 4, "hour": 17, "score": 75, "reason": "Thursday commute"},
+        {"dayOfWeek": 5, "hour": 9, "score": 72, "reason": "Friday morning"},
+        {"dayOfWeek": 6, "hour": 10, "score": 50, "reason": "Saturday low B2B activity"},
+        {"dayOfWeek": 0, "hour": 11, "score": 45, "reason": "Sunday minimal B2B activity"}
+    ]',
+    '00000000-0000-0000-0000-000000000000'
+),
+(
+    'youtube',
+    1,
+    3,
+    120,
+    '[
+        {"dayOfWeek": 1, "hour": 15, "score": 75, "reason": "Monday afternoon"},
+        {"dayOfWeek": 2, "hour": 15, "score": 78, "reason": "Tuesday afternoon"},
+        {"dayOfWeek": 3, "hour": 16, "score": 80, "reason": "Wednesday afternoon"},
+        {"dayOfWeek": 4, "hour": 16, "score": 85, "reason": "Thursday late afternoon"},
+        {"dayOfWeek": 5, "hour": 15, "score": 90, "reason": "Friday afternoon highest engagement"},
+        {"dayOfWeek": 5, "hour": 20, "score": 85, "reason": "Friday evening viewing"},
+        {"dayOfWeek": 6, "hour": 10, "score": 88, "reason": "Saturday morning viewing"},
+        {"dayOfWeek": 6, "hour": 19, "score": 82, "reason": "Saturday evening"},
+        {"dayOfWeek": 0, "hour": 10, "score": 85, "reason": "Sunday morning viewing"}
+    ]',
+    '00000000-0000-0000-0000-000000000000'
+),
+(
+    'pinterest',
+    2,
+    5,
+    60,
+    '[
+        {"dayOfWeek": 1, "hour": 20, "score": 75, "reason": "Monday evening planning"},
+        {"dayOfWeek": 2, "hour": 20, "score": 78, "reason": "Tuesday evening browsing"},
+        {"dayOfWeek": 3, "hour": 21, "score": 78, "reason": "Wednesday evening browsing"},
+        {"dayOfWeek": 4, "hour": 20, "score": 80, "reason": "Thursday evening"},
+        {"dayOfWeek": 5, "hour": 15, "score": 82, "reason": "Friday afternoon"},
+        {"dayOfWeek": 6, "hour": 14, "score": 92, "reason": "Saturday afternoon highest engagement"},
+        {"dayOfWeek": 6, "hour": 20, "score": 88, "reason": "Saturday evening"},
+        {"dayOfWeek": 0, "hour": 14, "score": 90, "reason": "Sunday afternoon project planning"},
+        {"dayOfWeek": 0, "hour": 20, "score": 85, "reason": "Sunday evening"}
+    ]',
+    '00000000-0000-0000-0000-000000000000'
+),
+(
+    'threads',
+    2,
+    8,
+    45,
+    '[
+        {"dayOfWeek": 1, "hour": 8, "score": 82, "reason": "Monday morning scroll"},
+        {"dayOfWeek": 1, "hour": 19, "score": 80, "reason": "Monday evening"},
+        {"dayOfWeek": 2, "hour": 8, "score": 85, "reason": "Tuesday morning"},
+        {"dayOfWeek": 3, "hour": 12, "score": 88, "reason": "Wednesday lunch conversations"},
+        {"dayOfWeek": 4, "hour": 8, "score": 85, "reason": "Thursday morning"},
+        {"dayOfWeek": 4, "hour": 19, "score": 82, "reason": "Thursday evening"},
+        {"dayOfWeek": 5, "hour": 12, "score": 78, "reason": "Friday lunch"},
+        {"dayOfWeek": 6, "hour": 11, "score": 72, "reason": "Saturday late morning"},
+        {"dayOfWeek": 0, "hour": 19, "score": 75, "reason": "Sunday evening"}
+    ]',
+    '00000000-0000-0000-0000-000000000000'
+),
+(
+    'bluesky',
+    3,
+    12,
+    30,
+    '[
+        {"dayOfWeek": 1, "hour": 9, "score": 85, "reason": "Monday morning timeline"},
+        {"dayOfWeek": 1, "hour": 14, "score": 80, "reason": "Monday afternoon"},
+        {"dayOfWeek": 2, "hour": 9, "score": 88, "reason": "Tuesday morning peak"},
+        {"dayOfWeek": 3, "hour": 9, "score": 88, "reason": "Wednesday morning peak"},
+        {"dayOfWeek": 3, "hour": 14, "score": 82, "reason": "Wednesday afternoon"},
+        {"dayOfWeek": 4, "hour": 9, "score": 85, "reason": "Thursday morning"},
+        {"dayOfWeek": 5, "hour": 10, "score": 75, "reason": "Friday morning"},
+        {"dayOfWeek": 6, "hour": 12, "score": 60, "reason": "Saturday midday"},
+        {"dayOfWeek": 0, "hour": 18, "score": 65, "reason": "Sunday evening"}
+    ]',
+    '00000000-0000-0000-0000-000000000000'
+),
+(
+    'google_business',
+    1,
+    2,
+    240,
+    '[
+        {"dayOfWeek": 1, "hour": 9, "score": 80, "reason": "Monday morning local searches"},
+        {"dayOfWeek": 2, "hour": 11, "score": 78, "reason": "Tuesday late morning"},
+        {"dayOfWeek": 3, "hour": 11, "score": 80, "reason": "Wednesday late morning"},
+        {"dayOfWeek": 4, "hour": 11, "score": 85, "reason": "Thursday lunch planning"},
+        {"dayOfWeek": 5, "hour": 10, "score": 90, "reason": "Friday weekend planning"},
+        {"dayOfWeek": 5, "hour": 17, "score": 88, "reason": "Friday evening plans"},
+        {"dayOfWeek": 6, "hour": 10, "score": 85, "reason": "Saturday morning errands"},
+        {"dayOfWeek": 0, "hour": 11, "score": 70, "reason": "Sunday brunch searches"}
+    ]',
+    '00000000-0000-0000-0000-000000000000'
 ) ON CONFLICT (platform, tenant_id) DO NOTHING;
 
 -- Insert default rescheduling rules
@@ -937,19 +1108,50 @@ VALUES
 CREATE TABLE IF NOT EXISTS public.platform_credentials (
     id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
     tenant_id UUID NOT NULL REFERENCES public.tenants(id),
-    platform VARCHAR(50) NOT NULL CHECK (platform IN ('instagram', 'tiktok', 'facebook', 'linkedin')),
+    platform VARCHAR(50) NOT NULL CHECK (platform IN ('instagram', 'tiktok', 'facebook', 'linkedin', 'x', 'youtube', 'pinterest', 'threads', 'bluesky', 'google_business')),
     credentials JSONB NOT NULL DEFAULT '{}', -- Encrypted credentials
+    additional_credentials JSONB NOT NULL DEFAULT '{}', -- Non-secret account settings, e.g. default Pinterest board
+    status VARCHAR(20) NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'needs_reauth')),
+    token_expires_at TIMESTAMP,
+    last_refreshed_at TIMESTAMP,
+    last_refresh_error TEXT,
     is_active BOOLEAN DEFAULT true,
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     UNIQUE(tenant_id, platform)
 );
 
+-- Add additional_credentials column to platform_credentials table for account settings
+ALTER TABLE public.platform_credentials ADD COLUMN IF NOT EXISTS additional_credentials JSONB NOT NULL DEFAULT '{}';
+
+-- Allow every supported platform in existing platform_credentials tables
+ALTER TABLE public.platform_credentials DROP CONSTRAINT IF EXISTS platform_credentials_platform_check;
+ALTER TABLE public.platform_credentials ADD CONSTRAINT platform_credentials_platform_check CHECK (platform IN ('instagram', 'tiktok', 'facebook', 'linkedin', 'x', 'youtube', 'pinterest', 'threads', 'bluesky', 'google_business'));
+
+-- Add token refresh columns to platform_credentials table
+ALTER TABLE public.platform_credentials ADD COLUMN IF NOT EXISTS status VARCHAR(20) NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'needs_reauth'));
+ALTER TABLE public.platform_credentials ADD COLUMN IF NOT EXISTS token_expires_at TIMESTAMP;
+ALTER TABLE public.platform_credentials ADD COLUMN IF NOT EXISTS last_refreshed_at TIMESTAMP;
+ALTER TABLE public.platform_credentials ADD COLUMN IF NOT EXISTS last_refresh_error TEXT;
+
+-- Pending OAuth connect flows; the state ties a provider callback to its tenant
+CREATE TABLE IF NOT EXISTS public.platform_oauth_states (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    tenant_id UUID NOT NULL REFERENCES public.tenants(id),
+    user_id UUID REFERENCES public.users(id),
+    platform VARCHAR(50) NOT NULL,
+    state VARCHAR(255) NOT NULL UNIQUE,
+    code_verifier VARCHAR(255), -- PKCE verifier, for platforms that support it
+    return_url TEXT,
+    expires_at TIMESTAMP NOT NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
 -- Create publish jobs table for tracking publishing operations
 CREATE TABLE IF NOT EXISTS public.publish_jobs (
     id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
     content_id UUID NOT NULL REFERENCES public.content(id) ON DELETE CASCADE,
-    platform VARCHAR(50) NOT NULL CHECK (platform IN ('instagram', 'tiktok', 'facebook', 'linkedin')),
+    platform VARCHAR(50) NOT NULL CHECK (platform IN ('instagram', 'tiktok', 'facebook', 'linkedin', 'x', 'youtube', 'pinterest', 'threads', 'bluesky', 'google_business')),
     status VARCHAR(50) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'success', 'failed', 'retrying')),
     result JSONB DEFAULT '{}',
     error TEXT,
@@ -957,30 +1159,60 @@ CREATE TABLE IF NOT EXISTS public.publish_jobs (
     scheduled_at TIMESTAMP,
     published_at TIMESTAMP,
     next_retry_at TIMESTAMP,
+    calendar_event_id UUID REFERENCES public.calendar_events(id) ON DELETE SET NULL,
+    idempotency_key VARCHAR(255), -- content, platform and calendar event; repeat publishes reuse the job
     tenant_id UUID NOT NULL REFERENCES public.tenants(id),
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
 );
 
+-- Add calendar_event_id column to publish_jobs table for scheduled publishing
+ALTER TABLE public.publish_jobs ADD COLUMN IF NOT EXISTS calendar_event_id UUID REFERENCES public.calendar_events(id) ON DELETE SET NULL;
+
+-- Allow every supported platform in existing publish_jobs tables
+ALTER TABLE public.publish_jobs DROP CONSTRAINT IF EXISTS publish_jobs_platform_check;
+ALTER TABLE public.publish_jobs ADD CONSTRAINT publish_jobs_platform_check CHECK (platform IN ('instagram', 'tiktok', 'facebook', 'linkedin', 'x', 'youtube', 'pinterest', 'threads', 'bluesky', 'google_business'));
+
+-- Add idempotency_key column to publish_jobs table for idempotent publishing
+ALTER TABLE public.publish_jobs ADD COLUMN IF NOT EXISTS idempotency_key VARCHAR(255);
+
 -- Create platform posts table for tracking published content
 CREATE TABLE IF NOT EXISTS public.platform_posts (
     id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
     content_id UUID NOT NULL REFERENCES public.content(id) ON DELETE CASCADE,
-    platform VARCHAR(50) NOT NULL CHECK (platform IN ('instagram', 'tiktok', 'facebook', 'linkedin')),
+    platform VARCHAR(50) NOT NULL CHECK (platform IN ('instagram', 'tiktok', 'facebook', 'linkedin', 'x', 'youtube', 'pinterest', 'threads', 'bluesky', 'google_business')),
     platform_post_id VARCHAR(255) NOT NULL, -- ID from the platform
     post_url VARCHAR(500),
     status VARCHAR(50) NOT NULL DEFAULT 'published' CHECK (status IN ('published', 'deleted', 'hidden', 'failed')),
+    first_comment_status VARCHAR(20) CHECK (first_comment_status IN ('posted', 'failed')), -- NULL when the post has no first comment
+    first_comment_id VARCHAR(255),
+    first_comment_error TEXT,
     engagement_metrics JSONB DEFAULT '{}',
+    metrics_collected_at TIMESTAMP,
+    next_metrics_at TIMESTAMP, -- NULL until metrics were first collected
     tenant_id UUID NOT NULL REFERENCES public.tenants(id),
     published_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     last_updated TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     UNIQUE(platform, platform_post_id)
 );
 
+-- Allow every supported platform in existing platform_posts tables
+ALTER TABLE public.platform_posts DROP CONSTRAINT IF EXISTS platform_posts_platform_check;
+ALTER TABLE public.platform_posts ADD CONSTRAINT platform_posts_platform_check CHECK (platform IN ('instagram', 'tiktok', 'facebook', 'linkedin', 'x', 'youtube', 'pinterest', 'threads', 'bluesky', 'google_business'));
+
+-- Add first comment columns to platform_posts table
+ALTER TABLE public.platform_posts ADD COLUMN IF NOT EXISTS first_comment_status VARCHAR(20) CHECK (first_comment_status IN ('posted', 'failed'));
+ALTER TABLE public.platform_posts ADD COLUMN IF NOT EXISTS first_comment_id VARCHAR(255);
+ALTER TABLE public.platform_posts ADD COLUMN IF NOT EXISTS first_comment_error TEXT;
+
+-- Add metrics schedule columns to platform_posts table
+ALTER TABLE public.platform_posts ADD COLUMN IF NOT EXISTS metrics_collected_at TIMESTAMP;
+ALTER TABLE public.platform_posts ADD COLUMN IF NOT EXISTS next_metrics_at TIMESTAMP;
+
 -- Create platform health checks table for monitoring API health
 CREATE TABLE IF NOT EXISTS public.platform_health_checks (
     id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
-    platform VARCHAR(50) NOT NULL CHECK (platform IN ('instagram', 'tiktok', 'facebook', 'linkedin')),
+    platform VARCHAR(50) NOT NULL CHECK (platform IN ('instagram', 'tiktok', 'facebook', 'linkedin', 'x', 'youtube', 'pinterest', 'threads', 'bluesky', 'google_business')),
     tenant_id UUID NOT NULL REFERENCES public.tenants(id),
     is_healthy BOOLEAN NOT NULL DEFAULT false,
     response_time INTEGER NOT NULL DEFAULT 0,
@@ -990,11 +1222,15 @@ CREATE TABLE IF NOT EXISTS public.platform_health_checks (
     checked_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
 );
 
+-- Allow every supported platform in existing platform_health_checks tables
+ALTER TABLE public.platform_health_checks DROP CONSTRAINT IF EXISTS platform_health_checks_platform_check;
+ALTER TABLE public.platform_health_checks ADD CONSTRAINT platform_health_checks_platform_check CHECK (platform IN ('instagram', 'tiktok', 'facebook', 'linkedin', 'x', 'youtube', 'pinterest', 'threads', 'bluesky', 'google_business'));
+
 -- Create content adaptation logs table for tracking adaptations
 CREATE TABLE IF NOT EXISTS public.content_adaptation_logs (
     id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
     content_id UUID NOT NULL REFERENCES public.content(id) ON DELETE CASCADE,
-    platform VARCHAR(50) NOT NULL CHECK (platform IN ('instagram', 'tiktok', 'facebook', 'linkedin')),
+    platform VARCHAR(50) NOT NULL CHECK (platform IN ('instagram', 'tiktok', 'facebook', 'linkedin', 'x', 'youtube', 'pinterest', 'threads', 'bluesky', 'google_business')),
     original_content JSONB NOT NULL DEFAULT '{}',
     adapted_content JSONB NOT NULL DEFAULT '{}',
     adaptation_rules JSONB DEFAULT '[]',
@@ -1003,10 +1239,44 @@ CREATE TABLE IF NOT EXISTS public.content_adaptation_logs (
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
 );
 
+-- Allow every supported platform in existing content_adaptation_logs tables
+ALTER TABLE public.content_adaptation_logs DROP CONSTRAINT IF EXISTS content_adaptation_logs_platform_check;
+ALTER TABLE public.content_adaptation_logs ADD CONSTRAINT content_adaptation_logs_platform_check CHECK (platform IN ('instagram', 'tiktok', 'facebook', 'linkedin', 'x', 'youtube', 'pinterest', 'threads', 'bluesky', 'google_business'));
+
+-- Create business locations table for Google Business Profile posts per client
+CREATE TABLE IF NOT EXISTS public.business_locations (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    tenant_id UUID NOT NULL REFERENCES public.tenants(id),
+    account_id VARCHAR(255) NOT NULL, -- Google Business Profile account
+    location_id VARCHAR(255) NOT NULL, -- Google Business Profile location
+    title VARCHAR(255) NOT NULL,
+    address TEXT,
+    is_active BOOLEAN DEFAULT true, -- Selected for publishing by default
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE(tenant_id, location_id)
+);
+
+-- Create short links table for tracked links in published posts
+CREATE TABLE IF NOT EXISTS public.short_links (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    tenant_id UUID NOT NULL REFERENCES public.tenants(id),
+    content_id UUID NOT NULL REFERENCES public.content(id) ON DELETE CASCADE,
+    platform VARCHAR(50) NOT NULL CHECK (platform IN ('instagram', 'tiktok', 'facebook', 'linkedin', 'x', 'youtube', 'pinterest', 'threads', 'bluesky', 'google_business')),
+    code VARCHAR(16) NOT NULL UNIQUE, -- Path segment of the short URL
+    target_url TEXT NOT NULL, -- Original URL with UTM parameters
+    click_count INTEGER NOT NULL DEFAULT 0,
+    last_clicked_at TIMESTAMP,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE(tenant_id, target_url)
+);
+
 -- Create indexes for publishing tables
 CREATE INDEX IF NOT EXISTS idx_platform_credentials_tenant_id ON public.platform_credentials(tenant_id);
 CREATE INDEX IF NOT EXISTS idx_platform_credentials_platform ON public.platform_credentials(platform);
 CREATE INDEX IF NOT EXISTS idx_platform_credentials_is_active ON public.platform_credentials(is_active);
+CREATE INDEX IF NOT EXISTS idx_platform_credentials_token_expires_at ON public.platform_credentials(token_expires_at);
+CREATE INDEX IF NOT EXISTS idx_platform_oauth_states_expires_at ON public.platform_oauth_states(expires_at);
 
 CREATE INDEX IF NOT EXISTS idx_publish_jobs_content_id ON public.publish_jobs(content_id);
 CREATE INDEX IF NOT EXISTS idx_publish_jobs_platform ON public.publish_jobs(platform);
@@ -1015,6 +1285,8 @@ CREATE INDEX IF NOT EXISTS idx_publish_jobs_tenant_id ON public.publish_jobs(ten
 CREATE INDEX IF NOT EXISTS idx_publish_jobs_scheduled_at ON public.publish_jobs(scheduled_at);
 CREATE INDEX IF NOT EXISTS idx_publish_jobs_next_retry_at ON public.publish_jobs(next_retry_at);
 CREATE INDEX IF NOT EXISTS idx_publish_jobs_created_at ON public.publish_jobs(created_at);
+CREATE INDEX IF NOT EXISTS idx_publish_jobs_calendar_event_id ON public.publish_jobs(calendar_event_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_publish_jobs_idempotency_key ON public.publish_jobs(tenant_id, idempotency_key);
 
 CREATE INDEX IF NOT EXISTS idx_platform_posts_content_id ON public.platform_posts(content_id);
 CREATE INDEX IF NOT EXISTS idx_platform_posts_platform ON public.platform_posts(platform);
@@ -1022,6 +1294,7 @@ CREATE INDEX IF NOT EXISTS idx_platform_posts_tenant_id ON public.platform_posts
 CREATE INDEX IF NOT EXISTS idx_platform_posts_status ON public.platform_posts(status);
 CREATE INDEX IF NOT EXISTS idx_platform_posts_published_at ON public.platform_posts(published_at);
 CREATE INDEX IF NOT EXISTS idx_platform_posts_platform_post_id ON public.platform_posts(platform_post_id);
+CREATE INDEX IF NOT EXISTS idx_platform_posts_next_metrics_at ON public.platform_posts(next_metrics_at);
 
 CREATE INDEX IF NOT EXISTS idx_platform_health_checks_platform ON public.platform_health_checks(platform);
 CREATE INDEX IF NOT EXISTS idx_platform_health_checks_tenant_id ON public.platform_health_checks(tenant_id);
@@ -1033,6 +1306,9 @@ CREATE INDEX IF NOT EXISTS idx_content_adaptation_logs_platform ON public.conten
 CREATE INDEX IF NOT EXISTS idx_content_adaptation_logs_tenant_id ON public.content_adaptation_logs(tenant_id);
 CREATE INDEX IF NOT EXISTS idx_content_adaptation_logs_created_at ON public.content_adaptation_logs(created_at);
 
+CREATE INDEX IF NOT EXISTS idx_business_locations_tenant_id ON public.business_locations(tenant_id);
+CREATE INDEX IF NOT EXISTS idx_short_links_content_platform ON public.short_links(content_id, platform);
+
 -- Create triggers for updated_at on publishing tables
 CREATE TRIGGER update_platform_credentials_updated_at BEFORE UPDATE ON public.platform_credentials
     FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
@@ -1041,4 +1317,7 @@ CREATE TRIGGER update_publish_jobs_updated_at BEFORE UPDATE ON public.publish_jo
     FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
 CREATE TRIGGER update_platform_posts_updated_at BEFORE UPDATE ON public.platform_posts
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_business_locations_updated_at BEFORE UPDATE ON public.business_locations
     FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
\ No newline at end of file
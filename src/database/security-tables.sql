@@ -53,9 +53,10 @@ CREATE TABLE IF NOT EXISTS public.data_subject_requests (
 -- Create encryption keys table for key management
 CREATE TABLE IF NOT EXISTS public.encryption_keys (
     id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
-    tenant_id UUID NOT NULL REFERENCES public.tenants(id),
+    tenant_id UUID REFERENCES public.tenants(id), -- NULL for the platform-wide data key
     key_type VARCHAR(50) NOT NULL CHECK (key_type IN ('master', 'data', 'backup')),
     key_hash VARCHAR(128) NOT NULL, -- Hash of the key for identification
+    encrypted_key TEXT, -- Data key wrapped by the master key. Format: v2:keyId:iv:authTag:encryptedData
     algorithm VARCHAR(50) NOT NULL DEFAULT 'aes-256-gcm',
     key_status VARCHAR(50) NOT NULL DEFAULT 'active' CHECK (key_status IN ('active', 'rotated', 'revoked')),
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
@@ -68,7 +69,7 @@ CREATE TABLE IF NOT EXISTS public.encrypted_data (
     id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
     tenant_id UUID NOT NULL REFERENCES public.tenants(id),
     data_type VARCHAR(100) NOT NULL,
-    encrypted_content TEXT NOT NULL, -- Format: iv:authTag:encryptedData
+    encrypted_content TEXT NOT NULL, -- Format: v2:keyId:iv:authTag:encryptedData (legacy CBC: iv:authTag:encryptedData)
     key_id UUID NOT NULL REFERENCES public.encryption_keys(id),
     metadata JSONB DEFAULT '{}',
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
@@ -124,6 +124,14 @@ app.get('/api/v1/status', (req, res) => {
   });
 });
 
+// OAuth callbacks from social platforms arrive without a session
+import { createOAuthCallbackRouter, createPlatformConnectionsRouter } from './routes/platforms';
+app.use('/api/v1/oauth', createOAuthCallbackRouter(db));
+
+// Short links in published posts redirect and count clicks without a session
+import { createShortLinkRouter } from './routes/links';
+app.use('/l', createShortLinkRouter(db));
+
 // Protected routes (require authentication)
 app.use('/api/v1/protected', authenticateToken);
 app.use('/api/v1/protected', tenantContextMiddleware);
@@ -143,6 +151,9 @@ app.use('/api/v1/protected/briefings', createBriefingRouter(db));
 import { createContentRouter } from './routes/content';
 app.use('/api/v1/protected/content', createContentRouter(db));
 
+// Platform account connection routes
+app.use('/api/v1/protected/platforms', createPlatformConnectionsRouter(db));
+
 // Video script routes
 import videoScriptRoutes from './routes/video-script';
 app.use('/api/v1/protected/video-scripts', videoScriptRoutes);
@@ -151,6 +162,11 @@ app.use('/api/v1/protected/video-scripts', videoScriptRoutes);
 import { createBestPracticesRouter } from './routes/best-practices';
 app.use('/api/v1/protected/best-practices', createBestPracticesRouter(db));
 
+// Prompt template routes
+import { createPromptTemplateRouter } from './routes/prompt-templates';
+import { PromptTemplateService } from './services/prompt-templates';
+app.use('/api/v1/protected/prompt-templates', createPromptTemplateRouter(db));
+
 // Calendar routes
 import { createCalendarRoutes } from './routes/calendar';
 app.use('/api/v1/protected/calendar', createCalendarRoutes(db));
@@ -179,9 +195,24 @@ app.use('/api/v1/protected/lgpd', lgpdRoutes);
 import { createSystemRoutes } from './routes/system';
 app.use('/api/v1/protected/system', createSystemRoutes(db, redis));
 
-// Initialize calendar scheduler
+// Initialize background job queue and calendar scheduler
 import { CalendarSchedulerService } from './services/calendar-scheduler';
-const calendarScheduler = new CalendarSchedulerService(db);
+import { PublisherService } from './services/publishing/publisher-service';
+import { ScheduledPublishExecutor } from './services/publishing/scheduled-publisher';
+import { jobQueue } from './services/queue/job-queue';
+import { JobWorker } from './services/queue/job-worker';
+import { registerJobHandlers } from './services/queue/job-handlers';
+import { PlatformTokenRefreshService } from './services/publishing/token-refresh';
+import { KeyRotationService } from './services/key-rotation';
+import { MetricsCollectionScheduler } from './services/metrics-scheduler';
+import { platformRateGovernor } from './services/publishing/rate-governor';
+const publishExecutor = new ScheduledPublishExecutor(db, new PublisherService(db, platformRateGovernor), {}, jobQueue);
+const calendarScheduler = new CalendarSchedulerService(db, publishExecutor);
+const jobWorker = new JobWorker(jobQueue);
+registerJobHandlers(jobWorker, db, publishExecutor);
+const tokenRefreshService = new PlatformTokenRefreshService(db);
+const keyRotationService = new KeyRotationService(db);
+const metricsCollectionScheduler = new MetricsCollectionScheduler(jobQueue);
 
 app.get('/api/v1/protected/profile', (req, res) => {
   res.json({ 
@@ -214,6 +245,10 @@ const gracefulShutdown = async (): Promise<void> => {
       await (global as any).systemIntegration.shutdown();
     }
 
+    tokenRefreshService.stop();
+    keyRotationService.stop();
+    metricsCollectionScheduler.stop();
+    await jobWorker.stop();
     await transactionalEmailService.close();
     await redis.disconnect();
     await db.close();
@@ -243,6 +278,10 @@ const startServer = async (): Promise<void> => {
     await emailTemplateService.initializeEmailTemplates();
     console.log('Email templates initialized');
 
+    // Seed the platform default prompt templates
+    await new PromptTemplateService(db).initializeDefaultTemplates();
+    console.log('Prompt templates initialized');
+
     // Initialize AI Hub and providers
     try {
       const { AIIntegrationHub } = await import('./services/ai-hub');
@@ -273,6 +312,19 @@ const startServer = async (): Promise<void> => {
       console.warn('Calendar scheduler initialization failed:', error);
     }
 
+    // Start background job worker
+    jobWorker.start();
+    console.log('Job worker started');
+
+    // Refresh platform tokens ahead of expiry
+    tokenRefreshService.start();
+
+    // Rotate expired data keys and re-encrypt data still on rotated keys
+    keyRotationService.start();
+
+    // Collect post metrics hourly on their first day, then daily for a month
+    metricsCollectionScheduler.start();
+
     // Initialize system integration service
     try {
       const { SystemIntegrationService } = await import('./services/system-integration');
@@ -0,0 +1,41 @@
+import { Response } from 'express';
+
+export interface EventStream {
+  send(event: string, data: unknown): void;
+  end(): void;
+  signal: AbortSignal; // aborted when the client goes away before end()
+}
+
+/**
+ * Switch a response to Server-Sent Events for streaming generation
+ */
+export function openEventStream(res: Response): EventStream {
+  const controller = new AbortController();
+
+  res.status(200);
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache, no-transform');
+  res.setHeader('Connection', 'keep-alive');
+  res.setHeader('X-Accel-Buffering', 'no'); // stop nginx from buffering the stream
+  res.flushHeaders();
+
+  res.on('close', () => {
+    if (!res.writableEnded) {
+      controller.abort();
+    }
+  });
+
+  return {
+    send(event: string, data: unknown) {
+      if (!res.writableEnded && !controller.signal.aborted) {
+        res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+      }
+    },
+    end() {
+      if (!res.writableEnded) {
+        res.end();
+      }
+    },
+    signal: controller.signal
+  };
+}
@@ -3,6 +3,8 @@ import { AnalyticsService } from '../services/analytics';
 import { PerformanceHistoryService } from '../services/performance-history';
 import { authMiddleware } from '../middleware/auth';
 import { tenantMiddleware } from '../middleware/tenant';
+import { jobQueue } from '../services/queue/job-queue';
+import { MetricsCollectionJobData } from '../services/queue/job-handlers';
 import { AnalyticsQuery, Platform } from '../types';
 
 const router = Router();
@@ -15,7 +17,7 @@ router.use(tenantMiddleware);
 
 /**
  * POST /analytics/collect-metrics
- * Trigger metrics collection from social platforms
+ * Queue metrics collection from social platforms
  * Requirements: 11.1
  */
 router.post('/collect-metrics', async (req: Request, res: Response) => {
@@ -29,7 +31,7 @@ router.post('/collect-metrics', async (req: Request, res: Response) => {
     }
     
     if (platforms) {
-      const validPlatforms = ['instagram', 'tiktok', 'facebook', 'linkedin'];
+      const validPlatforms = ['instagram', 'tiktok', 'facebook', 'linkedin', 'x', 'youtube', 'pinterest', 'threads', 'bluesky', 'google_business'];
       const invalidPlatforms = platforms.filter(p => !validPlatforms.includes(p));
       if (invalidPlatforms.length > 0) {
         return res.status(400).json({ 
@@ -38,15 +40,17 @@ router.post('/collect-metrics', async (req: Request, res: Response) => {
       }
     }
     
-    const job = await analyticsService.collectMetricsFromPlatforms(tenantId, platforms);
+    const job = await jobQueue.add<MetricsCollectionJobData>('metrics-collection', 'collect-metrics', {
+      tenantId,
+      platforms
+    });
     
-    res.json({
+    res.status(202).json({
       success: true,
       job: {
         id: job.id,
-        status: job.status,
-        metricsCollected: job.metricsCollected,
-        contentIds: job.contentIds
+        status: job.state,
+        queue: job.queue
       }
     });
   } catch (error) {
@@ -128,7 +132,7 @@ router.get('/content/:contentId/performance', async (req: Request, res: Response
       return res.status(400).json({ error: 'Platform parameter is required' });
     }
     
-    const validPlatforms = ['instagram', 'tiktok', 'facebook', 'linkedin'];
+    const validPlatforms = ['instagram', 'tiktok', 'facebook', 'linkedin', 'x', 'youtube', 'pinterest', 'threads', 'bluesky', 'google_business'];
     if (!validPlatforms.includes(platform as string)) {
       return res.status(400).json({ error: 'Invalid platform' });
     }
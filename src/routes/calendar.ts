@@ -77,7 +77,7 @@ export function createCalendarRoutes(db: Pool): Router {
       }
 
       // Validate platform
-      if (!['instagram', 'tiktok', 'facebook', 'linkedin'].includes(platform)) {
+      if (!['instagram', 'tiktok', 'facebook', 'linkedin', 'x', 'youtube', 'pinterest', 'threads', 'bluesky', 'google_business'].includes(platform)) {
         return res.status(400).json({ 
           error: 'Invalid platform. Must be instagram, tiktok, facebook, or linkedin' 
         });
@@ -133,7 +133,7 @@ export function createCalendarRoutes(db: Pool): Router {
       const { platform, targetDate, clientId } = req.query;
 
       // Validate platform
-      if (!platform || !['instagram', 'tiktok', 'facebook', 'linkedin'].includes(platform as string)) {
+      if (!platform || !['instagram', 'tiktok', 'facebook', 'linkedin', 'x', 'youtube', 'pinterest', 'threads', 'bluesky', 'google_business'].includes(platform as string)) {
         return res.status(400).json({ 
           error: 'Invalid or missing platform. Must be instagram, tiktok, facebook, or linkedin' 
         });
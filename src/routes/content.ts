@@ -1,37 +1,49 @@
 import { Router, Request, Response } from 'express';
 import { ContentService } from '../services/content.js';
-import { ContentGenerationService } from '../services/content-generation.js';
+import { ContentGenerationService, ContentGenerationRequest } from '../services/content-generation.js';
+import { PublisherService } from '../services/publishing/publisher-service.js';
+import { platformRateGovernor } from '../services/publishing/rate-governor.js';
+import { BusinessLocationService } from '../services/publishing/business-locations.js';
+import { GoogleBusinessAdapter } from '../services/publishing/google-business-adapter.js';
+import { PostPreviewRenderer } from '../services/publishing/post-preview.js';
 import { authenticateToken } from '../middleware/auth.js';
+import { logAuditEvent } from '../middleware/audit.js';
+import { openEventStream } from '../middleware/event-stream.js';
+import { AUDIT_ACTIONS, AUDIT_RESOURCES } from '../services/audit.js';
 import { getTenantContext } from '../middleware/tenant.js';
 import { DatabasePool } from '../interfaces/database.js';
-import { TenantContext, Content } from '../types/index.js';
+import { TenantContext, Content, Platform } from '../types/index.js';
 
 export function createContentRouter(db: DatabasePool): Router {
   const router = Router();
   const contentService = new ContentService(db);
   const contentGenerationService = new ContentGenerationService(db);
+  const publisherService = new PublisherService(db, platformRateGovernor);
+  const businessLocationService = new BusinessLocationService(db);
+  const postPreviewRenderer = new PostPreviewRenderer();
 
   // Apply authentication and tenant context middleware
   router.use(authenticateToken);
   router.use(getTenantContext);
 
+  const getGenerationRequest = (req: Request): ContentGenerationRequest => ({
+    briefingId: req.body.briefingId,
+    contentType: req.body.contentType,
+    title: req.body.title,
+    description: req.body.description,
+    targetPlatforms: req.body.targetPlatforms || ['instagram'],
+    generationOptions: req.body.generationOptions || {},
+    brandVoiceGuidelines: req.body.brandVoiceGuidelines || [],
+    bestPractices: req.body.bestPractices || [],
+    adaptationOptions: req.body.adaptationOptions || {}
+  });
+
   // Generate new content using AI
   router.post('/generate', async (req: Request, res: Response) => {
     try {
       const tenantContext = req.tenantContext as TenantContext;
-      const generationRequest = {
-        briefingId: req.body.briefingId,
-        contentType: req.body.contentType,
-        title: req.body.title,
-        description: req.body.description,
-        targetPlatforms: req.body.targetPlatforms || ['instagram'],
-        generationOptions: req.body.generationOptions || {},
-        brandVoiceGuidelines: req.body.brandVoiceGuidelines || [],
-        bestPractices: req.body.bestPractices || []
-      };
-
       const generatedContent = await contentGenerationService.generateContent(
-        generationRequest, 
+        getGenerationRequest(req), 
         tenantContext
       );
       
@@ -44,6 +56,35 @@ export function createContentRouter(db: DatabasePool): Router {
     }
   });
 
+  // Generate content streaming tokens as Server-Sent Events: token events
+  // while the text is written, then complete with the content or error
+  router.post('/generate/stream', async (req: Request, res: Response) => {
+    const tenantContext = req.tenantContext as TenantContext;
+    const stream = openEventStream(res);
+
+    try {
+      const generatedContent = await contentGenerationService.generateContent(
+        getGenerationRequest(req),
+        tenantContext,
+        {
+          onToken: text => stream.send('token', { text }),
+          signal: stream.signal
+        }
+      );
+
+      stream.send('complete', generatedContent);
+    } catch (error) {
+      if (!stream.signal.aborted) {
+        console.error('Error streaming content generation:', error);
+        stream.send('error', {
+          error: error instanceof Error ? error.message : 'Failed to generate content'
+        });
+      }
+    } finally {
+      stream.end();
+    }
+  });
+
   // Validate content against platform requirements
   router.post('/:id/validate/:platform', async (req: Request, res: Response) => {
     try {
@@ -95,6 +136,78 @@ export function createContentRouter(db: DatabasePool): Router {
     }
   });
 
+  // Which platforms allow published posts to be edited or deleted
+  router.get('/platforms/capabilities', async (req: Request, res: Response) => {
+    try {
+      res.json({ capabilities: publisherService.getPostCapabilities() });
+    } catch (error) {
+      console.error('Error getting platform capabilities:', error);
+      res.status(500).json({ error: 'Failed to get platform capabilities' });
+    }
+  });
+
+  // Get Google Business Profile locations for the location picker
+  router.get('/platforms/google_business/locations', async (req: Request, res: Response) => {
+    try {
+      const tenantContext = req.tenantContext as TenantContext;
+      const locations = await businessLocationService.listLocations(
+        tenantContext,
+        req.query.active === 'true'
+      );
+
+      res.json({ locations });
+    } catch (error) {
+      console.error('Error getting business locations:', error);
+      res.status(500).json({ error: 'Failed to get business locations' });
+    }
+  });
+
+  // Sync locations from the tenant's connected Google Business Profile account
+  router.post('/platforms/google_business/locations/sync', async (req: Request, res: Response) => {
+    try {
+      const tenantContext = req.tenantContext as TenantContext;
+      const credentials = await publisherService.getPlatformCredentials('google_business', tenantContext);
+
+      if (!credentials) {
+        return res.status(400).json({ error: 'Google Business Profile account not connected' });
+      }
+
+      const adapter = new GoogleBusinessAdapter(credentials);
+      const locations = await businessLocationService.syncLocations(await adapter.listLocations(), tenantContext);
+
+      res.json({ locations });
+    } catch (error) {
+      console.error('Error syncing business locations:', error);
+      res.status(500).json({ error: 'Failed to sync business locations' });
+    }
+  });
+
+  // Choose whether a location receives posts by default
+  router.put('/platforms/google_business/locations/:locationId', async (req: Request, res: Response) => {
+    try {
+      const tenantContext = req.tenantContext as TenantContext;
+
+      if (typeof req.body.isActive !== 'boolean') {
+        return res.status(400).json({ error: 'isActive must be a boolean' });
+      }
+
+      const location = await businessLocationService.setLocationActive(
+        req.params.locationId,
+        req.body.isActive,
+        tenantContext
+      );
+
+      if (!location) {
+        return res.status(404).json({ error: 'Location not found' });
+      }
+
+      res.json(location);
+    } catch (error) {
+      console.error('Error updating business location:', error);
+      res.status(500).json({ error: 'Failed to update business location' });
+    }
+  });
+
   // Create new content
   router.post('/', async (req: Request, res: Response) => {
     try {
@@ -219,5 +332,92 @@ export function createContentRouter(db: DatabasePool): Router {
     }
   });
 
+  // Render an HTML mockup of the post on each platform for approvers
+  router.get('/:id/preview', async (req: Request, res: Response) => {
+    try {
+      const tenantContext = req.tenantContext as TenantContext;
+      const content = await contentService.getContent(req.params.id, tenantContext);
+      const adaptedPlatforms = Object.keys(content.adaptedContent || {}) as Platform[];
+      const platforms = typeof req.query.platforms === 'string'
+        ? req.query.platforms.split(',').map(platform => platform.trim()) as Platform[]
+        : adaptedPlatforms;
+
+      const missing = platforms.filter(platform => !adaptedPlatforms.includes(platform));
+      if (missing.length > 0) {
+        return res.status(400).json({ error: `Content not adapted for platform: ${missing.join(', ')}` });
+      }
+
+      const brandConfig = tenantContext.tenant.brandConfig;
+      const previews = platforms.map(platform =>
+        postPreviewRenderer.renderPost(platform, content.adaptedContent[platform], brandConfig));
+
+      res.setHeader('Content-Type', 'text/html; charset=utf-8');
+      res.send(postPreviewRenderer.renderPage(content.title, previews, brandConfig));
+    } catch (error) {
+      console.error('Error rendering content preview:', error);
+      if (error instanceof Error && error.message === 'Content not found') {
+        res.status(404).json({ error: 'Content not found' });
+      } else {
+        res.status(500).json({ error: 'Failed to render content preview' });
+      }
+    }
+  });
+
+  // Correct published posts with the content's current version
+  router.put('/:id/posts', async (req: Request, res: Response) => {
+    try {
+      const tenantContext = req.tenantContext as TenantContext;
+      const platforms = req.body.platforms as Platform[] | undefined;
+      const results = await publisherService.updatePublishedContent(req.params.id, tenantContext, platforms);
+
+      if (results.length === 0) {
+        return res.status(404).json({ error: 'No published posts found for content' });
+      }
+
+      for (const result of results) {
+        await logAuditEvent(req, AUDIT_ACTIONS.PUBLISHED_POST_UPDATED, AUDIT_RESOURCES.PLATFORM_POST, result.platformPostId, {
+          contentId: req.params.id,
+          ...result
+        });
+      }
+
+      res.json({ results });
+    } catch (error) {
+      console.error('Error updating published posts:', error);
+      if (error instanceof Error && error.message === 'Content not found') {
+        res.status(404).json({ error: 'Content not found' });
+      } else {
+        res.status(500).json({ error: 'Failed to update published posts' });
+      }
+    }
+  });
+
+  // Take published posts down, e.g. for typos or legal issues
+  router.delete('/:id/posts', async (req: Request, res: Response) => {
+    try {
+      const tenantContext = req.tenantContext as TenantContext;
+      const platforms = req.body.platforms as Platform[] | undefined;
+      const results = await publisherService.takeDownContent(req.params.id, tenantContext, platforms);
+
+      if (results.length === 0) {
+        return res.status(404).json({ error: 'No published posts found for content' });
+      }
+
+      // Every takedown is audited, including those the platform refused
+      for (const result of results) {
+        await logAuditEvent(req, AUDIT_ACTIONS.PUBLISHED_POST_TAKEN_DOWN, AUDIT_RESOURCES.PLATFORM_POST, result.platformPostId, {
+          contentId: req.params.id,
+          reason: req.body.reason,
+          ...result
+        });
+      }
+
+      res.json({ results });
+    } catch (error) {
+      console.error('Error taking down published posts:', error);
+      res.status(500).json({ error: 'Failed to take down published posts' });
+    }
+  });
+
   return router;
 }
\ No newline at end of file
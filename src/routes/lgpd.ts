@@ -471,7 +471,7 @@ router.post('/decrypt-data', async (req: Request, res: Response) => {
       return res.status(403).json({ error: 'Insufficient permissions' });
     }
 
-    const { encryptedData, iv, authTag, dataType } = req.body;
+    const { encryptedData, iv, authTag, version, dataType } = req.body;
 
     if (!encryptedData || !iv || !authTag) {
       return res.status(400).json({ 
@@ -479,7 +479,8 @@ router.post('/decrypt-data', async (req: Request, res: Response) => {
       });
     }
 
-    const decryptedData = encryptionService.decrypt({ encryptedData, iv, authTag });
+    // Payloads without a version were encrypted before the move to AES-256-GCM
+    const decryptedData = encryptionService.decrypt({ encryptedData, iv, authTag, ...(version && { version }) });
 
     // Log the decryption operation
     await logAuditEvent(req, AUDIT_ACTIONS.DATA_EXPORT, AUDIT_RESOURCES.SYSTEM, undefined, {
@@ -0,0 +1,28 @@
+import { Router, Request, Response } from 'express';
+import { ShortLinkService } from '../services/publishing/short-links.js';
+import { DatabasePool } from '../interfaces/database.js';
+
+/**
+ * Short links in published posts are opened by anyone, so this router is
+ * mounted without authentication.
+ */
+export function createShortLinkRouter(db: DatabasePool): Router {
+  const router = Router();
+  const shortLinkService = new ShortLinkService(db);
+
+  router.get('/:code', async (req: Request, res: Response) => {
+    try {
+      const targetUrl = await shortLinkService.resolve(req.params.code as string, req.get('user-agent') || '');
+
+      if (!targetUrl) {
+        return res.status(404).json({ error: 'Link not found' });
+      }
+      res.redirect(302, targetUrl);
+    } catch (error) {
+      console.error('Error resolving short link:', error);
+      res.status(500).json({ error: 'Failed to resolve link' });
+    }
+  });
+
+  return router;
+}
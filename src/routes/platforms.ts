@@ -0,0 +1,162 @@
+import { Router, Request, Response } from 'express';
+import { PlatformConnectionService } from '../services/publishing/platform-connections.js';
+import { DatabasePool } from '../interfaces/database.js';
+import { Platform, TenantContext } from '../types/index.js';
+
+/**
+ * Return URLs must stay on the app, so the callback cannot be used as an
+ * open redirect. Browsers read a backslash as a slash, so /\host is treated
+ * like //host; those and control characters are rejected, also when
+ * percent-encoded.
+ */
+export function isAllowedReturnUrl(returnUrl: string): boolean {
+  let decoded: string;
+  try {
+    decoded = decodeURIComponent(returnUrl);
+  } catch {
+    return false;
+  }
+
+  for (const candidate of [returnUrl, decoded]) {
+    const start = candidate.slice(0, 2);
+    if (hasControlCharacters(candidate) || start === '//' || start.includes('\\')) {
+      return false;
+    }
+  }
+
+  try {
+    const appOrigin = new URL(process.env.APP_URL || 'http://localhost:3000').origin;
+    return new URL(returnUrl, appOrigin).origin === appOrigin;
+  } catch {
+    return false;
+  }
+}
+
+function hasControlCharacters(value: string): boolean {
+  for (let i = 0; i < value.length; i++) {
+    const code = value.charCodeAt(i);
+    if (code <= 0x1f || code === 0x7f) {
+      return true;
+    }
+  }
+  return false;
+}
+
+// Where the callback lands when the connect flow was started without a return URL
+function defaultReturnUrl(): string {
+  return `${process.env.APP_URL || 'http://localhost:3000'}/settings/platforms`;
+}
+
+function withQuery(url: string, params: Record<string, string>): string {
+  return `${url}${url.includes('?') ? '&' : '?'}${new URLSearchParams(params)}`;
+}
+
+export function createPlatformConnectionsRouter(db: DatabasePool): Router {
+  const router = Router();
+  const connectionService = new PlatformConnectionService(db);
+
+  // Platforms that can be connected through OAuth
+  router.get('/', async (req: Request, res: Response) => {
+    try {
+      res.json({ platforms: connectionService.getConnectablePlatforms() });
+    } catch (error) {
+      console.error('Error getting connectable platforms:', error);
+      res.status(500).json({ error: 'Failed to get connectable platforms' });
+    }
+  });
+
+  // Start connecting a platform account; the client redirects to the returned URL
+  router.post('/:platform/connect', async (req: Request, res: Response) => {
+    try {
+      const tenantContext = req.tenantContext as TenantContext;
+      const platform = req.params.platform as Platform;
+      const returnUrl = req.body.returnUrl as string | undefined;
+
+      if (!connectionService.getConnectablePlatforms().includes(platform)) {
+        return res.status(400).json({ error: `OAuth connect is not supported for platform: ${platform}` });
+      }
+      if (returnUrl && !isAllowedReturnUrl(returnUrl)) {
+        return res.status(400).json({ error: 'Invalid return URL' });
+      }
+
+      const authorizationUrl = await connectionService.createAuthorizationUrl(platform, tenantContext, returnUrl);
+      res.json({ authorizationUrl });
+    } catch (error) {
+      console.error('Error starting platform connection:', error);
+      res.status(500).json({ error: 'Failed to start platform connection' });
+    }
+  });
+
+  // Pages, accounts, organizations or boards the connected account can post to
+  router.get('/:platform/accounts', async (req: Request, res: Response) => {
+    try {
+      const tenantContext = req.tenantContext as TenantContext;
+      const accounts = await connectionService.listAccounts(req.params.platform as Platform, tenantContext);
+
+      res.json({ accounts });
+    } catch (error) {
+      console.error('Error listing platform accounts:', error);
+      res.status(500).json({ error: 'Failed to list platform accounts' });
+    }
+  });
+
+  // Pick the account the client tenant posts to
+  router.put('/:platform/accounts/:accountId', async (req: Request, res: Response) => {
+    try {
+      const tenantContext = req.tenantContext as TenantContext;
+      const account = await connectionService.selectAccount(
+        req.params.platform as Platform,
+        req.params.accountId as string,
+        tenantContext
+      );
+
+      res.json(account);
+    } catch (error) {
+      if (error instanceof Error && error.message.startsWith('Account not found')) {
+        return res.status(404).json({ error: error.message });
+      }
+      console.error('Error selecting platform account:', error);
+      res.status(500).json({ error: 'Failed to select platform account' });
+    }
+  });
+
+  return router;
+}
+
+/**
+ * Provider redirects land here without our session; the OAuth state
+ * identifies the tenant.
+ */
+export function createOAuthCallbackRouter(db: DatabasePool): Router {
+  const router = Router();
+  const connectionService = new PlatformConnectionService(db);
+
+  router.get('/:platform/callback', async (req: Request, res: Response) => {
+    const platform = req.params.platform as Platform;
+    const state = req.query.state as string | undefined;
+    const code = req.query.code as string | undefined;
+
+    if (!state) {
+      return res.status(400).json({ error: 'Missing OAuth state' });
+    }
+
+    try {
+      if (req.query.error || !code) {
+        const returnUrl = await connectionService.cancelConnection(platform, state);
+        const error = (req.query.error_description || req.query.error || 'Authorization was not granted') as string;
+
+        return res.redirect(withQuery(returnUrl || defaultReturnUrl(), { platform, status: 'error', error }));
+      }
+
+      const result = await connectionService.completeConnection(platform, code, state);
+      return res.redirect(withQuery(result.returnUrl || defaultReturnUrl(), { platform, status: 'connected' }));
+    } catch (error) {
+      console.error('Error completing platform connection:', error);
+      res.status(400).json({
+        error: error instanceof Error ? error.message : 'Failed to complete platform connection'
+      });
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,118 @@
+import { Router, Request, Response } from 'express';
+import {
+  PromptTemplateService,
+  DEFAULT_PROMPT_TEMPLATES,
+  PROMPT_TEMPLATE_VARIABLES
+} from '../services/prompt-templates.js';
+import { DatabasePool } from '../interfaces/database.js';
+import { PromptTemplateKey, TenantContext } from '../types/index.js';
+
+export function createPromptTemplateRouter(db: DatabasePool): Router {
+  const router = Router();
+  const promptTemplateService = new PromptTemplateService(db);
+
+  const isTemplateKey = (key: string | undefined): key is PromptTemplateKey =>
+    key !== undefined && Object.prototype.hasOwnProperty.call(DEFAULT_PROMPT_TEMPLATES, key);
+
+  // Get the tenant's templates, falling back to the platform defaults
+  router.get('/', async (req: Request, res: Response) => {
+    try {
+      const tenantContext = req.tenantContext as TenantContext;
+      const templates = await promptTemplateService.listTemplates(tenantContext);
+      return res.json(templates.map(template => ({ ...template, variables: PROMPT_TEMPLATE_VARIABLES[template.key] })));
+    } catch (error) {
+      console.error('Error fetching prompt templates:', error);
+      return res.status(500).json({ error: 'Failed to fetch prompt templates' });
+    }
+  });
+
+  // Get a template with the variables it can use
+  router.get('/:key', async (req: Request, res: Response) => {
+    try {
+      const tenantContext = req.tenantContext as TenantContext;
+      const { key } = req.params;
+
+      if (!isTemplateKey(key)) {
+        return res.status(404).json({ error: 'Prompt template not found' });
+      }
+
+      const template = await promptTemplateService.getTemplate(key, tenantContext);
+      return res.json({ ...template, variables: PROMPT_TEMPLATE_VARIABLES[key] });
+    } catch (error) {
+      console.error('Error fetching prompt template:', error);
+      return res.status(500).json({ error: 'Failed to fetch prompt template' });
+    }
+  });
+
+  // Save a new version of the tenant's template
+  router.put('/:key', async (req: Request, res: Response) => {
+    try {
+      const tenantContext = req.tenantContext as TenantContext;
+      const { key } = req.params;
+      const { body, changeNote } = req.body;
+
+      if (!isTemplateKey(key)) {
+        return res.status(404).json({ error: 'Prompt template not found' });
+      }
+      if (typeof body !== 'string') {
+        return res.status(400).json({ error: 'body is required' });
+      }
+
+      const template = await promptTemplateService.saveTemplate(key, body, tenantContext, changeNote);
+      return res.json(template);
+    } catch (error) {
+      console.error('Error saving prompt template:', error);
+      if (error instanceof Error && /prompt template/i.test(error.message)) {
+        return res.status(400).json({ error: error.message });
+      } else {
+        return res.status(500).json({ error: 'Failed to save prompt template' });
+      }
+    }
+  });
+
+  // Get the version history of the tenant's template
+  router.get('/:key/versions', async (req: Request, res: Response) => {
+    try {
+      const tenantContext = req.tenantContext as TenantContext;
+      const { key } = req.params;
+
+      if (!isTemplateKey(key)) {
+        return res.status(404).json({ error: 'Prompt template not found' });
+      }
+
+      const versions = await promptTemplateService.getTemplateVersions(key, tenantContext);
+      return res.json(versions);
+    } catch (error) {
+      console.error('Error fetching prompt template versions:', error);
+      return res.status(500).json({ error: 'Failed to fetch prompt template versions' });
+    }
+  });
+
+  // Restore an earlier version as the newest one
+  router.post('/:key/rollback', async (req: Request, res: Response) => {
+    try {
+      const tenantContext = req.tenantContext as TenantContext;
+      const { key } = req.params;
+      const version = Number(req.body.version);
+
+      if (!isTemplateKey(key)) {
+        return res.status(404).json({ error: 'Prompt template not found' });
+      }
+      if (!Number.isInteger(version) || version < 1) {
+        return res.status(400).json({ error: 'version must be a positive integer' });
+      }
+
+      const template = await promptTemplateService.rollbackTemplate(key, version, tenantContext);
+      return res.json(template);
+    } catch (error) {
+      console.error('Error rolling back prompt template:', error);
+      if (error instanceof Error && error.message.includes('not found')) {
+        return res.status(404).json({ error: error.message });
+      } else {
+        return res.status(500).json({ error: 'Failed to roll back prompt template' });
+      }
+    }
+  });
+
+  return router;
+}
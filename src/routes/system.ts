@@ -2,6 +2,7 @@ import { Router, Request, Response } from 'express';
 import { SystemIntegrationService } from '../services/system-integration';
 import { Pool } from 'pg';
 import { Redis } from 'ioredis';
+import { jobQueue, JobState, QueueName, QUEUE_NAMES } from '../services/queue/job-queue';
 
 export function createSystemRoutes(db: Pool, redis: Redis): Router {
   const router = Router();
@@ -164,6 +165,163 @@ export function createSystemRoutes(db: Pool, redis: Redis): Router {
     }
   });
 
+  /**
+   * GET /system/jobs - Get job counts for every background queue
+   */
+  router.get('/jobs', async (req: Request, res: Response) => {
+    try {
+      if (!req.user?.permissions?.some(p => p.name === 'system:admin')) {
+        return res.status(403).json({ error: 'Insufficient permissions' });
+      }
+
+      const stats = await Promise.all(QUEUE_NAMES.map(queue => jobQueue.getStats(queue)));
+
+      res.json({
+        success: true,
+        data: stats
+      });
+    } catch (error) {
+      console.error('Job queue stats retrieval failed:', error);
+      res.status(500).json({ 
+        error: 'Failed to get job queue stats',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  });
+
+  /**
+   * GET /system/jobs/:queue - List jobs in a queue by state (waiting, delayed, active, dead)
+   */
+  router.get('/jobs/:queue', async (req: Request, res: Response) => {
+    try {
+      if (!req.user?.permissions?.some(p => p.name === 'system:admin')) {
+        return res.status(403).json({ error: 'Insufficient permissions' });
+      }
+
+      const queue = req.params.queue as QueueName;
+      const state = (req.query.state as string) || 'dead';
+      const limit = Math.min(parseInt(req.query.limit as string) || 50, 500);
+
+      if (!QUEUE_NAMES.includes(queue)) {
+        return res.status(404).json({ error: 'Queue not found' });
+      }
+      if (!['waiting', 'delayed', 'active', 'dead'].includes(state)) {
+        return res.status(400).json({ error: 'state must be one of: waiting, delayed, active, dead' });
+      }
+
+      const jobs = await jobQueue.listJobs(queue, state as Exclude<JobState, 'completed'>, limit);
+
+      res.json({
+        success: true,
+        data: jobs
+      });
+    } catch (error) {
+      console.error('Job listing failed:', error);
+      res.status(500).json({ 
+        error: 'Failed to list jobs',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  });
+
+  /**
+   * GET /system/jobs/:queue/:jobId - Get a single job
+   */
+  router.get('/jobs/:queue/:jobId', async (req: Request, res: Response) => {
+    try {
+      if (!req.user?.permissions?.some(p => p.name === 'system:admin')) {
+        return res.status(403).json({ error: 'Insufficient permissions' });
+      }
+
+      const queue = req.params.queue as QueueName;
+      if (!QUEUE_NAMES.includes(queue)) {
+        return res.status(404).json({ error: 'Queue not found' });
+      }
+
+      const job = await jobQueue.getJob(queue, req.params.jobId);
+      if (!job) {
+        return res.status(404).json({ error: 'Job not found' });
+      }
+
+      res.json({
+        success: true,
+        data: job
+      });
+    } catch (error) {
+      console.error('Job retrieval failed:', error);
+      res.status(500).json({ 
+        error: 'Failed to get job',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  });
+
+  /**
+   * POST /system/jobs/:queue/:jobId/retry - Move a dead-lettered job back to the queue
+   */
+  router.post('/jobs/:queue/:jobId/retry', async (req: Request, res: Response) => {
+    try {
+      if (!req.user?.permissions?.some(p => p.name === 'system:admin')) {
+        return res.status(403).json({ error: 'Insufficient permissions' });
+      }
+
+      const queue = req.params.queue as QueueName;
+      if (!QUEUE_NAMES.includes(queue)) {
+        return res.status(404).json({ error: 'Queue not found' });
+      }
+
+      const job = await jobQueue.retry(queue, req.params.jobId);
+      if (!job) {
+        return res.status(404).json({ error: 'Job not found in dead-letter queue' });
+      }
+
+      res.json({
+        success: true,
+        data: job
+      });
+    } catch (error) {
+      console.error('Job retry failed:', error);
+      res.status(500).json({ 
+        error: 'Failed to retry job',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  });
+
+  /**
+   * DELETE /system/jobs/:queue - Purge jobs in a state (waiting, delayed, dead)
+   */
+  router.delete('/jobs/:queue', async (req: Request, res: Response) => {
+    try {
+      if (!req.user?.permissions?.some(p => p.name === 'system:admin')) {
+        return res.status(403).json({ error: 'Insufficient permissions' });
+      }
+
+      const queue = req.params.queue as QueueName;
+      const state = (req.query.state as string) || 'dead';
+
+      if (!QUEUE_NAMES.includes(queue)) {
+        return res.status(404).json({ error: 'Queue not found' });
+      }
+      if (state !== 'waiting' && state !== 'delayed' && state !== 'dead') {
+        return res.status(400).json({ error: 'state must be one of: waiting, delayed, dead' });
+      }
+
+      const purged = await jobQueue.purge(queue, state);
+
+      res.json({
+        success: true,
+        data: { queue, state, purged }
+      });
+    } catch (error) {
+      console.error('Job purge failed:', error);
+      res.status(500).json({ 
+        error: 'Failed to purge jobs',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  });
+
   return router;
 }
 
@@ -2,7 +2,10 @@ import { Router, Request, Response } from 'express';
 import { VideoScriptService } from '../services/video-script.js';
 import { authenticateToken } from '../middleware/auth.js';
 import { extractTenantContext } from '../middleware/tenant.js';
+import { openEventStream } from '../middleware/event-stream.js';
 import { db } from '../config/database.js';
+import { jobQueue } from '../services/queue/job-queue.js';
+import { VideoScriptJobData } from '../services/queue/job-handlers.js';
 import {
   ScriptGenerationRequest,
   ScriptTemplate,
@@ -19,10 +22,15 @@ router.use(authenticateToken);
 router.use(extractTenantContext);
 
 /**
- * Generate a new video script
+ * Queue generation of a new video script
  * POST /api/video-scripts
  */
 router.post('/', async (req: Request, res: Response) => {
+  const tenantContext = req.tenantContext;
+  if (!tenantContext) {
+    return res.status(400).json({ error: 'Tenant context required' });
+  }
+
   try {
     const request: ScriptGenerationRequest = req.body;
     
@@ -33,16 +41,109 @@ router.post('/', async (req: Request, res: Response) => {
       });
     }
 
-    const script = await videoScriptService.generateScript(request, req.tenantContext);
+    const job = await jobQueue.add<VideoScriptJobData>('ai-generation', 'video-script', {
+      request,
+      tenantId: tenantContext.tenantId,
+      userId: tenantContext.user.id
+    }, { maxAttempts: 2 });
     
-    res.status(201).json({
+    return res.status(202).json({
       success: true,
-      data: script
+      data: {
+        jobId: job.id,
+        status: job.state
+      }
     });
   } catch (error) {
-    console.error('Error generating video script:', error);
-    res.status(500).json({
-      error: error instanceof Error ? error.message : 'Failed to generate video script'
+    console.error('Error queueing video script generation:', error);
+    return res.status(500).json({
+      error: error instanceof Error ? error.message : 'Failed to queue video script generation'
+    });
+  }
+});
+
+/**
+ * Generate a video script streaming progress as Server-Sent Events:
+ * section_start, token and section_complete for each section, then
+ * complete with the saved script or error
+ * POST /api/video-scripts/stream
+ */
+router.post('/stream', async (req: Request, res: Response) => {
+  const tenantContext = req.tenantContext;
+  if (!tenantContext) {
+    return res.status(400).json({ error: 'Tenant context required' });
+  }
+
+  const request: ScriptGenerationRequest = req.body;
+
+  if (!request.briefingId || !request.templateId || !request.title || !request.targetPlatform) {
+    return res.status(400).json({
+      error: 'Missing required fields: briefingId, templateId, title, targetPlatform'
+    });
+  }
+
+  const stream = openEventStream(res);
+
+  try {
+    const script = await videoScriptService.generateScript(request, tenantContext, {
+      onSectionStart: (section, index, total) => stream.send('section_start', {
+        type: section.type,
+        title: section.title,
+        index,
+        total
+      }),
+      onToken: (sectionType, text) => stream.send('token', { section: sectionType, text }),
+      onSectionComplete: (section, index, total) => stream.send('section_complete', { section, index, total }),
+      signal: stream.signal
+    });
+
+    stream.send('complete', { success: true, data: script });
+  } catch (error) {
+    if (!stream.signal.aborted) {
+      console.error('Error streaming video script generation:', error);
+      stream.send('error', {
+        error: error instanceof Error ? error.message : 'Failed to generate video script'
+      });
+    }
+  } finally {
+    stream.end();
+  }
+});
+
+/**
+ * Get the status of a queued script generation
+ * GET /api/video-scripts/jobs/:jobId
+ */
+router.get('/jobs/:jobId', async (req: Request, res: Response) => {
+  const tenantContext = req.tenantContext;
+  if (!tenantContext) {
+    return res.status(400).json({ error: 'Tenant context required' });
+  }
+
+  try {
+    const job = await jobQueue.getJob('ai-generation', req.params.jobId as string);
+
+    if (!job || job.type !== 'video-script' ||
+        (job.data as VideoScriptJobData).tenantId !== tenantContext.tenantId) {
+      return res.status(404).json({
+        error: 'Job not found'
+      });
+    }
+
+    return res.json({
+      success: true,
+      data: {
+        jobId: job.id,
+        status: job.state,
+        attempts: job.attempts,
+        scriptId: job.result?.scriptId,
+        error: job.state === 'dead' ? job.lastError : undefined
+      }
+    });
+  } catch (error) {
+    console.error('Error getting script generation job:', error);
+    return res.status(500).json({
+      error: error instanceof Error ? error.message : 'Failed to get script generation job'
     });
   }
 });
@@ -354,7 +354,10 @@ export class AIBillingService {
       'gpt-4-turbo': 1.5,
       'gpt-3.5-turbo': 1.0,
       'dall-e-3': 2.0,
-      'dall-e-2': 1.0
+      'dall-e-2': 1.0,
+      'claude-opus-4-1': 2.5,
+      'claude-sonnet-4-5': 1.5,
+      'claude-haiku-4-5': 0.5
     };
 
     return modelMultipliers[model] || 1.0;
@@ -378,6 +381,14 @@ export class AIBillingService {
       qualityMultiplier: 1.0
     });
 
+    // One credit per thousand input and output tokens on Anthropic models
+    this.creditRates.set('anthropic_text', {
+      baseRate: 1,
+      perTokenRate: 1,
+      perSecondRate: 0,
+      qualityMultiplier: 1.0
+    });
+
     this.creditRates.set('image', {
       baseRate: 5,
       perTokenRate: 0,
@@ -11,9 +11,11 @@ import {
   AIProviderInterface,
   AICapability,
   ProviderConfig,
-  HealthStatus
+  HealthStatus,
+  RoutingDecision
 } from '../types';
 import { db } from '../config/database';
+import { SecretEncryptionService } from './secret-encryption';
 
 // Database interface for dependency injection
 interface DatabaseConnection {
@@ -24,9 +26,11 @@ export class AIIntegrationHub {
   private providers: Map<string, AIProviderInterface> = new Map();
   private healthCheckInterval: NodeJS.Timeout | null = null;
   private database: DatabaseConnection;
+  private secretEncryption: SecretEncryptionService;
 
   constructor(database?: DatabaseConnection) {
     this.database = database || db;
+    this.secretEncryption = new SecretEncryptionService(this.database);
     // Start health monitoring
     this.startHealthMonitoring();
   }
@@ -37,13 +41,7 @@ export class AIIntegrationHub {
   async registerProvider(provider: AIProviderInterface, config: ProviderConfig, tenantId: string): Promise<void> {
     try {
       // Test provider connectivity
-      const credentials: ProviderCredentials = {
-        apiKey: config.apiKey,
-        secretKey: config.additionalHeaders?.['X-Secret-Key'],
-        additionalCredentials: config.additionalHeaders
-      };
-
-      const isAuthenticated = await provider.authenticate(credentials);
+      const isAuthenticated = await provider.authenticate(this.buildCredentials(config));
       if (!isAuthenticated) {
         throw new Error(`Failed to authenticate with provider: ${provider.name}`);
       }
@@ -78,7 +76,7 @@ export class AIIntegrationHub {
         provider.name,
         this.getProviderType(provider.capabilities),
         JSON.stringify(provider.capabilities),
-        JSON.stringify(config),
+        JSON.stringify(await this.encryptConfig(config, tenantId)),
         true,
         JSON.stringify(healthStatus),
         tenantId
@@ -107,6 +105,46 @@ export class AIIntegrationHub {
     }
   }
 
+  /**
+   * Attach a provider implementation to its stored configuration, e.g. after
+   * a restart. The stored API key is only decrypted here, to authenticate.
+   */
+  async restoreProvider(provider: AIProviderInterface): Promise<void> {
+    const query = this.database === db ?
+      'SELECT config, tenant_id FROM public.ai_providers WHERE id = $1 AND is_active = true' :
+      'SELECT config, tenant_id FROM ai_providers WHERE id = ? AND is_active = 1';
+
+    const result = await this.database.query(query, [provider.id]);
+    const rows = result.rows || result;
+    if (rows.length === 0) {
+      throw new Error(`Provider not found: ${provider.id}`);
+    }
+
+    const storedConfig = typeof rows[0].config === 'string' ? JSON.parse(rows[0].config) : rows[0].config;
+    const config: ProviderConfig = {
+      ...storedConfig,
+      apiKey: await this.secretEncryption.decrypt<string>(storedConfig.apiKey)
+    };
+
+    // Move API keys encrypted with a rotated data key onto the active one
+    if (SecretEncryptionService.isEncrypted(storedConfig.apiKey) &&
+        await this.secretEncryption.needsReEncryption(storedConfig.apiKey, rows[0].tenant_id)) {
+      const updateQuery = this.database === db ?
+        'UPDATE public.ai_providers SET config = $1 WHERE id = $2' :
+        'UPDATE ai_providers SET config = ? WHERE id = ?';
+
+      const reEncryptedConfig = { ...storedConfig, ...await this.encryptConfig({ apiKey: config.apiKey }, rows[0].tenant_id) };
+      await this.database.query(updateQuery, [JSON.stringify(reEncryptedConfig), provider.id]);
+    }
+
+    const isAuthenticated = await provider.authenticate(this.buildCredentials(config));
+    if (!isAuthenticated) {
+      throw new Error(`Failed to authenticate with provider: ${provider.name}`);
+    }
+
+    this.providers.set(provider.id, provider);
+  }
+
   /**
    * Test connectivity to a specific provider
    */
@@ -179,29 +217,30 @@ export class AIIntegrationHub {
   }
 
   /**
-   * Route AI request to appropriate provider with fallback
+   * Send an AI request to the provider chosen by the routing decision,
+   * falling back along its chain. Without a decision, providers are tried
+   * in priority order: tenant providers first, then by health.
    */
-  async routeRequest(request: AIRequest): Promise<AIResponse> {
+  async routeRequest(request: AIRequest, decision?: RoutingDecision): Promise<AIResponse> {
     const startTime = Date.now();
+    let routing: RoutingDecision | undefined = decision;
     
     try {
-      // Find suitable providers for the request type
-      const suitableProviders = await this.findSuitableProviders(request.type, request.tenantId);
-      
-      if (suitableProviders.length === 0) {
-        throw new Error(`No suitable providers found for request type: ${request.type}`);
-      }
+      routing = routing || await this.getPriorityDecision(request);
 
-      // Try providers in order of health and priority
       let lastError: Error | null = null;
       
-      for (const dbProvider of suitableProviders) {
-        const provider = this.providers.get(dbProvider.id);
-        if (!provider) continue;
+      for (const target of [routing, ...routing.fallbackChain]) {
+        const provider = this.providers.get(target.providerId);
+        if (!provider) {
+          console.warn(`Provider ${target.providerId} is not registered, skipping`);
+          continue;
+        }
 
         try {
           // Generate content using the provider
-          const content = await provider.generateContent(request.prompt, request.options);
+          const options = target.model ? { ...request.options, model: target.model } : request.options;
+          const content = await provider.generateContent(request.prompt, options);
           
           // Get usage metrics
           const usage = await provider.getUsage(request.tenantId);
@@ -212,11 +251,12 @@ export class AIIntegrationHub {
           const response: AIResponse = {
             id: uuidv4(),
             requestId: request.id,
-            providerId: dbProvider.id,
+            providerId: target.providerId,
             content,
             usage,
             status: 'success',
             processingTime,
+            routing,
             createdAt: new Date()
           };
 
@@ -224,15 +264,15 @@ export class AIIntegrationHub {
           await this.logAIRequest(request, response);
           
           // Update usage tracking
-          await this.updateUsageTracking(request.tenantId, dbProvider.id, usage);
+          await this.updateUsageTracking(request.tenantId, target.providerId, usage);
 
           return response;
         } catch (providerError) {
-          console.warn(`Provider ${dbProvider.name} failed:`, providerError);
+          console.warn(`Provider ${provider.name} failed:`, providerError);
           lastError = providerError instanceof Error ? providerError : new Error('Unknown provider error');
           
           // Update provider health status
-          await this.recordProviderFailure(dbProvider.id);
+          await this.recordProviderFailure(target.providerId);
           continue;
         }
       }
@@ -242,19 +282,97 @@ export class AIIntegrationHub {
     } catch (error) {
       console.error('Error routing AI request:', error);
       
-      const processingTime = Date.now() - startTime;
-      const errorResponse: AIResponse = {
-        id: uuidv4(),
-        requestId: request.id,
-        providerId: '',
-        content: { type: request.type, data: '' },
-        usage: { creditsConsumed: 0, requestCount: 1, processingTime },
-        status: 'error',
-        error: error instanceof Error ? error.message : 'Unknown error',
-        processingTime,
-        createdAt: new Date()
-      };
+      const errorResponse = this.createErrorResponse(request, error, Date.now() - startTime, routing);
+      await this.logAIRequest(request, errorResponse);
+      return errorResponse;
+    }
+  }
+
+  /**
+   * Stream a text request, calling onToken as the provider generates text.
+   * Fallback only happens before the first token, since streamed text
+   * cannot be taken back. Providers without streaming send their whole
+   * text as one token. An aborted stream resolves as a 'partial' response
+   * carrying the usage of the text generated so far.
+   */
+  async streamRequest(
+    request: AIRequest,
+    onToken: (text: string) => void,
+    signal?: AbortSignal,
+    decision?: RoutingDecision
+  ): Promise<AIResponse> {
+    const startTime = Date.now();
+    let routing: RoutingDecision | undefined = decision;
+    let streamed = false;
+
+    try {
+      routing = routing || await this.getPriorityDecision(request);
+
+      let lastError: Error | null = null;
+
+      for (const target of [routing, ...routing.fallbackChain]) {
+        const provider = this.providers.get(target.providerId);
+        if (!provider) {
+          console.warn(`Provider ${target.providerId} is not registered, skipping`);
+          continue;
+        }
+
+        try {
+          const options = target.model ? { ...request.options, model: target.model } : request.options;
+          const emit = (text: string) => {
+            streamed = true;
+            onToken(text);
+          };
+
+          let content: GeneratedContent;
+          if (provider.streamContent) {
+            content = await provider.streamContent(request.prompt, options, emit, signal);
+          } else {
+            content = await provider.generateContent(request.prompt, options);
+            emit(typeof content.data === 'string' ? content.data : JSON.stringify(content.data));
+          }
+
+          // Usage comes from this stream alone, so aborted streams bill what was generated
+          const processingTime = Date.now() - startTime;
+          const usage: UsageMetrics = {
+            tokensUsed: Number(content.metadata?.tokensUsed || 0),
+            creditsConsumed: 0,
+            requestCount: 1,
+            processingTime
+          };
 
+          const response: AIResponse = {
+            id: uuidv4(),
+            requestId: request.id,
+            providerId: target.providerId,
+            content,
+            usage,
+            status: content.metadata?.aborted ? 'partial' : 'success',
+            processingTime,
+            routing,
+            createdAt: new Date()
+          };
+
+          await this.logAIRequest(request, response);
+          await this.updateUsageTracking(request.tenantId, target.providerId, usage);
+
+          return response;
+        } catch (providerError) {
+          console.warn(`Provider ${provider.name} failed while streaming:`, providerError);
+          lastError = providerError instanceof Error ? providerError : new Error('Unknown provider error');
+
+          await this.recordProviderFailure(target.providerId);
+          if (streamed || signal?.aborted) {
+            break;
+          }
+        }
+      }
+
+      throw lastError || new Error('All providers failed');
+    } catch (error) {
+      console.error('Error streaming AI request:', error);
+
+      const errorResponse = this.createErrorResponse(request, error, Date.now() - startTime, routing);
       await this.logAIRequest(request, errorResponse);
       return errorResponse;
     }
@@ -337,8 +455,8 @@ export class AIIntegrationHub {
   async updateProvider(providerId: string, config: Partial<ProviderConfig>): Promise<void> {
     try {
       const selectQuery = this.database === db ?
-        'SELECT config FROM public.ai_providers WHERE id = $1' :
-        'SELECT config FROM ai_providers WHERE id = ?';
+        'SELECT config, tenant_id FROM public.ai_providers WHERE id = $1' :
+        'SELECT config, tenant_id FROM ai_providers WHERE id = ?';
 
       const currentProvider = await this.database.query(selectQuery, [providerId]);
 
@@ -348,7 +466,7 @@ export class AIIntegrationHub {
       }
 
       const currentConfig = rows[0].config;
-      const updatedConfig = { ...currentConfig, ...config };
+      const updatedConfig = { ...currentConfig, ...await this.encryptConfig(config, rows[0].tenant_id) };
 
       const updateQuery = this.database === db ?
         `UPDATE public.ai_providers 
@@ -392,6 +510,26 @@ export class AIIntegrationHub {
     }
   }
 
+  /**
+   * Routing decision for requests sent without one: the registered
+   * providers for the request type in priority order
+   */
+  private async getPriorityDecision(request: AIRequest): Promise<RoutingDecision> {
+    const suitableProviders = (await this.findSuitableProviders(request.type, request.tenantId))
+      .filter(provider => this.providers.has(provider.id));
+
+    const [selected, ...fallbacks] = suitableProviders;
+    if (!selected) {
+      throw new Error(`No suitable providers found for request type: ${request.type}`);
+    }
+
+    return {
+      strategy: 'priority',
+      providerId: selected.id,
+      fallbackChain: fallbacks.map(provider => ({ providerId: provider.id }))
+    };
+  }
+
   /**
    * Find suitable providers for a request type
    */
@@ -531,13 +669,15 @@ export class AIIntegrationHub {
         // PostgreSQL syntax
         `INSERT INTO public.ai_request_logs (
           id, request_id, provider_id, tenant_id, user_id, request_type, 
-          prompt, options, response_status, error_message, processing_time, created_at
-        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, CURRENT_TIMESTAMP)` :
+          prompt, options, response_status, error_message, processing_time, routing_decision,
+          prompt_template_id, prompt_template_version, created_at
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, CURRENT_TIMESTAMP)` :
         // SQLite syntax
         `INSERT INTO ai_request_logs (
           id, request_id, provider_id, tenant_id, user_id, request_type, 
-          prompt, options, response_status, error_message, processing_time, created_at
-        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, datetime('now'))`;
+          prompt, options, response_status, error_message, processing_time, routing_decision,
+          prompt_template_id, prompt_template_version, created_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, datetime('now'))`;
 
       await this.database.query(query, [
         uuidv4(),
@@ -550,7 +690,10 @@ export class AIIntegrationHub {
         JSON.stringify(request.options),
         response.status,
         response.error || null,
-        response.processingTime
+        response.processingTime,
+        response.routing ? JSON.stringify(response.routing) : null,
+        request.promptTemplate?.templateId || null,
+        request.promptTemplate?.version ?? null
       ]);
     } catch (error) {
       console.error('Error logging AI request:', error);
@@ -626,6 +769,45 @@ export class AIIntegrationHub {
       'text';
   }
 
+  private createErrorResponse(
+    request: AIRequest,
+    error: unknown,
+    processingTime: number,
+    routing?: RoutingDecision
+  ): AIResponse {
+    return {
+      id: uuidv4(),
+      requestId: request.id,
+      providerId: '',
+      content: { type: request.type, data: '' },
+      usage: { creditsConsumed: 0, requestCount: 1, processingTime },
+      status: 'error',
+      error: error instanceof Error ? error.message : 'Unknown error',
+      processingTime,
+      ...(routing && { routing }),
+      createdAt: new Date()
+    };
+  }
+
+  private buildCredentials(config: ProviderConfig): ProviderCredentials {
+    return {
+      apiKey: config.apiKey,
+      ...(config.baseUrl && { baseUrl: config.baseUrl }),
+      secretKey: config.additionalHeaders?.['X-Secret-Key'],
+      additionalCredentials: config.additionalHeaders
+    };
+  }
+
+  /**
+   * API keys are stored encrypted with the tenant's data key
+   */
+  private async encryptConfig(config: Partial<ProviderConfig>, tenantId: string | null): Promise<Record<string, unknown>> {
+    if (!config.apiKey) {
+      return { ...config };
+    }
+    return { ...config, apiKey: await this.secretEncryption.encrypt(config.apiKey, tenantId) };
+  }
+
   /**
    * Map database provider to AIProvider interface
    */
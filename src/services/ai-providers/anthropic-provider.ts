@@ -0,0 +1,321 @@
+import {
+  AIProviderInterface,
+  AICapability,
+  ProviderCredentials,
+  GeneratedContent,
+  GenerationOptions,
+  HealthCheck,
+  UsageMetrics
+} from '../../types';
+import { estimateTokens, readEventStream } from './event-stream';
+
+export interface AnthropicProviderOptions {
+  baseUrl: string;
+  maxAttempts: number; // attempts for requests rejected with 429 or 529
+  retryDelayMs: number; // first backoff delay, doubled on every attempt
+}
+
+interface AnthropicMessageResponse {
+  id: string;
+  model: string;
+  content: { type: string; text?: string }[];
+  stop_reason: 'end_turn' | 'max_tokens' | 'stop_sequence' | 'tool_use' | 'pause_turn' | 'refusal' | null;
+  stop_sequence: string | null;
+  usage: {
+    input_tokens: number;
+    output_tokens: number;
+    cache_creation_input_tokens?: number;
+    cache_read_input_tokens?: number;
+  };
+}
+
+const API_VERSION = '2023-06-01';
+const MAX_RETRY_DELAY_MS = 30000;
+
+/**
+ * Anthropic Provider Implementation
+ * Integrates with Anthropic's Messages API for text generation
+ */
+export class AnthropicProvider implements AIProviderInterface {
+  public readonly id: string = 'anthropic';
+  public readonly name: string = 'Anthropic';
+  public readonly capabilities: AICapability[] = [
+    {
+      type: 'text_generation',
+      models: ['claude-sonnet-4-5', 'claude-opus-4-1', 'claude-haiku-4-5'],
+      maxTokens: 8192,
+      rateLimits: {
+        requestsPerMinute: 50,
+        requestsPerHour: 3000,
+        requestsPerDay: 50000
+      }
+    }
+  ];
+
+  private apiKey: string = '';
+  private isAuthenticated: boolean = false;
+  private options: AnthropicProviderOptions = {
+    baseUrl: 'https://api.anthropic.com/v1',
+    maxAttempts: 3,
+    retryDelayMs: 1000
+  };
+  private usage = { tokensUsed: 0, requestCount: 0, processingTime: 0 };
+
+  constructor(options: Partial<AnthropicProviderOptions> = {}) {
+    this.options = { ...this.options, ...options };
+  }
+
+  async authenticate(credentials: ProviderCredentials): Promise<boolean> {
+    try {
+      this.apiKey = credentials.apiKey;
+      if (credentials.baseUrl) {
+        this.options.baseUrl = credentials.baseUrl;
+      }
+
+      // Test authentication by listing the available models
+      const response = await fetch(`${this.options.baseUrl}/models`, {
+        headers: this.getHeaders()
+      });
+
+      this.isAuthenticated = response.ok;
+      return this.isAuthenticated;
+    } catch (error) {
+      console.error('Anthropic authentication error:', error);
+      this.isAuthenticated = false;
+      return false;
+    }
+  }
+
+  async generateContent(prompt: string, options: GenerationOptions): Promise<GeneratedContent> {
+    if (!this.isAuthenticated) {
+      throw new Error('Anthropic provider not authenticated');
+    }
+
+    const startTime = Date.now();
+    const response = await this.sendMessage(this.buildMessageRequest(prompt, options));
+    const data = await response.json() as AnthropicMessageResponse;
+    const text = data.content
+      .filter(block => block.type === 'text')
+      .map(block => block.text || '')
+      .join('');
+    const tokensUsed = data.usage.input_tokens + data.usage.output_tokens;
+
+    this.usage.tokensUsed += tokensUsed;
+    this.usage.requestCount++;
+    this.usage.processingTime += Date.now() - startTime;
+
+    return {
+      type: 'text',
+      data: text,
+      metadata: {
+        model: data.model,
+        messageId: data.id,
+        tokensUsed,
+        promptTokens: data.usage.input_tokens,
+        completionTokens: data.usage.output_tokens,
+        cacheReadTokens: data.usage.cache_read_input_tokens || 0,
+        stopReason: data.stop_reason,
+        stopSequence: data.stop_sequence,
+        // The text was cut off at max_tokens
+        truncated: data.stop_reason === 'max_tokens'
+      }
+    };
+  }
+
+  /**
+   * Stream a message, following the content_block_delta events. Input
+   * tokens arrive with message_start and output tokens with message_delta.
+   */
+  async streamContent(
+    prompt: string,
+    options: GenerationOptions,
+    onToken: (text: string) => void,
+    signal?: AbortSignal
+  ): Promise<GeneratedContent> {
+    if (!this.isAuthenticated) {
+      throw new Error('Anthropic provider not authenticated');
+    }
+
+    const startTime = Date.now();
+    const requestBody = this.buildMessageRequest(prompt, options);
+    let text = '';
+    let model = requestBody.model;
+    let stopReason: AnthropicMessageResponse['stop_reason'] = null;
+    let inputTokens: number | undefined;
+    let outputTokens: number | undefined;
+
+    try {
+      const response = await this.sendMessage({ ...requestBody, stream: true }, signal);
+
+      await readEventStream(response, event => {
+        const data = JSON.parse(event.data);
+        switch (data.type) {
+          case 'message_start':
+            model = data.message.model;
+            inputTokens = data.message.usage?.input_tokens;
+            break;
+          case 'content_block_delta':
+            if (data.delta?.type === 'text_delta') {
+              text += data.delta.text;
+              onToken(data.delta.text);
+            }
+            break;
+          case 'message_delta':
+            stopReason = data.delta?.stop_reason ?? stopReason;
+            outputTokens = data.usage?.output_tokens ?? outputTokens;
+            break;
+          case 'error':
+            // Overload can also be reported after the stream has started
+            throw new Error(data.error?.type === 'overloaded_error'
+              ? this.describeError(529, data.error.message)
+              : `Anthropic stream error: ${data.error?.message || 'Unknown error'}`);
+        }
+      });
+    } catch (error) {
+      if (!signal?.aborted) {
+        throw error;
+      }
+    }
+
+    const promptTokens = inputTokens ?? estimateTokens(prompt);
+    const completionTokens = outputTokens ?? estimateTokens(text);
+    const tokensUsed = promptTokens + completionTokens;
+
+    this.usage.tokensUsed += tokensUsed;
+    this.usage.requestCount++;
+    this.usage.processingTime += Date.now() - startTime;
+
+    return {
+      type: 'text',
+      data: text,
+      metadata: {
+        model,
+        tokensUsed,
+        promptTokens,
+        completionTokens,
+        stopReason,
+        truncated: stopReason === 'max_tokens',
+        ...(signal?.aborted && { aborted: true })
+      }
+    };
+  }
+
+  async checkHealth(): Promise<HealthCheck> {
+    const startTime = Date.now();
+
+    try {
+      const response = await fetch(`${this.options.baseUrl}/models`, {
+        headers: this.getHeaders(),
+        signal: AbortSignal.timeout(5000) // 5 second timeout
+      });
+
+      const responseTime = Date.now() - startTime;
+      const isHealthy = response.ok;
+
+      return {
+        providerId: this.id,
+        isHealthy,
+        responseTime,
+        timestamp: new Date(),
+        ...(!isHealthy && { error: this.describeError(response.status, response.statusText) })
+      };
+    } catch (error) {
+      return {
+        providerId: this.id,
+        isHealthy: false,
+        responseTime: Date.now() - startTime,
+        timestamp: new Date(),
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  async getUsage(): Promise<UsageMetrics> {
+    // Tokens are counted from the usage Anthropic reports with each message
+    return {
+      tokensUsed: this.usage.tokensUsed,
+      creditsConsumed: 0,
+      requestCount: this.usage.requestCount,
+      processingTime: this.usage.requestCount > 0 ? Math.round(this.usage.processingTime / this.usage.requestCount) : 0
+    };
+  }
+
+  private buildMessageRequest(prompt: string, options: GenerationOptions) {
+    return {
+      model: options.model || 'claude-sonnet-4-5',
+      max_tokens: options.maxTokens || 1000,
+      ...(options.systemPrompt && { system: options.systemPrompt }),
+      messages: [
+        ...(options.messages || []),
+        { role: 'user', content: prompt }
+      ],
+      ...(options.temperature !== undefined && { temperature: options.temperature }),
+      ...(options.topP !== undefined && { top_p: options.topP }),
+      ...(options.stopSequences && { stop_sequences: options.stopSequences })
+    };
+  }
+
+  /**
+   * Send a Messages API request. Rate limited (429) and overloaded (529)
+   * requests are retried with backoff, honouring retry-after; other errors
+   * fail at once so the hub can fall back to another provider.
+   */
+  private async sendMessage(requestBody: Record<string, unknown>, signal?: AbortSignal): Promise<Response> {
+    for (let attempt = 1; ; attempt++) {
+      const response = await fetch(`${this.options.baseUrl}/messages`, {
+        method: 'POST',
+        headers: this.getHeaders(),
+        body: JSON.stringify(requestBody),
+        ...(signal && { signal })
+      });
+
+      if (response.ok) {
+        return response;
+      }
+
+      const errorData = await response.json().catch(() => ({})) as { error?: { type?: string; message?: string } };
+      const message = this.describeError(response.status, errorData.error?.message || response.statusText);
+
+      if (!this.isRetryableStatus(response.status) || attempt >= this.options.maxAttempts) {
+        throw new Error(message);
+      }
+
+      console.warn(`${message}, retrying (attempt ${attempt + 1} of ${this.options.maxAttempts})`);
+      await new Promise(resolve => setTimeout(resolve, this.getRetryDelay(response, attempt)));
+    }
+  }
+
+  private describeError(status: number, detail: string): string {
+    switch (status) {
+      case 401:
+      case 403:
+        return `Anthropic authentication failed: ${detail}`;
+      case 429:
+        return `Anthropic rate limit exceeded: ${detail}`;
+      case 529:
+        return `Anthropic API overloaded: ${detail}`;
+      default:
+        return status >= 500
+          ? `Anthropic server error (${status}): ${detail}`
+          : `Anthropic API error: ${status} - ${detail}`;
+    }
+  }
+
+  private isRetryableStatus(status: number): boolean {
+    return status === 429 || status === 529;
+  }
+
+  private getRetryDelay(response: Response, attempt: number): number {
+    const retryAfter = Number(response.headers.get('retry-after'));
+    const delay = retryAfter > 0 ? retryAfter * 1000 : this.options.retryDelayMs * 2 ** (attempt - 1);
+    return Math.min(delay, MAX_RETRY_DELAY_MS);
+  }
+
+  private getHeaders(): Record<string, string> {
+    return {
+      'x-api-key': this.apiKey,
+      'anthropic-version': API_VERSION,
+      'Content-Type': 'application/json'
+    };
+  }
+}
@@ -0,0 +1,112 @@
+export interface ServerSentEvent {
+  event?: string;
+  data: string;
+}
+
+export interface ChatCompletionStreamResult {
+  text: string;
+  finishReason?: string;
+  usage?: { prompt_tokens?: number; completion_tokens?: number; total_tokens?: number };
+}
+
+/**
+ * Read a text/event-stream response body, calling onEvent for every event.
+ * Rejects with the abort reason when the request's signal is aborted.
+ */
+export async function readEventStream(
+  response: Response,
+  onEvent: (event: ServerSentEvent) => void
+): Promise<void> {
+  if (!response.body) {
+    throw new Error('Response has no body to stream');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    buffer += decoder.decode(value, { stream: !done });
+
+    // Events are separated by a blank line; the last block may be incomplete
+    const blocks = buffer.split(/\r?\n\r?\n/);
+    buffer = done ? '' : blocks.pop() || '';
+
+    for (const block of blocks) {
+      const event = parseEvent(block);
+      if (event) {
+        onEvent(event);
+      }
+    }
+
+    if (done) {
+      return;
+    }
+  }
+}
+
+/**
+ * Read an OpenAI-compatible chat completions stream, calling onToken with
+ * each piece of generated text. Usage is only present when the request
+ * asked for it with stream_options.include_usage.
+ */
+export async function readChatCompletionStream(
+  response: Response,
+  onToken: (text: string) => void
+): Promise<ChatCompletionStreamResult> {
+  const result: ChatCompletionStreamResult = { text: '' };
+
+  await readEventStream(response, event => {
+    if (event.data === '[DONE]') {
+      return;
+    }
+
+    const chunk = JSON.parse(event.data) as {
+      choices?: { delta?: { content?: string }; finish_reason?: string | null }[];
+      usage?: ChatCompletionStreamResult['usage'] | null;
+    };
+    const choice = chunk.choices?.[0];
+    if (choice?.delta?.content) {
+      result.text += choice.delta.content;
+      onToken(choice.delta.content);
+    }
+    if (choice?.finish_reason) {
+      result.finishReason = choice.finish_reason;
+    }
+    if (chunk.usage) {
+      result.usage = chunk.usage;
+    }
+  });
+
+  return result;
+}
+
+// Rough token count for text the provider never reported usage for, e.g.
+// a stream the client aborted
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+function parseEvent(block: string): ServerSentEvent | null {
+  let event: string | undefined;
+  const data: string[] = [];
+
+  for (const line of block.split(/\r?\n/)) {
+    if (!line || line.startsWith(':')) {
+      continue; // comments keep the connection alive
+    }
+
+    const separator = line.indexOf(':');
+    const field = separator === -1 ? line : line.slice(0, separator);
+    const value = separator === -1 ? '' : line.slice(separator + 1).replace(/^ /, '');
+
+    if (field === 'event') {
+      event = value;
+    } else if (field === 'data') {
+      data.push(value);
+    }
+  }
+
+  return data.length > 0 ? { ...(event && { event }), data: data.join('\n') } : null;
+}
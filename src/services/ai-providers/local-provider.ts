@@ -0,0 +1,262 @@
+import {
+  AIProviderInterface,
+  AICapability,
+  ProviderCredentials,
+  GeneratedContent,
+  GenerationOptions,
+  HealthCheck,
+  UsageMetrics
+} from '../../types';
+import { ChatCompletionStreamResult, estimateTokens, readChatCompletionStream } from './event-stream';
+
+// Ollama serves its OpenAI-compatible API here; vLLM and llama.cpp server
+// are configured through ProviderConfig.baseUrl
+const DEFAULT_BASE_URL = 'http://localhost:11434/v1';
+
+/**
+ * Local Model Provider Implementation
+ * Integrates with self-hosted inference servers that expose the OpenAI
+ * chat completions API, so briefings never leave the client's network
+ */
+export class LocalModelProvider implements AIProviderInterface {
+  public readonly id: string = 'local';
+  public readonly name: string = 'Local Model Server';
+  public readonly capabilities: AICapability[];
+
+  private textCapability: AICapability = {
+    type: 'text_generation',
+    models: [], // discovered from the server's model list
+    maxTokens: 4096,
+    rateLimits: {
+      requestsPerMinute: 60,
+      requestsPerHour: 3600,
+      requestsPerDay: 86400
+    }
+  };
+  private apiKey: string = '';
+  private baseUrl: string;
+  private isAuthenticated: boolean = false;
+  private usage = { tokensUsed: 0, requestCount: 0, processingTime: 0 };
+
+  constructor(baseUrl: string = DEFAULT_BASE_URL) {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+    this.capabilities = [this.textCapability];
+  }
+
+  async authenticate(credentials: ProviderCredentials): Promise<boolean> {
+    try {
+      // Local servers usually run without an API key
+      this.apiKey = credentials.apiKey || '';
+      if (credentials.baseUrl) {
+        this.baseUrl = credentials.baseUrl.replace(/\/+$/, '');
+      }
+
+      await this.discoverModels();
+      this.isAuthenticated = true;
+      return true;
+    } catch (error) {
+      console.error('Local model server authentication error:', error);
+      this.isAuthenticated = false;
+      return false;
+    }
+  }
+
+  /**
+   * List the models the server has loaded and advertise them as this
+   * provider's text generation models
+   */
+  async discoverModels(): Promise<string[]> {
+    const response = await fetch(`${this.baseUrl}/models`, {
+      headers: this.getHeaders(),
+      signal: AbortSignal.timeout(5000) // 5 second timeout
+    });
+
+    if (!response.ok) {
+      throw new Error(`Local model server error: ${response.status} - ${response.statusText}`);
+    }
+
+    const data = await response.json() as { data?: { id: string }[] };
+    this.textCapability.models = (data.data || []).map(model => model.id);
+    return this.textCapability.models;
+  }
+
+  async generateContent(prompt: string, options: GenerationOptions): Promise<GeneratedContent> {
+    if (!this.isAuthenticated) {
+      throw new Error('Local model provider not authenticated');
+    }
+
+    const startTime = Date.now();
+
+    try {
+      const requestBody = this.buildChatRequest(prompt, options);
+      const model = requestBody.model;
+      const response = await this.postChatCompletion(requestBody);
+
+      const data = await response.json() as {
+        choices: { message?: { content?: string }; finish_reason?: string }[];
+        usage?: { prompt_tokens?: number; completion_tokens?: number; total_tokens?: number };
+      };
+      const usage = data.usage || {};
+      const tokensUsed = usage.total_tokens || 0;
+
+      this.usage.tokensUsed += tokensUsed;
+      this.usage.requestCount++;
+      this.usage.processingTime += Date.now() - startTime;
+
+      return {
+        type: 'text',
+        data: data.choices[0]?.message?.content || '',
+        metadata: {
+          model,
+          tokensUsed,
+          promptTokens: usage.prompt_tokens || 0,
+          completionTokens: usage.completion_tokens || 0,
+          finishReason: data.choices[0]?.finish_reason
+        }
+      };
+    } catch (error) {
+      console.error('Local model text generation error:', error);
+      throw new Error(`Failed to generate text content: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async streamContent(
+    prompt: string,
+    options: GenerationOptions,
+    onToken: (text: string) => void,
+    signal?: AbortSignal
+  ): Promise<GeneratedContent> {
+    if (!this.isAuthenticated) {
+      throw new Error('Local model provider not authenticated');
+    }
+
+    const startTime = Date.now();
+    let text = ''; // kept as it arrives, so an aborted stream still has it
+    let result: ChatCompletionStreamResult | undefined;
+    let model: string | undefined;
+
+    try {
+      const requestBody = this.buildChatRequest(prompt, options);
+      model = requestBody.model;
+      const response = await this.postChatCompletion(
+        { ...requestBody, stream: true, stream_options: { include_usage: true } },
+        signal
+      );
+
+      result = await readChatCompletionStream(response, token => {
+        text += token;
+        onToken(token);
+      });
+    } catch (error) {
+      if (!signal?.aborted) {
+        console.error('Local model text streaming error:', error);
+        throw new Error(`Failed to stream text content: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }
+
+    // Not every server reports usage for streams
+    const promptTokens = result?.usage?.prompt_tokens ?? estimateTokens(prompt);
+    const completionTokens = result?.usage?.completion_tokens ?? estimateTokens(text);
+
+    this.usage.tokensUsed += promptTokens + completionTokens;
+    this.usage.requestCount++;
+    this.usage.processingTime += Date.now() - startTime;
+
+    return {
+      type: 'text',
+      data: text,
+      metadata: {
+        model,
+        tokensUsed: promptTokens + completionTokens,
+        promptTokens,
+        completionTokens,
+        finishReason: result?.finishReason,
+        ...(signal?.aborted && { aborted: true })
+      }
+    };
+  }
+
+  /**
+   * A server that answers but has no models loaded cannot serve requests,
+   * so it is reported as unhealthy
+   */
+  async checkHealth(): Promise<HealthCheck> {
+    const startTime = Date.now();
+
+    try {
+      const models = await this.discoverModels();
+      const isHealthy = models.length > 0;
+
+      return {
+        providerId: this.id,
+        isHealthy,
+        responseTime: Date.now() - startTime,
+        timestamp: new Date(),
+        ...(!isHealthy && { error: 'No models loaded on the local model server' })
+      };
+    } catch (error) {
+      return {
+        providerId: this.id,
+        isHealthy: false,
+        responseTime: Date.now() - startTime,
+        timestamp: new Date(),
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  async getUsage(): Promise<UsageMetrics> {
+    return {
+      tokensUsed: this.usage.tokensUsed,
+      creditsConsumed: 0,
+      requestCount: this.usage.requestCount,
+      processingTime: this.usage.requestCount > 0 ? Math.round(this.usage.processingTime / this.usage.requestCount) : 0
+    };
+  }
+
+  private buildChatRequest(prompt: string, options: GenerationOptions) {
+    // Routing may ask for a model this server does not have loaded
+    const models = this.textCapability.models;
+    const model = options.model && models.includes(options.model) ? options.model : models[0];
+    if (!model) {
+      throw new Error('No models available on the local model server');
+    }
+
+    return {
+      model,
+      messages: [
+        ...(options.systemPrompt ? [{ role: 'system', content: options.systemPrompt }] : []),
+        ...(options.messages || []),
+        { role: 'user', content: prompt }
+      ],
+      max_tokens: options.maxTokens || 1000,
+      ...(options.temperature !== undefined && { temperature: options.temperature }),
+      ...(options.topP !== undefined && { top_p: options.topP }),
+      ...(options.stopSequences && { stop: options.stopSequences })
+    };
+  }
+
+  private async postChatCompletion(requestBody: Record<string, unknown>, signal?: AbortSignal): Promise<Response> {
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: this.getHeaders(),
+      body: JSON.stringify(requestBody),
+      ...(signal && { signal })
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({})) as { error?: { message?: string } | string };
+      const message = typeof errorData.error === 'string' ? errorData.error : errorData.error?.message;
+      throw new Error(`Local model server error: ${response.status} - ${message || response.statusText}`);
+    }
+
+    return response;
+  }
+
+  private getHeaders(): Record<string, string> {
+    return {
+      ...(this.apiKey && { 'Authorization': `Bearer ${this.apiKey}` }),
+      'Content-Type': 'application/json'
+    };
+  }
+}
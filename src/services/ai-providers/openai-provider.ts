@@ -7,6 +7,7 @@ import {
   HealthCheck, 
   UsageMetrics 
 } from '../../types';
+import { ChatCompletionStreamResult, estimateTokens, readChatCompletionStream } from './event-stream';
 
 /**
  * OpenAI Provider Implementation
@@ -45,6 +46,9 @@ export class OpenAIProvider implements AIProviderInterface {
   async authenticate(credentials: ProviderCredentials): Promise<boolean> {
     try {
       this.apiKey = credentials.apiKey;
+      if (credentials.baseUrl) {
+        this.baseUrl = credentials.baseUrl;
+      }
       
       // Test authentication by making a simple API call
       const response = await fetch(`${this.baseUrl}/models`, {
@@ -85,6 +89,67 @@ export class OpenAIProvider implements AIProviderInterface {
     }
   }
 
+  async streamContent(
+    prompt: string,
+    options: GenerationOptions,
+    onToken: (text: string) => void,
+    signal?: AbortSignal
+  ): Promise<GeneratedContent> {
+    if (!this.isAuthenticated) {
+      throw new Error('OpenAI provider not authenticated');
+    }
+
+    const requestBody = this.buildTextRequest(prompt, options);
+    let text = ''; // kept as it arrives, so an aborted stream still has it
+    let result: ChatCompletionStreamResult | undefined;
+
+    try {
+      const response = await fetch(`${this.baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${this.apiKey}`,
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ ...requestBody, stream: true, stream_options: { include_usage: true } }),
+        ...(signal && { signal })
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({})) as { error?: { message?: string } };
+        throw new Error(`OpenAI API error: ${response.status} - ${errorData.error?.message || response.statusText}`);
+      }
+
+      result = await readChatCompletionStream(response, token => {
+        text += token;
+        onToken(token);
+      });
+    } catch (error) {
+      if (!signal?.aborted) {
+        console.error('OpenAI text streaming error:', error);
+        throw new Error(`Failed to stream text content: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }
+
+    // Usage only arrives with the last chunk, so aborted streams are estimated
+    const promptTokens = result?.usage?.prompt_tokens ?? estimateTokens(prompt);
+    const completionTokens = result?.usage?.completion_tokens ?? estimateTokens(text);
+
+    return {
+      type: 'text',
+      data: text,
+      metadata: {
+        model: requestBody.model,
+        tokensUsed: promptTokens + completionTokens,
+        promptTokens,
+        completionTokens,
+        temperature: requestBody.temperature,
+        topP: requestBody.top_p,
+        finishReason: result?.finishReason,
+        ...(signal?.aborted && { aborted: true })
+      }
+    };
+  }
+
   async checkHealth(): Promise<HealthCheck> {
     const startTime = Date.now();
     
@@ -132,22 +197,8 @@ export class OpenAIProvider implements AIProviderInterface {
 
   private async generateTextContent(prompt: string, options: GenerationOptions): Promise<GeneratedContent> {
     try {
-      const model = options.model || 'gpt-3.5-turbo';
-      const maxTokens = options.maxTokens || 1000;
-      const temperature = options.temperature || 0.7;
-
-      const requestBody = {
-        model,
-        messages: [
-          {
-            role: 'user',
-            content: prompt
-          }
-        ],
-        max_tokens: maxTokens,
-        temperature,
-        top_p: options.topP || 1.0
-      };
+      const requestBody = this.buildTextRequest(prompt, options);
+      const { model, temperature } = requestBody;
 
       const response = await fetch(`${this.baseUrl}/chat/completions`, {
         method: 'POST',
@@ -186,6 +237,24 @@ export class OpenAIProvider implements AIProviderInterface {
     }
   }
 
+  private buildTextRequest(prompt: string, options: GenerationOptions) {
+    return {
+      model: options.model || 'gpt-3.5-turbo',
+      messages: [
+        ...(options.systemPrompt ? [{ role: 'system', content: options.systemPrompt }] : []),
+        ...(options.messages || []),
+        {
+          role: 'user',
+          content: prompt
+        }
+      ],
+      max_tokens: options.maxTokens || 1000,
+      temperature: options.temperature || 0.7,
+      top_p: options.topP || 1.0,
+      ...(options.stopSequences && { stop: options.stopSequences })
+    };
+  }
+
   private async generateImageContent(prompt: string, options: GenerationOptions): Promise<GeneratedContent> {
     try {
       const model = options.model || 'dall-e-3';
@@ -1,6 +1,8 @@
 import { AIProviderInterface } from '../../types';
 import { MockAIProvider } from './mock-provider';
 import { OpenAIProvider } from './openai-provider';
+import { AnthropicProvider } from './anthropic-provider';
+import { LocalModelProvider } from './local-provider';
 
 /**
  * Registry for AI provider implementations
@@ -13,6 +15,8 @@ export class ProviderRegistry {
     // Register built-in providers
     this.registerProvider('mock', () => new MockAIProvider());
     this.registerProvider('openai', () => new OpenAIProvider());
+    this.registerProvider('anthropic', () => new AnthropicProvider());
+    this.registerProvider('local', () => new LocalModelProvider());
   }
 
   /**
@@ -66,4 +70,4 @@ export class ProviderRegistry {
   }
 }
 
-export { MockAIProvider, OpenAIProvider };
\ No newline at end of file
+export { MockAIProvider, OpenAIProvider, AnthropicProvider, LocalModelProvider };
\ No newline at end of file
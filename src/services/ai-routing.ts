@@ -2,12 +2,12 @@ import { v4 as uuidv4 } from 'uuid';
 import { 
   AIRequest, 
   AIResponse, 
-  GenerationOptions, 
   UsageMetrics,
   AIProvider,
-  HealthCheck
+  HealthCheck,
+  RoutingDecision
 } from '../types';
-import { aiIntegrationHub } from './ai-hub';
+import { AIIntegrationHub, aiIntegrationHub } from './ai-hub';
 import { db } from '../config/database';
 
 /**
@@ -18,8 +18,10 @@ export class AIServiceRouter {
   private routingStrategies: Map<string, RoutingStrategy> = new Map();
   private circuitBreakers: Map<string, CircuitBreaker> = new Map();
   private loadBalancer: LoadBalancer;
+  private hub: AIIntegrationHub;
 
-  constructor() {
+  constructor(hub: AIIntegrationHub = aiIntegrationHub) {
+    this.hub = hub;
     this.loadBalancer = new LoadBalancer();
     this.initializeDefaultStrategies();
   }
@@ -31,92 +33,80 @@ export class AIServiceRouter {
     const startTime = Date.now();
     
     try {
-      // Get routing strategy for request type
-      const strategy = this.getRoutingStrategy(request.type);
+      const decision = await this.decideRoute(request);
       
-      // Get suitable providers with health and performance ranking
-      const rankedProviders = await this.getRankedProviders(request.type, request.tenantId);
-      
-      if (rankedProviders.length === 0) {
-        throw new Error(`No suitable providers available for request type: ${request.type}`);
-      }
-
-      // Apply circuit breaker filtering
-      const availableProviders = rankedProviders.filter(provider => 
-        !this.isCircuitBreakerOpen(provider.id)
-      );
-
-      if (availableProviders.length === 0) {
+      if (!decision) {
         // All providers are circuit broken, try with degraded service
         console.warn('All providers circuit broken, attempting degraded service');
         return await this.handleDegradedService(request);
       }
 
-      // Apply routing strategy to select provider
-      const selectedProvider = strategy.selectProvider(availableProviders, request);
-      
-      // Route request through AI hub
-      const response = await aiIntegrationHub.routeRequest(request);
+      // The hub dispatches to the selected provider and walks the fallback chain
+      const response = await this.hub.routeRequest(request, decision);
       
-      // Update provider performance metrics
-      await this.updateProviderMetrics(selectedProvider.id, response, Date.now() - startTime);
-      
-      // Reset circuit breaker on success
-      this.resetCircuitBreaker(selectedProvider.id);
+      if (response.status === 'success') {
+        // Update provider performance metrics
+        await this.updateProviderMetrics(response.providerId, response, Date.now() - startTime);
+        
+        // Reset circuit breaker on success
+        this.resetCircuitBreaker(response.providerId);
+      }
+
+      // Providers tried before the one that answered have failed
+      for (const target of [decision, ...decision.fallbackChain]) {
+        if (target.providerId === response.providerId) {
+          break;
+        }
+        this.recordCircuitBreakerFailure(target.providerId);
+      }
       
       return response;
     } catch (error) {
       console.error('Error in AI service routing:', error);
-      
-      // Try fallback providers
-      return await this.handleFallback(request, error);
+      return this.createErrorResponse(request, error instanceof Error ? error : new Error('Unknown error'));
     }
   }
 
   /**
-   * Handle fallback when primary routing fails
+   * Select a provider with the request type's strategy; the other available
+   * providers become the fallback chain, best ranked first
+   * @returns null when the circuit breakers of all providers are open
    */
-  private async handleFallback(request: AIRequest, primaryError: Error): Promise<AIResponse> {
-    try {
-      // Get fallback providers (different from primary selection)
-      const fallbackProviders = await this.getFallbackProviders(request.type, request.tenantId);
-      
-      for (const provider of fallbackProviders) {
-        if (this.isCircuitBreakerOpen(provider.id)) {
-          continue;
-        }
+  async decideRoute(request: AIRequest): Promise<RoutingDecision | null> {
+    // Get routing strategy for request type
+    const strategy = this.getRoutingStrategy(request.type);
+    
+    // Get suitable providers with health and performance ranking
+    const rankedProviders = await this.getRankedProviders(request.type, request.tenantId);
+    
+    if (rankedProviders.length === 0) {
+      throw new Error(`No suitable providers available for request type: ${request.type}`);
+    }
 
-        try {
-          // Create fallback request with adjusted options
-          const fallbackRequest: AIRequest = {
-            ...request,
-            id: uuidv4(), // New request ID for fallback
-            options: this.adjustOptionsForFallback(request.options, provider)
-          };
+    // Apply circuit breaker filtering
+    const availableProviders = rankedProviders.filter(provider => 
+      !this.isCircuitBreakerOpen(provider.id)
+    );
 
-          const response = await aiIntegrationHub.routeRequest(fallbackRequest);
-          
-          // Mark as fallback response
-          response.metadata = {
-            ...response.metadata,
-            isFallback: true,
-            primaryError: primaryError.message,
-            fallbackProvider: provider.id
-          };
+    if (availableProviders.length === 0) {
+      return null;
+    }
 
-          return response;
-        } catch (fallbackError) {
-          console.warn(`Fallback provider ${provider.id} failed:`, fallbackError);
-          this.recordCircuitBreakerFailure(provider.id);
-          continue;
-        }
-      }
+    // Apply routing strategy to select provider
+    const selectedProvider = strategy.selectProvider(availableProviders, request);
+    const model = this.selectModel(selectedProvider, request);
 
-      // All fallbacks failed, return error response
-      throw new Error(`All providers failed. Primary error: ${primaryError.message}`);
-    } catch (error) {
-      return this.createErrorResponse(request, error);
-    }
+    return {
+      strategy: strategy.name,
+      providerId: selectedProvider.id,
+      ...(model && { model }),
+      fallbackChain: availableProviders
+        .filter(provider => provider.id !== selectedProvider.id)
+        .map(provider => {
+          const fallbackModel = this.selectModel(provider, request);
+          return { providerId: provider.id, ...(fallbackModel && { model: fallbackModel }) };
+        })
+    };
   }
 
   /**
@@ -153,7 +143,7 @@ export class AIServiceRouter {
    */
   private async getRankedProviders(requestType: string, tenantId: string): Promise<AIProvider[]> {
     try {
-      const providers = await aiIntegrationHub.getProviders(tenantId);
+      const providers = await this.hub.getProviders(tenantId);
       
       // Filter by capability
       const suitableProviders = providers.filter(provider => 
@@ -181,37 +171,6 @@ export class AIServiceRouter {
     }
   }
 
-  /**
-   * Get fallback providers (different selection criteria)
-   */
-  private async getFallbackProviders(requestType: string, tenantId: string): Promise<AIProvider[]> {
-    try {
-      const allProviders = await aiIntegrationHub.getProviders(tenantId);
-      
-      // For fallback, prioritize reliability over performance
-      return allProviders
-        .filter(provider => 
-          provider.capabilities.some(cap => 
-            cap.type === `${requestType}_generation` || cap.type === requestType
-          ) && provider.isActive
-        )
-        .sort((a, b) => {
-          // Sort by health status and consecutive failures
-          const aFailures = a.healthStatus.consecutiveFailures || 0;
-          const bFailures = b.healthStatus.consecutiveFailures || 0;
-          
-          if (a.healthStatus.isHealthy !== b.healthStatus.isHealthy) {
-            return a.healthStatus.isHealthy ? -1 : 1;
-          }
-          
-          return aFailures - bFailures;
-        });
-    } catch (error) {
-      console.error('Error getting fallback providers:', error);
-      return [];
-    }
-  }
-
   /**
    * Calculate provider ranking based on multiple factors
    */
@@ -308,31 +267,19 @@ export class AIServiceRouter {
   }
 
   /**
-   * Adjust request options for fallback providers
+   * The requested model when the provider offers it, otherwise the
+   * provider's first model for the request type
    */
-  private adjustOptionsForFallback(options: GenerationOptions, provider: AIProvider): GenerationOptions {
-    const adjustedOptions = { ...options };
-
-    // Reduce complexity for fallback
-    if (adjustedOptions.maxTokens && adjustedOptions.maxTokens > 1000) {
-      adjustedOptions.maxTokens = Math.floor(adjustedOptions.maxTokens * 0.8);
-    }
-
-    // Use more conservative temperature
-    if (adjustedOptions.temperature && adjustedOptions.temperature > 0.7) {
-      adjustedOptions.temperature = 0.7;
-    }
-
-    // Select appropriate model for provider
+  private selectModel(provider: AIProvider, request: AIRequest): string | undefined {
     const availableModels = provider.capabilities
+      .filter(cap => cap.type === `${request.type}_generation` || cap.type === request.type)
       .flatMap(cap => cap.models)
       .filter(model => model);
 
-    if (availableModels.length > 0 && !availableModels.includes(adjustedOptions.model || '')) {
-      adjustedOptions.model = availableModels[0];
+    if (request.options.model && (availableModels.length === 0 || availableModels.includes(request.options.model))) {
+      return request.options.model;
     }
-
-    return adjustedOptions;
+    return availableModels[0];
   }
 
   /**
@@ -500,10 +447,13 @@ class LoadBalancer {
  * Routing Strategies
  */
 abstract class RoutingStrategy {
+  abstract readonly name: string;
   abstract selectProvider(providers: AIProvider[], request: AIRequest): AIProvider;
 }
 
 class RoundRobinStrategy extends RoutingStrategy {
+  readonly name = 'round_robin';
+
   private currentIndex: number = 0;
 
   selectProvider(providers: AIProvider[]): AIProvider {
@@ -514,6 +464,8 @@ class RoundRobinStrategy extends RoutingStrategy {
 }
 
 class PerformanceBasedStrategy extends RoutingStrategy {
+  readonly name = 'performance_based';
+
   selectProvider(providers: AIProvider[]): AIProvider {
     // Select provider with best response time
     return providers.reduce((best, current) => {
@@ -525,6 +477,8 @@ class PerformanceBasedStrategy extends RoutingStrategy {
 }
 
 class CostOptimizedStrategy extends RoutingStrategy {
+  readonly name = 'cost_optimized';
+
   selectProvider(providers: AIProvider[]): AIProvider {
     // For now, select first available (would implement cost comparison)
     return providers[0];
@@ -532,6 +486,8 @@ class CostOptimizedStrategy extends RoutingStrategy {
 }
 
 class ReliabilityFirstStrategy extends RoutingStrategy {
+  readonly name = 'reliability_first';
+
   selectProvider(providers: AIProvider[]): AIProvider {
     // Select provider with fewest consecutive failures
     return providers.reduce((best, current) => {
@@ -1,5 +1,10 @@
 import { v4 as uuidv4 } from 'uuid';
 import { db } from '../config/database';
+import { ShortLinkService } from './publishing/short-links';
+import { PlatformAdapterRegistry } from './publishing/platform-registry';
+import { PublisherService } from './publishing/publisher-service';
+import { platformRateGovernor } from './publishing/rate-governor';
+import { PostMetrics } from './publishing/platform-adapter';
 import {
   EngagementMetrics,
   ContentPerformance,
@@ -15,15 +20,27 @@ import {
   Platform,
   ScoreFactor,
   PerformanceSnapshot,
-  PerformanceMilestone
+  PerformanceMilestone,
+  TenantContext
 } from '../types';
 
+// Metrics are collected hourly during a post's first day, then daily until
+// it is a month old
+const HOURLY_COLLECTION_PERIOD_MS = 24 * 60 * 60 * 1000;
+const COLLECTION_PERIOD_MS = 30 * 24 * 60 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
 /**
  * Analytics Service
  * Handles metrics collection, performance tracking, content scoring, and recommendations
  * Requirements: 11.1, 11.2, 11.3, 11.4, 11.5
  */
 export class AnalyticsService {
+  private shortLinkService = new ShortLinkService(db);
+  private publisherService = new PublisherService(db, platformRateGovernor);
+  private adapterRegistry = new PlatformAdapterRegistry(platformRateGovernor);
+
   /**
    * Collect metrics from social platforms for published content
    * Requirements: 11.1
@@ -32,7 +49,7 @@ export class AnalyticsService {
     const jobId = uuidv4();
     
     try {
-      // Get published content for the tenant
+      // Get published content for the tenant that is due for collection
       const contentQuery = `
         SELECT DISTINCT pp.content_id, pp.platform, pp.platform_post_id, pp.post_url, pp.published_at
         FROM public.platform_posts pp
@@ -40,6 +57,7 @@ export class AnalyticsService {
         WHERE c.tenant_id = $1
           AND pp.status = 'published'
           AND pp.published_at >= NOW() - INTERVAL '30 days'
+          AND (pp.next_metrics_at IS NULL OR pp.next_metrics_at <= NOW())
           ${platforms ? 'AND pp.platform = ANY($2)' : ''}
         ORDER BY pp.published_at DESC
         LIMIT 100
@@ -56,7 +74,7 @@ export class AnalyticsService {
       `, [
         jobId,
         tenantId,
-        JSON.stringify(platforms || ['instagram', 'tiktok', 'facebook', 'linkedin']),
+        JSON.stringify(platforms || ['instagram', 'tiktok', 'facebook', 'linkedin', 'x', 'youtube', 'pinterest', 'threads', 'bluesky', 'google_business']),
         JSON.stringify(contentResult.rows.map(row => row.content_id))
       ]);
       
@@ -64,13 +82,22 @@ export class AnalyticsService {
       let metricsCollected = 0;
       for (const content of contentResult.rows) {
         try {
-          const metrics = await this.fetchPlatformMetrics(content.platform, content.platform_post_id, tenantId);
+          const metrics = await this.fetchPlatformMetrics(content.platform, content.platform_post_id, content.content_id, tenantId);
           if (metrics) {
             await this.storeContentMetrics(content.content_id, content.platform, metrics);
             metricsCollected++;
           }
+          await this.scheduleNextCollection(content.content_id, content.platform, new Date(content.published_at));
         } catch (error) {
           console.error(`Error collecting metrics for content ${content.content_id}:`, error);
+
+          // Failed and rate-limited reads wait for the post's next collection
+          // too, so a post that keeps failing is not retried on every run
+          try {
+            await this.scheduleNextCollection(content.content_id, content.platform, new Date(content.published_at), false);
+          } catch (scheduleError) {
+            console.error(`Error scheduling metrics collection for content ${content.content_id}:`, scheduleError);
+          }
         }
       }
       
@@ -105,64 +132,95 @@ export class AnalyticsService {
   }
   
   /**
-   * Fetch metrics from specific platform APIs
-   * This would integrate with actual platform APIs in production
+   * When a post's metrics are next due: hourly during its first day, then
+   * daily until it is a month old
+   * @returns null once the post is no longer tracked
    */
-  private async fetchPlatformMetrics(platform: Platform, platformPostId: string, tenantId: string): Promise<EngagementMetrics | null> {
-    // In a real implementation, this would call the actual platform APIs
-    // For now, we'll simulate metrics collection
-    
-    // Get platform credentials
-    const credentialsResult = await db.query(`
-      SELECT credentials FROM public.platform_credentials 
-      WHERE tenant_id = $1 AND platform = $2 AND is_active = true
-    `, [tenantId, platform]);
-    
-    if (credentialsResult.rows.length === 0) {
-      console.warn(`No active credentials found for platform ${platform} and tenant ${tenantId}`);
-      return null;
+  getNextCollectionTime(publishedAt: Date, now: Date = new Date()): Date | null {
+    const age = now.getTime() - publishedAt.getTime();
+
+    if (age < HOURLY_COLLECTION_PERIOD_MS) {
+      return new Date(now.getTime() + HOUR_MS);
     }
-    
-    // Simulate API call with realistic metrics
-    const baseMetrics = this.generateRealisticMetrics(platform);
-    
-    return {
-      ...baseMetrics,
-      engagementRate: this.calculateEngagementRate(baseMetrics)
-    };
+    if (age < COLLECTION_PERIOD_MS) {
+      return new Date(now.getTime() + DAY_MS);
+    }
+    return null;
   }
-  
+
   /**
-   * Generate realistic metrics for simulation
+   * Tenants with published posts whose metrics are due for collection
    */
-  private generateRealisticMetrics(platform: Platform): Omit<EngagementMetrics, 'engagementRate'> {
-    const platformMultipliers = {
-      instagram: { views: 1000, likes: 50, comments: 5, shares: 2 },
-      tiktok: { views: 5000, likes: 200, comments: 20, shares: 10 },
-      facebook: { views: 800, likes: 30, comments: 3, shares: 5 },
-      linkedin: { views: 500, likes: 20, comments: 2, shares: 3 }
-    };
-    
-    const multiplier = platformMultipliers[platform];
-    const randomFactor = 0.5 + Math.random(); // 0.5 to 1.5
+  async getTenantsWithDueMetrics(): Promise<string[]> {
+    const result = await db.query(`
+      SELECT DISTINCT tenant_id
+      FROM public.platform_posts
+      WHERE status = 'published'
+        AND published_at >= NOW() - INTERVAL '30 days'
+        AND (next_metrics_at IS NULL OR next_metrics_at <= NOW())
+    `);
+
+    return result.rows.map((row: { tenant_id: string }) => row.tenant_id);
+  }
+
+  /**
+   * Fetch a post's metrics from the platform API with the tenant's
+   * connected account
+   * @returns null when the account is not connected or the platform does
+   * not report per-post metrics
+   */
+  private async fetchPlatformMetrics(
+    platform: Platform,
+    platformPostId: string,
+    contentId: string,
+    tenantId: string
+  ): Promise<EngagementMetrics | null> {
+    const credentials = await this.publisherService.getPlatformCredentials(platform, { tenantId } as TenantContext);
+    if (!credentials || credentials.status === 'needs_reauth') {
+      console.warn(`No active credentials found for platform ${platform} and tenant ${tenantId}`);
+      return null;
+    }
+
+    // One adapter per account, so repeated collections reuse it
+    const adapter = this.adapterRegistry.getAdapter(platform, credentials)
+      || this.adapterRegistry.registerAdapter(platform, credentials);
+    if (!adapter.fetchMetrics) {
+      return null;
+    }
+
+    const metrics = await adapter.fetchMetrics(platformPostId);
+
+    // Clicks on our own short links are counted first; platforms that count
+    // link clicks themselves fill in for posts without short links
+    const clicks = await this.shortLinkService.getClickCount(contentId, platform) || metrics.clicks || 0;
+    const exposures = metrics.impressions || metrics.views;
     
     return {
-      views: Math.floor(multiplier.views * randomFactor),
-      likes: Math.floor(multiplier.likes * randomFactor),
-      comments: Math.floor(multiplier.comments * randomFactor),
-      shares: Math.floor(multiplier.shares * randomFactor),
-      saves: platform === 'instagram' ? Math.floor(multiplier.likes * 0.3 * randomFactor) : undefined,
-      clicks: Math.floor(multiplier.likes * 0.1 * randomFactor),
-      impressions: Math.floor(multiplier.views * 1.5 * randomFactor),
-      reach: Math.floor(multiplier.views * 0.8 * randomFactor),
-      ctr: Math.random() * 0.05 // 0-5% CTR
+      ...metrics,
+      clicks,
+      ctr: exposures > 0 ? clicks / exposures : 0,
+      engagementRate: this.calculateEngagementRate(metrics)
     };
   }
+
+  private async scheduleNextCollection(
+    contentId: string,
+    platform: Platform,
+    publishedAt: Date,
+    collected: boolean = true
+  ): Promise<void> {
+    await db.query(`
+      UPDATE public.platform_posts
+      SET ${collected ? 'metrics_collected_at = CURRENT_TIMESTAMP, ' : ''}next_metrics_at = $1
+      WHERE content_id = $2 AND platform = $3
+    `, [this.getNextCollectionTime(publishedAt), contentId, platform]);
+  }
+
   
   /**
    * Calculate engagement rate from metrics
    */
-  private calculateEngagementRate(metrics: Omit<EngagementMetrics, 'engagementRate'>): number {
+  private calculateEngagementRate(metrics: PostMetrics): number {
     const totalEngagement = metrics.likes + metrics.comments + metrics.shares + (metrics.saves || 0);
     const reach = metrics.reach || metrics.views;
     
@@ -513,7 +571,13 @@ export class AnalyticsService {
       instagram: 0,
       tiktok: 0,
       facebook: 0,
-      linkedin: 0
+      linkedin: 0,
+      x: 0,
+      youtube: 0,
+      pinterest: 0,
+      threads: 0,
+      bluesky: 0,
+      google_business: 0
     };
     
     performanceData.forEach(content => {
@@ -542,7 +606,13 @@ export class AnalyticsService {
       instagram: [],
       tiktok: [],
       facebook: [],
-      linkedin: []
+      linkedin: [],
+      x: [],
+      youtube: [],
+      pinterest: [],
+      threads: [],
+      bluesky: [],
+      google_business: []
     };
     
     // Group by platform
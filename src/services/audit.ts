@@ -471,6 +471,8 @@ export const AUDIT_ACTIONS = {
   CONTENT_PUBLISHED_SUCCESS: 'content_published_success',
   CONTENT_PUBLISHED_FAILED: 'content_published_failed',
   CONTENT_RESCHEDULED: 'content_rescheduled',
+  PUBLISHED_POST_UPDATED: 'published_post_updated',
+  PUBLISHED_POST_TAKEN_DOWN: 'published_post_taken_down',
 
   // Billing Operations
   CREDIT_CONSUMED: 'credit_consumed',
@@ -507,6 +509,7 @@ export const AUDIT_RESOURCES = {
   AI_REQUEST: 'ai_request',
   CALENDAR_EVENT: 'calendar_event',
   PLATFORM_CREDENTIAL: 'platform_credential',
+  PLATFORM_POST: 'platform_post',
   INVOICE: 'invoice',
   SUBSCRIPTION: 'subscription',
   CREDIT_BALANCE: 'credit_balance',
@@ -1,21 +1,28 @@
 import { Pool } from 'pg';
 import { CalendarService } from './calendar';
+import { PublisherService } from './publishing/publisher-service';
+import { platformRateGovernor } from './publishing/rate-governor';
+import { ScheduledPublishExecutor, ScheduledPublishSummary } from './publishing/scheduled-publisher';
 import { TenantContext, Tenant, User } from '../types';
 
 export class CalendarSchedulerService {
   private calendarService: CalendarService;
+  private publishExecutor: ScheduledPublishExecutor;
   private isRunning: boolean = false;
   private intervalId: NodeJS.Timeout | null = null;
+  private publishIntervalId: NodeJS.Timeout | null = null;
 
-  constructor(private db: Pool) {
+  constructor(private db: Pool, publishExecutor?: ScheduledPublishExecutor) {
     this.calendarService = new CalendarService(db);
+    this.publishExecutor = publishExecutor || new ScheduledPublishExecutor(db, new PublisherService(db, platformRateGovernor));
   }
 
   /**
    * Start the automatic rescheduling service
    * @param intervalMinutes How often to run the rescheduling process (default: 15 minutes)
+   * @param publishIntervalSeconds How often to publish due events (default: 60 seconds)
    */
-  start(intervalMinutes: number = 15): void {
+  start(intervalMinutes: number = 15, publishIntervalSeconds: number = 60): void {
     if (this.isRunning) {
       console.warn('Calendar scheduler is already running');
       return;
@@ -37,6 +44,13 @@ export class CalendarSchedulerService {
         console.error('Error in scheduled rescheduling cycle:', error);
       });
     }, intervalMs);
+
+    // Publish due events far more often than the rescheduling cycle
+    this.publishIntervalId = setInterval(() => {
+      this.processImmediateEvents().catch(error => {
+        console.error('Error in scheduled publishing cycle:', error);
+      });
+    }, publishIntervalSeconds * 1000);
   }
 
   /**
@@ -55,6 +69,11 @@ export class CalendarSchedulerService {
       this.intervalId = null;
     }
 
+    if (this.publishIntervalId) {
+      clearInterval(this.publishIntervalId);
+      this.publishIntervalId = null;
+    }
+
     console.log('Calendar scheduler stopped');
   }
 
@@ -161,50 +180,21 @@ export class CalendarSchedulerService {
   }
 
   /**
-   * Process events that are due to be published soon
-   * This can be called more frequently to handle immediate publishing
+   * Publish events whose scheduled time has arrived.
+   * Safe to call from several instances: events are claimed with row locks before publishing.
    */
-  async processImmediateEvents(): Promise<void> {
-    console.log('Processing immediate events...');
-
+  async processImmediateEvents(): Promise<ScheduledPublishSummary> {
     try {
-      // Get events scheduled for the next 5 minutes
-      const immediateEventsQuery = `
-        SELECT ce.*, t.id as tenant_id, t.name as tenant_name, u.id as user_id, u.email, u.name as user_name
-        FROM calendar_events ce
-        JOIN tenants t ON ce.tenant_id = t.id
-        JOIN users u ON u.tenant_id = t.id AND u.is_active = true
-        WHERE ce.status = 'scheduled'
-          AND ce.scheduled_at <= $1
-          AND ce.scheduled_at >= CURRENT_TIMESTAMP
-        ORDER BY ce.scheduled_at ASC
-      `;
+      const summary = await this.publishExecutor.publishDueEvents();
 
-      const fiveMinutesFromNow = new Date(Date.now() + 5 * 60 * 1000);
-      const immediateEvents = await this.db.query(immediateEventsQuery, [fiveMinutesFromNow]);
-
-      for (const event of immediateEvents.rows) {
-        try {
-          // Here you would integrate with your publishing service
-          // For now, we'll just log that the event is ready for publishing
-          console.log(`Event ${event.id} for tenant ${event.tenant_name} is ready for publishing on ${event.platform}`);
-          
-          // You could call a publishing service here:
-          // await publishingService.publishEvent(event);
-          
-        } catch (eventError) {
-          console.error(`Error processing immediate event ${event.id}:`, eventError);
-          
-          // Mark event as failed
-          await this.db.query(
-            'UPDATE calendar_events SET status = $1, failure_reason = $2 WHERE id = $3',
-            ['failed', eventError instanceof Error ? eventError.message : 'Unknown error', event.id]
-          );
-        }
+      if (summary.claimed > 0 || summary.recovered > 0) {
+        console.log(`Publishing cycle completed: ${summary.published} published, ${summary.failed} failed, ${summary.queued} queued, ${summary.recovered} stale claims recovered`);
       }
 
+      return summary;
     } catch (error) {
       console.error('Error processing immediate events:', error);
+      return { claimed: 0, published: 0, failed: 0, queued: 0, inProgress: 0, recovered: 0 };
     }
   }
-}
\ No newline at end of file
+}
@@ -355,7 +355,13 @@ export class CalendarService {
         instagram: { scheduled: 0, published: 0, failed: 0 },
         tiktok: { scheduled: 0, published: 0, failed: 0 },
         facebook: { scheduled: 0, published: 0, failed: 0 },
-        linkedin: { scheduled: 0, published: 0, failed: 0 }
+        linkedin: { scheduled: 0, published: 0, failed: 0 },
+        x: { scheduled: 0, published: 0, failed: 0 },
+        youtube: { scheduled: 0, published: 0, failed: 0 },
+        pinterest: { scheduled: 0, published: 0, failed: 0 },
+        threads: { scheduled: 0, published: 0, failed: 0 },
+        bluesky: { scheduled: 0, published: 0, failed: 0 },
+        google_business: { scheduled: 0, published: 0, failed: 0 }
       }
     };
 
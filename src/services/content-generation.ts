@@ -10,9 +10,13 @@ import {
   Briefing
 } from '../types/index.js';
 import { AIIntegrationHub } from './ai-hub.js';
+import { AIServiceRouter } from './ai-routing.js';
+import { aiBillingService } from './ai-billing.js';
 import { BriefingService } from './briefing.js';
 import { BestPracticesService } from './best-practices.js';
+import { PromptTemplateService, PromptVariables } from './prompt-templates.js';
 import { DatabasePool } from '../interfaces/database.js';
+import { splitIntoThread } from './publishing/x-adapter.js';
 
 export interface ContentGenerationRequest {
   briefingId: string;
@@ -23,6 +27,17 @@ export interface ContentGenerationRequest {
   generationOptions?: GenerationOptions;
   brandVoiceGuidelines?: string[];
   bestPractices?: string[];
+  adaptationOptions?: PlatformAdaptationOptions;
+}
+
+export interface PlatformAdaptationOptions {
+  hashtagsInFirstComment?: boolean; // Instagram: move hashtags out of the caption into the first comment
+}
+
+// Streaming callbacks for generation over Server-Sent Events
+export interface ContentGenerationProgress {
+  onToken(text: string): void;
+  signal?: AbortSignal; // aborted when the client disconnects
 }
 
 export interface PlatformRequirements {
@@ -38,15 +53,19 @@ export interface PlatformRequirements {
 export class ContentGenerationService {
   private db: DatabasePool;
   private aiHub: AIIntegrationHub;
+  private aiRouter: AIServiceRouter;
   private briefingService: BriefingService;
   private bestPracticesService: BestPracticesService;
+  private promptTemplateService: PromptTemplateService;
   private platformRequirements: Map<Platform, PlatformRequirements>;
 
   constructor(db: DatabasePool) {
     this.db = db;
     this.aiHub = new AIIntegrationHub(db);
+    this.aiRouter = new AIServiceRouter(this.aiHub);
     this.briefingService = new BriefingService(db);
     this.bestPracticesService = new BestPracticesService(db);
+    this.promptTemplateService = new PromptTemplateService(db);
     this.initializePlatformRequirements();
   }
 
@@ -86,13 +105,66 @@ export class ContentGenerationService {
         videoMaxDuration: 600,
         imageFormats: ['jpg', 'png'],
         videoFormats: ['mp4', 'mov']
+      }],
+      ['x', {
+        maxTextLength: 280,
+        aspectRatio: '16:9,1:1',
+        mediaType: 'photo,video,thread',
+        hashtagLimit: 2,
+        videoMaxDuration: 140,
+        imageFormats: ['jpg', 'png', 'gif', 'webp'],
+        videoFormats: ['mp4', 'mov']
+      }],
+      ['youtube', {
+        maxTextLength: 5000,
+        aspectRatio: '9:16',
+        mediaType: 'video',
+        hashtagLimit: 15,
+        videoMaxDuration: 60,
+        videoFormats: ['mp4', 'mov', 'webm']
+      }],
+      ['pinterest', {
+        maxTextLength: 500,
+        aspectRatio: '2:3,1:1,9:16',
+        mediaType: 'image,video,idea',
+        hashtagLimit: 20,
+        videoMaxDuration: 900,
+        imageFormats: ['jpg', 'png', 'webp'],
+        videoFormats: ['mp4', 'mov', 'm4v']
+      }],
+      ['threads', {
+        maxTextLength: 500,
+        aspectRatio: '1:1,4:5,9:16,16:9',
+        mediaType: 'text,photo,video,carousel',
+        videoMaxDuration: 300,
+        imageFormats: ['jpg', 'png'],
+        videoFormats: ['mp4', 'mov']
+      }],
+      ['bluesky', {
+        maxTextLength: 300,
+        aspectRatio: '1:1,4:5,16:9',
+        mediaType: 'text,photo',
+        hashtagLimit: 8,
+        imageFormats: ['jpg', 'png', 'webp']
+      }],
+      ['google_business', {
+        maxTextLength: 1500,
+        aspectRatio: '4:3,1:1',
+        mediaType: 'whats_new,offer,event',
+        imageFormats: ['jpg', 'png']
       }]
     ]);
   }
 
+  /**
+   * Generate content for the briefing. With progress callbacks the base
+   * content is streamed token by token and its usage billed even when the
+   * client aborts; an aborted stream rejects.
+   */
   async generateContent(
     request: ContentGenerationRequest,
-    tenantContext: TenantContext
+    tenantContext: TenantContext,
+    progress?: ContentGenerationProgress
   ): Promise<Content> {
     // Validate briefing exists and is active (Requirement 14.1)
     const briefing = await this.briefingService.getBriefing(request.briefingId, tenantContext);
@@ -101,7 +173,7 @@ export class ContentGenerationService {
     }
 
     // Generate base content using AI (Requirement 14.1)
-    const baseContent = await this.generateBaseContent(request, briefing, tenantContext);
+    const baseContent = await this.generateBaseContent(request, briefing, tenantContext, progress);
 
     // Adapt content for each target platform (Requirement 14.2)
     const adaptedContent: Record<Platform, AdaptedContent> = {};
@@ -110,7 +182,8 @@ export class ContentGenerationService {
         baseContent, 
         platform, 
         request.brandVoiceGuidelines || [],
-        request.bestPractices || []
+        request.bestPractices || [],
+        request.adaptationOptions
       );
     }
 
@@ -133,7 +206,8 @@ export class ContentGenerationService {
   private async generateBaseContent(
     request: ContentGenerationRequest,
     briefing: Briefing,
-    tenantContext: TenantContext
+    tenantContext: TenantContext,
+    progress?: ContentGenerationProgress
   ): Promise<ContentData> {
     // Get brand voice guidelines and best practices (Requirement 14.3)
     const brandVoiceGuidelines = await this.bestPracticesService.formatBrandVoiceForPrompt(tenantContext);
@@ -144,11 +218,10 @@ export class ContentGenerationService {
     );
 
     // Build comprehensive prompt with briefing context and brand voice (Requirement 14.3)
-    const prompt = this.buildGenerationPrompt(
-      request, 
-      briefing, 
-      brandVoiceGuidelines, 
-      bestPractices
+    const { prompt, template } = await this.promptTemplateService.renderPrompt(
+      'content_generation',
+      this.getGenerationPromptVariables(request, briefing, brandVoiceGuidelines, bestPractices),
+      tenantContext
     );
 
     // Create AI request
@@ -156,6 +229,7 @@ export class ContentGenerationService {
       id: uuidv4(),
       type: request.contentType === 'carousel' ? 'text' : request.contentType,
       prompt,
+      promptTemplate: template,
       options: {
         ...request.generationOptions,
         format: this.getContentFormat(request.contentType),
@@ -171,76 +245,54 @@ export class ContentGenerationService {
       createdAt: new Date()
     };
 
+    // The router picks the provider with the request type's strategy; when it
+    // has no provider to pick, the hub falls back to provider priority
+    const decision = await this.aiRouter.decideRoute(aiRequest).catch(() => null) || undefined;
+
     // Route request through AI hub
-    const aiResponse = await this.aiHub.routeRequest(aiRequest);
+    const aiResponse = progress
+      ? await this.aiHub.streamRequest(aiRequest, progress.onToken, progress.signal, decision)
+      : await this.aiHub.routeRequest(aiRequest, decision);
 
     if (aiResponse.status === 'error') {
       throw new Error(`Content generation failed: ${aiResponse.error}`);
     }
 
+    if (progress) {
+      await aiBillingService.trackUsage(aiRequest, aiResponse);
+      if (aiResponse.status === 'partial') {
+        throw new Error('Content generation aborted');
+      }
+    }
+
     // Convert AI response to ContentData
     return this.convertAIResponseToContentData(aiResponse.content, request.contentType);
   }
 
-  private buildGenerationPrompt(
+  private getGenerationPromptVariables(
     request: ContentGenerationRequest,
     briefing: Briefing,
     brandVoiceGuidelines: string[],
     bestPractices: string[]
-  ): string {
-    const briefingContext = this.extractBriefingContext(briefing);
-
-    let prompt = `Generate ${request.contentType} content with the following requirements:\n\n`;
-    
-    prompt += `BRIEFING CONTEXT:\n${briefingContext}\n\n`;
-    
-    if (brandVoiceGuidelines.length > 0) {
-      prompt += `BRAND VOICE GUIDELINES:\n${brandVoiceGuidelines.join('\n')}\n\n`;
-    }
-    
-    if (bestPractices.length > 0) {
-      prompt += `BEST PRACTICES:\n${bestPractices.join('\n')}\n\n`;
-    }
-    
-    prompt += `TARGET PLATFORMS: ${request.targetPlatforms.join(', ')}\n\n`;
-    prompt += `CONTENT TITLE: ${request.title}\n`;
-    
-    if (request.description) {
-      prompt += `CONTENT DESCRIPTION: ${request.description}\n`;
-    }
-
+  ): PromptVariables {
     // Add content type specific instructions
-    switch (request.contentType) {
-      case 'text':
-        prompt += '\nGenerate engaging text content that follows the brand voice and best practices.';
-        break;
-      case 'image':
-        prompt += '\nGenerate a detailed image description that can be used for image generation.';
-        break;
-      case 'video':
-        prompt += '\nGenerate a video script with scene descriptions, dialogue, and visual elements.';
-        break;
-      case 'carousel':
-        prompt += '\nGenerate content for a multi-slide carousel with titles and descriptions for each slide.';
-        break;
-    }
-
-    return prompt;
-  }
-
-  private extractBriefingContext(briefing: Briefing): string {
-    const fields = briefing.fields;
-    let context = `Title: ${briefing.title}\n`;
-    context += `Type: ${briefing.type}\n`;
-    
-    // Extract key fields from briefing
-    Object.entries(fields).forEach(([key, value]) => {
-      if (value && typeof value === 'string' && value.trim()) {
-        context += `${key}: ${value}\n`;
-      }
-    });
+    const contentInstructions: Record<ContentGenerationRequest['contentType'], string> = {
+      text: 'Generate engaging text content that follows the brand voice and best practices.',
+      image: 'Generate a detailed image description that can be used for image generation.',
+      video: 'Generate a video script with scene descriptions, dialogue, and visual elements.',
+      carousel: 'Generate content for a multi-slide carousel with titles and descriptions for each slide.'
+    };
 
-    return context;
+    return {
+      ...this.promptTemplateService.getBriefingVariables(briefing),
+      contentType: request.contentType,
+      brandVoice: brandVoiceGuidelines,
+      bestPractices,
+      targetPlatforms: request.targetPlatforms.join(', '),
+      title: request.title,
+      description: request.description,
+      contentInstructions: contentInstructions[request.contentType]
+    };
   }
 
   private getContentFormat(contentType: string): string {
@@ -323,7 +375,8 @@ export class ContentGenerationService {
     baseContent: ContentData,
     platform: Platform,
     brandVoiceGuidelines: string[],
-    bestPractices: string[]
+    bestPractices: string[],
+    options: PlatformAdaptationOptions = {}
   ): Promise<AdaptedContent> {
     const requirements = this.platformRequirements.get(platform);
     if (!requirements) {
@@ -345,7 +398,7 @@ export class ContentGenerationService {
     // Apply platform-specific adaptations (Requirement 7.2, 14.2)
     switch (platform) {
       case 'instagram':
-        adaptedContent.platformSpecific = await this.adaptForInstagram(baseContent, requirements);
+        adaptedContent.platformSpecific = await this.adaptForInstagram(baseContent, requirements, options);
         break;
       case 'tiktok':
         adaptedContent.platformSpecific = await this.adaptForTikTok(baseContent, requirements);
@@ -356,10 +409,28 @@ export class ContentGenerationService {
       case 'linkedin':
         adaptedContent.platformSpecific = await this.adaptForLinkedIn(baseContent, requirements);
         break;
+      case 'x':
+        adaptedContent.platformSpecific = await this.adaptForX(baseContent, requirements);
+        break;
+      case 'youtube':
+        adaptedContent.platformSpecific = await this.adaptForYouTube(baseContent, requirements);
+        break;
+      case 'pinterest':
+        adaptedContent.platformSpecific = await this.adaptForPinterest(baseContent, requirements);
+        break;
+      case 'threads':
+        adaptedContent.platformSpecific = await this.adaptForThreads(baseContent, requirements);
+        break;
+      case 'bluesky':
+        adaptedContent.platformSpecific = await this.adaptForBluesky(baseContent, requirements);
+        break;
+      case 'google_business':
+        adaptedContent.platformSpecific = await this.adaptForGoogleBusiness(baseContent, requirements);
+        break;
     }
 
-    // Apply text length restrictions
-    if (adaptedContent.text && requirements.maxTextLength) {
+    // Apply text length restrictions (long X posts are split into a thread instead)
+    if (adaptedContent.text && requirements.maxTextLength && platform !== 'x') {
       adaptedContent.text = this.truncateText(adaptedContent.text, requirements.maxTextLength);
     }
 
@@ -368,15 +439,33 @@ export class ContentGenerationService {
 
   private async adaptForInstagram(
     baseContent: ContentData,
-    requirements: PlatformRequirements
+    requirements: PlatformRequirements,
+    options: PlatformAdaptationOptions = {}
   ): Promise<Record<string, any>> {
-    return {
-      aspectRatio: '1:1', // Default to square
-      mediaType: 'photo',
+    const mediaUrls = baseContent.mediaUrls || [];
+    const hashtags = this.extractHashtags(baseContent.text || '', requirements.hashtagLimit || 30);
+    const mediaType = mediaUrls.length > 1
+      ? 'carousel'
+      : (mediaUrls.some(url => /\.(mp4|mov)(\?|$)/i.test(url)) ? 'reel' : 'photo');
+    const adapted = {
+      aspectRatio: mediaType === 'reel' ? '9:16' : '1:1', // Default to square
+      mediaType,
       caption: baseContent.text || '',
-      hashtags: this.extractHashtags(baseContent.text || '', requirements.hashtagLimit || 30),
+      hashtags,
       location: null
     };
+
+    // Keep the caption clean and post the hashtags as the first comment instead
+    if (options.hashtagsInFirstComment && hashtags.length > 0) {
+      return {
+        ...adapted,
+        caption: this.removeHashtags(baseContent.text || ''),
+        hashtags: [],
+        firstComment: hashtags.join(' ')
+      };
+    }
+
+    return adapted;
   }
 
   private async adaptForTikTok(
@@ -418,6 +507,102 @@ export class ContentGenerationService {
     };
   }
 
+  private async adaptForX(
+    baseContent: ContentData,
+    requirements: PlatformRequirements
+  ): Promise<Record<string, any>> {
+    const thread = splitIntoThread(
+      baseContent.text || '',
+      requirements.maxTextLength || 280,
+      requirements.hashtagLimit || 2
+    );
+
+    return {
+      postType: thread.length > 1 ? 'thread' : (baseContent.mediaUrls?.length ? 'media' : 'text'),
+      thread,
+      mediaUrls: baseContent.mediaUrls || []
+    };
+  }
+
+  private async adaptForYouTube(
+    baseContent: ContentData,
+    requirements: PlatformRequirements
+  ): Promise<Record<string, any>> {
+    return {
+      title: this.extractTitle(baseContent.text || ''),
+      description: baseContent.text || '',
+      tags: this.extractHashtags(baseContent.text || '', requirements.hashtagLimit || 15)
+        .map(tag => tag.replace(/^#/, '')),
+      duration: Math.min(60, requirements.videoMaxDuration || 60),
+      aspectRatio: '9:16',
+      privacyStatus: 'public'
+    };
+  }
+
+  private async adaptForPinterest(
+    baseContent: ContentData,
+    requirements: PlatformRequirements
+  ): Promise<Record<string, any>> {
+    const mediaUrls = baseContent.mediaUrls || [];
+    const text = baseContent.text || '';
+
+    return {
+      postType: mediaUrls.some(url => /\.(mp4|mov|m4v)(\?|$)/i.test(url))
+        ? 'video'
+        : (mediaUrls.length > 1 ? 'idea' : 'image'),
+      title: this.extractTitle(text),
+      description: this.truncateText(text, requirements.maxTextLength || 500),
+      hashtags: this.extractHashtags(text, requirements.hashtagLimit || 20),
+      link: baseContent.metadata?.link || text.match(/https?:\/\/\S+/)?.[0] || null,
+      altText: baseContent.metadata?.altText || null,
+      aspectRatio: '2:3'
+    };
+  }
+
+  private async adaptForThreads(
+    baseContent: ContentData,
+    requirements: PlatformRequirements
+  ): Promise<Record<string, any>> {
+    const mediaUrls = baseContent.mediaUrls || [];
+    const [topicTag] = this.extractHashtags(baseContent.text || '', 1);
+
+    return {
+      postType: mediaUrls.length > 1 ? 'carousel' : (mediaUrls.length === 1 ? 'media' : 'text'),
+      topicTag: topicTag ? topicTag.replace(/^#/, '') : null,
+      linkAttachment: mediaUrls.length === 0 ? (baseContent.text || '').match(/https?:\/\/\S+/)?.[0] || null : null,
+      replyControl: 'everyone'
+    };
+  }
+
+  private async adaptForBluesky(
+    baseContent: ContentData,
+    requirements: PlatformRequirements
+  ): Promise<Record<string, any>> {
+    const mediaUrls = baseContent.mediaUrls || [];
+
+    return {
+      postType: mediaUrls.length > 0 ? 'media' : 'text',
+      altTexts: mediaUrls.map(() => baseContent.metadata?.altText || ''),
+      hashtags: this.extractHashtags(baseContent.text || '', requirements.hashtagLimit || 8)
+    };
+  }
+
+  private async adaptForGoogleBusiness(
+    baseContent: ContentData,
+    requirements: PlatformRequirements
+  ): Promise<Record<string, any>> {
+    const metadata = baseContent.metadata || {};
+    const link = metadata.link || (baseContent.text || '').match(/https?:\/\/\S+/)?.[0];
+
+    return {
+      postType: metadata.offer ? 'offer' : (metadata.event ? 'event' : 'whats_new'),
+      locationIds: metadata.locationIds || [],
+      event: metadata.event || null,
+      offer: metadata.offer || null,
+      callToAction: !metadata.offer && link ? { actionType: 'LEARN_MORE', url: link } : null
+    };
+  }
+
   private truncateText(text: string, maxLength: number): string {
     if (text.length <= maxLength) {
       return text;
@@ -440,6 +625,14 @@ export class ContentGenerationService {
     return matches.slice(0, limit);
   }
 
+  private removeHashtags(text: string): string {
+    return text
+      .replace(/#[\w]+/g, '')
+      .replace(/[ \t]+/g, ' ')
+      .replace(/ *\n */g, '\n')
+      .trim();
+  }
+
   private extractTitle(text: string): string {
     // Extract first sentence or first 100 characters as title
     const firstSentence = text.split('.')[0];
@@ -459,13 +652,18 @@ export class ContentGenerationService {
 
     const errors: string[] = [];
 
+    // Threads are validated post by post
+    const thread = content.platformSpecific?.thread as string[] | undefined;
+    const textParts = thread && thread.length > 0 ? thread : [content.text || ''];
+
     // Validate text length
-    if (content.text && requirements.maxTextLength && content.text.length > requirements.maxTextLength) {
-      errors.push(`Text exceeds maximum length of ${requirements.maxTextLength} characters`);
+    const { maxTextLength } = requirements;
+    if (maxTextLength && textParts.some(text => text.length > maxTextLength)) {
+      errors.push(`Text exceeds maximum length of ${maxTextLength} characters`);
     }
 
     // Validate hashtag count
-    const hashtags = this.extractHashtags(content.text || '', 1000);
+    const hashtags = this.extractHashtags(textParts.join(' '), 1000);
     if (requirements.hashtagLimit && hashtags.length > requirements.hashtagLimit) {
       errors.push(`Too many hashtags: ${hashtags.length} (max: ${requirements.hashtagLimit})`);
     }
@@ -479,6 +677,36 @@ export class ContentGenerationService {
             errors.push(`Video duration exceeds maximum of ${requirements.videoMaxDuration} seconds`);
           }
           break;
+        case 'youtube':
+          if (content.platformSpecific.duration && requirements.videoMaxDuration && 
+              content.platformSpecific.duration > requirements.videoMaxDuration) {
+            errors.push(`Shorts cannot be longer than ${requirements.videoMaxDuration} seconds`);
+          }
+          if (content.platformSpecific.aspectRatio && content.platformSpecific.aspectRatio !== '9:16') {
+            errors.push('Shorts must be vertical (9:16)');
+          }
+          break;
+        case 'pinterest':
+          if (content.platformSpecific.title && content.platformSpecific.title.length > 100) {
+            errors.push('Pin title exceeds maximum length of 100 characters');
+          }
+          if (content.platformSpecific.link && !/^https?:\/\/\S+$/i.test(content.platformSpecific.link)) {
+            errors.push('Pin destination link must be a valid http(s) URL');
+          }
+          break;
+        case 'bluesky':
+          if ((content.mediaUrls || []).length > 4) {
+            errors.push('Bluesky posts support up to 4 images');
+          }
+          break;
+        case 'google_business':
+          if (['offer', 'event'].includes(content.platformSpecific.postType) && !content.platformSpecific.event?.title) {
+            errors.push('Offer and event posts require a title and schedule');
+          }
+          if (content.platformSpecific.postType === 'offer' && content.platformSpecific.callToAction) {
+            errors.push('Offer posts cannot have a call-to-action button');
+          }
+          break;
       }
     }
 
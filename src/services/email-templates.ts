@@ -291,6 +291,15 @@ export class EmailTemplateService {
           variables: ['userName', 'contentTitle', 'rejectionReason', 'companyName'],
           tenantId,
           isActive: true
+        },
+        {
+          name: 'platform-reconnect',
+          subject: 'Reconnect your {{platformName}} account - {{companyName}}',
+          htmlContent: this.getPlatformReconnectHtmlTemplate(),
+          textContent: this.getPlatformReconnectTextTemplate(),
+          variables: ['userName', 'platformName', 'reconnectUrl', 'failureReason', 'companyName'],
+          tenantId,
+          isActive: true
         }
       ];
 
@@ -558,6 +567,43 @@ Please make the necessary changes and resubmit for approval.
 Best regards,
 The {{companyName}} Team
 
+{{footerText}}
+    `;
+  }
+
+  private getPlatformReconnectHtmlTemplate(): string {
+    return `
+      <div class="email-header">
+        <h1>Reconnect {{platformName}}</h1>
+      </div>
+      <div class="email-content">
+        <p>Hello {{userName}},</p>
+        <p>We could not renew access to your {{platformName}} account, so scheduled posts to {{platformName}} will not be published until it is reconnected.</p>
+        <p><strong>Reason:</strong> {{failureReason}}</p>
+        <p><a href="{{reconnectUrl}}" class="btn-primary">Reconnect {{platformName}}</a></p>
+        <p>Best regards,<br>The {{companyName}} Team</p>
+      </div>
+      <div class="email-footer">
+        <p>{{footerText}}</p>
+      </div>
+    `;
+  }
+
+  private getPlatformReconnectTextTemplate(): string {
+    return `
+Reconnect {{platformName}}
+
+Hello {{userName}},
+
+We could not renew access to your {{platformName}} account, so scheduled posts to {{platformName}} will not be published until it is reconnected.
+
+Reason: {{failureReason}}
+
+Reconnect your account here: {{reconnectUrl}}
+
+Best regards,
+The {{companyName}} Team
+
 {{footerText}}
     `;
   }
@@ -229,6 +229,30 @@ export class TransactionalEmailService {
     );
   }
 
+  /**
+   * Ask an admin to reconnect a platform account whose token could not be refreshed
+   */
+  async sendPlatformReconnectEmail(
+    tenantId: string,
+    userEmail: string,
+    userName: string,
+    platformName: string,
+    reconnectUrl: string,
+    failureReason: string
+  ): Promise<EmailSendResult> {
+    return this.sendBrandedEmail(
+      tenantId,
+      'platform-reconnect',
+      { to: userEmail },
+      {
+        userName,
+        platformName,
+        reconnectUrl,
+        failureReason
+      }
+    );
+  }
+
   /**
    * Send bulk emails (for notifications, newsletters, etc.)
    */
@@ -4,12 +4,14 @@ export interface EncryptionResult {
   encryptedData: string;
   iv: string;
   authTag: string;
+  version: number;
 }
 
 export interface DecryptionInput {
   encryptedData: string;
   iv: string;
   authTag: string;
+  version?: number; // Missing for payloads encrypted with AES-256-CBC
 }
 
 export interface EncryptionConfig {
@@ -17,22 +19,36 @@ export interface EncryptionConfig {
   keyLength: number;
   ivLength: number;
   tagLength: number;
+  version: number;
+  keyId: string;
 }
 
+// Envelope version written by encrypt(); payloads without one are legacy AES-256-CBC
+const CURRENT_VERSION = 2;
+const LEGACY_ALGORITHM = 'aes-256-cbc';
+const LEGACY_IV_LENGTH = 16;
+
 /**
  * Encryption service for data at rest and in transit
  * Implements Property 15: Data Encryption Compliance
  */
 export class EncryptionService {
-  private readonly algorithm = 'aes-256-cbc';
+  private readonly algorithm = 'aes-256-gcm';
   private readonly keyLength = 32; // 256 bits
-  private readonly ivLength = 16; // 128 bits
+  private readonly ivLength = 12; // 96 bits, as recommended for GCM
   private readonly tagLength = 16; // 128 bits
   private readonly masterKey: Buffer;
+  private readonly keyId: string;
 
-  constructor(masterKeyHex?: string) {
+  /**
+   * @param masterKeyHex 256-bit key as hex
+   * @param keyId encryption_keys row of the key, written into storage envelopes
+   */
+  constructor(masterKeyHex?: string, keyId: string = 'master') {
     if (masterKeyHex) {
       this.masterKey = Buffer.from(masterKeyHex, 'hex');
+    } else if (process.env.NODE_ENV === 'production') {
+      throw new Error('ENCRYPTION_MASTER_KEY must be set in production');
     } else {
       // Generate a new master key if none provided
       this.masterKey = crypto.randomBytes(this.keyLength);
@@ -42,29 +58,26 @@ export class EncryptionService {
     if (this.masterKey.length !== this.keyLength) {
       throw new Error(`Master key must be ${this.keyLength} bytes (${this.keyLength * 2} hex characters)`);
     }
+
+    this.keyId = keyId;
   }
 
   /**
-   * Encrypt sensitive data using AES-256-CBC
+   * Encrypt sensitive data using AES-256-GCM
    */
   encrypt(plaintext: string): EncryptionResult {
     try {
       const iv = crypto.randomBytes(this.ivLength);
-      const cipher = crypto.createCipheriv(this.algorithm, this.masterKey, iv);
+      const cipher = crypto.createCipheriv(this.algorithm, this.masterKey, iv, { authTagLength: this.tagLength });
 
       let encrypted = cipher.update(plaintext, 'utf8', 'hex');
       encrypted += cipher.final('hex');
 
-      // For CBC mode, create a hash-based auth tag for integrity
-      const authTag = crypto.createHash('sha256')
-        .update(encrypted + iv.toString('hex'))
-        .digest('hex')
-        .substring(0, 32);
-
       return {
         encryptedData: encrypted,
         iv: iv.toString('hex'),
-        authTag: authTag
+        authTag: cipher.getAuthTag().toString('hex'),
+        version: CURRENT_VERSION
       };
     } catch (error) {
       throw new Error(`Encryption failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -72,22 +85,26 @@ export class EncryptionService {
   }
 
   /**
-   * Decrypt sensitive data using AES-256-CBC
+   * Decrypt sensitive data. Payloads without a version were encrypted with
+   * AES-256-CBC and are still accepted until they have been re-encrypted.
    */
   decrypt(input: DecryptionInput): string {
     try {
-      // Verify integrity using the auth tag (hash)
-      const expectedAuthTag = crypto.createHash('sha256')
-        .update(input.encryptedData + input.iv)
-        .digest('hex')
-        .substring(0, 32);
-      
-      if (expectedAuthTag !== input.authTag) {
-        throw new Error('Authentication failed - data may have been tampered with');
+      if (input.version === undefined) {
+        return this.decryptLegacy(input);
+      }
+      if (input.version !== CURRENT_VERSION) {
+        throw new Error(`Unsupported encryption version: ${input.version}`);
       }
 
       const iv = Buffer.from(input.iv, 'hex');
-      const decipher = crypto.createDecipheriv(this.algorithm, this.masterKey, iv);
+      const authTag = Buffer.from(input.authTag, 'hex');
+      if (iv.length !== this.ivLength || authTag.length !== this.tagLength) {
+        throw new Error('Invalid IV or authentication tag length');
+      }
+
+      const decipher = crypto.createDecipheriv(this.algorithm, this.masterKey, iv, { authTagLength: this.tagLength });
+      decipher.setAuthTag(authTag);
 
       let decrypted = decipher.update(input.encryptedData, 'hex', 'utf8');
       decrypted += decipher.final('utf8');
@@ -98,6 +115,33 @@ export class EncryptionService {
     }
   }
 
+  /**
+   * Decrypt a payload written before the move to AES-256-GCM
+   */
+  private decryptLegacy(input: DecryptionInput): string {
+    // Verify integrity using the auth tag (hash)
+    const expectedAuthTag = crypto.createHash('sha256')
+      .update(input.encryptedData + input.iv)
+      .digest('hex')
+      .substring(0, 32);
+
+    if (expectedAuthTag !== input.authTag) {
+      throw new Error('Authentication failed - data may have been tampered with');
+    }
+
+    const iv = Buffer.from(input.iv, 'hex');
+    if (iv.length !== LEGACY_IV_LENGTH) {
+      throw new Error('Invalid IV length');
+    }
+
+    const decipher = crypto.createDecipheriv(LEGACY_ALGORITHM, this.masterKey, iv);
+
+    let decrypted = decipher.update(input.encryptedData, 'hex', 'utf8');
+    decrypted += decipher.final('utf8');
+
+    return decrypted;
+  }
+
   /**
    * Encrypt an object by serializing it first
    */
@@ -162,23 +206,43 @@ export class EncryptionService {
   }
 
   /**
-   * Encrypt data for database storage
+   * Encrypt data for database storage.
+   * Format: v2:keyId:iv:authTag:encryptedData
    */
   encryptForStorage(data: string): string {
     const result = this.encrypt(data);
-    return `${result.iv}:${result.authTag}:${result.encryptedData}`;
+    return `v${result.version}:${this.keyId}:${result.iv}:${result.authTag}:${result.encryptedData}`;
   }
 
   /**
-   * Decrypt data from database storage
+   * Decrypt data from database storage. Also accepts the legacy
+   * iv:authTag:encryptedData format written with AES-256-CBC.
    */
   decryptFromStorage(encryptedString: string): string {
     const parts = encryptedString.split(':');
-    if (parts.length !== 3) {
+
+    if (parts.length === 3) {
+      const [iv, authTag, encryptedData] = parts as [string, string, string];
+      return this.decrypt({ iv, authTag, encryptedData });
+    }
+
+    const [version, keyId, iv, authTag, encryptedData] = parts as [string, string, string, string, string];
+    if (parts.length !== 5 || !/^v\d+$/.test(version)) {
       throw new Error('Invalid encrypted storage format');
     }
-    const [iv, authTag, encryptedData] = parts;
-    return this.decrypt({ iv, authTag, encryptedData });
+
+    if (keyId !== this.keyId) {
+      throw new Error(`Data was encrypted with a different key: ${keyId}`);
+    }
+    return this.decrypt({ iv, authTag, encryptedData, version: parseInt(version.substring(1), 10) });
+  }
+
+  /**
+   * Whether stored data should be re-encrypted: it is in the legacy format,
+   * an older version or was encrypted with another key
+   */
+  needsReEncryption(encryptedString: string): boolean {
+    return !encryptedString.startsWith(`v${CURRENT_VERSION}:${this.keyId}:`);
   }
 
   /**
@@ -189,7 +253,9 @@ export class EncryptionService {
       algorithm: this.algorithm,
       keyLength: this.keyLength,
       ivLength: this.ivLength,
-      tagLength: this.tagLength
+      tagLength: this.tagLength,
+      version: CURRENT_VERSION,
+      keyId: this.keyId
     };
   }
 
@@ -203,7 +269,7 @@ export class EncryptionService {
 
 // Export singleton instance
 const masterKey = process.env.ENCRYPTION_MASTER_KEY;
-export const encryptionService = new EncryptionService(masterKey);
+export const encryptionService = new EncryptionService(masterKey, process.env.ENCRYPTION_MASTER_KEY_ID || 'master');
 
 /**
  * LGPD Compliance Service
@@ -0,0 +1,60 @@
+import { DatabasePool } from '../interfaces/database';
+import { SecretEncryptionService } from './secret-encryption';
+
+export interface KeyRotationSummary {
+  rotatedKeys: number;
+  reEncryptedRows: number;
+}
+
+/**
+ * Rotates tenant data keys once they expire and re-encrypts encrypted_data
+ * rows still written with rotated keys or the legacy AES-256-CBC format.
+ */
+export class KeyRotationService {
+  private secretEncryption: SecretEncryptionService;
+  private intervalId: NodeJS.Timeout | null = null;
+
+  constructor(db: DatabasePool, secretEncryption: SecretEncryptionService = new SecretEncryptionService(db)) {
+    this.secretEncryption = secretEncryption;
+  }
+
+  /**
+   * Start rotating keys on a schedule
+   * @param intervalMinutes How often to look for expired keys (default: 60 minutes)
+   */
+  start(intervalMinutes: number = 60): void {
+    if (this.intervalId) {
+      console.warn('Key rotation service is already running');
+      return;
+    }
+
+    console.log(`Starting encryption key rotation with ${intervalMinutes} minute intervals`);
+
+    const run = () => {
+      this.rotateAndReEncrypt().catch(error => {
+        console.error('Error rotating encryption keys:', error);
+      });
+    };
+
+    run();
+    this.intervalId = setInterval(run, intervalMinutes * 60 * 1000);
+  }
+
+  stop(): void {
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+  }
+
+  async rotateAndReEncrypt(now: Date = new Date()): Promise<KeyRotationSummary> {
+    const rotatedKeys = await this.secretEncryption.rotateDueKeys(now);
+    const reEncryptedRows = await this.secretEncryption.reEncryptStoredData();
+
+    if (rotatedKeys > 0 || reEncryptedRows > 0) {
+      console.log(`Rotated ${rotatedKeys} data keys and re-encrypted ${reEncryptedRows} rows`);
+    }
+
+    return { rotatedKeys, reEncryptedRows };
+  }
+}
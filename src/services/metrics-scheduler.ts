@@ -0,0 +1,73 @@
+import { AnalyticsService } from './analytics';
+import { JobQueue, jobQueue } from './queue/job-queue';
+import { MetricsCollectionJobData } from './queue/job-handlers';
+
+/**
+ * Queues metrics collection for tenants whose published posts are due.
+ * How often a post is due decays with its age; see
+ * AnalyticsService.getNextCollectionTime().
+ */
+export class MetricsCollectionScheduler {
+  private queue: JobQueue;
+  private analyticsService: AnalyticsService;
+  private intervalId: NodeJS.Timeout | null = null;
+  private pendingJobs: Map<string, string> = new Map(); // tenant ID -> queued job ID
+
+  constructor(queue: JobQueue = jobQueue, analyticsService: AnalyticsService = new AnalyticsService()) {
+    this.queue = queue;
+    this.analyticsService = analyticsService;
+  }
+
+  /**
+   * Start queueing due collections
+   * @param intervalMinutes How often to look for due posts (default: 15 minutes)
+   */
+  start(intervalMinutes: number = 15): void {
+    if (this.intervalId) {
+      console.warn('Metrics collection scheduler is already running');
+      return;
+    }
+
+    console.log(`Starting metrics collection scheduler with ${intervalMinutes} minute intervals`);
+
+    const run = () => {
+      this.queueDueCollections().catch(error => {
+        console.error('Error scheduling metrics collection:', error);
+      });
+    };
+
+    run();
+    this.intervalId = setInterval(run, intervalMinutes * 60 * 1000);
+  }
+
+  stop(): void {
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+  }
+
+  /**
+   * Queue one collection job per tenant with due posts, unless the
+   * tenant's previous job has not run yet
+   * @returns the number of jobs queued
+   */
+  async queueDueCollections(): Promise<number> {
+    const tenantIds = await this.analyticsService.getTenantsWithDueMetrics();
+    let queued = 0;
+
+    for (const tenantId of tenantIds) {
+      const pendingJobId = this.pendingJobs.get(tenantId);
+      const pendingJob = pendingJobId ? await this.queue.getJob('metrics-collection', pendingJobId) : null;
+      if (pendingJob && ['waiting', 'delayed', 'active'].includes(pendingJob.state)) {
+        continue;
+      }
+
+      const job = await this.queue.add<MetricsCollectionJobData>('metrics-collection', 'collect-metrics', { tenantId });
+      this.pendingJobs.set(tenantId, job.id);
+      queued++;
+    }
+
+    return queued;
+  }
+}
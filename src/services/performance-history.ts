@@ -75,7 +75,13 @@ export class PerformanceHistoryService {
       instagram: [],
       tiktok: [],
       facebook: [],
-      linkedin: []
+      linkedin: [],
+      x: [],
+      youtube: [],
+      pinterest: [],
+      threads: [],
+      bluesky: [],
+      google_business: []
     };
     
     result.rows.forEach(row => {
@@ -351,7 +357,13 @@ export class PerformanceHistoryService {
       instagram: { total: 0, count: 0 },
       tiktok: { total: 0, count: 0 },
       facebook: { total: 0, count: 0 },
-      linkedin: { total: 0, count: 0 }
+      linkedin: { total: 0, count: 0 },
+      x: { total: 0, count: 0 },
+      youtube: { total: 0, count: 0 },
+      pinterest: { total: 0, count: 0 },
+      threads: { total: 0, count: 0 },
+      bluesky: { total: 0, count: 0 },
+      google_business: { total: 0, count: 0 }
     };
     
     publications.forEach(pub => {
@@ -603,7 +615,13 @@ export class PerformanceHistoryService {
       instagram: { scores: [], engagement: [], count: 0 },
       tiktok: { scores: [], engagement: [], count: 0 },
       facebook: { scores: [], engagement: [], count: 0 },
-      linkedin: { scores: [], engagement: [], count: 0 }
+      linkedin: { scores: [], engagement: [], count: 0 },
+      x: { scores: [], engagement: [], count: 0 },
+      youtube: { scores: [], engagement: [], count: 0 },
+      pinterest: { scores: [], engagement: [], count: 0 },
+      threads: { scores: [], engagement: [], count: 0 },
+      bluesky: { scores: [], engagement: [], count: 0 },
+      google_business: { scores: [], engagement: [], count: 0 }
     };
     
     publications.forEach(pub => {
@@ -0,0 +1,348 @@
+import { v4 as uuidv4 } from 'uuid';
+import {
+  PromptTemplate,
+  PromptTemplateKey,
+  PromptTemplateRef,
+  PromptTemplateVersion,
+  TenantContext
+} from '../types/index.js';
+import { DatabasePool } from '../interfaces/database.js';
+
+export type PromptVariables = Record<string, string | string[] | undefined>;
+
+export interface RenderedPrompt {
+  prompt: string;
+  template: PromptTemplateRef;
+}
+
+// Variables each template can use, besides briefing.<field> for any
+// briefing field
+export const PROMPT_TEMPLATE_VARIABLES: Record<PromptTemplateKey, string[]> = {
+  content_generation: [
+    'contentType', 'briefingContext', 'brandVoice', 'bestPractices', 'targetPlatforms',
+    'title', 'description', 'contentInstructions'
+  ],
+  video_script_section: [
+    'sectionType', 'sectionTitle', 'sectionDescription', 'targetDuration', 'briefingContext',
+    'scriptTitle', 'scriptDescription', 'targetPlatform', 'brandVoice', 'bestPractices',
+    'sectionGuidelines', 'examples', 'customInstructions', 'sectionInstructions'
+  ]
+};
+
+// Built-in prompts, seeded as the platform defaults
+export const DEFAULT_PROMPT_TEMPLATES: Record<PromptTemplateKey, { name: string; body: string }> = {
+  content_generation: {
+    name: 'Content generation',
+    body: [
+      'Generate {{contentType}} content with the following requirements:\n\n',
+      'BRIEFING CONTEXT:\n{{briefingContext}}\n\n',
+      '{{#brandVoice}}BRAND VOICE GUIDELINES:\n{{brandVoice}}\n\n{{/brandVoice}}',
+      '{{#bestPractices}}BEST PRACTICES:\n{{bestPractices}}\n\n{{/bestPractices}}',
+      'TARGET PLATFORMS: {{targetPlatforms}}\n\n',
+      'CONTENT TITLE: {{title}}\n',
+      '{{#description}}CONTENT DESCRIPTION: {{description}}\n{{/description}}',
+      '\n{{contentInstructions}}'
+    ].join('')
+  },
+  video_script_section: {
+    name: 'Video script section',
+    body: [
+      'Generate {{sectionType}} content for a video script.\n\n',
+      'SECTION: {{sectionTitle}}\n',
+      'DESCRIPTION: {{sectionDescription}}\n\n',
+      '{{#targetDuration}}TARGET DURATION: {{targetDuration}} seconds\n\n{{/targetDuration}}',
+      'BRIEFING CONTEXT:\n{{briefingContext}}\n',
+      'SCRIPT TITLE: {{scriptTitle}}\n',
+      '{{#scriptDescription}}SCRIPT DESCRIPTION: {{scriptDescription}}\n{{/scriptDescription}}',
+      'TARGET PLATFORM: {{targetPlatform}}\n\n',
+      '{{#brandVoice}}BRAND VOICE GUIDELINES:\n{{brandVoice}}\n\n{{/brandVoice}}',
+      '{{#bestPractices}}BEST PRACTICES:\n{{bestPractices}}\n\n{{/bestPractices}}',
+      '{{#sectionGuidelines}}SECTION GUIDELINES:\n{{sectionGuidelines}}\n\n{{/sectionGuidelines}}',
+      '{{#examples}}EXAMPLES:\n{{examples}}\n\n{{/examples}}',
+      '{{#customInstructions}}CUSTOM INSTRUCTIONS:\n{{customInstructions}}\n\n{{/customInstructions}}',
+      '{{sectionInstructions}}'
+    ].join('')
+  }
+};
+
+const SECTION_PATTERN = /\{\{#([\w.]+)\}\}([\s\S]*?)\{\{\/\1\}\}/g;
+const VARIABLE_PATTERN = /\{\{([#/]?)([\w.]+)\}\}/g;
+
+/**
+ * Versioned prompt templates. Tenants override the platform defaults
+ * per template key; every change is kept as a version so a template can
+ * be rolled back and AI requests can be compared by the version they used.
+ */
+export class PromptTemplateService {
+  private db: DatabasePool;
+
+  constructor(db: DatabasePool) {
+    this.db = db;
+  }
+
+  /**
+   * The tenant's template for a key, else the platform default
+   */
+  async getTemplate(key: PromptTemplateKey, tenantContext: TenantContext): Promise<PromptTemplate> {
+    const result = await this.db.query(`
+      SELECT * FROM prompt_templates
+      WHERE key = $1 AND (tenant_id = $2 OR tenant_id IS NULL)
+      ORDER BY CASE WHEN tenant_id = $2 THEN 0 ELSE 1 END
+      LIMIT 1
+    `, [key, tenantContext.tenantId]);
+
+    const row = result.rows[0];
+    if (row) {
+      return this.mapRowToTemplate(row);
+    }
+
+    // Defaults have not been seeded yet
+    const now = new Date();
+    return { key, ...DEFAULT_PROMPT_TEMPLATES[key], version: 1, createdAt: now, updatedAt: now };
+  }
+
+  async listTemplates(tenantContext: TenantContext): Promise<PromptTemplate[]> {
+    const keys = Object.keys(DEFAULT_PROMPT_TEMPLATES) as PromptTemplateKey[];
+    return Promise.all(keys.map(key => this.getTemplate(key, tenantContext)));
+  }
+
+  /**
+   * Save a new version of the tenant's template. The first save copies
+   * the key into a tenant template that overrides the platform default.
+   */
+  async saveTemplate(
+    key: PromptTemplateKey,
+    body: string,
+    tenantContext: TenantContext,
+    changeNote?: string
+  ): Promise<PromptTemplate> {
+    this.validateTemplate(key, body);
+
+    const current = await this.getTemplate(key, tenantContext);
+    const now = new Date();
+    let template: PromptTemplate;
+
+    if (current.id && current.tenantId === tenantContext.tenantId) {
+      if (current.body === body) {
+        return current;
+      }
+
+      // Bumped in SQL so concurrent saves cannot both claim the same version
+      const result = await this.db.query(`
+        UPDATE prompt_templates
+        SET body = $1, version = version + 1, updated_at = $2
+        WHERE id = $3 AND tenant_id = $4
+        RETURNING *
+      `, [body, now, current.id, tenantContext.tenantId]);
+      template = this.mapRowToTemplate(result.rows[0]);
+    } else {
+      const result = await this.db.query(`
+        INSERT INTO prompt_templates (
+          id, key, name, body, version, tenant_id, created_by, created_at, updated_at
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+        RETURNING *
+      `, [uuidv4(), key, current.name, body, 1, tenantContext.tenantId, tenantContext.user.id, now, now]);
+      template = this.mapRowToTemplate(result.rows[0]);
+    }
+
+    await this.createTemplateVersion(template, tenantContext, changeNote);
+    return template;
+  }
+
+  async getTemplateVersions(key: PromptTemplateKey, tenantContext: TenantContext): Promise<PromptTemplateVersion[]> {
+    const result = await this.db.query(`
+      SELECT v.* FROM prompt_template_versions v
+      JOIN prompt_templates t ON t.id = v.template_id
+      WHERE t.key = $1 AND t.tenant_id = $2
+      ORDER BY v.version DESC
+    `, [key, tenantContext.tenantId]);
+
+    return (result.rows || []).map(row => ({
+      id: row.id,
+      templateId: row.template_id,
+      version: row.version,
+      body: row.body,
+      changeNote: row.change_note || undefined,
+      tenantId: row.tenant_id || undefined,
+      createdBy: row.created_by || undefined,
+      createdAt: new Date(row.created_at)
+    }));
+  }
+
+  /**
+   * Restore the body of an earlier version. The rollback is saved as a
+   * new version so the history stays complete.
+   */
+  async rollbackTemplate(
+    key: PromptTemplateKey,
+    version: number,
+    tenantContext: TenantContext
+  ): Promise<PromptTemplate> {
+    const versions = await this.getTemplateVersions(key, tenantContext);
+    const target = versions.find(candidate => candidate.version === version);
+    if (!target) {
+      throw new Error(`Prompt template version not found: ${key} v${version}`);
+    }
+
+    return this.saveTemplate(key, target.body, tenantContext, `Rollback to version ${version}`);
+  }
+
+  /**
+   * Render the tenant's template for a key, recording which version was used
+   */
+  async renderPrompt(
+    key: PromptTemplateKey,
+    variables: PromptVariables,
+    tenantContext: TenantContext
+  ): Promise<RenderedPrompt> {
+    const template = await this.getTemplate(key, tenantContext);
+
+    return {
+      prompt: this.render(template.body, variables),
+      template: {
+        key,
+        ...(template.id && { templateId: template.id }),
+        version: template.version
+      }
+    };
+  }
+
+  /**
+   * briefingContext with the briefing's title, type and text fields, and
+   * each text field as briefing.<field>
+   */
+  getBriefingVariables(briefing: { title: string; type: string; fields: Record<string, any> }): PromptVariables {
+    const fields = Object.entries(briefing.fields || {})
+      .filter((entry): entry is [string, string] => typeof entry[1] === 'string' && entry[1].trim() !== '');
+
+    return {
+      ...Object.fromEntries(fields.map(([key, value]) => [`briefing.${key}`, value])),
+      briefingContext: [
+        `Title: ${briefing.title}`,
+        `Type: ${briefing.type}`,
+        ...fields.map(([key, value]) => `${key}: ${value}`)
+      ].join('\n') + '\n'
+    };
+  }
+
+  /**
+   * Fill in {{variable}} placeholders. {{#variable}}...{{/variable}} blocks
+   * are dropped when the variable is empty; lists are joined by lines.
+   */
+  render(body: string, variables: PromptVariables): string {
+    const valueOf = (name: string): string => {
+      const value = variables[name];
+      return Array.isArray(value) ? value.join('\n') : value || '';
+    };
+
+    // Inner blocks of nested sections are resolved on the next pass
+    let rendered = body;
+    while (rendered.search(SECTION_PATTERN) !== -1) {
+      rendered = rendered.replace(SECTION_PATTERN, (match, name: string, inner: string) => valueOf(name) ? inner : '');
+    }
+
+    return rendered.replace(VARIABLE_PATTERN, (match, marker: string, name: string) => marker ? '' : valueOf(name));
+  }
+
+  /**
+   * Platform defaults for keys that do not have one yet
+   */
+  async initializeDefaultTemplates(): Promise<void> {
+    for (const [key, template] of Object.entries(DEFAULT_PROMPT_TEMPLATES)) {
+      try {
+        // Instances starting together may race; the partial unique index
+        // on platform defaults lets only one of them insert the key
+        const now = new Date();
+        const templateId = uuidv4();
+        const inserted = await this.db.query(`
+          INSERT INTO prompt_templates (
+            id, key, name, body, version, tenant_id, created_by, created_at, updated_at
+          ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+          ON CONFLICT (key) WHERE tenant_id IS NULL DO NOTHING
+          RETURNING id
+        `, [templateId, key, template.name, template.body, 1, null, null, now, now]);
+        if (inserted.rows.length === 0) {
+          continue;
+        }
+
+        await this.db.query(`
+          INSERT INTO prompt_template_versions (
+            id, template_id, version, body, change_note, tenant_id, created_by, created_at
+          ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+        `, [uuidv4(), templateId, 1, template.body, 'Platform default', null, null, now]);
+      } catch (error) {
+        console.error(`Error initializing prompt template ${key}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Reject placeholders the generation code never fills and unbalanced
+   * {{#variable}} blocks, so a typo cannot silently empty part of a prompt
+   */
+  private validateTemplate(key: PromptTemplateKey, body: string): void {
+    if (!body.trim()) {
+      throw new Error('Prompt template body is required');
+    }
+
+    const allowed = PROMPT_TEMPLATE_VARIABLES[key];
+    const unknown = new Set<string>();
+    const open: string[] = [];
+
+    for (const [, marker, name = ''] of body.matchAll(VARIABLE_PATTERN)) {
+      if (!allowed.includes(name) && !name.startsWith('briefing.')) {
+        unknown.add(name);
+      }
+      if (marker === '#') {
+        open.push(name);
+      } else if (marker === '/' && open.pop() !== name) {
+        throw new Error(`Unbalanced section in prompt template: {{/${name}}}`);
+      }
+    }
+
+    if (open.length > 0) {
+      throw new Error(`Unclosed section in prompt template: {{#${open[open.length - 1]}}}`);
+    }
+    if (unknown.size > 0) {
+      throw new Error(
+        `Unknown prompt template variables: ${Array.from(unknown).join(', ')}. ` +
+        `Available: ${allowed.join(', ')}, briefing.<field>`
+      );
+    }
+  }
+
+  private async createTemplateVersion(
+    template: PromptTemplate,
+    tenantContext: TenantContext,
+    changeNote?: string
+  ): Promise<void> {
+    await this.db.query(`
+      INSERT INTO prompt_template_versions (
+        id, template_id, version, body, change_note, tenant_id, created_by, created_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+    `, [
+      uuidv4(),
+      template.id,
+      template.version,
+      template.body,
+      changeNote || null,
+      tenantContext.tenantId,
+      tenantContext.user.id,
+      new Date()
+    ]);
+  }
+
+  private mapRowToTemplate(row: any): PromptTemplate {
+    return {
+      id: row.id,
+      key: row.key,
+      name: row.name,
+      body: row.body,
+      version: row.version,
+      ...(row.tenant_id && { tenantId: row.tenant_id }),
+      ...(row.created_by && { createdBy: row.created_by }),
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at)
+    };
+  }
+}
@@ -0,0 +1,572 @@
+import {
+  AdaptedContent,
+  ValidationResult,
+  ValidationError
+} from '../../types/index.js';
+import {
+  PlatformAdapter,
+  PlatformCredentials,
+  PublishResult,
+  ContentRequirements,
+  PlatformHealthCheck,
+  PostMetrics
+} from './platform-adapter.js';
+
+export const BLUESKY_MAX_POST_LENGTH = 300;
+
+const MAX_IMAGES = 4;
+const MAX_IMAGE_SIZE = 1000000; // ~976KB blob limit
+const MAX_TAG_LENGTH = 64;
+
+const MENTION_REGEX = /(^|[\s(])(@([a-zA-Z0-9](?:[a-zA-Z0-9-]*[a-zA-Z0-9])?(?:\.[a-zA-Z0-9](?:[a-zA-Z0-9-]*[a-zA-Z0-9])?)+))/g;
+const URL_REGEX = /(^|[\s(])(https?:\/\/[^\s]+)/g;
+const TAG_REGEX = /(^|\s)(#([\p{L}\p{N}_]*\p{L}[\p{L}\p{N}_]*))/gu;
+const TRAILING_PUNCTUATION_REGEX = /[.,;:!?)]+$/;
+
+export interface BlueskyFacetIndex {
+  byteStart: number;
+  byteEnd: number;
+}
+
+export type BlueskyFacetFeature =
+  | { $type: 'app.bsky.richtext.facet#link'; uri: string }
+  | { $type: 'app.bsky.richtext.facet#mention'; did: string }
+  | { $type: 'app.bsky.richtext.facet#tag'; tag: string };
+
+export interface BlueskyFacet {
+  index: BlueskyFacetIndex;
+  features: BlueskyFacetFeature[];
+}
+
+interface BlueskyBlob {
+  $type: 'blob';
+  ref: { $link: string };
+  mimeType: string;
+  size: number;
+}
+
+interface BlueskyPostRecord {
+  $type: 'app.bsky.feed.post';
+  text: string;
+  createdAt: string;
+  facets?: BlueskyFacet[];
+  langs?: string[];
+  embed?: {
+    $type: 'app.bsky.embed.images';
+    images: { alt: string; image: BlueskyBlob }[];
+  };
+}
+
+interface BlueskySession {
+  did: string;
+  handle: string;
+  accessJwt: string;
+  refreshJwt: string;
+}
+
+/**
+ * Length of a post as counted by Bluesky, in graphemes. Combining marks,
+ * variation selectors, skin tone modifiers and emoji joined with a zero-width
+ * joiner do not count as separate characters.
+ */
+export function getBlueskyTextLength(text: string): number {
+  return Array.from(text.replace(/\u200D\P{M}/gu, '').replace(/\p{M}|[\u{1F3FB}-\u{1F3FF}]/gu, '')).length;
+}
+
+/**
+ * Links, mentions and hashtags as rich-text facets. AT Protocol indexes
+ * facets by UTF-8 byte offsets, not by JavaScript string positions. Mention
+ * features carry the handle until it is resolved to a DID.
+ */
+export function buildBlueskyFacets(text: string): BlueskyFacet[] {
+  const facets: BlueskyFacet[] = [];
+  const byteIndex = (start: number, value: string): BlueskyFacetIndex => {
+    const byteStart = Buffer.byteLength(text.slice(0, start), 'utf8');
+    return { byteStart, byteEnd: byteStart + Buffer.byteLength(value, 'utf8') };
+  };
+  // Every pattern captures the preceding space or bracket first
+  const startOf = (match: RegExpMatchArray): number => (match.index ?? 0) + (match[1] ?? '').length;
+
+  for (const match of text.matchAll(URL_REGEX)) {
+    const uri = (match[2] ?? '').replace(TRAILING_PUNCTUATION_REGEX, '');
+    facets.push({
+      index: byteIndex(startOf(match), uri),
+      features: [{ $type: 'app.bsky.richtext.facet#link', uri }]
+    });
+  }
+
+  for (const match of text.matchAll(MENTION_REGEX)) {
+    const [, , mention = '', handle = ''] = match;
+    facets.push({
+      index: byteIndex(startOf(match), mention),
+      features: [{ $type: 'app.bsky.richtext.facet#mention', did: handle.toLowerCase() }]
+    });
+  }
+
+  for (const match of text.matchAll(TAG_REGEX)) {
+    const [, , hashtag = '', tag = ''] = match;
+    if (tag.length > MAX_TAG_LENGTH) {
+      continue;
+    }
+    facets.push({
+      index: byteIndex(startOf(match), hashtag),
+      features: [{ $type: 'app.bsky.richtext.facet#tag', tag }]
+    });
+  }
+
+  // Mentions and hashtags inside a link belong to the link
+  return facets
+    .sort((a, b) => a.index.byteStart - b.index.byteStart)
+    .filter((facet, i, sorted) => {
+      const previous = sorted[i - 1];
+      return !previous || facet.index.byteStart >= previous.index.byteEnd;
+    });
+}
+
+export class BlueskyAdapter extends PlatformAdapter {
+  private readonly baseUrl: string;
+
+  constructor(credentials: PlatformCredentials) {
+    super('bluesky', credentials);
+    this.baseUrl = credentials.baseUrl
+      || `${credentials.additionalCredentials?.serviceUrl || 'https://bsky.social'}/xrpc`;
+  }
+
+  async authenticate(): Promise<boolean> {
+    try {
+      const response = await fetch(`${this.baseUrl}/com.atproto.server.getSession`, {
+        headers: {
+          'Authorization': `Bearer ${this.credentials.accessToken}`
+        }
+      });
+
+      return response.ok;
+    } catch (error) {
+      console.error('Bluesky authentication failed:', error);
+      return false;
+    }
+  }
+
+  async publish(content: AdaptedContent): Promise<PublishResult> {
+    const rateLimited = await this.checkRateLimit();
+    if (rateLimited) {
+      return rateLimited;
+    }
+
+    try {
+      // Validate content before publishing
+      const validation = await this.validateContent(content);
+      if (!validation.isValid) {
+        return {
+          success: false,
+          error: `Content validation failed: ${validation.errors.map(e => e.message).join(', ')}`,
+          retryable: false
+        };
+      }
+
+      const did = await this.getDid();
+      const record = await this.buildPostRecord(content);
+
+      const response = await fetch(`${this.baseUrl}/com.atproto.repo.createRecord`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${this.credentials.accessToken}`,
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          repo: did,
+          collection: 'app.bsky.feed.post',
+          record
+        })
+      });
+
+      if (!response.ok) {
+        throw await this.toError(response, 'Failed to create Bluesky post');
+      }
+
+      const data = await response.json() as { uri: string; cid: string };
+      const rkey = data.uri.split('/').pop();
+
+      return {
+        success: true,
+        platformPostId: data.uri,
+        publishedAt: new Date(),
+        metadata: {
+          postType: record.embed ? 'media' : 'text',
+          cid: data.cid,
+          url: `https://bsky.app/profile/${did}/post/${rkey}`
+        }
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      const isRetryable = this.isRetryableError(error);
+
+      return {
+        success: false,
+        error: errorMessage,
+        retryable: isRetryable
+      };
+    }
+  }
+
+  async validateContent(content: AdaptedContent): Promise<ValidationResult> {
+    const errors: ValidationError[] = [];
+    const requirements = this.getRequirements();
+    const mediaUrls = content.mediaUrls || [];
+    const text = content.text || '';
+
+    if (!text.trim() && mediaUrls.length === 0) {
+      errors.push({
+        field: 'text',
+        message: 'Bluesky posts require text or images',
+        code: 'EMPTY_POST'
+      });
+    }
+
+    if (requirements.maxTextLength && getBlueskyTextLength(text) > requirements.maxTextLength) {
+      errors.push({
+        field: 'text',
+        message: `Text exceeds maximum length of ${requirements.maxTextLength} characters`,
+        code: 'TEXT_TOO_LONG'
+      });
+    }
+
+    if (mediaUrls.length > MAX_IMAGES) {
+      errors.push({
+        field: 'mediaUrls',
+        message: `Bluesky posts support up to ${MAX_IMAGES} images`,
+        code: 'TOO_MANY_MEDIA'
+      });
+    }
+
+    const isValidFormat = mediaUrls.every(url =>
+      requirements.imageFormats?.some(format => url.toLowerCase().includes(`.${format}`))
+    );
+    if (!isValidFormat) {
+      errors.push({
+        field: 'mediaUrls',
+        message: `Invalid image format. Supported: ${requirements.imageFormats?.join(', ')}`,
+        code: 'INVALID_MEDIA_FORMAT'
+      });
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors
+    };
+  }
+
+  getRequirements(): ContentRequirements {
+    return {
+      maxTextLength: BLUESKY_MAX_POST_LENGTH,
+      hashtagLimit: 8,
+      imageFormats: ['jpg', 'jpeg', 'png', 'webp'],
+      aspectRatios: ['1:1', '4:5', '16:9'],
+      maxFileSize: MAX_IMAGE_SIZE,
+      requiredFields: ['text']
+    };
+  }
+
+  async checkHealth(): Promise<PlatformHealthCheck> {
+    const startTime = Date.now();
+
+    try {
+      const response = await fetch(`${this.baseUrl}/com.atproto.server.getSession`, {
+        headers: {
+          'Authorization': `Bearer ${this.credentials.accessToken}`
+        }
+      });
+
+      const responseTime = Date.now() - startTime;
+
+      if (response.ok) {
+        const rateLimitRemaining = response.headers.get('ratelimit-remaining');
+        const rateLimitReset = response.headers.get('ratelimit-reset');
+        return {
+          isHealthy: true,
+          responseTime,
+          timestamp: new Date(),
+          ...(rateLimitRemaining && { rateLimitRemaining: parseInt(rateLimitRemaining) }),
+          ...(rateLimitReset && { rateLimitReset: new Date(parseInt(rateLimitReset) * 1000) })
+        };
+      } else {
+        const errorData = await response.json() as { message?: string };
+        return {
+          isHealthy: false,
+          responseTime,
+          timestamp: new Date(),
+          error: errorData.message || 'Health check failed'
+        };
+      }
+    } catch (error) {
+      return {
+        isHealthy: false,
+        responseTime: Date.now() - startTime,
+        timestamp: new Date(),
+        error: error instanceof Error ? error.message : 'Health check failed'
+      };
+    }
+  }
+
+  async refreshCredentials(): Promise<PlatformCredentials> {
+    if (!this.credentials.refreshToken) {
+      throw new Error('No refresh token available');
+    }
+
+    try {
+      // Sessions are refreshed by presenting the refresh JWT as the bearer token
+      const response = await fetch(`${this.baseUrl}/com.atproto.server.refreshSession`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${this.credentials.refreshToken}`
+        }
+      });
+
+      if (!response.ok) {
+        throw await this.refreshRejectedError(response);
+      }
+
+      const session = await response.json() as BlueskySession;
+
+      const newCredentials: PlatformCredentials = {
+        ...this.credentials,
+        accessToken: session.accessJwt,
+        refreshToken: session.refreshJwt,
+        additionalCredentials: {
+          ...this.credentials.additionalCredentials,
+          did: session.did,
+          handle: session.handle
+        }
+      };
+
+      this.updateCredentials(newCredentials);
+      return newCredentials;
+    } catch (error) {
+      throw new Error(`Failed to refresh Bluesky credentials: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Bluesky posts are immutable records; they can be deleted but not edited.
+   * The post ID is the record's at:// URI.
+   */
+  override async deletePost(platformPostId: string): Promise<PublishResult> {
+    return this.managePost(platformPostId, async () => {
+      const [repo, collection, rkey] = platformPostId.replace('at://', '').split('/');
+
+      const response = await fetch(`${this.baseUrl}/com.atproto.repo.deleteRecord`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${this.credentials.accessToken}`,
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ repo, collection, rkey })
+      });
+
+      if (!response.ok) {
+        throw await this.toError(response, 'Failed to delete Bluesky post');
+      }
+    }, error => this.isRetryableError(error));
+  }
+
+  /**
+   * listRecords returns the account's newest posts first; the first page
+   * covers the time between retries.
+   */
+  override async findPublishedPost(content: AdaptedContent, since: Date): Promise<PublishResult | null> {
+    const did = await this.getDid();
+    const response = await fetch(
+      `${this.baseUrl}/com.atproto.repo.listRecords?repo=${encodeURIComponent(did)}&collection=app.bsky.feed.post&limit=25`,
+      {
+        headers: {
+          'Authorization': `Bearer ${this.credentials.accessToken}`
+        }
+      }
+    );
+
+    if (!response.ok) {
+      throw await this.toError(response, 'Failed to list Bluesky posts');
+    }
+
+    const data = await response.json() as { records?: { uri: string; cid: string; value: BlueskyPostRecord }[] };
+    const post = (data.records || [])
+      .filter(record => new Date(record.value.createdAt) >= since)
+      .find(record => this.isSameText(record.value.text, content.text));
+
+    return post ? {
+      success: true,
+      platformPostId: post.uri,
+      publishedAt: new Date(post.value.createdAt),
+      metadata: {
+        postType: post.value.embed ? 'media' : 'text',
+        cid: post.cid,
+        url: `https://bsky.app/profile/${did}/post/${post.uri.split('/').pop()}`
+      }
+    } : null;
+  }
+
+  // Bluesky does not count views; reposts and quotes count as shares
+  override async fetchMetrics(platformPostId: string): Promise<PostMetrics> {
+    await this.acquireMetricsRateLimit();
+
+    const response = await fetch(`${this.baseUrl}/app.bsky.feed.getPosts?uris=${encodeURIComponent(platformPostId)}`, {
+      headers: {
+        'Authorization': `Bearer ${this.credentials.accessToken}`
+      }
+    });
+
+    if (!response.ok) {
+      throw await this.toError(response, 'Failed to fetch Bluesky post');
+    }
+
+    const data = await response.json() as {
+      posts?: { likeCount?: number; replyCount?: number; repostCount?: number; quoteCount?: number }[];
+    };
+    const post = data.posts?.[0];
+    if (!post) {
+      throw new Error(`Bluesky post ${platformPostId} not found`);
+    }
+
+    return {
+      views: 0,
+      likes: post.likeCount || 0,
+      comments: post.replyCount || 0,
+      shares: (post.repostCount || 0) + (post.quoteCount || 0)
+    };
+  }
+
+  private async getDid(): Promise<string> {
+    const did = this.credentials.additionalCredentials?.did;
+    if (did) {
+      return did;
+    }
+
+    const response = await fetch(`${this.baseUrl}/com.atproto.server.getSession`, {
+      headers: {
+        'Authorization': `Bearer ${this.credentials.accessToken}`
+      }
+    });
+
+    if (!response.ok) {
+      throw await this.toError(response, 'Failed to get Bluesky session');
+    }
+
+    const session = await response.json() as BlueskySession;
+    return session.did;
+  }
+
+  private async buildPostRecord(content: AdaptedContent): Promise<BlueskyPostRecord> {
+    const text = content.text || '';
+    const facets = await this.resolveMentions(buildBlueskyFacets(text));
+    const mediaUrls = content.mediaUrls || [];
+    const altTexts = (content.platformSpecific?.altTexts as string[] | undefined) || [];
+    const langs = content.platformSpecific?.langs as string[] | undefined;
+
+    const record: BlueskyPostRecord = {
+      $type: 'app.bsky.feed.post',
+      text,
+      createdAt: new Date().toISOString(),
+      ...(facets.length > 0 && { facets }),
+      ...(langs && { langs })
+    };
+
+    if (mediaUrls.length > 0) {
+      const images: { alt: string; image: BlueskyBlob }[] = [];
+      for (const [index, url] of mediaUrls.entries()) {
+        images.push({ alt: altTexts[index] || '', image: await this.uploadImage(url) });
+      }
+      record.embed = { $type: 'app.bsky.embed.images', images };
+    }
+
+    return record;
+  }
+
+  /**
+   * Replace mention handles with DIDs. Handles that do not resolve are left
+   * as plain text.
+   */
+  private async resolveMentions(facets: BlueskyFacet[]): Promise<BlueskyFacet[]> {
+    const resolved: BlueskyFacet[] = [];
+
+    for (const facet of facets) {
+      const [feature] = facet.features;
+      if (feature?.$type !== 'app.bsky.richtext.facet#mention') {
+        resolved.push(facet);
+        continue;
+      }
+
+      const response = await fetch(
+        `${this.baseUrl}/com.atproto.identity.resolveHandle?handle=${encodeURIComponent(feature.did)}`
+      );
+      if (response.ok) {
+        const data = await response.json() as { did: string };
+        resolved.push({ ...facet, features: [{ $type: 'app.bsky.richtext.facet#mention', did: data.did }] });
+      }
+    }
+
+    return resolved;
+  }
+
+  private async uploadImage(imageUrl: string): Promise<BlueskyBlob> {
+    const imageResponse = await fetch(imageUrl);
+    if (!imageResponse.ok) {
+      throw new Error('Failed to fetch image file');
+    }
+
+    const image = await imageResponse.arrayBuffer();
+    if (image.byteLength > MAX_IMAGE_SIZE) {
+      throw new Error(`Image exceeds Bluesky maximum size of ${MAX_IMAGE_SIZE} bytes`);
+    }
+
+    const response = await fetch(`${this.baseUrl}/com.atproto.repo.uploadBlob`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${this.credentials.accessToken}`,
+        'Content-Type': imageResponse.headers.get('content-type') || this.getContentType(imageUrl)
+      },
+      body: image
+    });
+
+    if (!response.ok) {
+      throw await this.toError(response, 'Failed to upload image to Bluesky');
+    }
+
+    const data = await response.json() as { blob: BlueskyBlob };
+    return data.blob;
+  }
+
+  private getContentType(imageUrl: string): string {
+    const extension = imageUrl.toLowerCase().match(/\.(\w+)(\?|$)/)?.[1];
+    switch (extension) {
+      case 'png':
+        return 'image/png';
+      case 'webp':
+        return 'image/webp';
+      default:
+        return 'image/jpeg';
+    }
+  }
+
+  private async toError(response: Response, prefix: string): Promise<Error> {
+    if (response.status === 429) {
+      return new Error('Bluesky rate limit exceeded');
+    }
+    if (response.status >= 500) {
+      return new Error(`Bluesky server error (${response.status})`);
+    }
+
+    const errorData = await response.json() as { error?: string; message?: string };
+    return new Error(`${prefix}: ${errorData.message || errorData.error || 'Unknown error'}`);
+  }
+
+  private isRetryableError(error: any): boolean {
+    if (error instanceof Error) {
+      const message = error.message.toLowerCase();
+      return message.includes('timeout') ||
+             message.includes('network') ||
+             message.includes('rate limit') ||
+             message.includes('server error');
+    }
+    return false;
+  }
+}
@@ -0,0 +1,116 @@
+import { v4 as uuidv4 } from 'uuid';
+import { TenantContext } from '../../types/index.js';
+import { DatabasePool } from '../../interfaces/database.js';
+import { GoogleBusinessLocation } from './google-business-adapter.js';
+
+export interface BusinessLocation extends GoogleBusinessLocation {
+  id: string;
+  isActive: boolean;
+  updatedAt: Date;
+}
+
+/**
+ * Google Business Profile locations each client tenant publishes to.
+ * Locations are synced from the connected Google account; agencies then
+ * choose which ones receive posts by default.
+ */
+export class BusinessLocationService {
+  private db: DatabasePool;
+
+  constructor(db: DatabasePool) {
+    this.db = db;
+  }
+
+  async listLocations(tenantContext: TenantContext, activeOnly: boolean = false): Promise<BusinessLocation[]> {
+    const result = await this.db.query(`
+      SELECT id, account_id, location_id, title, address, is_active, updated_at
+      FROM business_locations
+      WHERE tenant_id = $1 ${activeOnly ? 'AND is_active = true' : ''}
+      ORDER BY title ASC
+    `, [tenantContext.tenantId]);
+
+    return result.rows.map(row => this.mapRow(row));
+  }
+
+  /**
+   * Resource names of the tenant's active locations, the default publishing
+   * targets when content does not pick its own locations.
+   */
+  async getActiveLocationNames(tenantContext: TenantContext): Promise<string[]> {
+    const locations = await this.listLocations(tenantContext, true);
+    return locations.map(location => `accounts/${location.accountId}/locations/${location.locationId}`);
+  }
+
+  /**
+   * Upsert locations fetched from Google. New locations start inactive so a
+   * newly connected multi-branch account never posts everywhere by surprise,
+   * unless it has a single location. Locations that disappeared from the
+   * account are deactivated.
+   */
+  async syncLocations(
+    locations: GoogleBusinessLocation[],
+    tenantContext: TenantContext
+  ): Promise<BusinessLocation[]> {
+    const now = new Date().toISOString();
+    const activeByDefault = locations.length === 1;
+
+    for (const location of locations) {
+      await this.db.query(`
+        INSERT INTO business_locations (
+          id, tenant_id, account_id, location_id, title, address, is_active, created_at, updated_at
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $8)
+        ON CONFLICT (tenant_id, location_id) DO UPDATE SET
+          account_id = EXCLUDED.account_id,
+          title = EXCLUDED.title,
+          address = EXCLUDED.address,
+          updated_at = EXCLUDED.updated_at
+      `, [
+        uuidv4(),
+        tenantContext.tenantId,
+        location.accountId,
+        location.locationId,
+        location.title,
+        location.address || null,
+        activeByDefault,
+        now
+      ]);
+    }
+
+    const syncedIds = locations.map(location => location.locationId);
+    const existing = await this.listLocations(tenantContext);
+    for (const location of existing) {
+      if (location.isActive && !syncedIds.includes(location.locationId)) {
+        await this.setLocationActive(location.locationId, false, tenantContext);
+      }
+    }
+
+    return this.listLocations(tenantContext);
+  }
+
+  async setLocationActive(
+    locationId: string,
+    isActive: boolean,
+    tenantContext: TenantContext
+  ): Promise<BusinessLocation | null> {
+    const result = await this.db.query(`
+      UPDATE business_locations
+      SET is_active = $1, updated_at = $2
+      WHERE tenant_id = $3 AND location_id = $4
+      RETURNING id, account_id, location_id, title, address, is_active, updated_at
+    `, [isActive, new Date().toISOString(), tenantContext.tenantId, locationId]);
+
+    return result.rows.length > 0 ? this.mapRow(result.rows[0]) : null;
+  }
+
+  private mapRow(row: any): BusinessLocation {
+    return {
+      id: row.id,
+      accountId: row.account_id,
+      locationId: row.location_id,
+      title: row.title,
+      ...(row.address && { address: row.address }),
+      isActive: !!row.is_active,
+      updatedAt: new Date(row.updated_at)
+    };
+  }
+}
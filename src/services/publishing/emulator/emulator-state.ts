@@ -0,0 +1,261 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import { Platform } from '../../../types/index.js';
+
+export type EmulatedPlatform = Extract<Platform, 'instagram' | 'facebook' | 'tiktok' | 'linkedin' | 'x'>;
+
+export type EmulatedFailure = 'rate_limit' | 'server_error' | 'token_expired';
+
+export interface PlatformEmulatorOptions {
+  rateLimit: number; // requests per access token per window
+  rateLimitWindowMs: number;
+  tokenTtlMs: number;
+  videoProcessingChecks: number; // status checks before a video finishes processing
+  processingCheckAfterSecs: number; // polling hint returned by APIs that send one
+}
+
+export interface EmulatedToken {
+  platform: EmulatedPlatform;
+  accessToken: string;
+  refreshToken: string;
+  expiresAt: Date;
+}
+
+export interface EmulatedMedia {
+  id: string;
+  platform: EmulatedPlatform;
+  status: 'uploading' | 'processing' | 'finished';
+  isVideo: boolean;
+  checks: number;
+}
+
+export interface EmulatedPost {
+  id: string;
+  platform: EmulatedPlatform;
+  accessToken: string;
+  body: Record<string, any>;
+  createdAt: Date;
+}
+
+export interface RateLimitUsage {
+  limit: number;
+  remaining: number;
+  resetAt: Date;
+  limited: boolean;
+}
+
+/**
+ * How one emulated API reports auth, rate limit and server errors, so the
+ * shared guard can answer in that platform's own format.
+ */
+export interface EmulatedApiDialect {
+  getAccessToken(req: Request): string | undefined;
+  setRateLimitHeaders(res: Response, usage: RateLimitUsage): void;
+  sendError(res: Response, error: 'invalid_token' | EmulatedFailure, usage?: RateLimitUsage): void;
+}
+
+/**
+ * In-memory state shared by every emulated API: issued tokens, rate limit
+ * windows, queued failures and everything published.
+ */
+export class PlatformEmulatorState {
+  readonly options: PlatformEmulatorOptions;
+  readonly posts: EmulatedPost[] = [];
+  private tokens = new Map<string, EmulatedToken>();
+  private usage = new Map<string, { count: number; windowStart: number }>();
+  private failures = new Map<EmulatedPlatform, EmulatedFailure[]>();
+  private media = new Map<string, EmulatedMedia>();
+
+  constructor(options: PlatformEmulatorOptions) {
+    this.options = options;
+  }
+
+  issueToken(platform: EmulatedPlatform, ttlMs: number = this.options.tokenTtlMs): EmulatedToken {
+    const token: EmulatedToken = {
+      platform,
+      accessToken: `${platform}-access-${uuidv4()}`,
+      refreshToken: `${platform}-refresh-${uuidv4()}`,
+      expiresAt: new Date(Date.now() + ttlMs)
+    };
+
+    this.tokens.set(token.accessToken, token);
+    return token;
+  }
+
+  /**
+   * Exchange a refresh token for a new token pair. The previous access
+   * token stops working, as it does on the real platforms.
+   */
+  refreshToken(platform: EmulatedPlatform, refreshToken: string): EmulatedToken | null {
+    const current = Array.from(this.tokens.values())
+      .find(token => token.platform === platform && token.refreshToken === refreshToken);
+    if (!current) {
+      return null;
+    }
+
+    this.tokens.delete(current.accessToken);
+    return this.issueToken(platform);
+  }
+
+  getToken(accessToken: string): EmulatedToken | undefined {
+    return this.tokens.get(accessToken);
+  }
+
+  expireToken(accessToken: string): void {
+    const token = this.tokens.get(accessToken);
+    if (token) {
+      token.expiresAt = new Date(Date.now() - 1000);
+    }
+  }
+
+  /**
+   * Make the next requests to a platform fail, regardless of the endpoint.
+   */
+  failNext(platform: EmulatedPlatform, failure: EmulatedFailure, times: number = 1): void {
+    const queue = this.failures.get(platform) || [];
+    for (let i = 0; i < times; i++) {
+      queue.push(failure);
+    }
+    this.failures.set(platform, queue);
+  }
+
+  takeFailure(platform: EmulatedPlatform): EmulatedFailure | undefined {
+    return this.failures.get(platform)?.shift();
+  }
+
+  /**
+   * Count a request against the token's fixed rate limit window.
+   */
+  consumeRateLimit(accessToken: string): RateLimitUsage {
+    const now = Date.now();
+    let window = this.usage.get(accessToken);
+    if (!window || now - window.windowStart >= this.options.rateLimitWindowMs) {
+      window = { count: 0, windowStart: now };
+      this.usage.set(accessToken, window);
+    }
+
+    const limited = window.count >= this.options.rateLimit;
+    if (!limited) {
+      window.count++;
+    }
+
+    return {
+      limit: this.options.rateLimit,
+      remaining: Math.max(0, this.options.rateLimit - window.count),
+      resetAt: new Date(window.windowStart + this.options.rateLimitWindowMs),
+      limited
+    };
+  }
+
+  createMedia(platform: EmulatedPlatform, isVideo: boolean, status: EmulatedMedia['status']): EmulatedMedia {
+    const media: EmulatedMedia = {
+      id: `${Date.now()}${this.media.size}`,
+      platform,
+      status,
+      isVideo,
+      checks: 0
+    };
+
+    this.media.set(media.id, media);
+    return media;
+  }
+
+  getMedia(id: string): EmulatedMedia | undefined {
+    return this.media.get(id);
+  }
+
+  startProcessing(media: EmulatedMedia): void {
+    media.status = media.isVideo && this.options.videoProcessingChecks > 0 ? 'processing' : 'finished';
+  }
+
+  /**
+   * Report a media item's status. Videos finish processing after the
+   * configured number of status checks.
+   */
+  checkMedia(id: string): EmulatedMedia | undefined {
+    const media = this.media.get(id);
+    if (media && media.status === 'processing') {
+      media.checks++;
+      if (media.checks >= this.options.videoProcessingChecks) {
+        media.status = 'finished';
+      }
+    }
+    return media;
+  }
+
+  recordPost(platform: EmulatedPlatform, accessToken: string, body: Record<string, any>, id?: string): EmulatedPost {
+    const post: EmulatedPost = {
+      id: id || `${Date.now()}${this.posts.length}`,
+      platform,
+      accessToken,
+      body,
+      createdAt: new Date()
+    };
+
+    this.posts.push(post);
+    return post;
+  }
+
+  reset(): void {
+    this.posts.length = 0;
+    this.tokens.clear();
+    this.usage.clear();
+    this.failures.clear();
+    this.media.clear();
+  }
+}
+
+/**
+ * Authenticate a request the way the real APIs do: unknown and expired
+ * tokens are rejected, queued failures are served, and every accepted
+ * request counts against the token's rate limit and carries its headers.
+ */
+export function emulatedApiGuard(
+  state: PlatformEmulatorState,
+  platforms: EmulatedPlatform[],
+  dialect: EmulatedApiDialect
+): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const accessToken = dialect.getAccessToken(req);
+    const token = accessToken ? state.getToken(accessToken) : undefined;
+
+    if (!token || !platforms.includes(token.platform)) {
+      dialect.sendError(res, 'invalid_token');
+      return;
+    }
+
+    const failure = state.takeFailure(token.platform);
+    if (failure && failure !== 'rate_limit') {
+      dialect.sendError(res, failure);
+      return;
+    }
+
+    if (token.expiresAt.getTime() <= Date.now()) {
+      dialect.sendError(res, 'token_expired');
+      return;
+    }
+
+    let usage = state.consumeRateLimit(token.accessToken);
+    if (failure === 'rate_limit') {
+      usage = { ...usage, remaining: 0, limited: true };
+    }
+    dialect.setRateLimitHeaders(res, usage);
+
+    if (usage.limited) {
+      dialect.sendError(res, 'rate_limit', usage);
+      return;
+    }
+
+    res.locals.token = token;
+    next();
+  };
+}
+
+export function getBearerToken(req: Request): string | undefined {
+  const authorization = req.headers.authorization;
+  return authorization?.startsWith('Bearer ') ? authorization.slice('Bearer '.length) : undefined;
+}
+
+export function isVideoUrl(url: string): boolean {
+  return /\.(mp4|mov)(\?|$)/i.test(url);
+}
@@ -0,0 +1,192 @@
+import express, { Router, Request, Response } from 'express';
+import {
+  PlatformEmulatorState,
+  EmulatedApiDialect,
+  EmulatedPlatform,
+  emulatedApiGuard,
+  isVideoUrl
+} from './emulator-state.js';
+
+export const GRAPH_USER_ID = 'emulated-user';
+export const GRAPH_PAGE_ID = 'emulated-page';
+export const GRAPH_INSTAGRAM_ACCOUNT_ID = 'emulated-ig-account';
+
+const graphDialect: EmulatedApiDialect = {
+  getAccessToken: (req) => (req.query.access_token as string) || req.body?.access_token,
+
+  // Graph reports usage as a percentage of the app's allowance rather than a count
+  setRateLimitHeaders: (res, usage) => {
+    const percentage = Math.round(((usage.limit - usage.remaining) / usage.limit) * 100);
+    res.setHeader('x-app-usage', JSON.stringify({
+      call_count: percentage,
+      total_cputime: percentage,
+      total_time: percentage
+    }));
+  },
+
+  sendError: (res, error) => {
+    switch (error) {
+      case 'invalid_token':
+        sendGraphError(res, 400, 190, 'Invalid OAuth access token - Cannot parse access token');
+        break;
+      case 'token_expired':
+        sendGraphError(res, 400, 190, 'Error validating access token: Session has expired', { error_subcode: 463 });
+        break;
+      case 'rate_limit':
+        sendGraphError(res, 403, 4, '(#4) Application request limit reached', { is_transient: true });
+        break;
+      case 'server_error':
+        sendGraphError(res, 500, 2, 'An unexpected error has occurred. Please retry your request later.', { is_transient: true });
+        break;
+    }
+  }
+};
+
+function sendGraphError(
+  res: Response,
+  status: number,
+  code: number,
+  message: string,
+  extra: Record<string, unknown> = {}
+): void {
+  res.status(status).json({
+    error: {
+      message,
+      type: 'OAuthException',
+      code,
+      ...extra,
+      fbtrace_id: `emulated-${Date.now()}`
+    }
+  });
+}
+
+/**
+ * The Facebook Graph API subset used by the Instagram and Facebook adapters:
+ * the user's page and its Instagram business account, page posts, and the
+ * Instagram container lifecycle where videos must finish processing before
+ * they can be published.
+ */
+export function createGraphApiRouter(state: PlatformEmulatorState): Router {
+  const router = Router();
+  const platforms: EmulatedPlatform[] = ['instagram', 'facebook'];
+
+  router.use(express.json());
+  router.use(express.urlencoded({ extended: true }));
+
+  router.post('/oauth/access_token', (req: Request, res: Response) => {
+    const token = state.refreshToken('instagram', req.body.refresh_token)
+      || state.refreshToken('facebook', req.body.refresh_token);
+
+    if (!token) {
+      sendGraphError(res, 400, 190, 'Invalid refresh token');
+      return;
+    }
+
+    res.json({
+      access_token: token.accessToken,
+      refresh_token: token.refreshToken,
+      token_type: 'bearer',
+      expires_in: Math.round((token.expiresAt.getTime() - Date.now()) / 1000)
+    });
+  });
+
+  router.use(emulatedApiGuard(state, platforms, graphDialect));
+
+  router.get('/me', (req: Request, res: Response) => {
+    res.json({ id: GRAPH_USER_ID, name: 'Emulated User' });
+  });
+
+  // Page tokens are derived from the user token, so they share its expiry
+  router.get('/me/accounts', (req: Request, res: Response) => {
+    res.json({
+      data: [{
+        id: GRAPH_PAGE_ID,
+        name: 'Emulated Page',
+        access_token: res.locals.token.accessToken
+      }]
+    });
+  });
+
+  router.post('/:accountId/media', (req: Request, res: Response) => {
+    if (req.params.accountId !== GRAPH_INSTAGRAM_ACCOUNT_ID) {
+      sendGraphError(res, 400, 100, 'Unsupported post request');
+      return;
+    }
+
+    const isVideo = !!req.body.video_url || ['VIDEO', 'REELS'].includes(req.body.media_type);
+    const container = state.createMedia('instagram', isVideo, 'uploading');
+    state.startProcessing(container);
+
+    res.json({ id: container.id });
+  });
+
+  router.post('/:accountId/media_publish', (req: Request, res: Response) => {
+    const container = state.getMedia(String(req.body.creation_id));
+
+    if (!container) {
+      sendGraphError(res, 400, 100, 'Invalid parameter', { error_subcode: 2207008 });
+      return;
+    }
+    if (container.status !== 'finished') {
+      sendGraphError(res, 400, 9007, 'Media ID is not available', {
+        error_subcode: 2207027,
+        error_user_msg: 'The media is not ready for publishing, please wait for a moment'
+      });
+      return;
+    }
+
+    const post = state.recordPost('instagram', res.locals.token.accessToken, req.body);
+    res.json({ id: post.id });
+  });
+
+  router.post('/:pageId/:edge(feed|photos|videos)', (req: Request, res: Response) => {
+    if (req.params.pageId !== GRAPH_PAGE_ID) {
+      sendGraphError(res, 400, 100, 'Unsupported post request');
+      return;
+    }
+
+    const post = state.recordPost('facebook', res.locals.token.accessToken, { ...req.body, edge: req.params.edge });
+    const postId = `${GRAPH_PAGE_ID}_${post.id}`;
+
+    if (req.params.edge === 'feed') {
+      res.json({ id: postId });
+    } else if (req.params.edge === 'photos') {
+      res.json({ id: post.id, post_id: postId });
+    } else {
+      const video = state.createMedia('facebook', isVideoUrl(req.body.file_url || ''), 'uploading');
+      state.startProcessing(video);
+      res.json({ id: video.id });
+    }
+  });
+
+  // Node lookups: the page's Instagram account and container status
+  router.get('/:nodeId', (req: Request, res: Response) => {
+    const fields = String(req.query.fields || '');
+
+    if (req.params.nodeId === GRAPH_PAGE_ID) {
+      res.json({
+        id: GRAPH_PAGE_ID,
+        ...(fields.includes('instagram_business_account') && {
+          instagram_business_account: { id: GRAPH_INSTAGRAM_ACCOUNT_ID }
+        })
+      });
+      return;
+    }
+
+    const media = state.checkMedia(req.params.nodeId as string);
+    if (!media) {
+      sendGraphError(res, 400, 100, `Unsupported get request. Object with ID '${req.params.nodeId}' does not exist`);
+      return;
+    }
+
+    res.json({
+      id: media.id,
+      status_code: media.status === 'finished' ? 'FINISHED' : 'IN_PROGRESS',
+      ...(media.platform === 'facebook' && {
+        status: { video_status: media.status === 'finished' ? 'ready' : 'processing' }
+      })
+    });
+  });
+
+  return router;
+}
@@ -0,0 +1,151 @@
+import express, { Router, Request, Response } from 'express';
+import {
+  PlatformEmulatorState,
+  EmulatedApiDialect,
+  emulatedApiGuard,
+  getBearerToken
+} from './emulator-state.js';
+
+export const LINKEDIN_MEMBER_ID = 'emulated-member';
+
+const linkedInDialect: EmulatedApiDialect = {
+  getAccessToken: getBearerToken,
+
+  setRateLimitHeaders: (res, usage) => {
+    res.setHeader('x-ratelimit-limit', usage.limit.toString());
+    res.setHeader('x-ratelimit-remaining', usage.remaining.toString());
+    res.setHeader('x-ratelimit-reset', Math.ceil(usage.resetAt.getTime() / 1000).toString());
+  },
+
+  sendError: (res, error) => {
+    switch (error) {
+      case 'invalid_token':
+        sendLinkedInError(res, 401, 'Invalid access token', 65600);
+        break;
+      case 'token_expired':
+        sendLinkedInError(res, 401, 'The token used in the request has expired', 65601);
+        break;
+      case 'rate_limit':
+        sendLinkedInError(res, 429, 'Resource level throttle limit for calls to this resource is reached.');
+        break;
+      case 'server_error':
+        sendLinkedInError(res, 500, 'Internal Server Error');
+        break;
+    }
+  }
+};
+
+function sendLinkedInError(res: Response, status: number, message: string, serviceErrorCode?: number): void {
+  res.status(status).json({
+    ...(serviceErrorCode && { serviceErrorCode }),
+    message,
+    status
+  });
+}
+
+/**
+ * The LinkedIn v2 API subset used by the LinkedIn adapter: the member
+ * profile, UGC posts and asset uploads, whose video recipes stay in
+ * PROCESSING until the asset is ready.
+ */
+export function createLinkedInApiRouter(state: PlatformEmulatorState): Router {
+  const router = Router();
+
+  router.use(express.json());
+  router.use(express.urlencoded({ extended: true }));
+
+  router.post('/oauth/v2/accessToken', (req: Request, res: Response) => {
+    const token = state.refreshToken('linkedin', req.body.refresh_token);
+
+    if (!token) {
+      res.status(400).json({
+        error: 'invalid_request',
+        error_description: 'The provided authorization grant or refresh token is invalid, expired or revoked'
+      });
+      return;
+    }
+
+    res.json({
+      access_token: token.accessToken,
+      refresh_token: token.refreshToken,
+      expires_in: Math.round((token.expiresAt.getTime() - Date.now()) / 1000)
+    });
+  });
+
+  // Upload URLs are pre-signed and do not take the access token
+  router.put('/uploads/:assetId', express.raw({ type: '*/*', limit: '100mb' }), (req: Request, res: Response) => {
+    const asset = state.getMedia(req.params.assetId as string);
+
+    if (!asset || asset.status !== 'uploading') {
+      res.status(404).end();
+      return;
+    }
+
+    state.startProcessing(asset);
+    res.status(201).end();
+  });
+
+  router.use(emulatedApiGuard(state, ['linkedin'], linkedInDialect));
+
+  router.get('/people/~', (req: Request, res: Response) => {
+    res.json({
+      id: LINKEDIN_MEMBER_ID,
+      localizedFirstName: 'Emulated',
+      localizedLastName: 'Member'
+    });
+  });
+
+  router.post('/assets', (req: Request, res: Response) => {
+    if (req.query.action !== 'registerUpload') {
+      sendLinkedInError(res, 400, 'Unsupported action');
+      return;
+    }
+
+    const recipes: string[] = req.body.registerUploadRequest?.recipes || [];
+    const asset = state.createMedia('linkedin', recipes.some(recipe => recipe.endsWith('feedshare-video')), 'uploading');
+
+    res.json({
+      value: {
+        uploadMechanism: {
+          'com.linkedin.digitalmedia.uploading.MediaUploadHttpRequest': {
+            uploadUrl: `${req.protocol}://${req.get('host')}${req.baseUrl}/uploads/${asset.id}`,
+            headers: {}
+          }
+        },
+        asset: `urn:li:digitalmediaAsset:${asset.id}`
+      }
+    });
+  });
+
+  router.get('/assets/:assetId', (req: Request, res: Response) => {
+    const asset = state.checkMedia(req.params.assetId as string);
+
+    if (!asset) {
+      sendLinkedInError(res, 404, 'Asset not found');
+      return;
+    }
+
+    res.json({
+      id: asset.id,
+      recipes: [{
+        recipe: asset.isVideo ? 'urn:li:digitalmediaRecipe:feedshare-video' : 'urn:li:digitalmediaRecipe:feedshare-image',
+        status: asset.status === 'finished' ? 'AVAILABLE' : asset.status === 'processing' ? 'PROCESSING' : 'WAITING_UPLOAD'
+      }]
+    });
+  });
+
+  router.post('/ugcPosts', (req: Request, res: Response) => {
+    if (req.body.author !== `urn:li:person:${LINKEDIN_MEMBER_ID}`) {
+      sendLinkedInError(res, 403, 'Not enough permissions to access: ugcPosts.CREATE.NO_VERSION', 100);
+      return;
+    }
+
+    const post = state.recordPost('linkedin', res.locals.token.accessToken, req.body);
+    const postUrn = `urn:li:share:${post.id}`;
+
+    res.setHeader('x-restli-id', postUrn);
+    res.status(201).json({ id: postUrn });
+  });
+
+  return router;
+}
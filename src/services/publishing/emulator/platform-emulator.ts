@@ -0,0 +1,154 @@
+import express, { Express, Request, Response } from 'express';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import { PlatformCredentials } from '../platform-adapter.js';
+import {
+  PlatformEmulatorState,
+  PlatformEmulatorOptions,
+  EmulatedPlatform,
+  EmulatedFailure,
+  EmulatedPost
+} from './emulator-state.js';
+import { createGraphApiRouter } from './graph-api.js';
+import { createTikTokApiRouter } from './tiktok-api.js';
+import { createLinkedInApiRouter } from './linkedin-api.js';
+import { createXApiRouter } from './x-api.js';
+
+export type { PlatformEmulatorOptions, EmulatedPlatform, EmulatedFailure, EmulatedPost } from './emulator-state.js';
+
+/**
+ * Where each platform's API is mounted; appended to the emulator URL this
+ * is the adapter's base URL.
+ */
+export const EMULATED_API_PATHS: Record<EmulatedPlatform, string> = {
+  instagram: '/graph/v18.0',
+  facebook: '/graph/v18.0',
+  tiktok: '/tiktok',
+  linkedin: '/linkedin/v2',
+  x: '/x/2'
+};
+
+const MEDIA_CONTENT_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  mp4: 'video/mp4',
+  mov: 'video/quicktime'
+};
+
+/**
+ * Local stand-in for the social platform APIs the publishing adapters call.
+ * It mimics their rate limit headers, token expiry, asynchronous video
+ * processing and error payloads so publishing can be exercised end to end
+ * without network access. Point an adapter at it through
+ * `PlatformCredentials.baseUrl`, e.g. with `issueCredentials`.
+ */
+export class PlatformEmulator {
+  readonly app: Express;
+  readonly state: PlatformEmulatorState;
+  private server: Server | null = null;
+  private url: string | null = null;
+
+  constructor(options: Partial<PlatformEmulatorOptions> = {}) {
+    this.state = new PlatformEmulatorState({
+      rateLimit: 200,
+      rateLimitWindowMs: 60 * 60 * 1000,
+      tokenTtlMs: 60 * 60 * 1000,
+      videoProcessingChecks: 2,
+      processingCheckAfterSecs: 1,
+      ...options
+    });
+
+    this.app = express();
+    this.app.use(EMULATED_API_PATHS.instagram, createGraphApiRouter(this.state));
+    this.app.use(EMULATED_API_PATHS.tiktok, createTikTokApiRouter(this.state));
+    this.app.use(EMULATED_API_PATHS.linkedin, createLinkedInApiRouter(this.state));
+    this.app.use(EMULATED_API_PATHS.x, createXApiRouter(this.state));
+
+    // Sample media for adapters that download files before uploading them
+    this.app.get('/media/:fileName', (req: Request, res: Response) => {
+      const extension = (req.params.fileName as string).split('.').pop()?.toLowerCase() || '';
+      const contentType = MEDIA_CONTENT_TYPES[extension];
+
+      if (!contentType) {
+        res.status(404).end();
+        return;
+      }
+
+      res.setHeader('Content-Type', contentType);
+      res.send(Buffer.alloc(1024));
+    });
+  }
+
+  async start(port: number = 0): Promise<string> {
+    const server = this.app.listen(port, '127.0.0.1');
+    this.server = server;
+    await new Promise<void>((resolve, reject) => {
+      server.once('listening', resolve);
+      server.once('error', reject);
+    });
+
+    const address = server.address() as AddressInfo;
+    this.url = `http://127.0.0.1:${address.port}`;
+    return this.url;
+  }
+
+  async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) {
+      return;
+    }
+
+    await new Promise<void>((resolve, reject) => {
+      server.close(error => error ? reject(error) : resolve());
+    });
+    this.server = null;
+    this.url = null;
+  }
+
+  getBaseUrl(platform: EmulatedPlatform): string {
+    return `${this.getUrl()}${EMULATED_API_PATHS[platform]}`;
+  }
+
+  getMediaUrl(fileName: string): string {
+    return `${this.getUrl()}/media/${fileName}`;
+  }
+
+  /**
+   * Issue a fresh token pair and return credentials pointing at the emulator.
+   */
+  issueCredentials(platform: EmulatedPlatform, ttlMs?: number): PlatformCredentials {
+    const token = this.state.issueToken(platform, ttlMs);
+
+    return {
+      accessToken: token.accessToken,
+      refreshToken: token.refreshToken,
+      appId: `emulated-${platform}-app`,
+      appSecret: `emulated-${platform}-secret`,
+      baseUrl: this.getBaseUrl(platform)
+    };
+  }
+
+  expireToken(accessToken: string): void {
+    this.state.expireToken(accessToken);
+  }
+
+  failNext(platform: EmulatedPlatform, failure: EmulatedFailure, times: number = 1): void {
+    this.state.failNext(platform, failure, times);
+  }
+
+  getPosts(platform?: EmulatedPlatform): EmulatedPost[] {
+    return platform ? this.state.posts.filter(post => post.platform === platform) : [...this.state.posts];
+  }
+
+  reset(): void {
+    this.state.reset();
+  }
+
+  private getUrl(): string {
+    if (!this.url) {
+      throw new Error('Platform emulator is not running');
+    }
+    return this.url;
+  }
+}
@@ -0,0 +1,25 @@
+import dotenv from 'dotenv';
+import { PlatformEmulator, EMULATED_API_PATHS, EmulatedPlatform } from './platform-emulator.js';
+
+dotenv.config();
+
+// Runs the platform emulator on its own for manual end-to-end publishing
+const emulator = new PlatformEmulator({
+  ...(process.env.EMULATOR_RATE_LIMIT && { rateLimit: parseInt(process.env.EMULATOR_RATE_LIMIT) }),
+  ...(process.env.EMULATOR_TOKEN_TTL_MS && { tokenTtlMs: parseInt(process.env.EMULATOR_TOKEN_TTL_MS) })
+});
+
+const startEmulator = async () => {
+  const url = await emulator.start(parseInt(process.env.EMULATOR_PORT || '4010'));
+  console.log(`Platform emulator running at ${url}`);
+
+  for (const platform of Object.keys(EMULATED_API_PATHS) as EmulatedPlatform[]) {
+    const credentials = emulator.issueCredentials(platform);
+    console.log(`${platform}: baseUrl=${credentials.baseUrl} accessToken=${credentials.accessToken}`);
+  }
+};
+
+startEmulator().catch(error => {
+  console.error('Failed to start platform emulator:', error);
+  process.exit(1);
+});
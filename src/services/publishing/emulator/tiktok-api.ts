@@ -0,0 +1,156 @@
+import express, { Router, Request, Response } from 'express';
+import {
+  PlatformEmulatorState,
+  EmulatedApiDialect,
+  emulatedApiGuard,
+  getBearerToken
+} from './emulator-state.js';
+
+const tiktokDialect: EmulatedApiDialect = {
+  getAccessToken: getBearerToken,
+
+  setRateLimitHeaders: (res, usage) => {
+    res.setHeader('x-rate-limit-limit', usage.limit.toString());
+    res.setHeader('x-rate-limit-remaining', usage.remaining.toString());
+    res.setHeader('x-rate-limit-reset', Math.ceil(usage.resetAt.getTime() / 1000).toString());
+  },
+
+  sendError: (res, error) => {
+    switch (error) {
+      case 'invalid_token':
+        sendTikTokError(res, 401, 'access_token_invalid', 'The access token is invalid or not found in the request.');
+        break;
+      case 'token_expired':
+        sendTikTokError(res, 401, 'access_token_invalid', 'The access token has expired.');
+        break;
+      case 'rate_limit':
+        sendTikTokError(res, 429, 'rate_limit_exceeded', 'The API rate limit was exceeded. Please try again later.');
+        break;
+      case 'server_error':
+        sendTikTokError(res, 500, 'internal_error', 'Something went wrong. Please try again later.');
+        break;
+    }
+  }
+};
+
+function sendTikTokError(res: Response, status: number, code: string, message: string): void {
+  res.status(status).json({
+    error: {
+      code,
+      message,
+      log_id: `emulated-${Date.now()}`
+    }
+  });
+}
+
+/**
+ * The TikTok Content Posting API subset used by the TikTok adapter: upload
+ * initialisation, the pre-signed upload URL, publishing and the publish
+ * status that reports asynchronous video processing.
+ */
+export function createTikTokApiRouter(state: PlatformEmulatorState): Router {
+  const router = Router();
+
+  router.use(express.json());
+  router.use(express.urlencoded({ extended: true }));
+
+  router.post('/v2/oauth/token/', (req: Request, res: Response) => {
+    const token = state.refreshToken('tiktok', req.body.refresh_token);
+
+    if (!token) {
+      sendTikTokError(res, 400, 'invalid_grant', 'Refresh token is invalid or expired.');
+      return;
+    }
+
+    res.json({
+      data: {
+        access_token: token.accessToken,
+        refresh_token: token.refreshToken,
+        expires_in: Math.round((token.expiresAt.getTime() - Date.now()) / 1000),
+        token_type: 'Bearer'
+      }
+    });
+  });
+
+  // Upload URLs are pre-signed and do not take the access token
+  router.put('/upload/:videoId', express.raw({ type: '*/*', limit: '100mb' }), (req: Request, res: Response) => {
+    const video = state.getMedia(req.params.videoId as string);
+
+    if (!video || video.status !== 'uploading') {
+      res.status(404).end();
+      return;
+    }
+
+    state.startProcessing(video);
+    res.status(201).end();
+  });
+
+  router.use(emulatedApiGuard(state, ['tiktok'], tiktokDialect));
+
+  router.post('/v2/user/info/', (req: Request, res: Response) => {
+    res.json({
+      data: {
+        user: {
+          open_id: 'emulated-open-id',
+          union_id: 'emulated-union-id',
+          display_name: 'Emulated Creator'
+        }
+      },
+      error: { code: 'ok', message: '' }
+    });
+  });
+
+  router.post('/v2/post/video/init/', (req: Request, res: Response) => {
+    const video = state.createMedia('tiktok', true, 'uploading');
+
+    res.json({
+      data: {
+        video: {
+          video_id: video.id,
+          upload_url: `${req.protocol}://${req.get('host')}${req.baseUrl}/upload/${video.id}`
+        }
+      },
+      error: { code: 'ok', message: '' }
+    });
+  });
+
+  router.post('/v2/post/video/', (req: Request, res: Response) => {
+    const video = state.getMedia(String(req.body.video_id));
+
+    if (!video) {
+      sendTikTokError(res, 400, 'invalid_params', 'The video_id is invalid.');
+      return;
+    }
+    if (video.status === 'uploading') {
+      sendTikTokError(res, 400, 'invalid_params', 'The video has not been uploaded.');
+      return;
+    }
+
+    const post = state.recordPost('tiktok', res.locals.token.accessToken, req.body);
+    res.json({
+      data: {
+        video_id: video.id,
+        share_id: post.id
+      },
+      error: { code: 'ok', message: '' }
+    });
+  });
+
+  router.post('/v2/post/publish/status/fetch/', (req: Request, res: Response) => {
+    const video = state.checkMedia(String(req.body.publish_id));
+
+    if (!video) {
+      sendTikTokError(res, 400, 'invalid_publish_id', 'The publish_id is invalid.');
+      return;
+    }
+
+    res.json({
+      data: {
+        status: video.status === 'finished' ? 'PUBLISH_COMPLETE' : 'PROCESSING_UPLOAD'
+      },
+      error: { code: 'ok', message: '' }
+    });
+  });
+
+  return router;
+}
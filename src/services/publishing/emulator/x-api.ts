@@ -0,0 +1,128 @@
+import express, { Router, Request, Response } from 'express';
+import {
+  PlatformEmulatorState,
+  EmulatedApiDialect,
+  emulatedApiGuard,
+  getBearerToken
+} from './emulator-state.js';
+
+export const X_USER_ID = '1000000000000000001';
+
+const xDialect: EmulatedApiDialect = {
+  getAccessToken: getBearerToken,
+
+  setRateLimitHeaders: (res, usage) => {
+    res.setHeader('x-rate-limit-limit', usage.limit.toString());
+    res.setHeader('x-rate-limit-remaining', usage.remaining.toString());
+    res.setHeader('x-rate-limit-reset', Math.ceil(usage.resetAt.getTime() / 1000).toString());
+  },
+
+  sendError: (res, error) => {
+    switch (error) {
+      case 'invalid_token':
+      case 'token_expired':
+        sendXError(res, 401, 'Unauthorized', 'Unauthorized');
+        break;
+      case 'rate_limit':
+        sendXError(res, 429, 'Too Many Requests', 'Too Many Requests');
+        break;
+      case 'server_error':
+        sendXError(res, 503, 'Service Unavailable', 'Service Unavailable');
+        break;
+    }
+  }
+};
+
+function sendXError(res: Response, status: number, title: string, detail: string): void {
+  res.status(status).json({
+    title,
+    detail,
+    type: 'about:blank',
+    status
+  });
+}
+
+/**
+ * The X API v2 subset used by the X adapter: the authenticated user, posts
+ * and replies, and media upload whose videos report processing_info until
+ * they succeed.
+ */
+export function createXApiRouter(state: PlatformEmulatorState): Router {
+  const router = Router();
+
+  router.use(express.json());
+  router.use(express.urlencoded({ extended: true }));
+
+  router.post('/oauth2/token', (req: Request, res: Response) => {
+    const token = state.refreshToken('x', req.body.refresh_token);
+
+    if (!token) {
+      res.status(400).json({
+        error: 'invalid_request',
+        error_description: 'Value passed for the token was invalid.'
+      });
+      return;
+    }
+
+    res.json({
+      token_type: 'bearer',
+      access_token: token.accessToken,
+      refresh_token: token.refreshToken,
+      expires_in: Math.round((token.expiresAt.getTime() - Date.now()) / 1000)
+    });
+  });
+
+  router.use(emulatedApiGuard(state, ['x'], xDialect));
+
+  router.get('/users/me', (req: Request, res: Response) => {
+    res.json({ data: { id: X_USER_ID, name: 'Emulated User', username: 'emulated' } });
+  });
+
+  router.post('/tweets', (req: Request, res: Response) => {
+    if (!req.body.text && !req.body.media) {
+      sendXError(res, 400, 'Invalid Request', 'One or more parameters to your request was invalid.');
+      return;
+    }
+
+    const post = state.recordPost('x', res.locals.token.accessToken, req.body);
+    res.status(201).json({ data: { id: post.id, text: req.body.text || '' } });
+  });
+
+  // The emulator does not parse the multipart body; the media category is enough
+  router.post('/media/upload', express.raw({ type: 'multipart/form-data', limit: '100mb' }), (req: Request, res: Response) => {
+    const isVideo = Buffer.isBuffer(req.body) && req.body.includes('tweet_video');
+    const media = state.createMedia('x', isVideo, 'uploading');
+    state.startProcessing(media);
+
+    res.json({
+      data: {
+        id: media.id,
+        media_key: `${isVideo ? 7 : 3}_${media.id}`,
+        ...(media.status === 'processing' && {
+          processing_info: { state: 'pending', check_after_secs: state.options.processingCheckAfterSecs }
+        })
+      }
+    });
+  });
+
+  router.get('/media/upload', (req: Request, res: Response) => {
+    const media = req.query.command === 'STATUS' ? state.checkMedia(String(req.query.media_id)) : undefined;
+
+    if (!media) {
+      sendXError(res, 400, 'Invalid Request', 'One or more parameters to your request was invalid.');
+      return;
+    }
+
+    res.json({
+      data: {
+        id: media.id,
+        media_key: `${media.isVideo ? 7 : 3}_${media.id}`,
+        processing_info: media.status === 'finished'
+          ? { state: 'succeeded', progress_percent: 100 }
+          : { state: 'in_progress', check_after_secs: state.options.processingCheckAfterSecs, progress_percent: 50 }
+      }
+    });
+  });
+
+  return router;
+}
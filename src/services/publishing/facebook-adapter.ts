@@ -9,7 +9,8 @@ import {
   PlatformCredentials,
   PublishResult,
   ContentRequirements,
-  PlatformHealthCheck
+  PlatformHealthCheck,
+  PostMetrics
 } from './platform-adapter.js';
 
 interface FacebookPageInfo {
@@ -29,12 +30,13 @@ interface FacebookPhotoUploadResponse {
 }
 
 export class FacebookAdapter extends PlatformAdapter {
-  private readonly baseUrl = 'https://graph.facebook.com/v18.0';
+  private readonly baseUrl: string;
   private pageAccessToken?: string;
   private pageId?: string;
 
   constructor(credentials: PlatformCredentials) {
     super('facebook', credentials);
+    this.baseUrl = credentials.baseUrl || 'https://graph.facebook.com/v18.0';
   }
 
   async authenticate(): Promise<boolean> {
@@ -62,8 +64,13 @@ export class FacebookAdapter extends PlatformAdapter {
         return false;
       }
 
-      // Use the first page (in production, you'd let user select)
-      const page = pagesData.data[0] as FacebookPageInfo;
+      // Use the page picked when the account was connected, else the first one
+      const pages = pagesData.data as FacebookPageInfo[];
+      const selectedPageId = this.credentials.additionalCredentials?.pageId;
+      const page = pages.find(p => p.id === selectedPageId) || pages[0];
+      if (!page) {
+        return false;
+      }
       this.pageId = page.id;
       this.pageAccessToken = page.access_token;
       
@@ -75,6 +82,11 @@ export class FacebookAdapter extends PlatformAdapter {
   }
 
   async publish(content: AdaptedContent, tenantContext: TenantContext): Promise<PublishResult> {
+    const rateLimited = await this.checkRateLimit();
+    if (rateLimited) {
+      return rateLimited;
+    }
+
     try {
       // Ensure authentication
       if (!this.pageAccessToken || !this.pageId) {
@@ -115,13 +127,17 @@ export class FacebookAdapter extends PlatformAdapter {
           publishResult = await this.publishTextPost(content);
       }
 
+      const platformPostId = publishResult.post_id || publishResult.id;
+      const firstComment = await this.publishFirstComment(content, text => this.createComment(platformPostId, text));
+
       return {
         success: true,
-        platformPostId: publishResult.post_id || publishResult.id,
+        platformPostId,
         publishedAt: new Date(),
         metadata: {
           postType,
-          pageId: this.pageId
+          pageId: this.pageId,
+          ...(firstComment && { firstComment })
         }
       };
     } catch (error) {
@@ -208,6 +224,11 @@ export class FacebookAdapter extends PlatformAdapter {
     };
   }
 
+  // Graph API limits (x-app-usage) are counted per app, across every client account
+  override getRateLimitAccount(): string {
+    return this.credentials.appId ? `app-${this.credentials.appId}` : super.getRateLimitAccount();
+  }
+
   async checkHealth(): Promise<PlatformHealthCheck> {
     const startTime = Date.now();
     
@@ -251,6 +272,130 @@ export class FacebookAdapter extends PlatformAdapter {
     throw new Error('Facebook credentials refresh requires re-authentication flow');
   }
 
+  /**
+   * Pages the connected user manages, used to pick the page a client
+   * tenant posts to.
+   */
+  async listPages(): Promise<{ id: string; name: string }[]> {
+    const response = await fetch(
+      `${this.baseUrl}/me/accounts?fields=id,name&access_token=${this.credentials.accessToken}`
+    );
+
+    if (!response.ok) {
+      throw new Error('Failed to list Facebook pages');
+    }
+
+    const data = await response.json() as { data?: FacebookPageInfo[] };
+    return (data.data || []).map(page => ({ id: page.id, name: page.name }));
+  }
+
+  override async updatePost(platformPostId: string, content: AdaptedContent): Promise<PublishResult> {
+    return this.managePost(platformPostId, async () => {
+      await this.ensurePageAccessToken();
+      const response = await fetch(`${this.baseUrl}/${platformPostId}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          message: content.platformSpecific?.content as string || content.text || '',
+          access_token: this.pageAccessToken
+        })
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json() as { error?: { message?: string } };
+        throw new Error(`Failed to update Facebook post: ${errorData.error?.message || 'Unknown error'}`);
+      }
+    }, error => this.isRetryableError(error));
+  }
+
+  override async deletePost(platformPostId: string): Promise<PublishResult> {
+    return this.managePost(platformPostId, async () => {
+      await this.ensurePageAccessToken();
+      const response = await fetch(`${this.baseUrl}/${platformPostId}?access_token=${this.pageAccessToken}`, {
+        method: 'DELETE'
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json() as { error?: { message?: string } };
+        throw new Error(`Failed to delete Facebook post: ${errorData.error?.message || 'Unknown error'}`);
+      }
+    }, error => this.isRetryableError(error));
+  }
+
+  /**
+   * Photos, videos and links show up in the page's posts with their caption
+   * as the message, so every post type is matched on the message.
+   */
+  override async findPublishedPost(content: AdaptedContent, since: Date): Promise<PublishResult | null> {
+    await this.ensurePageAccessToken();
+
+    const response = await fetch(
+      `${this.baseUrl}/${this.pageId}/posts?fields=id,message,created_time&since=${Math.floor(since.getTime() / 1000)}&access_token=${this.pageAccessToken}`
+    );
+
+    if (!response.ok) {
+      throw new Error('Failed to list Facebook page posts');
+    }
+
+    const data = await response.json() as { data?: { id: string; message?: string; created_time: string }[] };
+    const message = content.platformSpecific?.content as string || content.text || '';
+    const post = (data.data || []).find(candidate => this.isSameText(candidate.message, message));
+
+    return post ? {
+      success: true,
+      platformPostId: post.id,
+      publishedAt: new Date(post.created_time),
+      metadata: {
+        postType: content.platformSpecific?.postType as string,
+        pageId: this.pageId
+      }
+    } : null;
+  }
+
+  /**
+   * Reactions, comments and shares are summarized on the post itself;
+   * impressions and clicks come from its insights
+   */
+  override async fetchMetrics(platformPostId: string): Promise<PostMetrics> {
+    await this.acquireMetricsRateLimit();
+    await this.ensurePageAccessToken();
+
+    const response = await fetch(
+      `${this.baseUrl}/${platformPostId}?fields=reactions.summary(total_count),comments.summary(total_count),shares,insights.metric(post_impressions,post_impressions_unique,post_clicks)&access_token=${this.pageAccessToken}`
+    );
+
+    if (!response.ok) {
+      const errorData = await response.json() as { error?: { message?: string } };
+      throw new Error(`Failed to fetch Facebook post insights: ${errorData.error?.message || 'Unknown error'}`);
+    }
+
+    const data = await response.json() as {
+      reactions?: { summary?: { total_count?: number } };
+      comments?: { summary?: { total_count?: number } };
+      shares?: { count?: number };
+      insights?: { data?: { name: string; values?: { value: number }[] }[] };
+    };
+    const insights = Object.fromEntries((data.insights?.data || []).map(metric => [metric.name, metric.values?.[0]?.value || 0]));
+
+    return {
+      views: insights.post_impressions || 0,
+      impressions: insights.post_impressions || 0,
+      reach: insights.post_impressions_unique || 0,
+      likes: data.reactions?.summary?.total_count || 0,
+      comments: data.comments?.summary?.total_count || 0,
+      shares: data.shares?.count || 0,
+      clicks: insights.post_clicks || 0
+    };
+  }
+
+  private async ensurePageAccessToken(): Promise<void> {
+    if ((!this.pageAccessToken || !this.pageId) && !await this.authenticate()) {
+      throw new Error('Facebook authentication failed');
+    }
+  }
+
   private async publishTextPost(content: AdaptedContent): Promise<FacebookPublishResponse> {
     const postContent = content.platformSpecific?.content as string || content.text || '';
     
@@ -359,6 +504,28 @@ export class FacebookAdapter extends PlatformAdapter {
     return await response.json();
   }
 
+  // Commenting with the page token makes the page the comment's author
+  private async createComment(postId: string, message: string): Promise<string> {
+    const response = await fetch(`${this.baseUrl}/${postId}/comments`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        message,
+        access_token: this.pageAccessToken
+      })
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json() as { error?: { message?: string } };
+      throw new Error(`Failed to post Facebook comment: ${errorData.error?.message || 'Unknown error'}`);
+    }
+
+    const data = await response.json() as { id: string };
+    return data.id;
+  }
+
   private parseRateLimit(rateLimitHeader: string): number | undefined {
     try {
       const usage = JSON.parse(rateLimitHeader);
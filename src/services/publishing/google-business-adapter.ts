@@ -0,0 +1,581 @@
+import {
+  AdaptedContent,
+  ValidationResult,
+  ValidationError
+} from '../../types/index.js';
+import {
+  PlatformAdapter,
+  PlatformCredentials,
+  PublishResult,
+  ContentRequirements,
+  PlatformHealthCheck
+} from './platform-adapter.js';
+
+export type GoogleBusinessPostType = 'whats_new' | 'offer' | 'event';
+
+export interface GoogleBusinessLocation {
+  accountId: string;
+  locationId: string;
+  title: string;
+  address?: string;
+}
+
+interface GoogleDate {
+  year: number;
+  month: number;
+  day: number;
+}
+
+interface GoogleTimeOfDay {
+  hours: number;
+  minutes: number;
+}
+
+interface GoogleLocalPost {
+  languageCode: string;
+  summary?: string;
+  topicType: 'STANDARD' | 'OFFER' | 'EVENT';
+  callToAction?: {
+    actionType: string;
+    url?: string;
+  };
+  media?: { mediaFormat: 'PHOTO'; sourceUrl: string }[];
+  event?: {
+    title: string;
+    schedule: {
+      startDate: GoogleDate;
+      startTime?: GoogleTimeOfDay;
+      endDate: GoogleDate;
+      endTime?: GoogleTimeOfDay;
+    };
+  };
+  offer?: {
+    couponCode?: string;
+    redeemOnlineUrl?: string;
+    termsConditions?: string;
+  };
+}
+
+interface GoogleLocalPostResponse {
+  name: string;
+  searchUrl?: string;
+  state?: 'LOCAL_POST_STATE_UNSPECIFIED' | 'REJECTED' | 'LIVE' | 'PROCESSING';
+}
+
+const SUMMARY_MAX_LENGTH = 1500;
+const EVENT_TITLE_MAX_LENGTH = 58;
+const POST_TYPES: GoogleBusinessPostType[] = ['whats_new', 'offer', 'event'];
+const CALL_TO_ACTION_TYPES = ['BOOK', 'ORDER', 'SHOP', 'LEARN_MORE', 'SIGN_UP', 'CALL'];
+// Google rejects posts that contain phone numbers; calls go through the CALL action
+const PHONE_NUMBER_REGEX = /(?:\+?\d[\s().-]*){8,}\d/;
+
+export class GoogleBusinessAdapter extends PlatformAdapter {
+  private readonly baseUrl: string;
+  private readonly accountManagementUrl = 'https://mybusinessaccountmanagement.googleapis.com/v1';
+  private readonly businessInformationUrl = 'https://mybusinessbusinessinformation.googleapis.com/v1';
+
+  constructor(credentials: PlatformCredentials) {
+    super('google_business', credentials);
+    this.baseUrl = credentials.baseUrl || 'https://mybusiness.googleapis.com/v4';
+  }
+
+  async authenticate(): Promise<boolean> {
+    try {
+      const response = await fetch(`${this.accountManagementUrl}/accounts`, {
+        headers: {
+          'Authorization': `Bearer ${this.credentials.accessToken}`
+        }
+      });
+
+      return response.ok;
+    } catch (error) {
+      console.error('Google Business Profile authentication failed:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Publishes the post to every selected location. Locations that already
+   * received the post are not retried when a later location fails.
+   */
+  async publish(content: AdaptedContent): Promise<PublishResult> {
+    const rateLimited = await this.checkRateLimit();
+    if (rateLimited) {
+      return rateLimited;
+    }
+
+    const postIds: string[] = [];
+
+    try {
+      // Validate content before publishing
+      const validation = await this.validateContent(content);
+      if (!validation.isValid) {
+        return {
+          success: false,
+          error: `Content validation failed: ${validation.errors.map(e => e.message).join(', ')}`,
+          retryable: false
+        };
+      }
+
+      const localPost = this.buildLocalPost(content);
+      const locationNames = this.getLocationNames(content);
+      const searchUrls: string[] = [];
+
+      for (const locationName of locationNames) {
+        const post = await this.createLocalPost(locationName, localPost);
+        postIds.push(post.name);
+        if (post.searchUrl) {
+          searchUrls.push(post.searchUrl);
+        }
+      }
+
+      const [firstPostId] = postIds;
+      return {
+        success: true,
+        ...(firstPostId && { platformPostId: firstPostId }),
+        publishedAt: new Date(),
+        metadata: {
+          postType: this.getPostType(content),
+          postIds,
+          locations: locationNames,
+          searchUrls
+        }
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+      if (postIds.length > 0) {
+        return {
+          success: false,
+          error: `Post published to ${postIds.length}/${this.getLocationNames(content).length} locations: ${errorMessage}`,
+          retryable: false,
+          metadata: { postIds }
+        };
+      }
+
+      return {
+        success: false,
+        error: errorMessage,
+        retryable: this.isRetryableError(error)
+      };
+    }
+  }
+
+  async validateContent(content: AdaptedContent): Promise<ValidationResult> {
+    const errors: ValidationError[] = [];
+    const platformSpecific = content.platformSpecific || {};
+    const postType = this.getPostType(content);
+    const summary = content.text || '';
+    const mediaUrls = content.mediaUrls || [];
+
+    if (this.getLocationNames(content).length === 0) {
+      errors.push({
+        field: 'locationIds',
+        message: 'Google Business Profile posts require at least one location',
+        code: 'MISSING_LOCATION'
+      });
+    }
+
+    if (!POST_TYPES.includes(postType)) {
+      errors.push({
+        field: 'postType',
+        message: `Invalid post type. Must be one of: ${POST_TYPES.join(', ')}`,
+        code: 'INVALID_POST_TYPE'
+      });
+    }
+
+    // Validate summary
+    if (postType === 'whats_new' && !summary.trim() && mediaUrls.length === 0) {
+      errors.push({
+        field: 'text',
+        message: 'What\'s new posts require text or a photo',
+        code: 'EMPTY_POST'
+      });
+    }
+    if (summary.length > SUMMARY_MAX_LENGTH) {
+      errors.push({
+        field: 'text',
+        message: `Text exceeds maximum length of ${SUMMARY_MAX_LENGTH} characters`,
+        code: 'TEXT_TOO_LONG'
+      });
+    }
+    if (PHONE_NUMBER_REGEX.test(summary)) {
+      errors.push({
+        field: 'text',
+        message: 'Posts cannot contain phone numbers. Use a CALL call-to-action instead',
+        code: 'PHONE_NUMBER_NOT_ALLOWED'
+      });
+    }
+
+    // Validate media
+    if (mediaUrls.length > 1) {
+      errors.push({
+        field: 'mediaUrls',
+        message: 'Google Business Profile posts support a single photo',
+        code: 'TOO_MANY_MEDIA'
+      });
+    }
+    if (mediaUrls.some(url => !/\.(jpe?g|png)(\?|$)/i.test(url))) {
+      errors.push({
+        field: 'mediaUrls',
+        message: 'Invalid media format. Supported: jpg, png',
+        code: 'INVALID_MEDIA_FORMAT'
+      });
+    }
+
+    // Offers and events run over a date range with a title
+    if (postType === 'offer' || postType === 'event') {
+      errors.push(...this.validateEvent(platformSpecific.event));
+    }
+
+    if (postType === 'offer') {
+      const redeemOnlineUrl = platformSpecific.offer?.redeemOnlineUrl as string;
+      if (redeemOnlineUrl && !/^https?:\/\/\S+$/i.test(redeemOnlineUrl)) {
+        errors.push({
+          field: 'offer.redeemOnlineUrl',
+          message: 'Offer redemption link must be a valid http(s) URL',
+          code: 'INVALID_OFFER_URL'
+        });
+      }
+      if (platformSpecific.callToAction) {
+        errors.push({
+          field: 'callToAction',
+          message: 'Offer posts cannot have a call-to-action button',
+          code: 'INVALID_CALL_TO_ACTION'
+        });
+      }
+    }
+
+    // Validate call-to-action
+    const callToAction = platformSpecific.callToAction as { actionType?: string; url?: string } | undefined;
+    if (callToAction && postType !== 'offer') {
+      if (!callToAction.actionType || !CALL_TO_ACTION_TYPES.includes(callToAction.actionType)) {
+        errors.push({
+          field: 'callToAction.actionType',
+          message: `Invalid call-to-action. Must be one of: ${CALL_TO_ACTION_TYPES.join(', ')}`,
+          code: 'INVALID_CALL_TO_ACTION'
+        });
+      } else if (callToAction.actionType !== 'CALL' && !/^https?:\/\/\S+$/i.test(callToAction.url || '')) {
+        errors.push({
+          field: 'callToAction.url',
+          message: 'Call-to-action buttons require a valid http(s) URL',
+          code: 'INVALID_CALL_TO_ACTION_URL'
+        });
+      }
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors
+    };
+  }
+
+  getRequirements(): ContentRequirements {
+    return {
+      maxTextLength: SUMMARY_MAX_LENGTH,
+      imageFormats: ['jpg', 'jpeg', 'png'],
+      maxFileSize: 5 * 1024 * 1024, // 5MB
+      requiredFields: ['locationIds', 'postType']
+    };
+  }
+
+  async checkHealth(): Promise<PlatformHealthCheck> {
+    const startTime = Date.now();
+
+    try {
+      const response = await fetch(`${this.accountManagementUrl}/accounts`, {
+        headers: {
+          'Authorization': `Bearer ${this.credentials.accessToken}`
+        }
+      });
+
+      const responseTime = Date.now() - startTime;
+
+      if (response.ok) {
+        return {
+          isHealthy: true,
+          responseTime,
+          timestamp: new Date()
+        };
+      } else {
+        const errorData = await response.json() as { error?: { message?: string } };
+        return {
+          isHealthy: false,
+          responseTime,
+          timestamp: new Date(),
+          error: errorData.error?.message || 'Health check failed'
+        };
+      }
+    } catch (error) {
+      return {
+        isHealthy: false,
+        responseTime: Date.now() - startTime,
+        timestamp: new Date(),
+        error: error instanceof Error ? error.message : 'Health check failed'
+      };
+    }
+  }
+
+  async refreshCredentials(): Promise<PlatformCredentials> {
+    if (!this.credentials.refreshToken) {
+      throw new Error('No refresh token available');
+    }
+
+    try {
+      const { appId, appSecret } = this.getAppCredentials();
+      const response = await fetch('https://oauth2.googleapis.com/token', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/x-www-form-urlencoded'
+        },
+        body: new URLSearchParams({
+          grant_type: 'refresh_token',
+          refresh_token: this.credentials.refreshToken,
+          client_id: appId,
+          client_secret: appSecret
+        })
+      });
+
+      if (!response.ok) {
+        throw await this.refreshRejectedError(response);
+      }
+
+      const data = await response.json() as { access_token: string; refresh_token?: string; expires_in?: number };
+
+      const newCredentials: PlatformCredentials = {
+        ...this.credentials,
+        accessToken: data.access_token,
+        refreshToken: data.refresh_token || this.credentials.refreshToken,
+        ...this.tokenExpiry(data.expires_in)
+      };
+
+      this.updateCredentials(newCredentials);
+      return newCredentials;
+    } catch (error) {
+      throw new Error(`Failed to refresh Google Business Profile credentials: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Every location the connected Google account manages, across all of its
+   * business accounts.
+   */
+  async listLocations(): Promise<GoogleBusinessLocation[]> {
+    const accountsResponse = await fetch(`${this.accountManagementUrl}/accounts`, {
+      headers: {
+        'Authorization': `Bearer ${this.credentials.accessToken}`
+      }
+    });
+
+    if (!accountsResponse.ok) {
+      throw new Error('Failed to list Google Business Profile accounts');
+    }
+
+    const { accounts = [] } = await accountsResponse.json() as { accounts?: { name: string }[] };
+    const locations: GoogleBusinessLocation[] = [];
+
+    for (const account of accounts) {
+      const accountId = account.name.replace('accounts/', '');
+      let pageToken: string | undefined;
+
+      do {
+        const query = new URLSearchParams({
+          readMask: 'name,title,storefrontAddress',
+          pageSize: '100',
+          ...(pageToken && { pageToken })
+        });
+        const response = await fetch(`${this.businessInformationUrl}/${account.name}/locations?${query}`, {
+          headers: {
+            'Authorization': `Bearer ${this.credentials.accessToken}`
+          }
+        });
+
+        if (!response.ok) {
+          throw new Error('Failed to list Google Business Profile locations');
+        }
+
+        const page = await response.json() as {
+          locations?: {
+            name: string;
+            title: string;
+            storefrontAddress?: { addressLines?: string[]; locality?: string };
+          }[];
+          nextPageToken?: string;
+        };
+
+        for (const location of page.locations || []) {
+          const address = location.storefrontAddress
+            ? [...(location.storefrontAddress.addressLines || []), location.storefrontAddress.locality]
+                .filter(Boolean)
+                .join(', ')
+            : undefined;
+
+          locations.push({
+            accountId,
+            locationId: location.name.replace('locations/', ''),
+            title: location.title,
+            ...(address && { address })
+          });
+        }
+
+        pageToken = page.nextPageToken;
+      } while (pageToken);
+    }
+
+    return locations;
+  }
+
+  private getPostType(content: AdaptedContent): GoogleBusinessPostType {
+    return (content.platformSpecific?.postType as GoogleBusinessPostType) || 'whats_new';
+  }
+
+  /**
+   * Location IDs can be full resource names ("accounts/1/locations/2") or bare
+   * location IDs under the connected account.
+   */
+  private getLocationNames(content: AdaptedContent): string[] {
+    const locationIds = (content.platformSpecific?.locationIds as string[] | undefined) || [];
+    const accountId = this.credentials.additionalCredentials?.accountId;
+
+    return locationIds
+      .map(id => id.startsWith('accounts/') ? id : (accountId ? `accounts/${accountId}/locations/${id}` : ''))
+      .filter(Boolean);
+  }
+
+  private validateEvent(event: Record<string, any> | undefined): ValidationError[] {
+    const errors: ValidationError[] = [];
+
+    if (!event?.title) {
+      errors.push({
+        field: 'event.title',
+        message: 'Offer and event posts require a title',
+        code: 'MISSING_EVENT_TITLE'
+      });
+    } else if (event.title.length > EVENT_TITLE_MAX_LENGTH) {
+      errors.push({
+        field: 'event.title',
+        message: `Title exceeds maximum length of ${EVENT_TITLE_MAX_LENGTH} characters`,
+        code: 'EVENT_TITLE_TOO_LONG'
+      });
+    }
+
+    const startDate = event?.startDate ? new Date(event.startDate) : null;
+    const endDate = event?.endDate ? new Date(event.endDate) : null;
+    if (!startDate || !endDate || isNaN(startDate.getTime()) || isNaN(endDate.getTime())) {
+      errors.push({
+        field: 'event.schedule',
+        message: 'Offer and event posts require valid start and end dates',
+        code: 'INVALID_EVENT_SCHEDULE'
+      });
+    } else if (endDate < startDate) {
+      errors.push({
+        field: 'event.schedule',
+        message: 'End date must be after the start date',
+        code: 'INVALID_EVENT_SCHEDULE'
+      });
+    } else if (endDate.getTime() < Date.now()) {
+      errors.push({
+        field: 'event.schedule',
+        message: 'Offer and event posts cannot end in the past',
+        code: 'EVENT_ENDED'
+      });
+    }
+
+    return errors;
+  }
+
+  private buildLocalPost(content: AdaptedContent): GoogleLocalPost {
+    const platformSpecific = content.platformSpecific || {};
+    const postType = this.getPostType(content);
+    const topicType = postType === 'offer' ? 'OFFER' : postType === 'event' ? 'EVENT' : 'STANDARD';
+
+    const localPost: GoogleLocalPost = {
+      languageCode: (platformSpecific.languageCode as string) || 'pt-BR',
+      topicType,
+      ...(content.text && { summary: content.text })
+    };
+
+    const [imageUrl] = content.mediaUrls || [];
+    if (imageUrl) {
+      localPost.media = [{ mediaFormat: 'PHOTO', sourceUrl: imageUrl }];
+    }
+
+    if (topicType !== 'STANDARD') {
+      const event = platformSpecific.event as { title: string; startDate: string; endDate: string; allDay?: boolean };
+      const start = new Date(event.startDate);
+      const end = new Date(event.endDate);
+
+      localPost.event = {
+        title: event.title,
+        schedule: {
+          startDate: this.toGoogleDate(start),
+          endDate: this.toGoogleDate(end),
+          ...(!event.allDay && {
+            startTime: this.toGoogleTime(start),
+            endTime: this.toGoogleTime(end)
+          })
+        }
+      };
+    }
+
+    if (topicType === 'OFFER' && platformSpecific.offer) {
+      const offer = platformSpecific.offer as Record<string, string>;
+      localPost.offer = {
+        ...(offer.couponCode && { couponCode: offer.couponCode }),
+        ...(offer.redeemOnlineUrl && { redeemOnlineUrl: offer.redeemOnlineUrl }),
+        ...(offer.termsConditions && { termsConditions: offer.termsConditions })
+      };
+    } else if (platformSpecific.callToAction) {
+      const callToAction = platformSpecific.callToAction as { actionType: string; url?: string };
+      localPost.callToAction = {
+        actionType: callToAction.actionType,
+        ...(callToAction.actionType !== 'CALL' && callToAction.url && { url: callToAction.url })
+      };
+    }
+
+    return localPost;
+  }
+
+  private toGoogleDate(date: Date): GoogleDate {
+    return { year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate() };
+  }
+
+  private toGoogleTime(date: Date): GoogleTimeOfDay {
+    return { hours: date.getUTCHours(), minutes: date.getUTCMinutes() };
+  }
+
+  private async createLocalPost(locationName: string, localPost: GoogleLocalPost): Promise<GoogleLocalPostResponse> {
+    const response = await fetch(`${this.baseUrl}/${locationName}/localPosts`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${this.credentials.accessToken}`,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify(localPost)
+    });
+
+    if (!response.ok) {
+      if (response.status === 429) {
+        throw new Error('Google Business Profile rate limit exceeded');
+      }
+      if (response.status >= 500) {
+        throw new Error(`Google Business Profile server error (${response.status})`);
+      }
+      const errorData = await response.json() as { error?: { message?: string } };
+      throw new Error(`Failed to create local post for ${locationName}: ${errorData.error?.message || 'Unknown error'}`);
+    }
+
+    return await response.json() as GoogleLocalPostResponse;
+  }
+
+  private isRetryableError(error: any): boolean {
+    if (error instanceof Error) {
+      const message = error.message.toLowerCase();
+      return message.includes('timeout') ||
+             message.includes('network') ||
+             message.includes('rate limit') ||
+             message.includes('server error');
+    }
+    return false;
+  }
+}
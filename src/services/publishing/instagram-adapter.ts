@@ -9,27 +9,52 @@ import {
   PlatformCredentials,
   PublishResult,
   ContentRequirements,
-  PlatformHealthCheck
+  PlatformHealthCheck,
+  PostMetrics
 } from './platform-adapter.js';
 
-interface InstagramMediaObject {
+export interface InstagramAdapterOptions {
+  containerPollIntervalMs: number;
+  maxContainerPollAttempts: number;
+}
+
+type InstagramMediaType = 'photo' | 'video' | 'carousel' | 'reel' | 'story';
+
+interface InstagramContainerRequest {
+  media_type?: 'VIDEO' | 'CAROUSEL' | 'REELS' | 'STORIES'; // omitted for images
   image_url?: string;
   video_url?: string;
-  media_type: 'IMAGE' | 'VIDEO' | 'CAROUSEL_ALBUM';
   caption?: string;
-  children?: InstagramMediaObject[];
+  children?: string;
+  is_carousel_item?: boolean;
+  share_to_feed?: boolean;
+  cover_url?: string;
+  thumb_offset?: number;
 }
 
-interface InstagramPublishResponse {
+interface InstagramContainerStatus {
   id: string;
-  creation_id?: string;
+  status_code: 'IN_PROGRESS' | 'FINISHED' | 'PUBLISHED' | 'ERROR' | 'EXPIRED';
+  status?: string; // error details when processing failed
 }
 
+const MEDIA_TYPES: InstagramMediaType[] = ['photo', 'video', 'carousel', 'reel', 'story'];
+const CAROUSEL_MIN_ITEMS = 2;
+const CAROUSEL_MAX_ITEMS = 10;
+const REEL_MAX_DURATION = 15 * 60;
+const STORY_VIDEO_MAX_DURATION = 60;
+
 export class InstagramAdapter extends PlatformAdapter {
-  private readonly baseUrl = 'https://graph.facebook.com/v18.0';
+  private readonly baseUrl: string;
+  private options: InstagramAdapterOptions = {
+    containerPollIntervalMs: 5000,
+    maxContainerPollAttempts: 30
+  };
 
-  constructor(credentials: PlatformCredentials) {
+  constructor(credentials: PlatformCredentials, options: Partial<InstagramAdapterOptions> = {}) {
     super('instagram', credentials);
+    this.baseUrl = credentials.baseUrl || 'https://graph.facebook.com/v18.0';
+    this.options = { ...this.options, ...options };
   }
 
   async authenticate(): Promise<boolean> {
@@ -49,6 +74,11 @@ export class InstagramAdapter extends PlatformAdapter {
   }
 
   async publish(content: AdaptedContent, tenantContext: TenantContext): Promise<PublishResult> {
+    const rateLimited = await this.checkRateLimit();
+    if (rateLimited) {
+      return rateLimited;
+    }
+
     try {
       // Validate content before publishing
       const validation = await this.validateContent(content);
@@ -69,16 +99,25 @@ export class InstagramAdapter extends PlatformAdapter {
         };
       }
 
-      const mediaObject = this.buildMediaObject(content);
-      const publishResult = await this.publishMedia(instagramBusinessAccountId, mediaObject);
+      const mediaType = content.platformSpecific?.mediaType as InstagramMediaType;
+      const container = this.buildContainer(content);
+      const creationId = await this.createPostContainer(instagramBusinessAccountId, content, container);
+      const mediaId = await this.publishContainer(instagramBusinessAccountId, creationId);
+
+      // Stories cannot be commented on
+      const firstComment = mediaType === 'story'
+        ? undefined
+        : await this.publishFirstComment(content, text => this.createComment(mediaId, text));
 
       return {
         success: true,
-        platformPostId: publishResult.id,
+        platformPostId: mediaId,
         publishedAt: new Date(),
         metadata: {
-          creationId: publishResult.creation_id,
-          mediaType: mediaObject.media_type
+          creationId,
+          mediaType: container.media_type || 'IMAGE',
+          ...(container.share_to_feed !== undefined && { shareToFeed: container.share_to_feed }),
+          ...(firstComment && { firstComment })
         }
       };
     } catch (error) {
@@ -137,13 +176,15 @@ export class InstagramAdapter extends PlatformAdapter {
     }
 
     // Validate media type
-    const mediaType = content.platformSpecific?.mediaType as string;
-    if (!mediaType || !['photo', 'video', 'carousel'].includes(mediaType)) {
+    const mediaType = content.platformSpecific?.mediaType as InstagramMediaType;
+    if (!mediaType || !MEDIA_TYPES.includes(mediaType)) {
       errors.push({
         field: 'mediaType',
-        message: 'Invalid media type. Must be photo, video, or carousel',
+        message: 'Invalid media type. Must be photo, video, carousel, reel, or story',
         code: 'INVALID_MEDIA_TYPE'
       });
+    } else if (content.mediaUrls && content.mediaUrls.length > 0) {
+      errors.push(...this.validateMediaForType(mediaType, content));
     }
 
     return {
@@ -165,6 +206,11 @@ export class InstagramAdapter extends PlatformAdapter {
     };
   }
 
+  // Graph API limits (x-app-usage) are counted per app, across every client account
+  override getRateLimitAccount(): string {
+    return this.credentials.appId ? `app-${this.credentials.appId}` : super.getRateLimitAccount();
+  }
+
   async checkHealth(): Promise<PlatformHealthCheck> {
     const startTime = Date.now();
     
@@ -222,7 +268,7 @@ export class InstagramAdapter extends PlatformAdapter {
       });
 
       if (!response.ok) {
-        throw new Error('Failed to refresh Instagram credentials');
+        throw await this.refreshRejectedError(response);
       }
 
       const data = await response.json();
@@ -230,7 +276,8 @@ export class InstagramAdapter extends PlatformAdapter {
       const newCredentials: PlatformCredentials = {
         ...this.credentials,
         accessToken: data.access_token,
-        refreshToken: data.refresh_token || this.credentials.refreshToken
+        refreshToken: data.refresh_token || this.credentials.refreshToken,
+        ...this.tokenExpiry(data.expires_in)
       };
 
       this.updateCredentials(newCredentials);
@@ -240,7 +287,100 @@ export class InstagramAdapter extends PlatformAdapter {
     }
   }
 
+  /**
+   * Instagram business accounts linked to the pages the connected user
+   * manages, used to pick the account a client tenant posts to.
+   */
+  async listBusinessAccounts(): Promise<{ id: string; username: string; pageId: string; pageName: string }[]> {
+    const response = await fetch(
+      `${this.baseUrl}/me/accounts?fields=id,name,instagram_business_account{id,username}&access_token=${this.credentials.accessToken}`
+    );
+
+    if (!response.ok) {
+      throw new Error('Failed to list Instagram business accounts');
+    }
+
+    const data = await response.json() as {
+      data?: { id: string; name: string; instagram_business_account?: { id: string; username?: string } }[];
+    };
+
+    return (data.data || []).flatMap(page => {
+      const account = page.instagram_business_account;
+      return account
+        ? [{ id: account.id, username: account.username || page.name, pageId: page.id, pageName: page.name }]
+        : [];
+    });
+  }
+
+  override async findPublishedPost(content: AdaptedContent, since: Date): Promise<PublishResult | null> {
+    const instagramBusinessAccountId = await this.getInstagramBusinessAccountId();
+    if (!instagramBusinessAccountId) {
+      throw new Error('Instagram Business Account ID not found');
+    }
+
+    const response = await fetch(
+      `${this.baseUrl}/${instagramBusinessAccountId}/media?fields=id,caption,media_type,timestamp&since=${Math.floor(since.getTime() / 1000)}&access_token=${this.credentials.accessToken}`
+    );
+
+    if (!response.ok) {
+      throw new Error('Failed to list Instagram media');
+    }
+
+    const data = await response.json() as { data?: { id: string; caption?: string; media_type: string; timestamp: string }[] };
+    const caption = this.buildCaption(content);
+    const media = (data.data || []).find(candidate =>
+      new Date(candidate.timestamp) >= since && this.isSameText(candidate.caption, caption));
+
+    return media ? {
+      success: true,
+      platformPostId: media.id,
+      publishedAt: new Date(media.timestamp),
+      metadata: {
+        mediaType: media.media_type
+      }
+    } : null;
+  }
+
+  /**
+   * Likes and comments are fields of the media; views, reach, saves and
+   * shares come from its insights
+   */
+  override async fetchMetrics(platformPostId: string): Promise<PostMetrics> {
+    await this.acquireMetricsRateLimit();
+
+    const response = await fetch(
+      `${this.baseUrl}/${platformPostId}?fields=like_count,comments_count,insights.metric(views,reach,saved,shares)&access_token=${this.credentials.accessToken}`
+    );
+
+    if (!response.ok) {
+      const errorData = await response.json() as { error?: { message?: string } };
+      throw new Error(`Failed to fetch Instagram insights: ${errorData.error?.message || 'Unknown error'}`);
+    }
+
+    const data = await response.json() as {
+      like_count?: number;
+      comments_count?: number;
+      insights?: { data?: { name: string; values?: { value: number }[] }[] };
+    };
+    const insights = Object.fromEntries((data.insights?.data || []).map(metric => [metric.name, metric.values?.[0]?.value || 0]));
+
+    return {
+      views: insights.views || 0,
+      impressions: insights.views || 0,
+      reach: insights.reach || 0,
+      likes: data.like_count || 0,
+      comments: data.comments_count || 0,
+      shares: insights.shares || 0,
+      saves: insights.saved || 0
+    };
+  }
+
   private async getInstagramBusinessAccountId(): Promise<string | null> {
+    const selectedAccountId = this.credentials.additionalCredentials?.instagramAccountId;
+    if (selectedAccountId) {
+      return selectedAccountId;
+    }
+
     try {
       const response = await fetch(
         `${this.baseUrl}/me/accounts?access_token=${this.credentials.accessToken}`
@@ -279,55 +419,141 @@ export class InstagramAdapter extends PlatformAdapter {
     }
   }
 
-  private buildMediaObject(content: AdaptedContent): InstagramMediaObject {
-    const mediaType = content.platformSpecific?.mediaType as string;
+  /**
+   * Per-type media rules: carousels take 2-10 images or videos, Reels a
+   * single video with an optional cover, Stories a single image or video.
+   */
+  private validateMediaForType(mediaType: InstagramMediaType, content: AdaptedContent): ValidationError[] {
+    const errors: ValidationError[] = [];
+    const mediaUrls = content.mediaUrls || [];
+    const [firstUrl = ''] = mediaUrls;
+    const platformSpecific = content.platformSpecific || {};
+    const duration = platformSpecific.duration as number;
+
+    switch (mediaType) {
+      case 'carousel':
+        if (mediaUrls.length < CAROUSEL_MIN_ITEMS || mediaUrls.length > CAROUSEL_MAX_ITEMS) {
+          errors.push({
+            field: 'mediaUrls',
+            message: `Carousels support between ${CAROUSEL_MIN_ITEMS} and ${CAROUSEL_MAX_ITEMS} items`,
+            code: 'INVALID_CAROUSEL_SIZE'
+          });
+        }
+        break;
+      case 'video':
+      case 'reel':
+        if (mediaUrls.length !== 1 || this.detectMediaType(firstUrl) !== 'VIDEO') {
+          errors.push({
+            field: 'mediaUrls',
+            message: 'Reels require a single video',
+            code: 'INVALID_MEDIA'
+          });
+        }
+        if (duration && duration > REEL_MAX_DURATION) {
+          errors.push({
+            field: 'duration',
+            message: `Video duration exceeds maximum of ${REEL_MAX_DURATION} seconds`,
+            code: 'VIDEO_TOO_LONG'
+          });
+        }
+        if (platformSpecific.coverUrl && this.detectMediaType(platformSpecific.coverUrl as string) !== 'IMAGE') {
+          errors.push({
+            field: 'coverUrl',
+            message: 'Reel covers must be an image',
+            code: 'INVALID_COVER'
+          });
+        }
+        if (platformSpecific.thumbOffset !== undefined &&
+            (typeof platformSpecific.thumbOffset !== 'number' || platformSpecific.thumbOffset < 0)) {
+          errors.push({
+            field: 'thumbOffset',
+            message: 'Thumbnail offset must be a non-negative number of milliseconds',
+            code: 'INVALID_THUMB_OFFSET'
+          });
+        }
+        break;
+      case 'story':
+        if (mediaUrls.length !== 1) {
+          errors.push({
+            field: 'mediaUrls',
+            message: 'Stories take a single image or video',
+            code: 'TOO_MANY_MEDIA'
+          });
+        } else if (this.detectMediaType(firstUrl) === 'VIDEO' && duration && duration > STORY_VIDEO_MAX_DURATION) {
+          errors.push({
+            field: 'duration',
+            message: `Story videos exceed maximum of ${STORY_VIDEO_MAX_DURATION} seconds`,
+            code: 'VIDEO_TOO_LONG'
+          });
+        }
+        break;
+      default:
+        if (mediaUrls.length > 1) {
+          errors.push({
+            field: 'mediaUrls',
+            message: 'Photo posts take a single image, use a carousel for more',
+            code: 'TOO_MANY_MEDIA'
+          });
+        } else if (this.detectMediaType(firstUrl) !== 'IMAGE') {
+          errors.push({
+            field: 'mediaUrls',
+            message: 'Photo posts require an image',
+            code: 'INVALID_MEDIA'
+          });
+        }
+    }
+
+    return errors;
+  }
+
+  private buildCaption(content: AdaptedContent): string {
     const caption = content.platformSpecific?.caption as string;
     const hashtags = content.platformSpecific?.hashtags as string[];
-    
+
     let fullCaption = caption || '';
     if (hashtags && hashtags.length > 0) {
       fullCaption += '\n\n' + hashtags.map(tag => tag.startsWith('#') ? tag : `#${tag}`).join(' ');
     }
 
-    const mediaObject: InstagramMediaObject = {
-      media_type: this.mapMediaType(mediaType),
-      caption: fullCaption
-    };
-
-    if (content.mediaUrls && content.mediaUrls.length > 0) {
-      if (mediaType === 'carousel' && content.mediaUrls.length > 1) {
-        mediaObject.children = content.mediaUrls.map(url => ({
-          media_type: this.detectMediaType(url),
-          image_url: this.detectMediaType(url) === 'IMAGE' ? url : undefined,
-          video_url: this.detectMediaType(url) === 'VIDEO' ? url : undefined
-        }));
-      } else {
-        const url = content.mediaUrls[0];
-        const detectedType = this.detectMediaType(url);
-        if (detectedType === 'IMAGE') {
-          mediaObject.image_url = url;
-        } else {
-          mediaObject.video_url = url;
-        }
-      }
-    }
-
-    return mediaObject;
+    return fullCaption;
   }
 
-  private mapMediaType(mediaType: string): 'IMAGE' | 'VIDEO' | 'CAROUSEL_ALBUM' {
+  /**
+   * The container that gets published. Feed videos can no longer be posted
+   * as plain videos, so they go out as Reels shared to the feed.
+   */
+  private buildContainer(content: AdaptedContent): InstagramContainerRequest {
+    const mediaType = content.platformSpecific?.mediaType as InstagramMediaType;
+    const platformSpecific = content.platformSpecific || {};
+    const url = content.mediaUrls?.[0] || '';
+
     switch (mediaType) {
-      case 'photo':
-        return 'IMAGE';
-      case 'video':
-        return 'VIDEO';
       case 'carousel':
-        return 'CAROUSEL_ALBUM';
+        return { media_type: 'CAROUSEL', caption: this.buildCaption(content) };
+      case 'video':
+      case 'reel':
+        return {
+          media_type: 'REELS',
+          video_url: url,
+          caption: this.buildCaption(content),
+          share_to_feed: mediaType === 'video' || platformSpecific.shareToFeed !== false,
+          ...(platformSpecific.coverUrl && { cover_url: platformSpecific.coverUrl as string }),
+          ...(typeof platformSpecific.thumbOffset === 'number' && { thumb_offset: platformSpecific.thumbOffset })
+        };
+      case 'story':
+        // Stories have no caption
+        return { ...this.mediaContainer(url), media_type: 'STORIES' };
       default:
-        return 'IMAGE';
+        return { image_url: url, caption: this.buildCaption(content) };
     }
   }
 
+  private mediaContainer(url: string): InstagramContainerRequest {
+    return this.detectMediaType(url) === 'VIDEO'
+      ? { media_type: 'VIDEO', video_url: url }
+      : { image_url: url };
+  }
+
   private detectMediaType(url: string): 'IMAGE' | 'VIDEO' {
     const videoExtensions = ['.mp4', '.mov', '.avi', '.mkv'];
     const urlLower = url.toLowerCase();
@@ -335,29 +561,82 @@ export class InstagramAdapter extends PlatformAdapter {
     return videoExtensions.some(ext => urlLower.includes(ext)) ? 'VIDEO' : 'IMAGE';
   }
 
-  private async publishMedia(accountId: string, mediaObject: InstagramMediaObject): Promise<InstagramPublishResponse> {
-    // Step 1: Create media object
-    const createResponse = await fetch(`${this.baseUrl}/${accountId}/media`, {
+  /**
+   * Carousel items are created as separate containers first and then
+   * referenced by the carousel container.
+   */
+  private async createPostContainer(
+    accountId: string,
+    content: AdaptedContent,
+    container: InstagramContainerRequest
+  ): Promise<string> {
+    if (container.media_type === 'CAROUSEL') {
+      const children: string[] = [];
+      for (const url of content.mediaUrls || []) {
+        children.push(await this.createContainer(accountId, {
+          ...this.mediaContainer(url),
+          is_carousel_item: true
+        }));
+      }
+      container = { ...container, children: children.join(',') };
+    }
+
+    return await this.createContainer(accountId, container);
+  }
+
+  private async createContainer(accountId: string, container: InstagramContainerRequest): Promise<string> {
+    const response = await fetch(`${this.baseUrl}/${accountId}/media`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
       },
       body: JSON.stringify({
-        ...mediaObject,
+        ...container,
         access_token: this.credentials.accessToken
       })
     });
 
-    if (!createResponse.ok) {
-      const errorData = await createResponse.json();
+    if (!response.ok) {
+      const errorData = await response.json() as { error?: { message?: string } };
       throw new Error(`Failed to create Instagram media: ${errorData.error?.message || 'Unknown error'}`);
     }
 
-    const createData = await createResponse.json();
-    const creationId = createData.id;
+    const data = await response.json() as { id: string };
+
+    // Videos and carousels are processed asynchronously and cannot be published until finished
+    if (container.video_url || container.media_type === 'CAROUSEL') {
+      await this.waitForContainer(data.id);
+    }
+
+    return data.id;
+  }
+
+  private async waitForContainer(containerId: string): Promise<void> {
+    for (let attempt = 0; attempt < this.options.maxContainerPollAttempts; attempt++) {
+      const response = await fetch(
+        `${this.baseUrl}/${containerId}?fields=status_code,status&access_token=${this.credentials.accessToken}`
+      );
+
+      if (!response.ok) {
+        throw new Error('Failed to check Instagram container status');
+      }
+
+      const container = await response.json() as InstagramContainerStatus;
+      if (container.status_code === 'FINISHED' || container.status_code === 'PUBLISHED') {
+        return;
+      }
+      if (container.status_code === 'ERROR' || container.status_code === 'EXPIRED') {
+        throw new Error(`Instagram media processing failed: ${container.status || container.status_code}`);
+      }
+
+      await new Promise(resolve => setTimeout(resolve, this.options.containerPollIntervalMs));
+    }
+
+    throw new Error('Instagram media processing timeout');
+  }
 
-    // Step 2: Publish media
-    const publishResponse = await fetch(`${this.baseUrl}/${accountId}/media_publish`, {
+  private async publishContainer(accountId: string, creationId: string): Promise<string> {
+    const response = await fetch(`${this.baseUrl}/${accountId}/media_publish`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
@@ -368,17 +647,34 @@ export class InstagramAdapter extends PlatformAdapter {
       })
     });
 
-    if (!publishResponse.ok) {
-      const errorData = await publishResponse.json();
+    if (!response.ok) {
+      const errorData = await response.json() as { error?: { message?: string } };
       throw new Error(`Failed to publish Instagram media: ${errorData.error?.message || 'Unknown error'}`);
     }
 
-    const publishData = await publishResponse.json();
-    
-    return {
-      id: publishData.id,
-      creation_id: creationId
-    };
+    const data = await response.json() as { id: string };
+    return data.id;
+  }
+
+  private async createComment(mediaId: string, message: string): Promise<string> {
+    const response = await fetch(`${this.baseUrl}/${mediaId}/comments`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        message,
+        access_token: this.credentials.accessToken
+      })
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json() as { error?: { message?: string } };
+      throw new Error(`Failed to post Instagram comment: ${errorData.error?.message || 'Unknown error'}`);
+    }
+
+    const data = await response.json() as { id: string };
+    return data.id;
   }
 
   private parseRateLimit(rateLimitHeader: string): number | undefined {
@@ -9,7 +9,8 @@ import {
   PlatformCredentials,
   PublishResult,
   ContentRequirements,
-  PlatformHealthCheck
+  PlatformHealthCheck,
+  PostMetrics
 } from './platform-adapter.js';
 
 interface LinkedInProfile {
@@ -36,11 +37,16 @@ interface LinkedInMediaUploadResponse {
 }
 
 export class LinkedInAdapter extends PlatformAdapter {
-  private readonly baseUrl = 'https://api.linkedin.com/v2';
+  private readonly baseUrl: string;
+  private readonly tokenUrl: string;
   private profileId?: string;
 
   constructor(credentials: PlatformCredentials) {
     super('linkedin', credentials);
+    this.baseUrl = credentials.baseUrl || 'https://api.linkedin.com/v2';
+    this.tokenUrl = credentials.baseUrl
+      ? `${credentials.baseUrl}/oauth/v2/accessToken`
+      : 'https://www.linkedin.com/oauth/v2/accessToken';
   }
 
   async authenticate(): Promise<boolean> {
@@ -67,6 +73,11 @@ export class LinkedInAdapter extends PlatformAdapter {
   }
 
   async publish(content: AdaptedContent, tenantContext: TenantContext): Promise<PublishResult> {
+    const rateLimited = await this.checkRateLimit();
+    if (rateLimited) {
+      return rateLimited;
+    }
+
     try {
       // Ensure authentication
       if (!this.profileId) {
@@ -107,6 +118,8 @@ export class LinkedInAdapter extends PlatformAdapter {
           publishResult = await this.publishTextPost(content);
       }
 
+      const firstComment = await this.publishFirstComment(content, text => this.createComment(publishResult.id, text));
+
       return {
         success: true,
         platformPostId: publishResult.id,
@@ -114,7 +127,8 @@ export class LinkedInAdapter extends PlatformAdapter {
         metadata: {
           postType,
           activity: publishResult.activity,
-          profileId: this.profileId
+          profileId: this.profileId,
+          ...(firstComment && { firstComment })
         }
       };
     } catch (error) {
@@ -255,7 +269,7 @@ export class LinkedInAdapter extends PlatformAdapter {
     }
 
     try {
-      const response = await fetch('https://www.linkedin.com/oauth/v2/accessToken', {
+      const response = await fetch(this.tokenUrl, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/x-www-form-urlencoded',
@@ -269,7 +283,7 @@ export class LinkedInAdapter extends PlatformAdapter {
       });
 
       if (!response.ok) {
-        throw new Error('Failed to refresh LinkedIn credentials');
+        throw await this.refreshRejectedError(response);
       }
 
       const data = await response.json();
@@ -277,7 +291,8 @@ export class LinkedInAdapter extends PlatformAdapter {
       const newCredentials: PlatformCredentials = {
         ...this.credentials,
         accessToken: data.access_token,
-        refreshToken: data.refresh_token || this.credentials.refreshToken
+        refreshToken: data.refresh_token || this.credentials.refreshToken,
+        ...this.tokenExpiry(data.expires_in)
       };
 
       this.updateCredentials(newCredentials);
@@ -287,12 +302,162 @@ export class LinkedInAdapter extends PlatformAdapter {
     }
   }
 
+  /**
+   * Organizations the connected member administers, used to pick the
+   * company page a client tenant posts as.
+   */
+  async listOrganizations(): Promise<{ id: string; name: string }[]> {
+    const projection = '(elements*(organization~(id,localizedName)))';
+    const response = await fetch(
+      `${this.baseUrl}/organizationAcls?q=roleAssignee&role=ADMINISTRATOR&state=APPROVED&projection=${projection}`,
+      {
+        headers: {
+          'Authorization': `Bearer ${this.credentials.accessToken}`,
+          'X-Restli-Protocol-Version': '2.0.0'
+        }
+      }
+    );
+
+    if (!response.ok) {
+      throw new Error('Failed to list LinkedIn organizations');
+    }
+
+    const data = await response.json() as {
+      elements?: { organization: string; 'organization~'?: { id: number; localizedName: string } }[];
+    };
+
+    return (data.elements || []).map(element => ({
+      id: element.organization.replace('urn:li:organization:', ''),
+      name: element['organization~']?.localizedName || element.organization
+    }));
+  }
+
+  /**
+   * Posts go out as the organization picked when the account was connected,
+   * otherwise as the member.
+   */
+  private getAuthorUrn(): string {
+    const organizationId = this.credentials.additionalCredentials?.organizationId;
+    return organizationId ? `urn:li:organization:${organizationId}` : `urn:li:person:${this.profileId}`;
+  }
+
+  // UGC posts cannot be edited once shared, only deleted
+  override async deletePost(platformPostId: string): Promise<PublishResult> {
+    return this.managePost(platformPostId, async () => {
+      const response = await fetch(`${this.baseUrl}/ugcPosts/${encodeURIComponent(platformPostId)}`, {
+        method: 'DELETE',
+        headers: {
+          'Authorization': `Bearer ${this.credentials.accessToken}`,
+          'X-Restli-Protocol-Version': '2.0.0'
+        }
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json() as { message?: string };
+        throw new Error(`Failed to delete LinkedIn post: ${errorData.message || 'Unknown error'}`);
+      }
+    }, error => this.isRetryableError(error));
+  }
+
+  /**
+   * Organization posts have share statistics with impressions and clicks;
+   * member posts only report their likes and comments
+   */
+  override async fetchMetrics(platformPostId: string): Promise<PostMetrics> {
+    await this.acquireMetricsRateLimit();
+
+    const headers = {
+      'Authorization': `Bearer ${this.credentials.accessToken}`,
+      'X-Restli-Protocol-Version': '2.0.0'
+    };
+    const organizationId = this.credentials.additionalCredentials?.organizationId;
+
+    if (organizationId) {
+      const organizationUrn = encodeURIComponent(`urn:li:organization:${organizationId}`);
+      const response = await fetch(
+        `${this.baseUrl}/organizationalEntityShareStatistics?q=organizationalEntity&organizationalEntity=${organizationUrn}&ugcPosts=List(${encodeURIComponent(platformPostId)})`,
+        { headers }
+      );
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch LinkedIn share statistics');
+      }
+
+      const data = await response.json() as {
+        elements?: {
+          totalShareStatistics?: {
+            impressionCount?: number;
+            uniqueImpressionsCount?: number;
+            clickCount?: number;
+            likeCount?: number;
+            commentCount?: number;
+            shareCount?: number;
+          };
+        }[];
+      };
+      const statistics = data.elements?.[0]?.totalShareStatistics || {};
+
+      return {
+        views: statistics.impressionCount || 0,
+        impressions: statistics.impressionCount || 0,
+        reach: statistics.uniqueImpressionsCount || 0,
+        likes: statistics.likeCount || 0,
+        comments: statistics.commentCount || 0,
+        shares: statistics.shareCount || 0,
+        clicks: statistics.clickCount || 0
+      };
+    }
+
+    const response = await fetch(`${this.baseUrl}/socialActions/${encodeURIComponent(platformPostId)}`, { headers });
+
+    if (!response.ok) {
+      throw new Error('Failed to fetch LinkedIn social actions');
+    }
+
+    const data = await response.json() as {
+      likesSummary?: { totalLikes?: number };
+      commentsSummary?: { aggregatedTotalComments?: number };
+    };
+
+    return {
+      views: 0,
+      likes: data.likesSummary?.totalLikes || 0,
+      comments: data.commentsSummary?.aggregatedTotalComments || 0,
+      shares: 0
+    };
+  }
+
+  // Comments are written as the post's author, so organization posts get
+  // organization comments
+  private async createComment(postUrn: string, text: string): Promise<string> {
+    const response = await fetch(`${this.baseUrl}/socialActions/${encodeURIComponent(postUrn)}/comments`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${this.credentials.accessToken}`,
+        'Content-Type': 'application/json',
+        'X-Restli-Protocol-Version': '2.0.0'
+      },
+      body: JSON.stringify({
+        actor: this.getAuthorUrn(),
+        message: { text }
+      })
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json() as { message?: string };
+      throw new Error(`Failed to post LinkedIn comment: ${errorData.message || 'Unknown error'}`);
+    }
+
+    const data = await response.json() as { id?: string; $URN?: string };
+    return data.$URN || data.id || '';
+  }
+
   private async publishTextPost(content: AdaptedContent): Promise<LinkedInShareResponse> {
     const postContent = content.platformSpecific?.content as string || content.text || '';
     const targetAudience = content.platformSpecific?.targetAudience as string || 'connections';
     
     const shareData = {
-      author: `urn:li:person:${this.profileId}`,
+      author: this.getAuthorUrn(),
       lifecycleState: 'PUBLISHED',
       specificContent: {
         'com.linkedin.ugc.ShareContent': {
@@ -345,7 +510,7 @@ export class LinkedInAdapter extends PlatformAdapter {
     const targetAudience = content.platformSpecific?.targetAudience as string || 'connections';
     
     const shareData = {
-      author: `urn:li:person:${this.profileId}`,
+      author: this.getAuthorUrn(),
       lifecycleState: 'PUBLISHED',
       specificContent: {
         'com.linkedin.ugc.ShareContent': {
@@ -410,7 +575,7 @@ export class LinkedInAdapter extends PlatformAdapter {
     const targetAudience = content.platformSpecific?.targetAudience as string || 'connections';
     
     const shareData = {
-      author: `urn:li:person:${this.profileId}`,
+      author: this.getAuthorUrn(),
       lifecycleState: 'PUBLISHED',
       specificContent: {
         'com.linkedin.ugc.ShareContent': {
@@ -470,7 +635,7 @@ export class LinkedInAdapter extends PlatformAdapter {
     // LinkedIn articles are published differently - this is a simplified version
     // In practice, you'd use the LinkedIn Publishing API
     const shareData = {
-      author: `urn:li:person:${this.profileId}`,
+      author: this.getAuthorUrn(),
       lifecycleState: 'PUBLISHED',
       specificContent: {
         'com.linkedin.ugc.ShareContent': {
@@ -518,7 +683,7 @@ export class LinkedInAdapter extends PlatformAdapter {
       body: JSON.stringify({
         registerUploadRequest: {
           recipes: ['urn:li:digitalmedia:recipe:feedshare-image'],
-          owner: `urn:li:person:${this.profileId}`,
+          owner: this.getAuthorUrn(),
           serviceRelationships: [
             {
               relationshipType: 'OWNER',
@@ -548,7 +713,7 @@ export class LinkedInAdapter extends PlatformAdapter {
       body: JSON.stringify({
         registerUploadRequest: {
           recipes: ['urn:li:digitalmedia:recipe:feedshare-video'],
-          owner: `urn:li:person:${this.profileId}`,
+          owner: this.getAuthorUrn(),
           serviceRelationships: [
             {
               relationshipType: 'OWNER',
@@ -0,0 +1,649 @@
+import {
+  AdaptedContent,
+  ValidationResult,
+  ValidationError
+} from '../../types/index.js';
+import {
+  PlatformAdapter,
+  PlatformCredentials,
+  PublishResult,
+  ContentRequirements,
+  PlatformHealthCheck,
+  PostMetrics
+} from './platform-adapter.js';
+
+export type PinterestPinType = 'image' | 'video' | 'idea';
+
+export interface PinterestAdapterOptions {
+  mediaPollIntervalMs: number;
+  maxMediaPollAttempts: number;
+}
+
+export interface PinterestBoard {
+  id: string;
+  name: string;
+  privacy: 'PUBLIC' | 'PROTECTED' | 'SECRET';
+}
+
+type PinterestMediaSource =
+  | { source_type: 'image_url'; url: string }
+  | { source_type: 'multiple_image_urls'; items: { url: string; title?: string; description?: string; link?: string }[] }
+  | { source_type: 'video_id'; media_id: string; cover_image_url: string };
+
+interface PinterestPinRequest {
+  board_id: string;
+  board_section_id?: string;
+  title?: string;
+  description?: string;
+  link?: string;
+  alt_text?: string;
+  media_source: PinterestMediaSource;
+}
+
+interface PinterestPinResponse {
+  id: string;
+  board_id: string;
+  link?: string;
+}
+
+interface PinterestMediaUploadResponse {
+  media_id: string;
+  media_type: 'video';
+  upload_url: string;
+  upload_parameters: Record<string, string>;
+}
+
+interface PinterestMediaStatusResponse {
+  media_id: string;
+  status: 'registered' | 'processing' | 'succeeded' | 'failed';
+}
+
+const TITLE_MAX_LENGTH = 100;
+const ALT_TEXT_MAX_LENGTH = 500;
+const LINK_MAX_LENGTH = 2048;
+const MULTI_IMAGE_MIN = 2;
+const MULTI_IMAGE_MAX = 5;
+const PIN_ANALYTICS_DAYS = 90;
+
+export class PinterestAdapter extends PlatformAdapter {
+  private readonly baseUrl: string;
+  private options: PinterestAdapterOptions = {
+    mediaPollIntervalMs: 2000,
+    maxMediaPollAttempts: 30
+  };
+
+  constructor(credentials: PlatformCredentials, options: Partial<PinterestAdapterOptions> = {}) {
+    super('pinterest', credentials);
+    this.baseUrl = credentials.baseUrl || 'https://api.pinterest.com/v5';
+    this.options = { ...this.options, ...options };
+  }
+
+  async authenticate(): Promise<boolean> {
+    try {
+      const response = await fetch(`${this.baseUrl}/user_account`, {
+        headers: {
+          'Authorization': `Bearer ${this.credentials.accessToken}`
+        }
+      });
+
+      return response.ok;
+    } catch (error) {
+      console.error('Pinterest authentication failed:', error);
+      return false;
+    }
+  }
+
+  async publish(content: AdaptedContent): Promise<PublishResult> {
+    const rateLimited = await this.checkRateLimit();
+    if (rateLimited) {
+      return rateLimited;
+    }
+
+    try {
+      // Validate content before publishing
+      const validation = await this.validateContent(content);
+      const boardId = this.getBoardId(content);
+      if (!validation.isValid || !boardId) {
+        return {
+          success: false,
+          error: `Content validation failed: ${validation.errors.map(e => e.message).join(', ')}`,
+          retryable: false
+        };
+      }
+
+      const pinType = this.getPinType(content);
+      const mediaSource = await this.buildMediaSource(content, pinType);
+      const pin = await this.createPin(this.buildPinRequest(content, boardId, mediaSource));
+
+      return {
+        success: true,
+        platformPostId: pin.id,
+        publishedAt: new Date(),
+        metadata: {
+          postType: pinType,
+          boardId: pin.board_id,
+          url: `https://www.pinterest.com/pin/${pin.id}/`,
+          link: pin.link
+        }
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      const isRetryable = this.isRetryableError(error);
+
+      return {
+        success: false,
+        error: errorMessage,
+        retryable: isRetryable
+      };
+    }
+  }
+
+  async validateContent(content: AdaptedContent): Promise<ValidationResult> {
+    const errors: ValidationError[] = [];
+    const requirements = this.getRequirements();
+    const platformSpecific = content.platformSpecific || {};
+    const mediaUrls = content.mediaUrls || [];
+
+    // Every pin needs a destination board
+    if (!this.getBoardId(content)) {
+      errors.push({
+        field: 'boardId',
+        message: 'Pinterest pins require a board. Select one in the Pinterest account settings',
+        code: 'MISSING_BOARD'
+      });
+    }
+
+    // Validate media
+    if (mediaUrls.length === 0) {
+      errors.push({
+        field: 'mediaUrls',
+        message: 'Pinterest pins require an image or video',
+        code: 'MISSING_MEDIA'
+      });
+    } else {
+      const pinType = this.getPinType(content);
+
+      if (pinType === 'video') {
+        if (mediaUrls.length > 1) {
+          errors.push({
+            field: 'mediaUrls',
+            message: 'Video pins support a single video',
+            code: 'INVALID_MEDIA_COMBINATION'
+          });
+        }
+        if (!platformSpecific.coverImageUrl) {
+          errors.push({
+            field: 'coverImageUrl',
+            message: 'Video pins require a cover image',
+            code: 'MISSING_COVER_IMAGE'
+          });
+        }
+        const duration = platformSpecific.duration as number;
+        if (duration && requirements.videoMaxDuration && duration > requirements.videoMaxDuration) {
+          errors.push({
+            field: 'duration',
+            message: `Video duration exceeds maximum of ${requirements.videoMaxDuration} seconds`,
+            code: 'VIDEO_TOO_LONG'
+          });
+        }
+      } else {
+        if (mediaUrls.some(url => this.isVideoUrl(url))) {
+          errors.push({
+            field: 'mediaUrls',
+            message: 'Multi-image pins cannot contain videos',
+            code: 'INVALID_MEDIA_COMBINATION'
+          });
+        }
+        if (mediaUrls.length > MULTI_IMAGE_MAX) {
+          errors.push({
+            field: 'mediaUrls',
+            message: `Multi-image pins support between ${MULTI_IMAGE_MIN} and ${MULTI_IMAGE_MAX} images`,
+            code: 'TOO_MANY_IMAGES'
+          });
+        }
+        if (pinType === 'idea' && mediaUrls.length < MULTI_IMAGE_MIN) {
+          errors.push({
+            field: 'mediaUrls',
+            message: `Multi-image pins support between ${MULTI_IMAGE_MIN} and ${MULTI_IMAGE_MAX} images`,
+            code: 'TOO_FEW_IMAGES'
+          });
+        }
+      }
+    }
+
+    // Validate title
+    const title = this.getTitle(content);
+    if (title.length > TITLE_MAX_LENGTH) {
+      errors.push({
+        field: 'title',
+        message: `Title exceeds maximum length of ${TITLE_MAX_LENGTH} characters`,
+        code: 'TITLE_TOO_LONG'
+      });
+    }
+
+    // Validate description
+    const description = this.getDescription(content);
+    if (requirements.maxTextLength && description.length > requirements.maxTextLength) {
+      errors.push({
+        field: 'description',
+        message: `Description exceeds maximum length of ${requirements.maxTextLength} characters`,
+        code: 'DESCRIPTION_TOO_LONG'
+      });
+    }
+
+    // Validate destination link
+    const link = platformSpecific.link as string;
+    if (link && (!/^https?:\/\/\S+$/i.test(link) || link.length > LINK_MAX_LENGTH)) {
+      errors.push({
+        field: 'link',
+        message: 'Destination link must be a valid http(s) URL',
+        code: 'INVALID_LINK'
+      });
+    }
+
+    // Validate alt text
+    const altText = platformSpecific.altText as string;
+    if (altText && altText.length > ALT_TEXT_MAX_LENGTH) {
+      errors.push({
+        field: 'altText',
+        message: `Alt text exceeds maximum length of ${ALT_TEXT_MAX_LENGTH} characters`,
+        code: 'ALT_TEXT_TOO_LONG'
+      });
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors
+    };
+  }
+
+  getRequirements(): ContentRequirements {
+    return {
+      maxTextLength: 500,
+      hashtagLimit: 20,
+      videoMaxDuration: 900, // 15 minutes
+      imageFormats: ['jpg', 'jpeg', 'png', 'webp'],
+      videoFormats: ['mp4', 'mov', 'm4v'],
+      aspectRatios: ['2:3', '1:1', '9:16'],
+      maxFileSize: 2 * 1024 * 1024 * 1024, // 2GB for videos
+      requiredFields: ['mediaUrls', 'boardId']
+    };
+  }
+
+  async checkHealth(): Promise<PlatformHealthCheck> {
+    const startTime = Date.now();
+
+    try {
+      const response = await fetch(`${this.baseUrl}/user_account`, {
+        headers: {
+          'Authorization': `Bearer ${this.credentials.accessToken}`
+        }
+      });
+
+      const responseTime = Date.now() - startTime;
+
+      if (response.ok) {
+        const rateLimitRemaining = response.headers.get('x-ratelimit-remaining');
+        return {
+          isHealthy: true,
+          responseTime,
+          timestamp: new Date(),
+          ...(rateLimitRemaining && { rateLimitRemaining: parseInt(rateLimitRemaining) })
+        };
+      } else {
+        const errorData = await response.json() as { message?: string };
+        return {
+          isHealthy: false,
+          responseTime,
+          timestamp: new Date(),
+          error: errorData.message || 'Health check failed'
+        };
+      }
+    } catch (error) {
+      return {
+        isHealthy: false,
+        responseTime: Date.now() - startTime,
+        timestamp: new Date(),
+        error: error instanceof Error ? error.message : 'Health check failed'
+      };
+    }
+  }
+
+  async refreshCredentials(): Promise<PlatformCredentials> {
+    if (!this.credentials.refreshToken) {
+      throw new Error('No refresh token available');
+    }
+
+    try {
+      const basicAuth = Buffer.from(`${this.credentials.appId}:${this.credentials.appSecret}`).toString('base64');
+      const response = await fetch(`${this.baseUrl}/oauth/token`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Basic ${basicAuth}`,
+          'Content-Type': 'application/x-www-form-urlencoded'
+        },
+        body: new URLSearchParams({
+          grant_type: 'refresh_token',
+          refresh_token: this.credentials.refreshToken
+        })
+      });
+
+      if (!response.ok) {
+        throw await this.refreshRejectedError(response);
+      }
+
+      const data = await response.json() as { access_token: string; refresh_token?: string; expires_in?: number };
+
+      const newCredentials: PlatformCredentials = {
+        ...this.credentials,
+        accessToken: data.access_token,
+        refreshToken: data.refresh_token || this.credentials.refreshToken,
+        ...this.tokenExpiry(data.expires_in)
+      };
+
+      this.updateCredentials(newCredentials);
+      return newCredentials;
+    } catch (error) {
+      throw new Error(`Failed to refresh Pinterest credentials: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Boards the connected account can pin to, used to pick the default board
+   * stored in the account's additional credentials.
+   */
+  async listBoards(): Promise<PinterestBoard[]> {
+    const boards: PinterestBoard[] = [];
+    let bookmark: string | undefined;
+
+    do {
+      const query = new URLSearchParams({ page_size: '100', ...(bookmark && { bookmark }) });
+      const response = await fetch(`${this.baseUrl}/boards?${query}`, {
+        headers: {
+          'Authorization': `Bearer ${this.credentials.accessToken}`
+        }
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to list Pinterest boards');
+      }
+
+      const page = await response.json() as { items: PinterestBoard[]; bookmark?: string | null };
+      boards.push(...page.items.map(board => ({ id: board.id, name: board.name, privacy: board.privacy })));
+      bookmark = page.bookmark || undefined;
+    } while (bookmark);
+
+    return boards;
+  }
+
+  /**
+   * A single video makes a video pin, several images make an idea-style
+   * multi-image pin, anything else is a standard image pin.
+   */
+  private getPinType(content: AdaptedContent): PinterestPinType {
+    const mediaUrls = content.mediaUrls || [];
+
+    if (mediaUrls.some(url => this.isVideoUrl(url))) {
+      return 'video';
+    }
+    return mediaUrls.length > 1 ? 'idea' : 'image';
+  }
+
+  /**
+   * The board chosen for this content wins over the account's default board.
+   */
+  private getBoardId(content: AdaptedContent): string | undefined {
+    return (content.platformSpecific?.boardId as string) || this.credentials.additionalCredentials?.boardId;
+  }
+
+  private getTitle(content: AdaptedContent): string {
+    return ((content.platformSpecific?.title as string) || '').trim();
+  }
+
+  private getDescription(content: AdaptedContent): string {
+    return (content.platformSpecific?.description as string) ?? content.text ?? '';
+  }
+
+  private buildPinRequest(content: AdaptedContent, boardId: string, mediaSource: PinterestMediaSource): PinterestPinRequest {
+    const platformSpecific = content.platformSpecific || {};
+    const boardSectionId = (platformSpecific.boardSectionId as string) ||
+      this.credentials.additionalCredentials?.boardSectionId;
+    const title = this.getTitle(content);
+    const description = this.getDescription(content);
+
+    return {
+      board_id: boardId,
+      ...(boardSectionId && { board_section_id: boardSectionId }),
+      ...(title && { title }),
+      ...(description && { description }),
+      ...(platformSpecific.link && { link: platformSpecific.link as string }),
+      ...(platformSpecific.altText && { alt_text: platformSpecific.altText as string }),
+      media_source: mediaSource
+    };
+  }
+
+  private async buildMediaSource(content: AdaptedContent, pinType: PinterestPinType): Promise<PinterestMediaSource> {
+    const mediaUrls = content.mediaUrls || [];
+    const [firstUrl] = mediaUrls;
+    if (!firstUrl) {
+      throw new Error('Pinterest pins require an image or video');
+    }
+
+    switch (pinType) {
+      case 'video': {
+        const mediaId = await this.uploadVideo(firstUrl);
+        return {
+          source_type: 'video_id',
+          media_id: mediaId,
+          cover_image_url: content.platformSpecific?.coverImageUrl as string
+        };
+      }
+      case 'idea': {
+        const link = content.platformSpecific?.link as string | undefined;
+        return {
+          source_type: 'multiple_image_urls',
+          items: mediaUrls.map(url => ({ url, ...(link && { link }) }))
+        };
+      }
+      default:
+        return { source_type: 'image_url', url: firstUrl };
+    }
+  }
+
+  /**
+   * Pins keep their image or video; only the title, description, link and
+   * alt text can be corrected
+   */
+  override async updatePost(platformPostId: string, content: AdaptedContent): Promise<PublishResult> {
+    return this.managePost(platformPostId, async () => {
+      const title = this.getTitle(content);
+      const description = this.getDescription(content);
+      const platformSpecific = content.platformSpecific || {};
+
+      const response = await fetch(`${this.baseUrl}/pins/${platformPostId}`, {
+        method: 'PATCH',
+        headers: {
+          'Authorization': `Bearer ${this.credentials.accessToken}`,
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          ...(title && { title }),
+          ...(description && { description }),
+          ...(platformSpecific.link && { link: platformSpecific.link as string }),
+          ...(platformSpecific.altText && { alt_text: platformSpecific.altText as string })
+        })
+      });
+
+      if (!response.ok) {
+        throw await this.toPinError(response, 'Failed to update Pinterest pin');
+      }
+    }, error => this.isRetryableError(error));
+  }
+
+  override async deletePost(platformPostId: string): Promise<PublishResult> {
+    return this.managePost(platformPostId, async () => {
+      const response = await fetch(`${this.baseUrl}/pins/${platformPostId}`, {
+        method: 'DELETE',
+        headers: {
+          'Authorization': `Bearer ${this.credentials.accessToken}`
+        }
+      });
+
+      if (!response.ok) {
+        throw await this.toPinError(response, 'Failed to delete Pinterest pin');
+      }
+    }, error => this.isRetryableError(error));
+  }
+
+  /**
+   * Pin analytics cover at most the last 90 days, so older pins only
+   * report their recent activity
+   */
+  override async fetchMetrics(platformPostId: string): Promise<PostMetrics> {
+    await this.acquireMetricsRateLimit();
+
+    const endDate = new Date();
+    const startDate = new Date(endDate.getTime() - (PIN_ANALYTICS_DAYS - 1) * 24 * 60 * 60 * 1000);
+    const query = new URLSearchParams({
+      start_date: startDate.toISOString().slice(0, 10),
+      end_date: endDate.toISOString().slice(0, 10),
+      metric_types: 'IMPRESSION,SAVE,OUTBOUND_CLICK,REACTION,COMMENT'
+    });
+
+    const response = await fetch(`${this.baseUrl}/pins/${platformPostId}/analytics?${query}`, {
+      headers: {
+        'Authorization': `Bearer ${this.credentials.accessToken}`
+      }
+    });
+
+    if (!response.ok) {
+      throw await this.toPinError(response, 'Failed to fetch Pinterest pin analytics');
+    }
+
+    const data = await response.json() as { all?: { summary_metrics?: Record<string, number> } };
+    const summary = data.all?.summary_metrics || {};
+
+    return {
+      views: summary.IMPRESSION || 0,
+      impressions: summary.IMPRESSION || 0,
+      likes: summary.REACTION || 0,
+      comments: summary.COMMENT || 0,
+      shares: 0,
+      saves: summary.SAVE || 0,
+      clicks: summary.OUTBOUND_CLICK || 0
+    };
+  }
+
+  private async toPinError(response: Response, prefix: string): Promise<Error> {
+    if (response.status === 429) {
+      return new Error('Pinterest rate limit exceeded');
+    }
+    if (response.status >= 500) {
+      return new Error(`Pinterest server error (${response.status})`);
+    }
+    const errorData = await response.json() as { message?: string };
+    return new Error(`${prefix}: ${errorData.message || response.status}`);
+  }
+
+  private async createPin(pin: PinterestPinRequest): Promise<PinterestPinResponse> {
+    const response = await fetch(`${this.baseUrl}/pins`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${this.credentials.accessToken}`,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify(pin)
+    });
+
+    if (!response.ok) {
+      throw await this.toPinError(response, 'Failed to create Pinterest pin');
+    }
+
+    return await response.json() as PinterestPinResponse;
+  }
+
+  /**
+   * Videos are registered with Pinterest, uploaded to the returned storage
+   * URL and must finish processing before a pin can reference them.
+   */
+  private async uploadVideo(videoUrl: string): Promise<string> {
+    const registerResponse = await fetch(`${this.baseUrl}/media`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${this.credentials.accessToken}`,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ media_type: 'video' })
+    });
+
+    if (!registerResponse.ok) {
+      throw new Error('Failed to register Pinterest video upload');
+    }
+
+    const upload = await registerResponse.json() as PinterestMediaUploadResponse;
+
+    const videoResponse = await fetch(videoUrl);
+    if (!videoResponse.ok) {
+      throw new Error('Failed to fetch video file');
+    }
+
+    const form = new FormData();
+    for (const [key, value] of Object.entries(upload.upload_parameters)) {
+      form.append(key, value);
+    }
+    form.append('file', new Blob([await videoResponse.arrayBuffer()]));
+
+    const uploadResponse = await fetch(upload.upload_url, {
+      method: 'POST',
+      body: form
+    });
+
+    if (!uploadResponse.ok) {
+      throw new Error('Failed to upload video to Pinterest');
+    }
+
+    await this.waitForMediaProcessing(upload.media_id);
+    return upload.media_id;
+  }
+
+  private async waitForMediaProcessing(mediaId: string): Promise<void> {
+    for (let attempt = 0; attempt < this.options.maxMediaPollAttempts; attempt++) {
+      const response = await fetch(`${this.baseUrl}/media/${mediaId}`, {
+        headers: {
+          'Authorization': `Bearer ${this.credentials.accessToken}`
+        }
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to check Pinterest video status');
+      }
+
+      const media = await response.json() as PinterestMediaStatusResponse;
+      if (media.status === 'succeeded') {
+        return;
+      }
+      if (media.status === 'failed') {
+        throw new Error('Pinterest video processing failed');
+      }
+
+      await new Promise(resolve => setTimeout(resolve, this.options.mediaPollIntervalMs));
+    }
+
+    throw new Error('Pinterest video processing timeout');
+  }
+
+  private isVideoUrl(url: string): boolean {
+    return /\.(mp4|mov|m4v)(\?|$)/i.test(url);
+  }
+
+  private isRetryableError(error: any): boolean {
+    if (error instanceof Error) {
+      const message = error.message.toLowerCase();
+      return message.includes('timeout') ||
+             message.includes('network') ||
+             message.includes('rate limit') ||
+             message.includes('server error');
+    }
+    return false;
+  }
+}
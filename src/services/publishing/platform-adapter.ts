@@ -1,9 +1,14 @@
+import { createHash } from 'crypto';
 import {
   AdaptedContent,
+  EngagementMetrics,
   Platform,
   ValidationResult,
   TenantContext
 } from '../../types/index.js';
+import { PlatformRateGovernor } from './rate-governor.js';
+
+export type CredentialStatus = 'active' | 'needs_reauth';
 
 export interface PlatformCredentials {
   accessToken: string;
@@ -11,6 +16,9 @@ export interface PlatformCredentials {
   appId?: string;
   appSecret?: string;
   additionalCredentials?: Record<string, string>;
+  expiresAt?: string; // ISO timestamp when the access token expires, if the platform reports it
+  baseUrl?: string; // overrides the platform API base URL, e.g. to target the local platform emulator
+  status?: CredentialStatus; // 'needs_reauth' once a token refresh failed and the account must be reconnected
 }
 
 export interface PublishResult {
@@ -19,9 +27,22 @@ export interface PublishResult {
   publishedAt?: Date;
   error?: string;
   retryable?: boolean;
+  retryAt?: Date; // set when the rate limit was reached; the publish can be tried again from then
   metadata?: Record<string, any>;
 }
 
+export interface PostCapabilities {
+  update: boolean; // published posts can be edited in place
+  delete: boolean; // published posts can be taken down
+}
+
+export interface FirstCommentResult {
+  status: 'posted' | 'failed';
+  commentId?: string;
+  error?: string;
+  attempts: number;
+}
+
 export interface ContentRequirements {
   maxTextLength?: number;
   hashtagLimit?: number;
@@ -33,6 +54,15 @@ export interface ContentRequirements {
   requiredFields?: string[];
 }
 
+// Counts a platform reports for a published post. The engagement rate and
+// CTR are derived from them by the analytics service.
+export type PostMetrics = Omit<EngagementMetrics, 'engagementRate' | 'ctr'>;
+
+export interface CredentialHealth {
+  status: 'valid' | 'expiring' | 'expired' | 'needs_reauth';
+  expiresAt?: Date;
+}
+
 export interface PlatformHealthCheck {
   isHealthy: boolean;
   responseTime: number;
@@ -42,9 +72,14 @@ export interface PlatformHealthCheck {
   rateLimitReset?: Date;
 }
 
+// The first comment is retried on its own; the post it belongs to is already live
+const FIRST_COMMENT_ATTEMPTS = 3;
+const FIRST_COMMENT_RETRY_DELAY_MS = 2000;
+
 export abstract class PlatformAdapter {
   protected platform: Platform;
   protected credentials: PlatformCredentials;
+  protected rateGovernor: PlatformRateGovernor | null = null;
 
   constructor(platform: Platform, credentials: PlatformCredentials) {
     this.platform = platform;
@@ -58,6 +93,22 @@ export abstract class PlatformAdapter {
   abstract checkHealth(): Promise<PlatformHealthCheck>;
   abstract refreshCredentials(): Promise<PlatformCredentials>;
 
+  // Not every platform lets published posts be edited or deleted through its
+  // API; adapters implement these where it does. See getPostCapabilities().
+  updatePost?(platformPostId: string, content: AdaptedContent): Promise<PublishResult>;
+  deletePost?(platformPostId: string): Promise<PublishResult>;
+
+  /**
+   * Look for a post matching the content published on the account since
+   * `since`, so an attempt that timed out after the platform accepted it is
+   * not published twice. Implemented by platforms that can list recent posts.
+   */
+  findPublishedPost?(content: AdaptedContent, since: Date): Promise<PublishResult | null>;
+
+  // Statistics for a published post, on platforms whose API reports them.
+  // Counts the platform does not report are 0.
+  fetchMetrics?(platformPostId: string): Promise<PostMetrics>;
+
   getPlatform(): Platform {
     return this.platform;
   }
@@ -65,4 +116,182 @@ export abstract class PlatformAdapter {
   updateCredentials(credentials: PlatformCredentials): void {
     this.credentials = credentials;
   }
+
+  getPostCapabilities(): PostCapabilities {
+    return {
+      update: typeof this.updatePost === 'function',
+      delete: typeof this.deletePost === 'function'
+    };
+  }
+
+  setRateGovernor(rateGovernor: PlatformRateGovernor): void {
+    this.rateGovernor = rateGovernor;
+  }
+
+  /**
+   * Account whose rate limit the adapter's calls count against. Defaults to
+   * the connected account's token; platforms with app-level limits use the app.
+   */
+  getRateLimitAccount(): string {
+    return createHash('sha256').update(this.credentials.accessToken).digest('hex').substring(0, 16);
+  }
+
+  /**
+   * Pass the rate limit reported by a health check on to the rate governor
+   */
+  async recordRateLimit(health: Pick<PlatformHealthCheck, 'rateLimitRemaining' | 'rateLimitReset'>): Promise<void> {
+    await this.rateGovernor?.recordRateLimit(
+      this.platform,
+      this.getRateLimitAccount(),
+      health.rateLimitRemaining,
+      health.rateLimitReset
+    );
+  }
+
+  /**
+   * Error for a token refresh the platform rejected, naming the HTTP status
+   * and OAuth error code so a revoked grant can be told apart from an outage
+   */
+  protected async refreshRejectedError(response: Response): Promise<Error> {
+    const body = await response.json().catch(() => ({})) as { error?: unknown };
+    const code = typeof body.error === 'string' ? ` ${body.error}` : '';
+    return new Error(`Token refresh rejected (${response.status}${code})`);
+  }
+
+  /**
+   * The OAuth app's client ID and secret, which refresh grants are sent with
+   */
+  protected getAppCredentials(): { appId: string; appSecret: string } {
+    const { appId, appSecret } = this.credentials;
+    if (!appId || !appSecret) {
+      throw new Error(`OAuth client is not configured for platform: ${this.platform}`);
+    }
+    return { appId, appSecret };
+  }
+
+  /**
+   * Consult the rate governor before calling the platform. Returns a
+   * retryable failure with the time to try again once the budget is spent.
+   */
+  protected async checkRateLimit(): Promise<PublishResult | null> {
+    const retryAt = await this.rateGovernor?.acquire(this.platform, this.getRateLimitAccount());
+    if (!retryAt) {
+      return null;
+    }
+
+    return {
+      success: false,
+      error: `Rate limit reached for ${this.platform}, retry after ${retryAt.toISOString()}`,
+      retryable: true,
+      retryAt
+    };
+  }
+
+  /**
+   * Take a token for a metrics read from the account's read budget. Throws
+   * once the budget is spent, so the read is skipped until the post's next
+   * collection.
+   */
+  protected async acquireMetricsRateLimit(): Promise<void> {
+    const retryAt = await this.rateGovernor?.acquireMetricsRead(this.platform, this.getRateLimitAccount());
+    if (retryAt) {
+      throw new Error(`Metrics rate limit reached for ${this.platform}, retry after ${retryAt.toISOString()}`);
+    }
+  }
+
+  /**
+   * Run an edit or deletion of a published post behind the same rate limit
+   * as publishing, reporting failures the way publish() does
+   */
+  protected async managePost(
+    platformPostId: string,
+    operation: () => Promise<void>,
+    isRetryable: (error: unknown) => boolean
+  ): Promise<PublishResult> {
+    const rateLimited = await this.checkRateLimit();
+    if (rateLimited) {
+      return rateLimited;
+    }
+
+    try {
+      await operation();
+      return { success: true, platformPostId };
+    } catch (error) {
+      return {
+        success: false,
+        platformPostId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        retryable: isRetryable(error)
+      };
+    }
+  }
+
+  /**
+   * Post platformSpecific.firstComment under a post that was just published,
+   * e.g. to keep hashtags or links out of the caption. Failures are retried
+   * here and reported in the result; they never fail the publish itself.
+   * @returns undefined when the content has no first comment
+   */
+  protected async publishFirstComment(
+    content: AdaptedContent,
+    postComment: (text: string) => Promise<string>
+  ): Promise<FirstCommentResult | undefined> {
+    const text = content.platformSpecific?.firstComment;
+    if (typeof text !== 'string' || text.trim() === '') {
+      return undefined;
+    }
+
+    let lastError = '';
+    for (let attempt = 1; attempt <= FIRST_COMMENT_ATTEMPTS; attempt++) {
+      try {
+        return { status: 'posted', commentId: await postComment(text), attempts: attempt };
+      } catch (error) {
+        lastError = error instanceof Error ? error.message : 'Unknown error';
+        if (attempt < FIRST_COMMENT_ATTEMPTS) {
+          await new Promise(resolve => setTimeout(resolve, FIRST_COMMENT_RETRY_DELAY_MS * attempt));
+        }
+      }
+    }
+
+    console.warn(`First comment on ${this.platform} post failed after ${FIRST_COMMENT_ATTEMPTS} attempts: ${lastError}`);
+    return { status: 'failed', error: lastError, attempts: FIRST_COMMENT_ATTEMPTS };
+  }
+
+  /**
+   * Compare text we published with text the platform returns, ignoring
+   * whitespace differences. Posts without text cannot be matched.
+   */
+  protected isSameText(published: string | undefined, expected: string | undefined): boolean {
+    const normalize = (text: string) => text.replace(/\s+/g, ' ').trim();
+    return !!published && !!expected && normalize(expected) !== '' && normalize(published) === normalize(expected);
+  }
+
+  /**
+   * Whether the stored token still works, judged from its expiry rather
+   * than a call to the platform
+   */
+  getCredentialHealth(expiringWithinMs: number = 24 * 60 * 60 * 1000, now: Date = new Date()): CredentialHealth {
+    const expiresAt = this.credentials.expiresAt ? new Date(this.credentials.expiresAt) : undefined;
+
+    if (this.credentials.status === 'needs_reauth') {
+      return { status: 'needs_reauth', ...(expiresAt && { expiresAt }) };
+    }
+    if (!expiresAt) {
+      return { status: 'valid' };
+    }
+    if (expiresAt.getTime() <= now.getTime()) {
+      return { status: 'expired', expiresAt };
+    }
+    if (expiresAt.getTime() - now.getTime() <= expiringWithinMs) {
+      return { status: 'expiring', expiresAt };
+    }
+    return { status: 'valid', expiresAt };
+  }
+
+  /**
+   * Expiry to store for a token the platform says is valid for `expiresIn` seconds
+   */
+  protected tokenExpiry(expiresIn?: number): Pick<PlatformCredentials, 'expiresAt'> {
+    return expiresIn ? { expiresAt: new Date(Date.now() + expiresIn * 1000).toISOString() } : {};
+  }
 }
\ No newline at end of file
@@ -0,0 +1,527 @@
+import { createHash, randomBytes } from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { Platform, TenantContext } from '../../types/index.js';
+import { DatabasePool } from '../../interfaces/database.js';
+import { PlatformCredentials } from './platform-adapter.js';
+import { PublisherService } from './publisher-service.js';
+import { platformRateGovernor } from './rate-governor.js';
+import { BusinessLocationService } from './business-locations.js';
+import { FacebookAdapter } from './facebook-adapter.js';
+import { InstagramAdapter } from './instagram-adapter.js';
+import { LinkedInAdapter } from './linkedin-adapter.js';
+import { PinterestAdapter } from './pinterest-adapter.js';
+import { GoogleBusinessAdapter } from './google-business-adapter.js';
+
+export interface OAuthProviderConfig {
+  authorizeUrl: string;
+  tokenUrl: string;
+  scopes: string[];
+  scopeSeparator: string;
+  usePkce: boolean;
+  clientIdParam: string; // TikTok calls the client ID client_key
+  basicAuth: boolean; // client credentials go in an Authorization header on token exchange
+  extraParams?: Record<string, string>;
+  longLivedToken?: LongLivedTokenExchange; // the code grants a short-lived token that is swapped right away
+}
+
+export interface LongLivedTokenExchange {
+  url: string;
+  grantType: string;
+  tokenParam: string;
+}
+
+const META_AUTHORIZE_URL = 'https://www.facebook.com/v18.0/dialog/oauth';
+const META_TOKEN_URL = 'https://graph.facebook.com/v18.0/oauth/access_token';
+const META_LONG_LIVED_TOKEN: LongLivedTokenExchange = {
+  url: META_TOKEN_URL,
+  grantType: 'fb_exchange_token',
+  tokenParam: 'fb_exchange_token'
+};
+const GOOGLE_AUTHORIZE_URL = 'https://accounts.google.com/o/oauth2/v2/auth';
+const GOOGLE_TOKEN_URL = 'https://oauth2.googleapis.com/token';
+
+const defaults = {
+  scopeSeparator: ' ',
+  usePkce: false,
+  clientIdParam: 'client_id',
+  basicAuth: false
+};
+
+/**
+ * Authorization-code flows per platform. PKCE is used where the platform
+ * supports it for server-side apps. Bluesky has no OAuth flow for app
+ * passwords and keeps being connected with pasted credentials.
+ */
+export const OAUTH_PROVIDERS: Partial<Record<Platform, OAuthProviderConfig>> = {
+  facebook: {
+    ...defaults,
+    authorizeUrl: META_AUTHORIZE_URL,
+    tokenUrl: META_TOKEN_URL,
+    scopes: ['pages_show_list', 'pages_read_engagement', 'pages_manage_posts'],
+    scopeSeparator: ',',
+    longLivedToken: META_LONG_LIVED_TOKEN
+  },
+  instagram: {
+    ...defaults,
+    authorizeUrl: META_AUTHORIZE_URL,
+    tokenUrl: META_TOKEN_URL,
+    scopes: ['instagram_basic', 'instagram_content_publish', 'pages_show_list', 'pages_read_engagement'],
+    scopeSeparator: ',',
+    longLivedToken: META_LONG_LIVED_TOKEN
+  },
+  threads: {
+    ...defaults,
+    authorizeUrl: 'https://threads.net/oauth/authorize',
+    tokenUrl: 'https://graph.threads.net/oauth/access_token',
+    scopes: ['threads_basic', 'threads_content_publish'],
+    scopeSeparator: ',',
+    longLivedToken: {
+      url: 'https://graph.threads.net/access_token',
+      grantType: 'th_exchange_token',
+      tokenParam: 'access_token'
+    }
+  },
+  tiktok: {
+    ...defaults,
+    authorizeUrl: 'https://www.tiktok.com/v2/auth/authorize/',
+    tokenUrl: 'https://open.tiktokapis.com/v2/oauth/token/',
+    scopes: ['user.info.basic', 'video.upload', 'video.publish'],
+    scopeSeparator: ',',
+    clientIdParam: 'client_key'
+  },
+  linkedin: {
+    ...defaults,
+    authorizeUrl: 'https://www.linkedin.com/oauth/v2/authorization',
+    tokenUrl: 'https://www.linkedin.com/oauth/v2/accessToken',
+    scopes: ['r_liteprofile', 'w_member_social', 'r_organization_admin', 'w_organization_social']
+  },
+  x: {
+    ...defaults,
+    authorizeUrl: 'https://x.com/i/oauth2/authorize',
+    tokenUrl: 'https://api.x.com/2/oauth2/token',
+    scopes: ['tweet.read', 'tweet.write', 'users.read', 'media.write', 'offline.access'],
+    usePkce: true,
+    basicAuth: true
+  },
+  youtube: {
+    ...defaults,
+    authorizeUrl: GOOGLE_AUTHORIZE_URL,
+    tokenUrl: GOOGLE_TOKEN_URL,
+    scopes: ['https://www.googleapis.com/auth/youtube.upload', 'https://www.googleapis.com/auth/youtube.readonly'],
+    usePkce: true,
+    extraParams: { access_type: 'offline', prompt: 'consent' }
+  },
+  google_business: {
+    ...defaults,
+    authorizeUrl: GOOGLE_AUTHORIZE_URL,
+    tokenUrl: GOOGLE_TOKEN_URL,
+    scopes: ['https://www.googleapis.com/auth/business.manage'],
+    usePkce: true,
+    extraParams: { access_type: 'offline', prompt: 'consent' }
+  },
+  pinterest: {
+    ...defaults,
+    authorizeUrl: 'https://www.pinterest.com/oauth/',
+    tokenUrl: 'https://api.pinterest.com/v5/oauth/token',
+    scopes: ['boards:read', 'pins:read', 'pins:write', 'user_accounts:read'],
+    scopeSeparator: ',',
+    basicAuth: true
+  }
+};
+
+/**
+ * The OAuth app's client secret stays in the server config rather than in
+ * each tenant's credentials; token refreshes read it from here.
+ */
+export function getOAuthClientSecret(platform: Platform): string | undefined {
+  return process.env[`${platform.toUpperCase()}_CLIENT_SECRET`] || undefined;
+}
+
+export type ConnectableAccountType = 'page' | 'instagram_account' | 'organization' | 'board' | 'location';
+
+export interface ConnectableAccount {
+  id: string;
+  name: string;
+  type: ConnectableAccountType;
+  isSelected: boolean;
+}
+
+export interface ConnectResult {
+  tenantId: string;
+  platform: Platform;
+  returnUrl?: string;
+  accounts: ConnectableAccount[];
+}
+
+interface OAuthTokenResponse {
+  access_token: string;
+  refresh_token?: string;
+  expires_in?: number;
+  open_id?: string; // TikTok
+  user_id?: string | number; // Threads
+}
+
+const STATE_TTL_MS = 10 * 60 * 1000;
+
+/**
+ * Connects a client tenant's platform accounts through OAuth instead of
+ * pasted tokens: builds the authorization URL, exchanges the callback code,
+ * stores the tokens and lets the user pick the page, account, organization
+ * or board the tenant posts to.
+ */
+export class PlatformConnectionService {
+  private db: DatabasePool;
+  private publisherService: PublisherService;
+  private businessLocationService: BusinessLocationService;
+
+  constructor(db: DatabasePool, publisherService?: PublisherService) {
+    this.db = db;
+    this.publisherService = publisherService || new PublisherService(db, platformRateGovernor);
+    this.businessLocationService = new BusinessLocationService(db);
+  }
+
+  getConnectablePlatforms(): Platform[] {
+    return Object.keys(OAUTH_PROVIDERS) as Platform[];
+  }
+
+  /**
+   * Start a connect flow and return the URL to send the user to. The state
+   * ties the callback back to the tenant, since the provider redirect does
+   * not carry our session.
+   */
+  async createAuthorizationUrl(
+    platform: Platform,
+    tenantContext: TenantContext,
+    returnUrl?: string
+  ): Promise<string> {
+    const provider = this.getProvider(platform);
+    const { clientId } = this.getClientCredentials(platform);
+    const state = this.randomToken();
+    const codeVerifier = provider.usePkce ? this.randomToken() : null;
+    const now = new Date();
+
+    await this.db.query(`
+      INSERT INTO platform_oauth_states (
+        id, tenant_id, user_id, platform, state, code_verifier, return_url, expires_at, created_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+    `, [
+      uuidv4(),
+      tenantContext.tenantId,
+      tenantContext.user?.id || null,
+      platform,
+      state,
+      codeVerifier,
+      returnUrl || null,
+      new Date(now.getTime() + STATE_TTL_MS).toISOString(),
+      now.toISOString()
+    ]);
+
+    const params = new URLSearchParams({
+      [provider.clientIdParam]: clientId,
+      redirect_uri: this.getRedirectUri(platform),
+      response_type: 'code',
+      scope: provider.scopes.join(provider.scopeSeparator),
+      state,
+      ...provider.extraParams
+    });
+
+    if (codeVerifier) {
+      params.set('code_challenge', createHash('sha256').update(codeVerifier).digest('base64url'));
+      params.set('code_challenge_method', 'S256');
+    }
+
+    return `${provider.authorizeUrl}?${params}`;
+  }
+
+  /**
+   * Handle the provider callback: consume the state, exchange the code for
+   * tokens and store them for the tenant. A single connectable account is
+   * selected straight away.
+   */
+  async completeConnection(platform: Platform, code: string, state: string): Promise<ConnectResult> {
+    const provider = this.getProvider(platform);
+
+    // States are single use, so a replayed callback cannot connect twice
+    const stateResult = await this.db.query(`
+      DELETE FROM platform_oauth_states
+      WHERE state = $1 AND platform = $2
+      RETURNING tenant_id, code_verifier, return_url, expires_at
+    `, [state, platform]);
+
+    const pending = stateResult.rows[0];
+    if (!pending || new Date(pending.expires_at).getTime() < Date.now()) {
+      throw new Error('Invalid or expired OAuth state');
+    }
+
+    const tokens = await this.exchangeForLongLivedToken(
+      platform,
+      provider,
+      await this.exchangeCode(platform, provider, code, pending.code_verifier)
+    );
+    const { clientId } = this.getClientCredentials(platform);
+    const tenantContext = { tenantId: pending.tenant_id } as TenantContext;
+
+    const credentials: PlatformCredentials = {
+      accessToken: tokens.access_token,
+      ...(tokens.refresh_token && { refreshToken: tokens.refresh_token }),
+      appId: clientId,
+      ...(tokens.expires_in && { expiresAt: new Date(Date.now() + tokens.expires_in * 1000).toISOString() }),
+      additionalCredentials: {
+        ...(tokens.open_id && { openId: tokens.open_id }),
+        ...(tokens.user_id && { userId: String(tokens.user_id) })
+      }
+    };
+
+    await this.publisherService.registerPlatformCredentials(platform, credentials, tenantContext);
+
+    if (platform === 'google_business') {
+      const adapter = new GoogleBusinessAdapter(credentials);
+      await this.businessLocationService.syncLocations(await adapter.listLocations(), tenantContext);
+    }
+
+    let accounts = await this.listAccounts(platform, tenantContext);
+    const [onlyAccount] = accounts;
+    if (accounts.length === 1 && onlyAccount && !onlyAccount.isSelected) {
+      accounts = [await this.selectAccount(platform, onlyAccount.id, tenantContext)];
+    }
+
+    return {
+      tenantId: pending.tenant_id,
+      platform,
+      ...(pending.return_url && { returnUrl: pending.return_url }),
+      accounts
+    };
+  }
+
+  /**
+   * Drop a connect flow the user declined at the provider, returning where
+   * they started it from.
+   */
+  async cancelConnection(platform: Platform, state: string): Promise<string | null> {
+    const result = await this.db.query(`
+      DELETE FROM platform_oauth_states
+      WHERE state = $1 AND platform = $2
+      RETURNING return_url
+    `, [state, platform]);
+
+    return result.rows[0]?.return_url || null;
+  }
+
+  /**
+   * Pages, accounts, organizations, boards or locations the connected
+   * account can post to. Platforms that post as the connected user have none.
+   */
+  async listAccounts(platform: Platform, tenantContext: TenantContext): Promise<ConnectableAccount[]> {
+    const credentials = await this.publisherService.getPlatformCredentials(platform, tenantContext);
+    if (!credentials) {
+      throw new Error(`Platform not connected: ${platform}`);
+    }
+
+    const selected = credentials.additionalCredentials || {};
+
+    switch (platform) {
+      case 'facebook': {
+        const pages = await new FacebookAdapter(credentials).listPages();
+        return pages.map(page => ({
+          id: page.id,
+          name: page.name,
+          type: 'page' as const,
+          isSelected: page.id === selected.pageId
+        }));
+      }
+      case 'instagram': {
+        const accounts = await new InstagramAdapter(credentials).listBusinessAccounts();
+        return accounts.map(account => ({
+          id: account.id,
+          name: `@${account.username} (${account.pageName})`,
+          type: 'instagram_account' as const,
+          isSelected: account.id === selected.instagramAccountId
+        }));
+      }
+      case 'linkedin': {
+        const organizations = await new LinkedInAdapter(credentials).listOrganizations();
+        return organizations.map(organization => ({
+          id: organization.id,
+          name: organization.name,
+          type: 'organization' as const,
+          isSelected: organization.id === selected.organizationId
+        }));
+      }
+      case 'pinterest': {
+        const boards = await new PinterestAdapter(credentials).listBoards();
+        return boards.map(board => ({
+          id: board.id,
+          name: board.name,
+          type: 'board' as const,
+          isSelected: board.id === selected.boardId
+        }));
+      }
+      case 'google_business': {
+        const locations = await this.businessLocationService.listLocations(tenantContext);
+        return locations.map(location => ({
+          id: location.locationId,
+          name: location.title,
+          type: 'location' as const,
+          isSelected: location.isActive
+        }));
+      }
+      default:
+        return [];
+    }
+  }
+
+  /**
+   * Pick the account the tenant posts to. Google Business Profile posts to
+   * several locations, so selecting a location activates it.
+   */
+  async selectAccount(
+    platform: Platform,
+    accountId: string,
+    tenantContext: TenantContext
+  ): Promise<ConnectableAccount> {
+    const accounts = await this.listAccounts(platform, tenantContext);
+    const account = accounts.find(a => a.id === accountId);
+    if (!account) {
+      throw new Error(`Account not found: ${accountId}`);
+    }
+
+    if (platform === 'google_business') {
+      await this.businessLocationService.setLocationActive(accountId, true, tenantContext);
+      return { ...account, isSelected: true };
+    }
+
+    const settingKeys: Record<ConnectableAccountType, string> = {
+      page: 'pageId',
+      instagram_account: 'instagramAccountId',
+      organization: 'organizationId',
+      board: 'boardId',
+      location: 'locationId'
+    };
+
+    await this.db.query(`
+      UPDATE platform_credentials
+      SET additional_credentials = additional_credentials || $1::jsonb, updated_at = $2
+      WHERE tenant_id = $3 AND platform = $4
+    `, [
+      JSON.stringify({ [settingKeys[account.type]]: accountId }),
+      new Date().toISOString(),
+      tenantContext.tenantId,
+      platform
+    ]);
+
+    return { ...account, isSelected: true };
+  }
+
+  private async exchangeCode(
+    platform: Platform,
+    provider: OAuthProviderConfig,
+    code: string,
+    codeVerifier: string | null
+  ): Promise<OAuthTokenResponse> {
+    const { clientId, clientSecret } = this.getClientCredentials(platform);
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/x-www-form-urlencoded'
+    };
+
+    const body = new URLSearchParams({
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: this.getRedirectUri(platform),
+      [provider.clientIdParam]: clientId,
+      ...(codeVerifier && { code_verifier: codeVerifier })
+    });
+
+    if (provider.basicAuth) {
+      headers['Authorization'] = `Basic ${Buffer.from(`${clientId}:${clientSecret}`).toString('base64')}`;
+    } else {
+      body.set('client_secret', clientSecret);
+    }
+
+    const response = await fetch(provider.tokenUrl, {
+      method: 'POST',
+      headers,
+      body
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json() as { error_description?: string; error?: string | { message?: string } };
+      const message = errorData.error_description
+        || (typeof errorData.error === 'string' ? errorData.error : errorData.error?.message);
+      throw new Error(`Failed to exchange ${platform} authorization code: ${message || 'Unknown error'}`);
+    }
+
+    const tokens = await response.json() as OAuthTokenResponse;
+    if (!tokens.access_token) {
+      throw new Error(`Failed to exchange ${platform} authorization code: no access token returned`);
+    }
+
+    return tokens;
+  }
+
+  /**
+   * Meta and Threads hand out tokens that expire within hours from the code
+   * exchange; swap them for the long-lived tokens (60 days) publishing needs
+   */
+  private async exchangeForLongLivedToken(
+    platform: Platform,
+    provider: OAuthProviderConfig,
+    tokens: OAuthTokenResponse
+  ): Promise<OAuthTokenResponse> {
+    if (!provider.longLivedToken) {
+      return tokens;
+    }
+
+    const { url, grantType, tokenParam } = provider.longLivedToken;
+    const { clientId, clientSecret } = this.getClientCredentials(platform);
+    const params = new URLSearchParams({
+      grant_type: grantType,
+      client_id: clientId,
+      client_secret: clientSecret,
+      [tokenParam]: tokens.access_token
+    });
+
+    const response = await fetch(`${url}?${params}`);
+
+    if (!response.ok) {
+      const errorData = await response.json() as { error?: { message?: string } };
+      throw new Error(`Failed to get a long-lived ${platform} token: ${errorData.error?.message || 'Unknown error'}`);
+    }
+
+    const longLived = await response.json() as OAuthTokenResponse;
+    if (!longLived.access_token) {
+      throw new Error(`Failed to get a long-lived ${platform} token: no access token returned`);
+    }
+
+    // Threads returns the user ID only with the short-lived token
+    return { ...tokens, ...longLived };
+  }
+
+  private getProvider(platform: Platform): OAuthProviderConfig {
+    const provider = OAUTH_PROVIDERS[platform];
+    if (!provider) {
+      throw new Error(`OAuth connect is not supported for platform: ${platform}`);
+    }
+    return provider;
+  }
+
+  private getClientCredentials(platform: Platform): { clientId: string; clientSecret: string } {
+    const prefix = platform.toUpperCase();
+    const clientId = process.env[`${prefix}_CLIENT_ID`];
+    const clientSecret = getOAuthClientSecret(platform);
+
+    if (!clientId || !clientSecret) {
+      throw new Error(`OAuth client is not configured for platform: ${platform}`);
+    }
+
+    return { clientId, clientSecret };
+  }
+
+  private getRedirectUri(platform: Platform): string {
+    const baseUrl = process.env.OAUTH_REDIRECT_BASE_URL || process.env.APP_URL || 'http://localhost:3000';
+    return `${baseUrl}/api/v1/oauth/${platform}/callback`;
+  }
+
+  private randomToken(): string {
+    return randomBytes(32).toString('base64url');
+  }
+}
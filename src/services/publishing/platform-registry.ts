@@ -1,31 +1,31 @@
+import { createHash } from 'crypto';
 import { Platform } from '../../types/index.js';
-import { PlatformAdapter, PlatformCredentials } from './platform-adapter.js';
+import { PlatformAdapter, PlatformCredentials, PostCapabilities, ContentRequirements } from './platform-adapter.js';
 import { InstagramAdapter } from './instagram-adapter.js';
 import { TikTokAdapter } from './tiktok-adapter.js';
 import { FacebookAdapter } from './facebook-adapter.js';
 import { LinkedInAdapter } from './linkedin-adapter.js';
+import { XAdapter } from './x-adapter.js';
+import { YouTubeAdapter } from './youtube-adapter.js';
+import { PinterestAdapter } from './pinterest-adapter.js';
+import { ThreadsAdapter } from './threads-adapter.js';
+import { BlueskyAdapter } from './bluesky-adapter.js';
+import { GoogleBusinessAdapter } from './google-business-adapter.js';
+import { PlatformRateGovernor } from './rate-governor.js';
 
 export class PlatformAdapterRegistry {
   private adapters: Map<string, PlatformAdapter> = new Map();
+  private rateGovernor: PlatformRateGovernor | null;
+
+  constructor(rateGovernor?: PlatformRateGovernor) {
+    this.rateGovernor = rateGovernor || null;
+  }
 
   registerAdapter(platform: Platform, credentials: PlatformCredentials): PlatformAdapter {
-    let adapter: PlatformAdapter;
+    const adapter = this.createAdapter(platform, credentials);
 
-    switch (platform) {
-      case 'instagram':
-        adapter = new InstagramAdapter(credentials);
-        break;
-      case 'tiktok':
-        adapter = new TikTokAdapter(credentials);
-        break;
-      case 'facebook':
-        adapter = new FacebookAdapter(credentials);
-        break;
-      case 'linkedin':
-        adapter = new LinkedInAdapter(credentials);
-        break;
-      default:
-        throw new Error(`Unsupported platform: ${platform}`);
+    if (this.rateGovernor) {
+      adapter.setRateGovernor(this.rateGovernor);
     }
 
     const key = this.getAdapterKey(platform, credentials);
@@ -33,6 +33,19 @@ export class PlatformAdapterRegistry {
     return adapter;
   }
 
+  /**
+   * Whether published posts on a platform can be edited or deleted. The
+   * answer depends on the platform alone, so no account is needed.
+   */
+  getPostCapabilities(platform: Platform): PostCapabilities {
+    return this.createAdapter(platform, { accessToken: '' }).getPostCapabilities();
+  }
+
+  // Content limits are the same for every account on a platform
+  getRequirements(platform: Platform): ContentRequirements {
+    return this.createAdapter(platform, { accessToken: '' }).getRequirements();
+  }
+
   getAdapter(platform: Platform, credentials: PlatformCredentials): PlatformAdapter | undefined {
     const key = this.getAdapterKey(platform, credentials);
     return this.adapters.get(key);
@@ -44,7 +57,7 @@ export class PlatformAdapterRegistry {
   }
 
   getSupportedPlatforms(): Platform[] {
-    return ['instagram', 'tiktok', 'facebook', 'linkedin'];
+    return ['instagram', 'tiktok', 'facebook', 'linkedin', 'x', 'youtube', 'pinterest', 'threads', 'bluesky', 'google_business'];
   }
 
   async testAllAdapters(): Promise<Record<Platform, boolean>> {
@@ -68,13 +81,19 @@ export class PlatformAdapterRegistry {
     
     for (const [key, adapter] of this.adapters) {
       const platform = adapter.getPlatform();
+      // Token expiry and reconnect state come from the stored credentials, so they
+      // are reported even when the platform itself cannot be reached
+      const credentials = adapter.getCredentialHealth();
       try {
-        results[key] = await adapter.checkHealth();
+        const health = await adapter.checkHealth();
+        await adapter.recordRateLimit(health);
+        results[key] = { ...health, credentials };
       } catch (error) {
         results[key] = {
           isHealthy: false,
           error: error instanceof Error ? error.message : 'Unknown error',
-          timestamp: new Date()
+          timestamp: new Date(),
+          credentials
         };
       }
     }
@@ -98,6 +117,47 @@ export class PlatformAdapterRegistry {
     return [...new Set(platforms)]; // Remove duplicates
   }
 
+  private createAdapter(platform: Platform, credentials: PlatformCredentials): PlatformAdapter {
+    let adapter: PlatformAdapter;
+
+    switch (platform) {
+      case 'instagram':
+        adapter = new InstagramAdapter(credentials);
+        break;
+      case 'tiktok':
+        adapter = new TikTokAdapter(credentials);
+        break;
+      case 'facebook':
+        adapter = new FacebookAdapter(credentials);
+        break;
+      case 'linkedin':
+        adapter = new LinkedInAdapter(credentials);
+        break;
+      case 'x':
+        adapter = new XAdapter(credentials);
+        break;
+      case 'youtube':
+        adapter = new YouTubeAdapter(credentials);
+        break;
+      case 'pinterest':
+        adapter = new PinterestAdapter(credentials);
+        break;
+      case 'threads':
+        adapter = new ThreadsAdapter(credentials);
+        break;
+      case 'bluesky':
+        adapter = new BlueskyAdapter(credentials);
+        break;
+      case 'google_business':
+        adapter = new GoogleBusinessAdapter(credentials);
+        break;
+      default:
+        throw new Error(`Unsupported platform: ${platform}`);
+    }
+
+    return adapter;
+  }
+
   private getAdapterKey(platform: Platform, credentials: PlatformCredentials): string {
     // Create a unique key based on platform and some credential identifier
     // In production, you might want to hash the credentials for security
@@ -106,9 +166,10 @@ export class PlatformAdapterRegistry {
   }
 
   private hashCredentials(credentials: PlatformCredentials): string {
-    // Simple hash for demo purposes - in production use proper hashing
-    const key = credentials.accessToken.substring(0, 8) + 
-                (credentials.appId || '').substring(0, 4);
-    return Buffer.from(key).toString('base64').substring(0, 12);
+    // Tokens of one platform often share a prefix, so the whole token is hashed
+    return createHash('sha256')
+      .update(`${credentials.accessToken}:${credentials.appId || ''}`)
+      .digest('hex')
+      .substring(0, 16);
   }
 }
\ No newline at end of file
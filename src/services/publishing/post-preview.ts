@@ -0,0 +1,242 @@
+import { AdaptedContent, BrandConfig, Platform } from '../../types/index.js';
+import { PlatformAdapterRegistry } from './platform-registry.js';
+
+export interface PlatformPreviewStyle {
+  name: string;
+  foldLength?: number; // characters shown in the feed before the "see more" fold
+  foldLabel?: string;
+  aspectRatio: string; // feed crop as width:height
+  accentColor: string; // colour of hashtags, mentions and links
+}
+
+// How each platform lays a post out in the feed on mobile
+export const PLATFORM_PREVIEW_STYLES: Record<Platform, PlatformPreviewStyle> = {
+  instagram: { name: 'Instagram', foldLength: 125, foldLabel: 'more', aspectRatio: '1:1', accentColor: '#00376b' },
+  tiktok: { name: 'TikTok', foldLength: 100, foldLabel: 'more', aspectRatio: '9:16', accentColor: '#fe2c55' },
+  facebook: { name: 'Facebook', foldLength: 477, foldLabel: 'See more', aspectRatio: '4:5', accentColor: '#1877f2' },
+  linkedin: { name: 'LinkedIn', foldLength: 210, foldLabel: '…see more', aspectRatio: '1.91:1', accentColor: '#0a66c2' },
+  x: { name: 'X', aspectRatio: '16:9', accentColor: '#1d9bf0' },
+  youtube: { name: 'YouTube', foldLength: 100, foldLabel: '...more', aspectRatio: '16:9', accentColor: '#065fd4' },
+  pinterest: { name: 'Pinterest', foldLength: 50, foldLabel: 'More', aspectRatio: '2:3', accentColor: '#e60023' },
+  threads: { name: 'Threads', aspectRatio: '4:5', accentColor: '#0095f6' },
+  bluesky: { name: 'Bluesky', aspectRatio: '16:9', accentColor: '#1083fe' },
+  google_business: { name: 'Google Business Profile', foldLength: 250, foldLabel: 'More', aspectRatio: '4:3', accentColor: '#1a73e8' }
+};
+
+export interface PostPreview {
+  platform: Platform;
+  html: string;
+  folded: boolean; // part of the text sits below the "see more" fold
+  truncated: boolean; // the text runs past the platform's limit
+}
+
+const TOKEN_PATTERN = /(https?:\/\/[^\s<]+|#[\p{L}\p{N}_]+|@[\w.]+)/gu;
+const VIDEO_PATTERN = /\.(mp4|mov|m4v|webm)(\?|$)/i;
+
+// Brand values land in a <style> block, where HTML escaping does not apply
+const CSS_COLOR_PATTERN = /^(#[0-9a-f]{3,4}|#[0-9a-f]{6}|#[0-9a-f]{8}|rgba?\(\s*[\d.]+%?\s*(,\s*[\d.]+%?\s*){2,3}\))$/i;
+const CSS_FONT_FAMILY_PATTERN = /^[\w\s,'"-]{1,100}$/;
+const DEFAULT_PRIMARY_COLOR = '#1c1e21';
+const DEFAULT_FONT_FAMILY = 'system-ui';
+
+/**
+ * Renders HTML mockups of how adapted content will look on each platform,
+ * so approvers can judge a post without reading its JSON.
+ */
+export class PostPreviewRenderer {
+  private registry: PlatformAdapterRegistry;
+
+  constructor(registry: PlatformAdapterRegistry = new PlatformAdapterRegistry()) {
+    this.registry = registry;
+  }
+
+  renderPost(platform: Platform, content: AdaptedContent, brandConfig: BrandConfig): PostPreview {
+    const style = PLATFORM_PREVIEW_STYLES[platform];
+    const maxTextLength = this.registry.getRequirements(platform).maxTextLength;
+    const platformSpecific = content.platformSpecific || {};
+    const title = platformSpecific.title as string | undefined;
+    let folded = false;
+    let truncated = false;
+
+    // X threads are shown as one post per thread entry
+    const bodies = this.getPostTexts(platform, content).map(text => {
+      const body = this.renderText(text, style, maxTextLength);
+      folded = folded || body.folded;
+      truncated = truncated || body.truncated;
+      return `<div class="preview-text">${body.html}</div>`;
+    });
+
+    const html = `
+      <article class="preview-post preview-${platform}" style="--accent: ${style.accentColor}">
+        <div class="preview-platform">${this.escape(style.name)}</div>
+        ${this.renderAccount(brandConfig)}
+        ${this.renderMedia(content, style)}
+        ${title && ['youtube', 'pinterest'].includes(platform) ? `<h3 class="preview-title">${this.escape(title)}</h3>` : ''}
+        ${bodies.join('\n')}
+        ${platformSpecific.firstComment
+          ? `<div class="preview-comment">${this.renderAccount(brandConfig)}${this.highlight(platformSpecific.firstComment as string)}</div>`
+          : ''}
+      </article>`;
+
+    return { platform, html, folded, truncated };
+  }
+
+  /**
+   * A standalone page with every platform's mockup, framed with the
+   * tenant's branding
+   */
+  renderPage(title: string, previews: PostPreview[], brandConfig: BrandConfig): string {
+    const notes = previews.flatMap(preview => [
+      ...(preview.truncated ? [`${PLATFORM_PREVIEW_STYLES[preview.platform].name}: text is longer than the platform allows and will be cut`] : []),
+      ...(preview.folded ? [`${PLATFORM_PREVIEW_STYLES[preview.platform].name}: part of the text is hidden behind "see more"`] : [])
+    ]);
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <title>Preview: ${this.escape(title)}</title>
+  <style>
+    body { margin: 0; font-family: ${this.cssValue(brandConfig.fontFamily, CSS_FONT_FAMILY_PATTERN, DEFAULT_FONT_FAMILY)}, sans-serif; background: #f0f2f5; color: #1c1e21; }
+    .preview-header { display: flex; align-items: center; gap: 12px; padding: 16px 24px; background: ${this.cssValue(brandConfig.primaryColor, CSS_COLOR_PATTERN, DEFAULT_PRIMARY_COLOR)}; color: #fff; }
+    .preview-header img { height: 32px; }
+    .preview-notes { margin: 16px 24px 0; padding: 12px 16px; background: #fff8e1; border-left: 4px solid #f5a623; }
+    .preview-grid { display: grid; grid-template-columns: repeat(auto-fill, minmax(360px, 1fr)); gap: 24px; padding: 24px; }
+    .preview-post { background: #fff; border-radius: 8px; box-shadow: 0 1px 3px rgba(0, 0, 0, 0.15); overflow: hidden; font-family: -apple-system, "Segoe UI", Roboto, sans-serif; font-size: 14px; }
+    .preview-platform { padding: 6px 12px; background: var(--accent); color: #fff; font-size: 12px; font-weight: 600; }
+    .preview-account { display: flex; align-items: center; gap: 8px; padding: 10px 12px; font-weight: 600; }
+    .preview-avatar { width: 32px; height: 32px; border-radius: 50%; object-fit: cover; background: #ddd; display: inline-flex; align-items: center; justify-content: center; }
+    .preview-media { display: flex; overflow-x: auto; scroll-snap-type: x mandatory; }
+    .preview-slide { position: relative; flex: 0 0 100%; scroll-snap-align: start; background: #000; }
+    .preview-slide img, .preview-slide video { width: 100%; height: 100%; object-fit: cover; display: block; }
+    .preview-index { position: absolute; top: 8px; right: 8px; padding: 2px 8px; border-radius: 12px; background: rgba(0, 0, 0, 0.6); color: #fff; font-size: 12px; }
+    .preview-title { margin: 12px 12px 0; font-size: 16px; }
+    .preview-text { padding: 10px 12px; white-space: pre-wrap; word-wrap: break-word; }
+    .preview-text + .preview-text { border-top: 1px solid #eee; }
+    .preview-tag { color: var(--accent); }
+    .preview-fold summary { display: inline; color: #65676b; cursor: pointer; list-style: none; }
+    .preview-fold[open] summary { display: none; }
+    .preview-overflow { background: #ffebee; color: #b71c1c; text-decoration: line-through; }
+    .preview-comment { margin: 0 12px 12px; padding: 8px; background: #f0f2f5; border-radius: 8px; }
+  </style>
+</head>
+<body>
+  <header class="preview-header">
+    ${brandConfig.logo ? `<img src="${this.escape(brandConfig.logo)}" alt="">` : ''}
+    <strong>${this.escape(brandConfig.companyName || 'Preview')}</strong>
+    <span>${this.escape(title)}</span>
+  </header>
+  ${notes.length > 0 ? `<ul class="preview-notes">${notes.map(note => `<li>${this.escape(note)}</li>`).join('')}</ul>` : ''}
+  <main class="preview-grid">
+    ${previews.map(preview => preview.html).join('\n')}
+  </main>
+</body>
+</html>`;
+  }
+
+  private getPostTexts(platform: Platform, content: AdaptedContent): string[] {
+    const platformSpecific = content.platformSpecific || {};
+
+    if (platform === 'x' && Array.isArray(platformSpecific.thread) && platformSpecific.thread.length > 0) {
+      return platformSpecific.thread as string[];
+    }
+    if (platform === 'instagram') {
+      if (platformSpecific.mediaType === 'story') {
+        return []; // Stories have no caption
+      }
+      const hashtags = (platformSpecific.hashtags as string[] | undefined) || [];
+      const caption = (platformSpecific.caption as string | undefined) ?? content.text ?? '';
+      return [hashtags.length > 0
+        ? `${caption}\n\n${hashtags.map(tag => tag.startsWith('#') ? tag : `#${tag}`).join(' ')}`
+        : caption];
+    }
+
+    const text = platformSpecific.description ?? platformSpecific.content ?? platformSpecific.summary ?? content.text ?? '';
+    return [text as string];
+  }
+
+  /**
+   * Text shown up to the fold with the rest behind a "see more" toggle,
+   * and anything past the platform's limit struck through
+   */
+  private renderText(
+    text: string,
+    style: PlatformPreviewStyle,
+    maxTextLength?: number
+  ): { html: string; folded: boolean; truncated: boolean } {
+    // Limits are counted in characters, not UTF-16 code units
+    const characters = Array.from(text);
+    const truncated = maxTextLength !== undefined && characters.length > maxTextLength;
+    const kept = truncated ? characters.slice(0, maxTextLength) : characters;
+    const overflow = truncated
+      ? `<span class="preview-overflow" title="Cut at ${maxTextLength} characters">${this.escape(characters.slice(maxTextLength).join(''))}</span>`
+      : '';
+
+    const folded = style.foldLength !== undefined && kept.length > style.foldLength;
+    if (!folded) {
+      return { html: this.highlight(kept.join('')) + overflow, folded, truncated };
+    }
+
+    const html = this.highlight(kept.slice(0, style.foldLength).join('')) +
+      `<details class="preview-fold"><summary>${this.escape(style.foldLabel || 'more')}</summary>` +
+      `${this.highlight(kept.slice(style.foldLength).join(''))}${overflow}</details>`;
+    return { html, folded, truncated };
+  }
+
+  private renderAccount(brandConfig: BrandConfig): string {
+    const name = brandConfig.companyName || 'Your brand';
+    const avatar = brandConfig.logo
+      ? `<img class="preview-avatar" src="${this.escape(brandConfig.logo)}" alt="">`
+      : `<span class="preview-avatar">${this.escape(Array.from(name)[0] || '')}</span>`;
+
+    return `<div class="preview-account">${avatar}<span>${this.escape(name)}</span></div>`;
+  }
+
+  // Media in publishing order, cropped the way the feed crops it
+  private renderMedia(content: AdaptedContent, style: PlatformPreviewStyle): string {
+    const mediaUrls = content.mediaUrls || [];
+    if (mediaUrls.length === 0) {
+      return '';
+    }
+
+    const mediaType = content.platformSpecific?.mediaType;
+    const aspectRatio = ['reel', 'story'].includes(mediaType as string)
+      ? '9:16'
+      : (content.platformSpecific?.aspectRatio as string | undefined) || style.aspectRatio;
+    const [width, height] = aspectRatio.split(':');
+
+    const slides = mediaUrls.map((url, index) => {
+      const media = VIDEO_PATTERN.test(url)
+        ? `<video src="${this.escape(url)}" muted playsinline controls></video>`
+        : `<img src="${this.escape(url)}" alt="">`;
+      const position = mediaUrls.length > 1 ? `<span class="preview-index">${index + 1}/${mediaUrls.length}</span>` : '';
+      return `<div class="preview-slide" style="aspect-ratio: ${Number(width)} / ${Number(height)}">${media}${position}</div>`;
+    });
+
+    return `<div class="preview-media">${slides.join('')}</div>`;
+  }
+
+  // Hashtags, mentions and links styled the way the platform shows them
+  private highlight(text: string): string {
+    return text
+      .split(TOKEN_PATTERN)
+      .map((part, index) => index % 2 === 1
+        ? `<span class="preview-tag">${this.escape(part)}</span>`
+        : this.escape(part))
+      .join('');
+  }
+
+  private cssValue(value: string | undefined, pattern: RegExp, fallback: string): string {
+    return value && pattern.test(value.trim()) ? value.trim() : fallback;
+  }
+
+  private escape(value: string): string {
+    return value
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&#39;');
+  }
+}
@@ -9,12 +9,25 @@ import {
 } from '../../types/index.js';
 import { DatabasePool, DatabaseClient } from '../../interfaces/database.js';
 import { PlatformAdapterRegistry } from './platform-registry.js';
-import { PlatformAdapter, PlatformCredentials, PublishResult, ContentRequirements } from './platform-adapter.js';
+import {
+  PlatformAdapter,
+  PlatformCredentials,
+  PublishResult,
+  ContentRequirements,
+  PostCapabilities,
+  FirstCommentResult
+} from './platform-adapter.js';
+import { splitIntoThread } from './x-adapter.js';
+import { BusinessLocationService } from './business-locations.js';
+import { ShortLinkService } from './short-links.js';
+import { SecretEncryptionService } from '../secret-encryption.js';
+import { PlatformRateGovernor } from './rate-governor.js';
 
 export interface PublishRequest {
   contentId: string;
   platforms: Platform[];
   scheduledAt?: Date;
+  calendarEventId?: string;
   retryPolicy?: RetryPolicy;
 }
 
@@ -29,13 +42,34 @@ export interface PublishJobResult {
   jobId: string;
   contentId: string;
   platform: Platform;
-  status: 'pending' | 'success' | 'failed' | 'retrying';
+  status: 'pending' | 'in_progress' | 'success' | 'failed' | 'retrying'; // in_progress: another worker holds the key
   result?: PublishResult;
   error?: string;
   retryCount: number;
+  calendarEventId?: string;
   scheduledAt?: Date;
   publishedAt?: Date;
   nextRetryAt?: Date;
+  idempotencyKey?: string; // one publish_jobs row per content, platform and calendar event
+}
+
+export interface PublishedPostActionResult {
+  platform: Platform;
+  platformPostId: string;
+  status: 'success' | 'failed' | 'unsupported'; // unsupported: the platform cannot edit or delete posts
+  error?: string;
+}
+
+interface PublishedPost {
+  id: string;
+  platform: Platform;
+  platformPostId: string;
+}
+
+interface PublishJobClaim {
+  jobId: string;
+  retryCount: number;
+  previousAttemptAt?: Date;
 }
 
 export interface ContentAdaptationRequest {
@@ -45,9 +79,19 @@ export interface ContentAdaptationRequest {
   bestPractices?: string[];
 }
 
+// A pending job updated more recently than this is still being published by
+// another worker; older ones were abandoned and may be claimed again
+const PENDING_JOB_TIMEOUT_MS = 15 * 60 * 1000;
+
+// Platform timestamps can lag behind ours when looking up earlier attempts
+const RECONCILE_CLOCK_SKEW_MS = 5 * 60 * 1000;
+
 export class PublisherService {
   private db: DatabasePool;
   private adapterRegistry: PlatformAdapterRegistry;
+  private businessLocationService: BusinessLocationService;
+  private shortLinkService: ShortLinkService;
+  private secretEncryption: SecretEncryptionService;
   private defaultRetryPolicy: RetryPolicy = {
     maxRetries: 3,
     retryDelayMs: 5000,
@@ -55,9 +99,15 @@ export class PublisherService {
     retryableErrors: ['timeout', 'network', 'rate limit', 'server error']
   };
 
-  constructor(db: DatabasePool) {
+  /**
+   * @param rateGovernor Shared rate limits to respect; without one, adapters publish unthrottled
+   */
+  constructor(db: DatabasePool, rateGovernor?: PlatformRateGovernor) {
     this.db = db;
-    this.adapterRegistry = new PlatformAdapterRegistry();
+    this.adapterRegistry = new PlatformAdapterRegistry(rateGovernor);
+    this.businessLocationService = new BusinessLocationService(db);
+    this.shortLinkService = new ShortLinkService(db);
+    this.secretEncryption = new SecretEncryptionService(db);
   }
 
   async initialize(): Promise<void> {
@@ -102,22 +152,40 @@ export class PublisherService {
     const credentialsId = uuidv4();
     const now = new Date();
 
+    // Account settings such as the default Pinterest board are not secrets, and
+    // storing new tokens clears any earlier failed refresh
+    const { additionalCredentials, ...secretCredentials } = credentials;
+    delete secretCredentials.status;
+    const encryptedCredentials = await this.secretEncryption.encrypt(secretCredentials, tenantContext.tenantId);
+
     await this.db.query(`
       INSERT INTO platform_credentials (
-        id, tenant_id, platform, credentials, is_active, created_at, updated_at
-      ) VALUES (?, ?, ?, ?, ?, ?, ?)
+        id, tenant_id, platform, credentials, additional_credentials, status, token_expires_at,
+        is_active, created_at, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT (tenant_id, platform) DO UPDATE SET
+        credentials = EXCLUDED.credentials,
+        additional_credentials = platform_credentials.additional_credentials || EXCLUDED.additional_credentials,
+        status = EXCLUDED.status,
+        token_expires_at = EXCLUDED.token_expires_at,
+        last_refresh_error = NULL,
+        is_active = true,
+        updated_at = EXCLUDED.updated_at
     `, [
       credentialsId,
       tenantContext.tenantId,
       platform,
-      JSON.stringify(credentials), // In production, encrypt this
+      JSON.stringify(encryptedCredentials),
+      JSON.stringify(additionalCredentials || {}),
+      'active',
+      credentials.expiresAt || null,
       true,
       now.toISOString(),
       now.toISOString()
     ]);
 
     // Register adapter
-    this.adapterRegistry.registerAdapter(platform, credentials);
+    this.adapterRegistry.registerAdapter(platform, { ...credentials, status: 'active' });
   }
 
   async adaptContentForPlatforms(request: ContentAdaptationRequest): Promise<Record<Platform, AdaptedContent>> {
@@ -162,8 +230,8 @@ export class PublisherService {
       adaptedMediaUrls = (baseContent as any).mediaUrls || [];
     }
     
-    // Apply platform-specific text adaptations
-    if (requirements?.maxTextLength && adaptedText.length > requirements.maxTextLength) {
+    // Apply platform-specific text adaptations (long X posts become threads instead)
+    if (platform !== 'x' && requirements?.maxTextLength && adaptedText.length > requirements.maxTextLength) {
       adaptedText = this.truncateText(adaptedText, requirements.maxTextLength);
     }
 
@@ -218,17 +286,22 @@ export class PublisherService {
 
     const errors: ValidationError[] = [];
 
+    // Threads are validated post by post
+    const thread = content.platformSpecific?.thread as string[] | undefined;
+    const textParts = thread && thread.length > 0 ? thread : [content.text || ''];
+
     // Validate text length
-    if (content.text && requirements.maxTextLength && content.text.length > requirements.maxTextLength) {
+    const { maxTextLength } = requirements;
+    if (maxTextLength && textParts.some(text => text.length > maxTextLength)) {
       errors.push({
         field: 'text',
-        message: `Text exceeds maximum length of ${requirements.maxTextLength} characters`,
+        message: `Text exceeds maximum length of ${maxTextLength} characters`,
         code: 'TEXT_TOO_LONG'
       });
     }
 
     // Validate hashtag limits
-    const hashtags = this.extractHashtags(content.text || '');
+    const hashtags = this.extractHashtags(textParts.join(' '));
     if (hashtags.length > 0 && requirements.hashtagLimit && hashtags.length > requirements.hashtagLimit) {
       errors.push({
         field: 'hashtags',
@@ -267,7 +340,7 @@ export class PublisherService {
   ): Promise<any> {
     try {
       // Validate platform
-      const validPlatforms = ['instagram', 'linkedin', 'facebook', 'tiktok'];
+      const validPlatforms = ['instagram', 'linkedin', 'facebook', 'tiktok', 'x', 'youtube', 'pinterest', 'threads', 'bluesky', 'google_business'];
       if (!validPlatforms.includes(platform)) {
         throw new Error(`Invalid platform: ${platform}. Must be one of: ${validPlatforms.join(', ')}`);
       }
@@ -317,21 +390,56 @@ export class PublisherService {
     }
 
     for (const platform of request.platforms) {
-      const jobId = uuidv4();
-      
+      const idempotencyKey = this.getIdempotencyKey(request.contentId, platform, request.calendarEventId);
+      let jobId = uuidv4();
+      let retryCount = 0;
+      let claimed = false;
+
+      // Failures after the key was claimed are stored, releasing it for the next attempt
+      const fail = async (error: string): Promise<void> => {
+        const jobResult: PublishJobResult = {
+          jobId,
+          contentId: request.contentId,
+          platform,
+          status: 'failed',
+          error,
+          retryCount,
+          ...(request.scheduledAt && { scheduledAt: request.scheduledAt }),
+          ...(request.calendarEventId && { calendarEventId: request.calendarEventId }),
+          idempotencyKey
+        };
+        results.push(jobResult);
+        if (claimed) {
+          await this.storePublishResult(jobResult, tenantContext);
+        }
+      };
+
       try {
+        // Claim the key before doing any work. Repeat calls for content that
+        // already went out, or is going out on another worker, lose the claim
+        // and get the stored result instead of a second post.
+        const claim = await this.claimPublishJob(jobId, request, platform, idempotencyKey, tenantContext);
+        if (!claim) {
+          const previousJob = await this.findPublishJob(request.contentId, platform, idempotencyKey, tenantContext);
+          if (!previousJob) {
+            throw new Error('Publish job could not be claimed');
+          }
+          // A pending job that could not be taken over is still being published
+          results.push(previousJob.status === 'pending' ? { ...previousJob, status: 'in_progress' } : previousJob);
+          continue;
+        }
+        claimed = true;
+        jobId = claim.jobId;
+        retryCount = claim.retryCount;
+
         // Get platform credentials
         const credentials = await this.getPlatformCredentials(platform, tenantContext);
         if (!credentials) {
-          results.push({
-            jobId,
-            contentId: request.contentId,
-            platform,
-            status: 'failed',
-            error: 'Platform credentials not found',
-            retryCount: 0,
-            scheduledAt: request.scheduledAt
-          });
+          await fail('Platform credentials not found');
+          continue;
+        }
+        if (credentials.status === 'needs_reauth') {
+          await fail('Platform account must be reconnected');
           continue;
         }
 
@@ -342,53 +450,52 @@ export class PublisherService {
         }
 
         // Get adapted content for platform
-        const adaptedContent = content.adaptedContent[platform];
+        let adaptedContent = content.adaptedContent[platform];
+        if (adaptedContent && platform === 'google_business') {
+          adaptedContent = await this.withBusinessLocations(adaptedContent, tenantContext);
+        }
         if (!adaptedContent) {
-          results.push({
-            jobId,
-            contentId: request.contentId,
-            platform,
-            status: 'failed',
-            error: 'No adapted content found for platform',
-            retryCount: 0,
-            scheduledAt: request.scheduledAt
-          });
+          await fail('No adapted content found for platform');
           continue;
         }
 
+        // Links go out as tracked short links with UTM parameters
+        adaptedContent = await this.shortLinkService.tagLinks(adaptedContent, {
+          contentId: request.contentId,
+          platform,
+          briefingId: content.briefingId
+        }, tenantContext);
+
         // Validate content
         const validation = await adapter.validateContent(adaptedContent);
         if (!validation.isValid) {
-          results.push({
-            jobId,
-            contentId: request.contentId,
-            platform,
-            status: 'failed',
-            error: `Validation failed: ${validation.errors.map(e => e.message).join(', ')}`,
-            retryCount: 0,
-            scheduledAt: request.scheduledAt
-          });
+          await fail(`Validation failed: ${validation.errors.map(e => e.message).join(', ')}`);
           continue;
         }
 
-        // Publish content
+        // Publish content, checking first whether an earlier attempt made it
         const publishResult = await this.publishWithRetry(
           adapter,
           adaptedContent,
           tenantContext,
-          request.retryPolicy || this.defaultRetryPolicy
+          request.retryPolicy || this.defaultRetryPolicy,
+          claim.previousAttemptAt
         );
 
+        // Rate-limited publishes are not failures; they wait for the limit to reset
         const jobResult: PublishJobResult = {
           jobId,
           contentId: request.contentId,
           platform,
-          status: publishResult.success ? 'success' : 'failed',
+          status: publishResult.success ? 'success' : publishResult.retryAt ? 'retrying' : 'failed',
           result: publishResult,
           error: publishResult.error,
-          retryCount: 0,
+          retryCount,
+          calendarEventId: request.calendarEventId,
           scheduledAt: request.scheduledAt,
-          publishedAt: publishResult.success ? new Date() : undefined
+          publishedAt: publishResult.success ? publishResult.publishedAt || new Date() : undefined,
+          ...(publishResult.retryAt && { nextRetryAt: publishResult.retryAt }),
+          idempotencyKey
         };
 
         results.push(jobResult);
@@ -396,23 +503,114 @@ export class PublisherService {
         // Store publish result
         await this.storePublishResult(jobResult, tenantContext);
 
+        if (publishResult.success && publishResult.platformPostId) {
+          await this.storePlatformPost(jobResult, publishResult.platformPostId, tenantContext);
+        }
+
       } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-        results.push({
-          jobId,
-          contentId: request.contentId,
-          platform,
-          status: 'failed',
-          error: errorMessage,
-          retryCount: 0,
-          scheduledAt: request.scheduledAt
-        });
+        try {
+          await fail(error instanceof Error ? error.message : 'Unknown error');
+        } catch (storeError) {
+          console.error(`Error storing failed publish job ${jobId}:`, storeError);
+        }
       }
     }
 
     return results;
   }
 
+  /**
+   * Correct the content's published posts with its current adapted content,
+   * on every platform it was published to or only on `platforms`
+   */
+  async updatePublishedContent(
+    contentId: string,
+    tenantContext: TenantContext,
+    platforms?: Platform[]
+  ): Promise<PublishedPostActionResult[]> {
+    const content = await this.getContent(contentId, tenantContext);
+    if (!content) {
+      throw new Error('Content not found');
+    }
+
+    const results: PublishedPostActionResult[] = [];
+    for (const post of await this.getPublishedPosts(contentId, tenantContext, platforms)) {
+      const result = await this.runPostAction(post, 'update', tenantContext, async adapter => {
+        let adaptedContent = content.adaptedContent[post.platform];
+        if (!adaptedContent) {
+          return { success: false, error: 'No adapted content found for platform' };
+        }
+        adaptedContent = await this.shortLinkService.tagLinks(adaptedContent, {
+          contentId,
+          platform: post.platform,
+          briefingId: content.briefingId
+        }, tenantContext);
+
+        const validation = await adapter.validateContent(adaptedContent);
+        if (!validation.isValid) {
+          return { success: false, error: `Validation failed: ${validation.errors.map(e => e.message).join(', ')}` };
+        }
+
+        if (!adapter.updatePost) {
+          return { success: false, error: `${post.platform} adapter cannot edit published posts` };
+        }
+
+        return await adapter.updatePost(post.platformPostId, adaptedContent);
+      });
+
+      if (result.status === 'success') {
+        await this.db.query(
+          'UPDATE platform_posts SET last_updated = ? WHERE id = ?',
+          [new Date().toISOString(), post.id]
+        );
+      }
+      results.push(result);
+    }
+
+    return results;
+  }
+
+  /**
+   * Delete the content's published posts from every platform it was
+   * published to, or only from `platforms`. Posts on platforms that cannot
+   * delete through their API are reported as unsupported and stay up.
+   */
+  async takeDownContent(
+    contentId: string,
+    tenantContext: TenantContext,
+    platforms?: Platform[]
+  ): Promise<PublishedPostActionResult[]> {
+    const results: PublishedPostActionResult[] = [];
+
+    for (const post of await this.getPublishedPosts(contentId, tenantContext, platforms)) {
+      const result = await this.runPostAction(post, 'delete', tenantContext, async adapter => {
+        if (!adapter.deletePost) {
+          return { success: false, error: `${post.platform} adapter cannot delete published posts` };
+        }
+
+        return await adapter.deletePost(post.platformPostId);
+      });
+
+      if (result.status === 'success') {
+        await this.db.query(
+          'UPDATE platform_posts SET status = ?, last_updated = ? WHERE id = ?',
+          ['deleted', new Date().toISOString(), post.id]
+        );
+      }
+      results.push(result);
+    }
+
+    return results;
+  }
+
+  getPostCapabilities(): Record<Platform, PostCapabilities> {
+    const capabilities = {} as Record<Platform, PostCapabilities>;
+    for (const platform of this.getSupportedPlatforms()) {
+      capabilities[platform] = this.adapterRegistry.getPostCapabilities(platform);
+    }
+    return capabilities;
+  }
+
   getPlatformRequirements(platform: Platform): ContentRequirements | undefined {
     const supportedPlatforms = this.getSupportedPlatforms();
     if (!supportedPlatforms.includes(platform)) {
@@ -459,6 +657,64 @@ export class PublisherService {
           maxFileSize: 5 * 1024 * 1024 * 1024,
           requiredFields: ['postType', 'content']
         };
+      case 'x':
+        return {
+          maxTextLength: 280,
+          hashtagLimit: 2,
+          videoMaxDuration: 140,
+          imageFormats: ['jpg', 'jpeg', 'png', 'gif', 'webp'],
+          videoFormats: ['mp4', 'mov'],
+          aspectRatios: ['16:9', '1:1'],
+          maxFileSize: 512 * 1024 * 1024,
+          requiredFields: ['text']
+        };
+      case 'youtube':
+        return {
+          maxTextLength: 5000,
+          hashtagLimit: 15,
+          videoMaxDuration: 60,
+          videoFormats: ['mp4', 'mov', 'webm', 'avi'],
+          aspectRatios: ['9:16'],
+          maxFileSize: 256 * 1024 * 1024 * 1024,
+          requiredFields: ['mediaUrls', 'title']
+        };
+      case 'pinterest':
+        return {
+          maxTextLength: 500,
+          hashtagLimit: 20,
+          videoMaxDuration: 900,
+          imageFormats: ['jpg', 'jpeg', 'png', 'webp'],
+          videoFormats: ['mp4', 'mov', 'm4v'],
+          aspectRatios: ['2:3', '1:1', '9:16'],
+          maxFileSize: 2 * 1024 * 1024 * 1024,
+          requiredFields: ['mediaUrls', 'boardId']
+        };
+      case 'threads':
+        return {
+          maxTextLength: 500,
+          videoMaxDuration: 300,
+          imageFormats: ['jpg', 'jpeg', 'png'],
+          videoFormats: ['mp4', 'mov'],
+          aspectRatios: ['1:1', '4:5', '9:16', '16:9'],
+          maxFileSize: 1024 * 1024 * 1024,
+          requiredFields: ['text']
+        };
+      case 'bluesky':
+        return {
+          maxTextLength: 300,
+          hashtagLimit: 8,
+          imageFormats: ['jpg', 'jpeg', 'png', 'webp'],
+          aspectRatios: ['1:1', '4:5', '16:9'],
+          maxFileSize: 1000000,
+          requiredFields: ['text']
+        };
+      case 'google_business':
+        return {
+          maxTextLength: 1500,
+          imageFormats: ['jpg', 'jpeg', 'png'],
+          maxFileSize: 5 * 1024 * 1024,
+          requiredFields: ['locationIds', 'postType']
+        };
       default:
         return undefined;
     }
@@ -520,6 +776,45 @@ export class PublisherService {
           content: adaptedText,
           targetAudience: 'connections'
         };
+      case 'x':
+        return {
+          postType: mediaUrls.length > 0 ? 'media' : 'text',
+          thread: splitIntoThread(adaptedText),
+          hashtags: hashtags
+        };
+      case 'youtube':
+        return {
+          title: (adaptedText.split('\n')[0] || baseContent.title || '').substring(0, 100),
+          description: adaptedText,
+          tags: hashtags.map(tag => tag.replace(/^#/, '')),
+          duration: this.estimateVideoDuration(mediaUrls),
+          aspectRatio: '9:16',
+          privacyStatus: 'public'
+        };
+      case 'pinterest':
+        return {
+          postType: this.determinePinType(mediaUrls),
+          title: (adaptedText.split('\n')[0] || baseContent.title || '').substring(0, 100),
+          description: adaptedText,
+          link: adaptedText.match(/https?:\/\/\S+/)?.[0]
+        };
+      case 'threads':
+        return {
+          postType: mediaUrls.length > 1 ? 'carousel' : this.determinePostType(adaptedText, mediaUrls),
+          topicTag: hashtags[0]?.replace(/^#/, ''),
+          replyControl: 'everyone'
+        };
+      case 'bluesky':
+        return {
+          postType: mediaUrls.length > 0 ? 'media' : 'text',
+          altTexts: mediaUrls.map(() => '')
+        };
+      case 'google_business':
+        return {
+          postType: 'whats_new',
+          locationIds: [],
+          callToAction: null
+        };
       default:
         return {};
     }
@@ -641,6 +936,33 @@ export class PublisherService {
           });
         }
         break;
+      case 'youtube':
+        if (!content.mediaUrls || content.mediaUrls.length === 0) {
+          errors.push({
+            field: 'mediaUrls',
+            message: 'YouTube Shorts require a video file',
+            code: 'MISSING_VIDEO'
+          });
+        }
+        break;
+      case 'pinterest':
+        if (!content.mediaUrls || content.mediaUrls.length === 0) {
+          errors.push({
+            field: 'mediaUrls',
+            message: 'Pinterest pins require an image or video',
+            code: 'MISSING_MEDIA'
+          });
+        }
+        break;
+      case 'google_business':
+        if (!content.platformSpecific?.postType) {
+          errors.push({
+            field: 'postType',
+            message: 'Google Business Profile posts require a post type',
+            code: 'MISSING_POST_TYPE'
+          });
+        }
+        break;
     }
 
     return {
@@ -649,22 +971,43 @@ export class PublisherService {
     };
   }
 
+  /**
+   * @param previousAttemptAt When an earlier publish job for the same key
+   * started; its posts are looked up before publishing again
+   */
   private async publishWithRetry(
     adapter: PlatformAdapter,
     content: AdaptedContent,
     tenantContext: TenantContext,
-    retryPolicy: RetryPolicy
+    retryPolicy: RetryPolicy,
+    previousAttemptAt?: Date
   ): Promise<PublishResult> {
     let lastError: string = '';
+    let lastRetryable = false;
+    const startedAt = new Date();
     
     for (let attempt = 0; attempt <= retryPolicy.maxRetries; attempt++) {
       try {
+        // A timed out attempt may still have been accepted by the platform
+        if (attempt > 0 || previousAttemptAt) {
+          const publishedPost = await this.findPublishedPost(adapter, content, previousAttemptAt || startedAt);
+          if (publishedPost) {
+            return publishedPost;
+          }
+        }
+
         const result = await adapter.publish(content, tenantContext);
         if (result.success) {
           return result;
         }
         
+        // Waiting out a rate limit here would hold the worker; the caller defers instead
+        if (result.retryAt) {
+          return result;
+        }
+
         lastError = result.error || 'Unknown error';
+        lastRetryable = result.retryable === true;
         
         // Check if error is retryable
         if (!result.retryable || attempt === retryPolicy.maxRetries) {
@@ -682,6 +1025,7 @@ export class PublisherService {
         const isRetryable = retryPolicy.retryableErrors.some(retryableError =>
           lastError.toLowerCase().includes(retryableError.toLowerCase())
         );
+        lastRetryable = isRetryable;
         
         if (!isRetryable || attempt === retryPolicy.maxRetries) {
           break;
@@ -693,10 +1037,200 @@ export class PublisherService {
       }
     }
 
+    // Keep the last retryable flag so callers with their own retry
+    // scheduling (e.g. the publishing queue) can try again later
     return {
       success: false,
       error: lastError,
-      retryable: false
+      retryable: lastRetryable
+    };
+  }
+
+  private async getPublishedPosts(
+    contentId: string,
+    tenantContext: TenantContext,
+    platforms?: Platform[]
+  ): Promise<PublishedPost[]> {
+    const result = await this.db.query(`
+      SELECT id, platform, platform_post_id
+      FROM platform_posts
+      WHERE content_id = ? AND tenant_id = ? AND status = 'published'
+      ORDER BY published_at ASC
+    `, [contentId, tenantContext.tenantId]);
+
+    return result.rows
+      .map((row: any) => ({ id: row.id, platform: row.platform, platformPostId: row.platform_post_id }))
+      .filter((post: PublishedPost) => !platforms || platforms.includes(post.platform));
+  }
+
+  private async runPostAction(
+    post: PublishedPost,
+    capability: keyof PostCapabilities,
+    tenantContext: TenantContext,
+    action: (adapter: PlatformAdapter) => Promise<PublishResult>
+  ): Promise<PublishedPostActionResult> {
+    const target = { platform: post.platform, platformPostId: post.platformPostId };
+
+    if (!this.adapterRegistry.getPostCapabilities(post.platform)[capability]) {
+      return {
+        ...target,
+        status: 'unsupported',
+        error: `${post.platform} does not allow published posts to be ${capability === 'update' ? 'edited' : 'deleted'}`
+      };
+    }
+
+    try {
+      const credentials = await this.getPlatformCredentials(post.platform, tenantContext);
+      if (!credentials) {
+        return { ...target, status: 'failed', error: 'Platform credentials not found' };
+      }
+      if (credentials.status === 'needs_reauth') {
+        return { ...target, status: 'failed', error: 'Platform account must be reconnected' };
+      }
+
+      const adapter = this.adapterRegistry.getAdapter(post.platform, credentials) ||
+        this.adapterRegistry.registerAdapter(post.platform, credentials);
+      const result = await action(adapter);
+
+      return result.success
+        ? { ...target, status: 'success' }
+        : { ...target, status: 'failed', error: result.error || 'Unknown error' };
+    } catch (error) {
+      return { ...target, status: 'failed', error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+
+  /**
+   * Reconcile with the platform: a post matching the content published since
+   * `since` means an earlier attempt succeeded. Lookup failures are logged
+   * and the content is published again.
+   */
+  private async findPublishedPost(
+    adapter: PlatformAdapter,
+    content: AdaptedContent,
+    since: Date
+  ): Promise<PublishResult | null> {
+    if (!adapter.findPublishedPost) {
+      return null;
+    }
+
+    try {
+      const publishedPost = await adapter.findPublishedPost(
+        content,
+        new Date(since.getTime() - RECONCILE_CLOCK_SKEW_MS)
+      );
+      if (!publishedPost) {
+        return null;
+      }
+
+      return {
+        ...publishedPost,
+        metadata: { ...publishedPost.metadata, reconciled: true }
+      };
+    } catch (error) {
+      console.warn(`Could not look up earlier ${adapter.getPlatform()} posts before publishing:`, error);
+      return null;
+    }
+  }
+
+  private getIdempotencyKey(contentId: string, platform: Platform, calendarEventId?: string): string {
+    return `${contentId}:${platform}:${calendarEventId || 'immediate'}`;
+  }
+
+  /**
+   * Take the idempotency key in a single statement, so concurrent publishes
+   * of the same key cannot both go ahead. The key is taken unless it already
+   * succeeded or another worker's pending claim is still fresh; null means
+   * someone else holds it.
+   */
+  private async claimPublishJob(
+    jobId: string,
+    request: PublishRequest,
+    platform: Platform,
+    idempotencyKey: string,
+    tenantContext: TenantContext,
+    now: Date = new Date()
+  ): Promise<PublishJobClaim | null> {
+    const staleBefore = new Date(now.getTime() - PENDING_JOB_TIMEOUT_MS);
+
+    const result = await this.db.query(`
+      INSERT INTO publish_jobs (
+        id, content_id, platform, status, retry_count, scheduled_at, tenant_id,
+        created_at, updated_at, calendar_event_id, idempotency_key
+      ) VALUES (?, ?, ?, 'pending', 0, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT (tenant_id, idempotency_key) DO UPDATE SET
+        status = 'pending',
+        error = NULL,
+        next_retry_at = NULL,
+        retry_count = publish_jobs.retry_count + 1,
+        updated_at = EXCLUDED.updated_at
+      WHERE publish_jobs.status <> 'success'
+        AND (publish_jobs.status <> 'pending' OR publish_jobs.updated_at < ?)
+      RETURNING id, retry_count, created_at
+    `, [
+      jobId,
+      request.contentId,
+      platform,
+      request.scheduledAt?.toISOString() || null,
+      tenantContext.tenantId,
+      now.toISOString(),
+      now.toISOString(),
+      request.calendarEventId || null,
+      idempotencyKey,
+      staleBefore.toISOString()
+    ]);
+
+    const row = result.rows[0];
+    if (!row) {
+      return null;
+    }
+
+    return {
+      jobId: row.id,
+      retryCount: row.retry_count,
+      // Earlier attempts may have reached the platform before failing
+      ...(row.retry_count > 0 && { previousAttemptAt: new Date(row.created_at) })
+    };
+  }
+
+  private async findPublishJob(
+    contentId: string,
+    platform: Platform,
+    idempotencyKey: string,
+    tenantContext: TenantContext
+  ): Promise<PublishJobResult | null> {
+    const result = await this.db.query(`
+      SELECT id, status, result, error, retry_count, calendar_event_id,
+        scheduled_at, published_at, next_retry_at
+      FROM publish_jobs
+      WHERE tenant_id = ? AND idempotency_key = ?
+    `, [tenantContext.tenantId, idempotencyKey]);
+
+    const row = result.rows[0];
+    if (!row) {
+      return null;
+    }
+
+    const storedResult = typeof row.result === 'string' ? JSON.parse(row.result) : row.result;
+
+    return {
+      jobId: row.id,
+      contentId,
+      platform,
+      status: row.status,
+      ...(storedResult && Object.keys(storedResult).length > 0 && {
+        result: {
+          ...storedResult,
+          ...(storedResult.publishedAt && { publishedAt: new Date(storedResult.publishedAt) })
+        }
+      }),
+      ...(row.error && { error: row.error }),
+      retryCount: row.retry_count,
+      ...(row.calendar_event_id && { calendarEventId: row.calendar_event_id }),
+      ...(row.scheduled_at && { scheduledAt: new Date(row.scheduled_at) }),
+      ...(row.published_at && { publishedAt: new Date(row.published_at) }),
+      ...(row.next_retry_at && { nextRetryAt: new Date(row.next_retry_at) }),
+      idempotencyKey
     };
   }
 
@@ -732,12 +1266,34 @@ export class PublisherService {
     };
   }
 
-  private async getPlatformCredentials(
+  /**
+   * Google Business Profile posts without their own locations go to the
+   * tenant's active locations.
+   */
+  private async withBusinessLocations(
+    content: AdaptedContent,
+    tenantContext: TenantContext
+  ): Promise<AdaptedContent> {
+    const locationIds = content.platformSpecific?.locationIds as string[] | undefined;
+    if (locationIds && locationIds.length > 0) {
+      return content;
+    }
+
+    return {
+      ...content,
+      platformSpecific: {
+        ...content.platformSpecific,
+        locationIds: await this.businessLocationService.getActiveLocationNames(tenantContext)
+      }
+    };
+  }
+
+  async getPlatformCredentials(
     platform: Platform,
     tenantContext: TenantContext
   ): Promise<PlatformCredentials | null> {
     const result = await this.db.query(`
-      SELECT credentials
+      SELECT id, credentials, additional_credentials, status
       FROM platform_credentials
       WHERE platform = ? AND tenant_id = ? AND is_active = true
       ORDER BY created_at DESC
@@ -748,7 +1304,34 @@ export class PublisherService {
       return null;
     }
 
-    return JSON.parse(result.rows[0].credentials);
+    // Tokens are decrypted only to construct the platform adapter
+    const storedCredentials = typeof result.rows[0].credentials === 'string'
+      ? JSON.parse(result.rows[0].credentials)
+      : result.rows[0].credentials;
+    const credentials = await this.secretEncryption.decrypt<PlatformCredentials>(storedCredentials);
+
+    // Move tokens encrypted with a rotated data key onto the active one
+    if (SecretEncryptionService.isEncrypted(storedCredentials) &&
+        await this.secretEncryption.needsReEncryption(storedCredentials, tenantContext.tenantId)) {
+      const reEncrypted = await this.secretEncryption.encrypt(credentials, tenantContext.tenantId);
+      await this.db.query(
+        'UPDATE platform_credentials SET credentials = ? WHERE id = ?',
+        [JSON.stringify(reEncrypted), result.rows[0].id]
+      );
+    }
+
+    const additionalCredentials = result.rows[0].additional_credentials;
+    if (additionalCredentials) {
+      credentials.additionalCredentials = {
+        ...credentials.additionalCredentials,
+        ...(typeof additionalCredentials === 'string' ? JSON.parse(additionalCredentials) : additionalCredentials)
+      };
+    }
+    if (result.rows[0].status === 'needs_reauth') {
+      credentials.status = 'needs_reauth';
+    }
+
+    return credentials;
   }
 
   private async storePublishResult(result: PublishJobResult, tenantContext: TenantContext): Promise<void> {
@@ -757,8 +1340,17 @@ export class PublisherService {
     await this.db.query(`
       INSERT INTO publish_jobs (
         id, content_id, platform, status, result, error, retry_count,
-        scheduled_at, published_at, tenant_id, created_at, updated_at
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        scheduled_at, published_at, tenant_id, created_at, updated_at, calendar_event_id, next_retry_at,
+        idempotency_key
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT (tenant_id, idempotency_key) DO UPDATE SET
+        status = EXCLUDED.status,
+        result = EXCLUDED.result,
+        error = EXCLUDED.error,
+        retry_count = EXCLUDED.retry_count,
+        published_at = EXCLUDED.published_at,
+        next_retry_at = EXCLUDED.next_retry_at,
+        updated_at = EXCLUDED.updated_at
     `, [
       result.jobId,
       result.contentId,
@@ -771,7 +1363,38 @@ export class PublisherService {
       result.publishedAt?.toISOString(),
       tenantContext.tenantId,
       now.toISOString(),
-      now.toISOString()
+      now.toISOString(),
+      result.calendarEventId || null,
+      result.nextRetryAt?.toISOString() || null,
+      result.idempotencyKey || null
+    ]);
+  }
+
+  private async storePlatformPost(
+    result: PublishJobResult,
+    platformPostId: string,
+    tenantContext: TenantContext
+  ): Promise<void> {
+    const publishedAt = result.publishedAt || new Date();
+    const firstComment = result.result?.metadata?.firstComment as FirstCommentResult | undefined;
+
+    await this.db.query(`
+      INSERT INTO platform_posts (
+        id, content_id, platform, platform_post_id, status, tenant_id, published_at, last_updated,
+        first_comment_status, first_comment_id, first_comment_error
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `, [
+      uuidv4(),
+      result.contentId,
+      result.platform,
+      platformPostId,
+      'published',
+      tenantContext.tenantId,
+      publishedAt.toISOString(),
+      publishedAt.toISOString(),
+      firstComment?.status || null,
+      firstComment?.commentId || null,
+      firstComment?.error || null
     ]);
   }
 
@@ -815,6 +1438,11 @@ export class PublisherService {
     return 'update';
   }
 
+  private determinePinType(mediaUrls: string[]): string {
+    if (mediaUrls.some(url => /\.(mp4|mov|m4v)(\?|$)/i.test(url))) return 'video';
+    return mediaUrls.length > 1 ? 'idea' : 'image';
+  }
+
   private addProfessionalTone(text: string): string {
     // Simple implementation - in practice, use AI for better results
     if (!text.includes('professional') && !text.includes('business')) {
@@ -0,0 +1,148 @@
+import { Platform } from '../../types/index.js';
+import { RedisManager, redis } from '../../config/redis.js';
+
+export interface RateLimitPolicy {
+  burst: number; // requests that may be made back to back
+  requestsPerHour: number; // sustained rate the bucket refills at
+}
+
+// Conservative publishing budgets per account; the platforms' own limits are
+// shared with every other call the app makes on behalf of the account
+export const DEFAULT_RATE_LIMITS: Record<Platform, RateLimitPolicy> = {
+  instagram: { burst: 5, requestsPerHour: 2 },
+  tiktok: { burst: 5, requestsPerHour: 6 },
+  facebook: { burst: 20, requestsPerHour: 200 },
+  linkedin: { burst: 10, requestsPerHour: 100 },
+  x: { burst: 5, requestsPerHour: 12 },
+  youtube: { burst: 2, requestsPerHour: 6 },
+  pinterest: { burst: 10, requestsPerHour: 100 },
+  threads: { burst: 5, requestsPerHour: 10 },
+  bluesky: { burst: 10, requestsPerHour: 300 },
+  google_business: { burst: 10, requestsPerHour: 60 }
+};
+
+// Metrics reads have their own budgets so collecting metrics for many posts
+// cannot spend the tokens scheduled publishes need
+export const DEFAULT_METRICS_RATE_LIMITS: Record<Platform, RateLimitPolicy> = {
+  instagram: { burst: 20, requestsPerHour: 100 },
+  tiktok: { burst: 20, requestsPerHour: 100 },
+  facebook: { burst: 50, requestsPerHour: 400 },
+  linkedin: { burst: 20, requestsPerHour: 100 },
+  x: { burst: 5, requestsPerHour: 30 },
+  youtube: { burst: 20, requestsPerHour: 200 },
+  pinterest: { burst: 20, requestsPerHour: 200 },
+  threads: { burst: 20, requestsPerHour: 100 },
+  bluesky: { burst: 50, requestsPerHour: 1000 },
+  google_business: { burst: 10, requestsPerHour: 60 }
+};
+
+// Meta's usage headers carry no reset time; its throttling lasts up to an hour
+const DEFAULT_BLOCK_MS = 60 * 60 * 1000;
+
+/**
+ * Token-bucket rate governor shared by every worker through Redis.
+ *
+ * Each platform + account pair has its own bucket. When a platform reports
+ * that the budget is exhausted, the pair is blocked until the reported
+ * reset time regardless of the tokens left in the bucket.
+ */
+export class PlatformRateGovernor {
+  private redis: RedisManager;
+  private policies: Record<Platform, RateLimitPolicy>;
+  private metricsPolicies: Record<Platform, RateLimitPolicy>;
+
+  constructor(
+    redisManager: RedisManager = redis,
+    policies: Partial<Record<Platform, RateLimitPolicy>> = {},
+    metricsPolicies: Partial<Record<Platform, RateLimitPolicy>> = {}
+  ) {
+    this.redis = redisManager;
+    this.policies = { ...DEFAULT_RATE_LIMITS, ...policies };
+    this.metricsPolicies = { ...DEFAULT_METRICS_RATE_LIMITS, ...metricsPolicies };
+  }
+
+  /**
+   * Take a request from the account's budget
+   * @returns null when the call may go ahead, otherwise when to try again
+   */
+  async acquire(platform: Platform, account: string, now: number = Date.now()): Promise<Date | null> {
+    return this.takeToken(platform, account, this.bucketKey(platform, account), this.policies[platform], now);
+  }
+
+  /**
+   * Take a metrics read from the account's read budget. A block reported
+   * by the platform applies to reads as well.
+   * @returns null when the read may go ahead, otherwise when to try again
+   */
+  async acquireMetricsRead(platform: Platform, account: string, now: number = Date.now()): Promise<Date | null> {
+    return this.takeToken(platform, account, this.metricsBucketKey(platform, account), this.metricsPolicies[platform], now);
+  }
+
+  private async takeToken(
+    platform: Platform,
+    account: string,
+    bucketKey: string,
+    policy: RateLimitPolicy,
+    now: number
+  ): Promise<Date | null> {
+    try {
+      const blockedUntil = await this.redis.get(this.blockKey(platform, account));
+      if (blockedUntil && parseInt(blockedUntil, 10) > now) {
+        return new Date(parseInt(blockedUntil, 10));
+      }
+
+      const waitMs = await this.redis.takeToken(
+        bucketKey,
+        policy.burst,
+        policy.requestsPerHour / (60 * 60 * 1000),
+        now
+      );
+
+      return waitMs > 0 ? new Date(now + waitMs) : null;
+    } catch (error) {
+      // Publishing should not stop because Redis is unavailable
+      console.warn(`Rate governor unavailable for ${platform}, allowing request:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Block the account until the platform's rate limit resets once it reports
+   * that no requests are left
+   */
+  async recordRateLimit(
+    platform: Platform,
+    account: string,
+    rateLimitRemaining?: number,
+    rateLimitReset?: Date,
+    now: number = Date.now()
+  ): Promise<void> {
+    if (rateLimitRemaining === undefined || rateLimitRemaining > 0) {
+      return;
+    }
+
+    const blockedUntil = rateLimitReset && rateLimitReset.getTime() > now
+      ? rateLimitReset.getTime()
+      : now + DEFAULT_BLOCK_MS;
+
+    await this.redis.set(
+      this.blockKey(platform, account),
+      blockedUntil.toString(),
+      Math.ceil((blockedUntil - now) / 1000)
+    );
+  }
+
+  private bucketKey(platform: Platform, account: string): string {
+    return `ratelimit:${platform}:${account}`;
+  }
+
+  private metricsBucketKey(platform: Platform, account: string): string {
+    return `ratelimit:${platform}:${account}:metrics`;
+  }
+
+  private blockKey(platform: Platform, account: string): string {
+    return `ratelimit:${platform}:${account}:blocked`;
+  }
+}
+
+export const platformRateGovernor = new PlatformRateGovernor(redis);
@@ -0,0 +1,357 @@
+import { Platform } from '../../types/index.js';
+import { DatabasePool, DatabaseClient } from '../../interfaces/database.js';
+import { PublisherService, PublishJobResult, RetryPolicy } from './publisher-service.js';
+import { Job, JobQueue, JobState } from '../queue/job-queue.js';
+import { loadTenantContext } from '../tenant-context.js';
+
+export interface ScheduledPublishOptions {
+  batchSize: number;
+  staleClaimMinutes: number;
+  maxAttempts: number;
+  retryBackoffMs: number;
+}
+
+export interface ScheduledPublishSummary {
+  claimed: number;
+  published: number;
+  failed: number;
+  queued: number;
+  inProgress: number; // left to the worker already publishing them
+  recovered: number;
+}
+
+type EventOutcome = 'published' | 'failed' | 'in_progress';
+
+export interface ClaimedCalendarEvent {
+  id: string;
+  content_id: string;
+  platform: Platform;
+  scheduled_at: string | Date;
+  tenant_id: string;
+  created_by: string;
+  retry_count: number;
+}
+
+// Queue states in which a job will still run and settle its calendar event
+const PENDING_JOB_STATES: JobState[] = ['waiting', 'delayed', 'active'];
+
+/**
+ * Publishes calendar events whose scheduled time has arrived.
+ *
+ * Due events are claimed inside a transaction with FOR UPDATE SKIP LOCKED and
+ * flipped to 'publishing', so several scheduler instances can run side by side
+ * without posting the same event twice.
+ *
+ * When a job queue is provided, claimed events are handed to the 'publishing'
+ * queue instead of being published inline, and retries are driven by the queue.
+ */
+export class ScheduledPublishExecutor {
+  private db: DatabasePool;
+  private publisherService: PublisherService;
+  private jobQueue: JobQueue | undefined;
+  private options: ScheduledPublishOptions = {
+    batchSize: 25,
+    staleClaimMinutes: 15,
+    maxAttempts: 3,
+    retryBackoffMs: 60000
+  };
+
+  // The queue owns retry scheduling, so each job makes a single publish attempt
+  private queuedRetryPolicy: RetryPolicy = {
+    maxRetries: 0,
+    retryDelayMs: 0,
+    backoffMultiplier: 1,
+    retryableErrors: ['timeout', 'network', 'rate limit', 'server error']
+  };
+
+  constructor(
+    db: DatabasePool,
+    publisherService: PublisherService,
+    options: Partial<ScheduledPublishOptions> = {},
+    jobQueue?: JobQueue
+  ) {
+    this.db = db;
+    this.publisherService = publisherService;
+    this.options = { ...this.options, ...options };
+    this.jobQueue = jobQueue;
+  }
+
+  async publishDueEvents(now: Date = new Date()): Promise<ScheduledPublishSummary> {
+    const summary: ScheduledPublishSummary = {
+      claimed: 0,
+      published: 0,
+      failed: 0,
+      queued: 0,
+      inProgress: 0,
+      recovered: await this.recoverStaleClaims(now)
+    };
+
+    const events = await this.claimDueEvents(now);
+    summary.claimed = events.length;
+
+    for (const event of events) {
+      if (this.jobQueue) {
+        const job = await this.jobQueue.add('publishing', 'calendar-event', event, {
+          maxAttempts: this.options.maxAttempts,
+          backoffMs: this.options.retryBackoffMs
+        });
+        await this.db.query(
+          'UPDATE calendar_events SET queue_job_id = $1 WHERE id = $2',
+          [job.id, event.id]
+        );
+        summary.queued++;
+        continue;
+      }
+
+      const outcome = await this.executeEvent(event);
+      if (outcome === 'published') {
+        summary.published++;
+      } else if (outcome === 'in_progress') {
+        summary.inProgress++;
+      } else {
+        summary.failed++;
+      }
+    }
+
+    return summary;
+  }
+
+  async executeEvent(event: ClaimedCalendarEvent): Promise<EventOutcome> {
+    try {
+      const tenantContext = await loadTenantContext(this.db, event.tenant_id, event.created_by);
+      if (!tenantContext) {
+        await this.markFailed(event.id, 'Tenant or event owner not found');
+        return 'failed';
+      }
+
+      const [jobResult] = await this.publisherService.publishContent({
+        contentId: event.content_id,
+        platforms: [event.platform],
+        scheduledAt: new Date(event.scheduled_at),
+        calendarEventId: event.id
+      }, tenantContext);
+
+      if (jobResult?.status === 'success') {
+        await this.markPublished(event.id, jobResult);
+        return 'published';
+      }
+
+      // The worker holding the publish job settles the event
+      if (jobResult?.status === 'in_progress') {
+        return 'in_progress';
+      }
+
+      await this.markFailed(event.id, jobResult?.error || 'Publishing returned no result');
+      return 'failed';
+    } catch (error) {
+      console.error(`Error publishing calendar event ${event.id}:`, error);
+      await this.markFailed(event.id, error instanceof Error ? error.message : 'Unknown error');
+      return 'failed';
+    }
+  }
+
+  /**
+   * Handler for 'publishing' queue jobs. Retryable platform failures are thrown
+   * back to the queue while attempts remain; rate-limited publishes are returned
+   * with status 'retrying' so the job can be deferred. Any other outcome is final
+   * and is written to the calendar event.
+   */
+  async processPublishingJob(job: Job<ClaimedCalendarEvent>): Promise<PublishJobResult | null> {
+    const event = job.data;
+
+    // Skip events that were recovered or rescheduled while the job was queued.
+    // Touching updated_at marks the claim as being worked on.
+    const current = await this.db.query(`
+      UPDATE calendar_events
+      SET updated_at = CURRENT_TIMESTAMP
+      WHERE id = $1 AND status = 'publishing'
+      RETURNING id
+    `, [event.id]);
+    if (current.rows.length === 0) {
+      return null;
+    }
+
+    const tenantContext = await loadTenantContext(this.db, event.tenant_id, event.created_by);
+    if (!tenantContext) {
+      await this.markFailed(event.id, 'Tenant or event owner not found');
+      return null;
+    }
+
+    const [jobResult] = await this.publisherService.publishContent({
+      contentId: event.content_id,
+      platforms: [event.platform],
+      scheduledAt: new Date(event.scheduled_at),
+      calendarEventId: event.id,
+      retryPolicy: this.queuedRetryPolicy
+    }, tenantContext);
+
+    if (jobResult?.status === 'success') {
+      await this.markPublished(event.id, jobResult);
+      return jobResult;
+    }
+
+    if (jobResult?.status === 'in_progress') {
+      return jobResult;
+    }
+
+    if (jobResult?.status === 'retrying' && jobResult.nextRetryAt) {
+      await this.recordDeferral(event.id, jobResult.error || 'Rate limit reached', jobResult.nextRetryAt);
+      return jobResult;
+    }
+
+    const reason = jobResult?.error || 'Publishing returned no result';
+    if (jobResult?.result?.retryable && job.attempts < job.maxAttempts) {
+      await this.recordRetry(event.id, reason);
+      throw new Error(reason);
+    }
+
+    await this.markFailed(event.id, reason);
+    return jobResult || null;
+  }
+
+  private async claimDueEvents(now: Date): Promise<ClaimedCalendarEvent[]> {
+    const client: DatabaseClient = this.db.connect ? await this.db.connect() : this.db;
+
+    try {
+      await client.query('BEGIN');
+
+      const result = await client.query(`
+        UPDATE calendar_events
+        SET status = 'publishing',
+            updated_at = CURRENT_TIMESTAMP
+        WHERE id IN (
+          SELECT id FROM calendar_events
+          WHERE status = 'scheduled'
+            AND scheduled_at <= $1
+          ORDER BY scheduled_at ASC
+          LIMIT $2
+          FOR UPDATE SKIP LOCKED
+        )
+        RETURNING id, content_id, platform, scheduled_at, tenant_id, created_by, retry_count
+      `, [now, this.options.batchSize]);
+
+      await client.query('COMMIT');
+      return result.rows;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release?.();
+    }
+  }
+
+  /**
+   * Events left in 'publishing' by a crashed worker are failed rather than
+   * re-queued: the platform may already have accepted the post, so the
+   * rescheduling rules decide whether to try again.
+   */
+  private async recoverStaleClaims(now: Date): Promise<number> {
+    const staleBefore = new Date(now.getTime() - this.options.staleClaimMinutes * 60 * 1000);
+
+    if (this.jobQueue) {
+      return this.recoverOrphanedClaims(this.jobQueue, staleBefore);
+    }
+
+    const result = await this.db.query(`
+      UPDATE calendar_events
+      SET status = 'failed',
+          failure_reason = 'Publishing interrupted before completion',
+          retry_count = retry_count + 1,
+          updated_at = CURRENT_TIMESTAMP
+      WHERE status = 'publishing'
+        AND updated_at < $1
+    `, [staleBefore]);
+
+    return result.rowCount || 0;
+  }
+
+  /**
+   * With a queue, an old claim may just be waiting behind a backlog or in a
+   * long upload, so only events whose job is dead or gone are failed
+   */
+  private async recoverOrphanedClaims(jobQueue: JobQueue, staleBefore: Date): Promise<number> {
+    const stale = await this.db.query(`
+      SELECT id, queue_job_id FROM calendar_events
+      WHERE status = 'publishing'
+        AND updated_at < $1
+    `, [staleBefore]);
+
+    let recovered = 0;
+    for (const row of stale.rows) {
+      const job = row.queue_job_id ? await jobQueue.getJob('publishing', row.queue_job_id) : null;
+      if (job && PENDING_JOB_STATES.includes(job.state)) {
+        continue;
+      }
+
+      const result = await this.db.query(`
+        UPDATE calendar_events
+        SET status = 'failed',
+            failure_reason = 'Publishing interrupted before completion',
+            retry_count = retry_count + 1,
+            updated_at = CURRENT_TIMESTAMP
+        WHERE id = $1
+          AND status = 'publishing'
+      `, [row.id]);
+      recovered += result.rowCount || 0;
+    }
+
+    return recovered;
+  }
+
+  private async markPublished(eventId: string, jobResult: PublishJobResult): Promise<void> {
+    const result = await this.db.query(`
+      UPDATE calendar_events
+      SET status = 'published',
+          published_at = $1,
+          failure_reason = NULL,
+          updated_at = CURRENT_TIMESTAMP
+      WHERE id = $2 AND status = 'publishing'
+    `, [jobResult.publishedAt || new Date(), eventId]);
+
+    this.checkSettled(eventId, result.rowCount);
+  }
+
+  private async recordRetry(eventId: string, reason: string): Promise<void> {
+    // Touching updated_at keeps the claim from being treated as stale
+    await this.db.query(`
+      UPDATE calendar_events
+      SET failure_reason = $1,
+          updated_at = CURRENT_TIMESTAMP
+      WHERE id = $2
+    `, [reason, eventId]);
+  }
+
+  private async recordDeferral(eventId: string, reason: string, retryAt: Date): Promise<void> {
+    // Moving updated_at to the retry time keeps the claim from being treated
+    // as stale while the job waits for the rate limit to reset
+    await this.db.query(`
+      UPDATE calendar_events
+      SET failure_reason = $1,
+          updated_at = $2
+      WHERE id = $3
+    `, [reason, retryAt, eventId]);
+  }
+
+  private async markFailed(eventId: string, reason: string): Promise<void> {
+    const result = await this.db.query(`
+      UPDATE calendar_events
+      SET status = 'failed',
+          failure_reason = $1,
+          retry_count = retry_count + 1,
+          updated_at = CURRENT_TIMESTAMP
+      WHERE id = $2 AND status = 'publishing'
+    `, [reason, eventId]);
+
+    this.checkSettled(eventId, result.rowCount);
+  }
+
+  /**
+   * Only the claim still in 'publishing' may be settled; a late worker must
+   * not overwrite a result that recovery or another worker already wrote
+   */
+  private checkSettled(eventId: string, rowCount: number | undefined): void {
+    if (!rowCount) {
+      console.warn(`Calendar event ${eventId} was already settled, keeping its status`);
+    }
+  }
+}
@@ -0,0 +1,236 @@
+import { randomBytes } from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { AdaptedContent, Platform, TenantContext } from '../../types/index.js';
+import { DatabasePool } from '../../interfaces/database.js';
+
+export interface LinkTaggingContext {
+  contentId: string;
+  platform: Platform;
+  briefingId?: string; // the briefing names the utm_campaign
+}
+
+// Fields adapters publish as post text, and fields that hold a single link
+const TEXT_FIELDS = ['caption', 'content', 'description', 'summary', 'firstComment'];
+const LINK_FIELDS = ['link', 'linkAttachment'];
+
+const URL_PATTERN = /https?:\/\/[^\s<>"]+/g;
+const TRAILING_PUNCTUATION = /[.,;:!?)\]}'"]+$/;
+const CODE_ALPHABET = 'abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789';
+const CODE_LENGTH = 7;
+const MAX_CODE_ATTEMPTS = 5;
+
+// Link previews fetched by the platforms themselves are not clicks
+const CRAWLER_USER_AGENTS = /facebookexternalhit|facebot|twitterbot|linkedinbot|pinterestbot|slackbot|whatsapp|telegrambot|discordbot|googlebot|bingbot|bot\b|crawler|spider/i;
+
+/**
+ * First-party short links for URLs in published posts. Links are tagged
+ * with UTM parameters for the platform and campaign and served from the
+ * tenant's custom domain, so clicks are counted per content and platform.
+ */
+export class ShortLinkService {
+  private db: DatabasePool;
+
+  constructor(db: DatabasePool) {
+    this.db = db;
+  }
+
+  /**
+   * Replace the URLs in the post text and link fields with tracked short
+   * links. The same URL on the same platform always maps to the same
+   * short link, so retried publishes post identical text.
+   */
+  async tagLinks(
+    content: AdaptedContent,
+    context: LinkTaggingContext,
+    tenantContext: TenantContext
+  ): Promise<AdaptedContent> {
+    const baseUrl = this.getBaseUrl(tenantContext);
+    const shortUrls = new Map<string, string>();
+
+    const platformSpecific = content.platformSpecific || {};
+    const urls = new Set([
+      ...this.findUrls(content.text),
+      ...TEXT_FIELDS.flatMap(field => this.findUrls(platformSpecific[field])),
+      ...(Array.isArray(platformSpecific.thread) ? platformSpecific.thread.flatMap(post => this.findUrls(post)) : []),
+      ...LINK_FIELDS.map(field => platformSpecific[field]).filter(value => typeof value === 'string' && /^https?:\/\//.test(value))
+    ]);
+
+    const campaign = urls.size > 0 ? await this.getCampaign(context.briefingId, tenantContext) : undefined;
+    for (const url of urls) {
+      // Text that only looks like a URL (e.g. "https://[draft") stays as written
+      if (!url.startsWith(`${baseUrl}/l/`) && this.isValidUrl(url)) {
+        shortUrls.set(url, await this.createShortLink(url, baseUrl, context, campaign, tenantContext));
+      }
+    }
+
+    if (shortUrls.size === 0) {
+      return content;
+    }
+
+    const replace = (value: unknown) => typeof value === 'string'
+      ? value.replace(URL_PATTERN, match => {
+        const url = match.replace(TRAILING_PUNCTUATION, '');
+        return (shortUrls.get(url) || url) + match.slice(url.length);
+      })
+      : value;
+
+    const tagged: AdaptedContent = {
+      ...content,
+      ...(content.text !== undefined && { text: replace(content.text) as string })
+    };
+    if (content.platformSpecific) {
+      tagged.platformSpecific = { ...content.platformSpecific };
+      for (const field of [...TEXT_FIELDS, ...LINK_FIELDS]) {
+        if (field in tagged.platformSpecific) {
+          tagged.platformSpecific[field] = replace(tagged.platformSpecific[field]);
+        }
+      }
+      if (Array.isArray(tagged.platformSpecific.thread)) {
+        tagged.platformSpecific.thread = tagged.platformSpecific.thread.map(replace);
+      }
+    }
+
+    return tagged;
+  }
+
+  /**
+   * Add utm_source, utm_medium, utm_campaign and utm_content to a URL,
+   * keeping any UTM parameters the author already set
+   */
+  addUtmParameters(url: string, context: LinkTaggingContext, campaign?: string): string {
+    const tagged = new URL(url);
+    const parameters: Record<string, string | undefined> = {
+      utm_source: context.platform,
+      utm_medium: 'social',
+      utm_campaign: campaign ? this.slugify(campaign) : undefined,
+      utm_content: context.contentId
+    };
+
+    for (const [name, value] of Object.entries(parameters)) {
+      if (value && !tagged.searchParams.has(name)) {
+        tagged.searchParams.set(name, value);
+      }
+    }
+
+    return tagged.toString();
+  }
+
+  /**
+   * Look up where a short link goes, counting the visit as a click unless
+   * it comes from a link preview crawler
+   * @returns the target URL, or null for an unknown code
+   */
+  async resolve(code: string, userAgent: string = ''): Promise<string | null> {
+    const result = CRAWLER_USER_AGENTS.test(userAgent)
+      ? await this.db.query('SELECT target_url FROM short_links WHERE code = $1', [code])
+      : await this.db.query(`
+        UPDATE short_links
+        SET click_count = click_count + 1, last_clicked_at = CURRENT_TIMESTAMP
+        WHERE code = $1
+        RETURNING target_url
+      `, [code]);
+
+    return result.rows[0]?.target_url || null;
+  }
+
+  async getClickCount(contentId: string, platform: Platform): Promise<number> {
+    const result = await this.db.query(`
+      SELECT COALESCE(SUM(click_count), 0) AS clicks
+      FROM short_links
+      WHERE content_id = $1 AND platform = $2
+    `, [contentId, platform]);
+
+    return Number(result.rows[0]?.clicks || 0);
+  }
+
+  private async createShortLink(
+    url: string,
+    baseUrl: string,
+    context: LinkTaggingContext,
+    campaign: string | undefined,
+    tenantContext: TenantContext
+  ): Promise<string> {
+    const targetUrl = this.addUtmParameters(url, context, campaign);
+
+    for (let attempt = 1; ; attempt++) {
+      const code = this.generateCode();
+      try {
+        // An existing link for the same target keeps its code
+        const result = await this.db.query(`
+          INSERT INTO short_links (id, tenant_id, content_id, platform, code, target_url, created_at)
+          VALUES ($1, $2, $3, $4, $5, $6, CURRENT_TIMESTAMP)
+          ON CONFLICT (tenant_id, target_url) DO UPDATE SET target_url = EXCLUDED.target_url
+          RETURNING code
+        `, [
+          uuidv4(),
+          tenantContext.tenantId,
+          context.contentId,
+          context.platform,
+          code,
+          targetUrl
+        ]);
+
+        return `${baseUrl}/l/${result.rows[0]?.code || code}`;
+      } catch (error) {
+        // The random code is already taken by another link, draw a new one
+        const message = error instanceof Error ? error.message : String(error);
+        if (attempt >= MAX_CODE_ATTEMPTS || !message.includes('short_links_code_key')) {
+          throw error;
+        }
+      }
+    }
+  }
+
+  // Briefings can name their campaign; otherwise the briefing title is used
+  private async getCampaign(briefingId: string | undefined, tenantContext: TenantContext): Promise<string | undefined> {
+    if (!briefingId) {
+      return undefined;
+    }
+
+    const result = await this.db.query(
+      'SELECT title, fields FROM briefings WHERE id = $1 AND tenant_id = $2',
+      [briefingId, tenantContext.tenantId]
+    );
+    const briefing = result.rows[0];
+    if (!briefing) {
+      return undefined;
+    }
+
+    const fields = typeof briefing.fields === 'string' ? JSON.parse(briefing.fields) : briefing.fields || {};
+    return fields.campaign || briefing.title;
+  }
+
+  private getBaseUrl(tenantContext: TenantContext): string {
+    const customDomain = tenantContext.tenant?.brandConfig?.customDomain;
+    return customDomain ? `https://${customDomain}` : process.env.APP_URL || 'http://localhost:3000';
+  }
+
+  private isValidUrl(url: string): boolean {
+    try {
+      new URL(url);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private findUrls(value: unknown): string[] {
+    if (typeof value !== 'string') {
+      return [];
+    }
+    return (value.match(URL_PATTERN) || []).map(url => url.replace(TRAILING_PUNCTUATION, ''));
+  }
+
+  private generateCode(): string {
+    return Array.from(randomBytes(CODE_LENGTH), byte => CODE_ALPHABET[byte % CODE_ALPHABET.length]).join('');
+  }
+
+  private slugify(value: string): string {
+    return value
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-|-$/g, '');
+  }
+}
@@ -0,0 +1,459 @@
+import {
+  AdaptedContent,
+  ValidationResult,
+  ValidationError
+} from '../../types/index.js';
+import {
+  PlatformAdapter,
+  PlatformCredentials,
+  PublishResult,
+  ContentRequirements,
+  PlatformHealthCheck,
+  PostMetrics
+} from './platform-adapter.js';
+
+export interface ThreadsAdapterOptions {
+  containerPollIntervalMs: number;
+  maxContainerPollAttempts: number;
+}
+
+type ThreadsMediaType = 'TEXT' | 'IMAGE' | 'VIDEO' | 'CAROUSEL';
+
+interface ThreadsContainerRequest {
+  media_type: ThreadsMediaType;
+  text?: string;
+  image_url?: string;
+  video_url?: string;
+  children?: string;
+  is_carousel_item?: boolean;
+  link_attachment?: string;
+  reply_control?: string;
+  topic_tag?: string;
+}
+
+interface ThreadsContainerStatus {
+  id: string;
+  status: 'IN_PROGRESS' | 'FINISHED' | 'PUBLISHED' | 'ERROR' | 'EXPIRED';
+  error_message?: string;
+}
+
+const CAROUSEL_MIN_ITEMS = 2;
+const CAROUSEL_MAX_ITEMS = 20;
+const REPLY_CONTROLS = ['everyone', 'accounts_you_follow', 'mentioned_only'];
+
+export class ThreadsAdapter extends PlatformAdapter {
+  private readonly baseUrl: string;
+  private options: ThreadsAdapterOptions = {
+    containerPollIntervalMs: 5000,
+    maxContainerPollAttempts: 30
+  };
+
+  constructor(credentials: PlatformCredentials, options: Partial<ThreadsAdapterOptions> = {}) {
+    super('threads', credentials);
+    this.baseUrl = credentials.baseUrl || 'https://graph.threads.net/v1.0';
+    this.options = { ...this.options, ...options };
+  }
+
+  async authenticate(): Promise<boolean> {
+    try {
+      const response = await fetch(`${this.baseUrl}/me?fields=id,username&access_token=${this.credentials.accessToken}`);
+      const data = await response.json() as { id?: string };
+
+      return response.ok && !!data.id;
+    } catch (error) {
+      console.error('Threads authentication failed:', error);
+      return false;
+    }
+  }
+
+  async publish(content: AdaptedContent): Promise<PublishResult> {
+    const rateLimited = await this.checkRateLimit();
+    if (rateLimited) {
+      return rateLimited;
+    }
+
+    try {
+      // Validate content before publishing
+      const validation = await this.validateContent(content);
+      if (!validation.isValid) {
+        return {
+          success: false,
+          error: `Content validation failed: ${validation.errors.map(e => e.message).join(', ')}`,
+          retryable: false
+        };
+      }
+
+      const userId = await this.getUserId();
+      const containerId = await this.createPostContainer(userId, content);
+      const postId = await this.publishContainer(userId, containerId);
+
+      return {
+        success: true,
+        platformPostId: postId,
+        publishedAt: new Date(),
+        metadata: {
+          postType: this.getMediaType(content.mediaUrls || []).toLowerCase(),
+          creationId: containerId
+        }
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      const isRetryable = this.isRetryableError(error);
+
+      return {
+        success: false,
+        error: errorMessage,
+        retryable: isRetryable
+      };
+    }
+  }
+
+  async validateContent(content: AdaptedContent): Promise<ValidationResult> {
+    const errors: ValidationError[] = [];
+    const requirements = this.getRequirements();
+    const mediaUrls = content.mediaUrls || [];
+    const text = content.text || '';
+
+    if (!text.trim() && mediaUrls.length === 0) {
+      errors.push({
+        field: 'text',
+        message: 'Threads posts require text or media',
+        code: 'EMPTY_POST'
+      });
+    }
+
+    // Threads counts characters, emoji included, as single code points
+    if (requirements.maxTextLength && Array.from(text).length > requirements.maxTextLength) {
+      errors.push({
+        field: 'text',
+        message: `Text exceeds maximum length of ${requirements.maxTextLength} characters`,
+        code: 'TEXT_TOO_LONG'
+      });
+    }
+
+    if (mediaUrls.length > CAROUSEL_MAX_ITEMS) {
+      errors.push({
+        field: 'mediaUrls',
+        message: `Carousels support between ${CAROUSEL_MIN_ITEMS} and ${CAROUSEL_MAX_ITEMS} items`,
+        code: 'TOO_MANY_MEDIA'
+      });
+    }
+
+    const duration = content.platformSpecific?.duration as number;
+    if (duration && requirements.videoMaxDuration && duration > requirements.videoMaxDuration) {
+      errors.push({
+        field: 'duration',
+        message: `Video duration exceeds maximum of ${requirements.videoMaxDuration} seconds`,
+        code: 'VIDEO_TOO_LONG'
+      });
+    }
+
+    const replyControl = content.platformSpecific?.replyControl as string;
+    if (replyControl && !REPLY_CONTROLS.includes(replyControl)) {
+      errors.push({
+        field: 'replyControl',
+        message: `Invalid reply control. Must be one of: ${REPLY_CONTROLS.join(', ')}`,
+        code: 'INVALID_REPLY_CONTROL'
+      });
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors
+    };
+  }
+
+  getRequirements(): ContentRequirements {
+    return {
+      maxTextLength: 500,
+      videoMaxDuration: 300,
+      imageFormats: ['jpg', 'jpeg', 'png'],
+      videoFormats: ['mp4', 'mov'],
+      aspectRatios: ['1:1', '4:5', '9:16', '16:9'],
+      maxFileSize: 1024 * 1024 * 1024, // 1GB for videos
+      requiredFields: ['text']
+    };
+  }
+
+  async checkHealth(): Promise<PlatformHealthCheck> {
+    const startTime = Date.now();
+
+    try {
+      const response = await fetch(`${this.baseUrl}/me?fields=id&access_token=${this.credentials.accessToken}`);
+      const responseTime = Date.now() - startTime;
+
+      if (response.ok) {
+        return {
+          isHealthy: true,
+          responseTime,
+          timestamp: new Date()
+        };
+      } else {
+        const errorData = await response.json() as { error?: { message?: string } };
+        return {
+          isHealthy: false,
+          responseTime,
+          timestamp: new Date(),
+          error: errorData.error?.message || 'Health check failed'
+        };
+      }
+    } catch (error) {
+      return {
+        isHealthy: false,
+        responseTime: Date.now() - startTime,
+        timestamp: new Date(),
+        error: error instanceof Error ? error.message : 'Health check failed'
+      };
+    }
+  }
+
+  async refreshCredentials(): Promise<PlatformCredentials> {
+    try {
+      // Long-lived Threads tokens are refreshed with themselves rather than a refresh token
+      const response = await fetch(
+        `https://graph.threads.net/refresh_access_token?grant_type=th_refresh_token&access_token=${this.credentials.accessToken}`
+      );
+
+      if (!response.ok) {
+        throw await this.refreshRejectedError(response);
+      }
+
+      const data = await response.json() as { access_token: string; expires_in?: number };
+
+      const newCredentials: PlatformCredentials = {
+        ...this.credentials,
+        accessToken: data.access_token,
+        ...this.tokenExpiry(data.expires_in)
+      };
+
+      this.updateCredentials(newCredentials);
+      return newCredentials;
+    } catch (error) {
+      throw new Error(`Failed to refresh Threads credentials: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // Threads posts can be deleted but not edited
+  override async deletePost(platformPostId: string): Promise<PublishResult> {
+    return this.managePost(platformPostId, async () => {
+      const response = await fetch(`${this.baseUrl}/${platformPostId}?access_token=${this.credentials.accessToken}`, {
+        method: 'DELETE'
+      });
+
+      if (!response.ok) {
+        throw await this.toError(response, 'Failed to delete Threads post');
+      }
+    }, error => this.isRetryableError(error));
+  }
+
+  override async findPublishedPost(content: AdaptedContent, since: Date): Promise<PublishResult | null> {
+    const userId = await this.getUserId();
+    const response = await fetch(
+      `${this.baseUrl}/${userId}/threads?fields=id,text,media_type,timestamp&since=${Math.floor(since.getTime() / 1000)}&access_token=${this.credentials.accessToken}`
+    );
+
+    if (!response.ok) {
+      throw await this.toError(response, 'Failed to list Threads posts');
+    }
+
+    const data = await response.json() as { data?: { id: string; text?: string; media_type?: string; timestamp: string }[] };
+    const post = (data.data || []).find(candidate => this.isSameText(candidate.text, content.text));
+
+    return post ? {
+      success: true,
+      platformPostId: post.id,
+      publishedAt: new Date(post.timestamp),
+      metadata: {
+        postType: this.getMediaType(content.mediaUrls || []).toLowerCase()
+      }
+    } : null;
+  }
+
+  // Reposts, quotes and shares all count as shares
+  override async fetchMetrics(platformPostId: string): Promise<PostMetrics> {
+    await this.acquireMetricsRateLimit();
+
+    const response = await fetch(
+      `${this.baseUrl}/${platformPostId}/insights?metric=views,likes,replies,reposts,quotes,shares&access_token=${this.credentials.accessToken}`
+    );
+
+    if (!response.ok) {
+      throw await this.toError(response, 'Failed to fetch Threads insights');
+    }
+
+    const data = await response.json() as { data?: { name: string; values?: { value: number }[] }[] };
+    const insights = Object.fromEntries((data.data || []).map(metric => [metric.name, metric.values?.[0]?.value || 0]));
+
+    return {
+      views: insights.views || 0,
+      likes: insights.likes || 0,
+      comments: insights.replies || 0,
+      shares: (insights.reposts || 0) + (insights.quotes || 0) + (insights.shares || 0)
+    };
+  }
+
+  private async getUserId(): Promise<string> {
+    const cachedUserId = this.credentials.additionalCredentials?.userId;
+    if (cachedUserId) {
+      return cachedUserId;
+    }
+
+    const response = await fetch(`${this.baseUrl}/me?fields=id&access_token=${this.credentials.accessToken}`);
+    if (!response.ok) {
+      throw new Error('Failed to get Threads user ID');
+    }
+
+    const data = await response.json() as { id: string };
+    return data.id;
+  }
+
+  private getMediaType(mediaUrls: string[]): ThreadsMediaType {
+    const [firstUrl] = mediaUrls;
+    if (!firstUrl) {
+      return 'TEXT';
+    }
+    if (mediaUrls.length > 1) {
+      return 'CAROUSEL';
+    }
+    return this.isVideoUrl(firstUrl) ? 'VIDEO' : 'IMAGE';
+  }
+
+  /**
+   * Carousel items are created as separate containers first and then
+   * referenced by the parent carousel container.
+   */
+  private async createPostContainer(userId: string, content: AdaptedContent): Promise<string> {
+    const mediaUrls = content.mediaUrls || [];
+    const [firstUrl] = mediaUrls;
+    const mediaType = this.getMediaType(mediaUrls);
+    const platformSpecific = content.platformSpecific || {};
+
+    const container: ThreadsContainerRequest = {
+      media_type: mediaType,
+      ...(content.text && { text: content.text }),
+      ...(platformSpecific.replyControl && { reply_control: platformSpecific.replyControl as string }),
+      // A post has a single topic; further hashtags stay plain text
+      ...(platformSpecific.topicTag && { topic_tag: platformSpecific.topicTag as string })
+    };
+
+    if (mediaType === 'TEXT' && platformSpecific.linkAttachment) {
+      container.link_attachment = platformSpecific.linkAttachment as string;
+    } else if (mediaType === 'CAROUSEL') {
+      const children: string[] = [];
+      for (const url of mediaUrls) {
+        children.push(await this.createContainer(userId, {
+          ...this.mediaContainer(url),
+          is_carousel_item: true
+        }));
+      }
+      container.children = children.join(',');
+    } else if (mediaType !== 'TEXT' && firstUrl) {
+      Object.assign(container, this.mediaContainer(firstUrl));
+    }
+
+    return await this.createContainer(userId, container);
+  }
+
+  private mediaContainer(url: string): ThreadsContainerRequest {
+    return this.isVideoUrl(url)
+      ? { media_type: 'VIDEO', video_url: url }
+      : { media_type: 'IMAGE', image_url: url };
+  }
+
+  private async createContainer(userId: string, container: ThreadsContainerRequest): Promise<string> {
+    const response = await fetch(`${this.baseUrl}/${userId}/threads`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({
+        ...container,
+        access_token: this.credentials.accessToken
+      })
+    });
+
+    if (!response.ok) {
+      throw await this.toError(response, 'Failed to create Threads container');
+    }
+
+    const data = await response.json() as { id: string };
+
+    // Media containers are processed asynchronously and cannot be published until finished
+    if (container.media_type !== 'TEXT') {
+      await this.waitForContainer(data.id);
+    }
+
+    return data.id;
+  }
+
+  private async waitForContainer(containerId: string): Promise<void> {
+    for (let attempt = 0; attempt < this.options.maxContainerPollAttempts; attempt++) {
+      const response = await fetch(
+        `${this.baseUrl}/${containerId}?fields=status,error_message&access_token=${this.credentials.accessToken}`
+      );
+
+      if (!response.ok) {
+        throw new Error('Failed to check Threads container status');
+      }
+
+      const container = await response.json() as ThreadsContainerStatus;
+      if (container.status === 'FINISHED' || container.status === 'PUBLISHED') {
+        return;
+      }
+      if (container.status === 'ERROR' || container.status === 'EXPIRED') {
+        throw new Error(`Threads media processing failed: ${container.error_message || container.status}`);
+      }
+
+      await new Promise(resolve => setTimeout(resolve, this.options.containerPollIntervalMs));
+    }
+
+    throw new Error('Threads media processing timeout');
+  }
+
+  private async publishContainer(userId: string, containerId: string): Promise<string> {
+    const response = await fetch(`${this.baseUrl}/${userId}/threads_publish`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({
+        creation_id: containerId,
+        access_token: this.credentials.accessToken
+      })
+    });
+
+    if (!response.ok) {
+      throw await this.toError(response, 'Failed to publish Threads post');
+    }
+
+    const data = await response.json() as { id: string };
+    return data.id;
+  }
+
+  private async toError(response: Response, prefix: string): Promise<Error> {
+    if (response.status === 429) {
+      return new Error('Threads rate limit exceeded');
+    }
+    if (response.status >= 500) {
+      return new Error(`Threads server error (${response.status})`);
+    }
+
+    const errorData = await response.json() as { error?: { message?: string } };
+    return new Error(`${prefix}: ${errorData.error?.message || 'Unknown error'}`);
+  }
+
+  private isVideoUrl(url: string): boolean {
+    return /\.(mp4|mov)(\?|$)/i.test(url);
+  }
+
+  private isRetryableError(error: any): boolean {
+    if (error instanceof Error) {
+      const message = error.message.toLowerCase();
+      return message.includes('timeout') ||
+             message.includes('network') ||
+             message.includes('rate limit') ||
+             message.includes('server error');
+    }
+    return false;
+  }
+}
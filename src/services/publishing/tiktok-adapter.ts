@@ -9,7 +9,8 @@ import {
   PlatformCredentials,
   PublishResult,
   ContentRequirements,
-  PlatformHealthCheck
+  PlatformHealthCheck,
+  PostMetrics
 } from './platform-adapter.js';
 
 interface TikTokVideoUploadResponse {
@@ -29,10 +30,11 @@ interface TikTokPublishResponse {
 }
 
 export class TikTokAdapter extends PlatformAdapter {
-  private readonly baseUrl = 'https://open-api.tiktok.com';
+  private readonly baseUrl: string;
 
   constructor(credentials: PlatformCredentials) {
     super('tiktok', credentials);
+    this.baseUrl = credentials.baseUrl || 'https://open-api.tiktok.com';
   }
 
   async authenticate(): Promise<boolean> {
@@ -62,6 +64,11 @@ export class TikTokAdapter extends PlatformAdapter {
   }
 
   async publish(content: AdaptedContent, tenantContext: TenantContext): Promise<PublishResult> {
+    const rateLimited = await this.checkRateLimit();
+    if (rateLimited) {
+      return rateLimited;
+    }
+
     try {
       // Validate content before publishing
       const validation = await this.validateContent(content);
@@ -272,7 +279,7 @@ export class TikTokAdapter extends PlatformAdapter {
       });
 
       if (!response.ok) {
-        throw new Error('Failed to refresh TikTok credentials');
+        throw await this.refreshRejectedError(response);
       }
 
       const data = await response.json();
@@ -280,7 +287,8 @@ export class TikTokAdapter extends PlatformAdapter {
       const newCredentials: PlatformCredentials = {
         ...this.credentials,
         accessToken: data.data.access_token,
-        refreshToken: data.data.refresh_token || this.credentials.refreshToken
+        refreshToken: data.data.refresh_token || this.credentials.refreshToken,
+        ...this.tokenExpiry(data.data.expires_in)
       };
 
       this.updateCredentials(newCredentials);
@@ -290,6 +298,40 @@ export class TikTokAdapter extends PlatformAdapter {
     }
   }
 
+  override async fetchMetrics(platformPostId: string): Promise<PostMetrics> {
+    await this.acquireMetricsRateLimit();
+
+    const response = await fetch(`${this.baseUrl}/v2/video/query/?fields=id,view_count,like_count,comment_count,share_count`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${this.credentials.accessToken}`,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({
+        filters: { video_ids: [platformPostId] }
+      })
+    });
+
+    if (!response.ok) {
+      throw new Error('Failed to query TikTok video');
+    }
+
+    const data = await response.json() as {
+      data?: { videos?: { id: string; view_count?: number; like_count?: number; comment_count?: number; share_count?: number }[] };
+    };
+    const video = data.data?.videos?.[0];
+    if (!video) {
+      throw new Error(`TikTok video ${platformPostId} not found`);
+    }
+
+    return {
+      views: video.view_count || 0,
+      likes: video.like_count || 0,
+      comments: video.comment_count || 0,
+      shares: video.share_count || 0
+    };
+  }
+
   private async initializeVideoUpload(): Promise<TikTokVideoUploadResponse> {
     const response = await fetch(`${this.baseUrl}/v2/post/video/init/`, {
       method: 'POST',
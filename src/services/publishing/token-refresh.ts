@@ -0,0 +1,296 @@
+import { Platform } from '../../types/index.js';
+import { DatabasePool, DatabaseClient } from '../../interfaces/database.js';
+import { PlatformCredentials } from './platform-adapter.js';
+import { PlatformAdapterRegistry } from './platform-registry.js';
+import { getOAuthClientSecret } from './platform-connections.js';
+import { TransactionalEmailService, transactionalEmailService } from '../email.js';
+import { SecretEncryptionService } from '../secret-encryption.js';
+
+export interface TokenRefreshOptions {
+  refreshAheadMinutes: number;
+  batchSize: number;
+}
+
+export interface TokenRefreshSummary {
+  checked: number;
+  refreshed: number;
+  needsReauth: number;
+  failed: number; // retried on the next run
+}
+
+type RefreshOutcome = 'refreshed' | 'needs_reauth' | 'failed' | 'skipped';
+
+interface ExpiringCredentialRow {
+  id: string;
+  tenant_id: string;
+  platform: Platform;
+  credentials: unknown;
+  additional_credentials: string | Record<string, string> | null;
+  token_expires_at: string | Date;
+}
+
+const PLATFORM_NAMES: Record<Platform, string> = {
+  instagram: 'Instagram',
+  tiktok: 'TikTok',
+  facebook: 'Facebook',
+  linkedin: 'LinkedIn',
+  x: 'X',
+  youtube: 'YouTube',
+  pinterest: 'Pinterest',
+  threads: 'Threads',
+  bluesky: 'Bluesky',
+  google_business: 'Google Business Profile'
+};
+
+// Roles whose holders are asked to reconnect an account
+const ADMIN_ROLE_NAMES = ['Agency Admin', 'Platform Admin'];
+
+/**
+ * Refreshes platform tokens before they expire, so posts do not fail at
+ * publish time. Credentials whose refresh grant is rejected are marked
+ * 'needs_reauth' and the client tenant's admins are emailed a reconnect
+ * link once; other failures are retried on the next run.
+ *
+ * Each credential is locked with FOR UPDATE SKIP LOCKED while it is
+ * refreshed, so instances running side by side never use the same refresh
+ * token twice. X, TikTok and Bluesky reject a refresh token once it has
+ * been used.
+ */
+export class PlatformTokenRefreshService {
+  private db: DatabasePool;
+  private emailService: TransactionalEmailService;
+  private secretEncryption: SecretEncryptionService;
+  private intervalId: NodeJS.Timeout | null = null;
+  private options: TokenRefreshOptions = {
+    refreshAheadMinutes: 24 * 60,
+    batchSize: 50
+  };
+
+  constructor(
+    db: DatabasePool,
+    emailService: TransactionalEmailService = transactionalEmailService,
+    options: Partial<TokenRefreshOptions> = {}
+  ) {
+    this.db = db;
+    this.emailService = emailService;
+    this.secretEncryption = new SecretEncryptionService(db);
+    this.options = { ...this.options, ...options };
+  }
+
+  /**
+   * Start checking for expiring tokens
+   * @param intervalMinutes How often to look for expiring tokens (default: 30 minutes)
+   */
+  start(intervalMinutes: number = 30): void {
+    if (this.intervalId) {
+      console.warn('Token refresh service is already running');
+      return;
+    }
+
+    console.log(`Starting platform token refresh with ${intervalMinutes} minute intervals`);
+
+    const run = () => {
+      this.refreshExpiringCredentials().catch(error => {
+        console.error('Error refreshing platform tokens:', error);
+      });
+    };
+
+    run();
+    this.intervalId = setInterval(run, intervalMinutes * 60 * 1000);
+  }
+
+  stop(): void {
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+  }
+
+  /**
+   * Refresh every active credential whose token expires within the
+   * refresh-ahead window
+   */
+  async refreshExpiringCredentials(now: Date = new Date()): Promise<TokenRefreshSummary> {
+    const refreshBefore = new Date(now.getTime() + this.options.refreshAheadMinutes * 60 * 1000);
+
+    const result = await this.db.query(`
+      SELECT id
+      FROM platform_credentials
+      WHERE is_active = true
+        AND status = 'active'
+        AND token_expires_at IS NOT NULL
+        AND token_expires_at <= $1
+      ORDER BY token_expires_at ASC
+      LIMIT $2
+    `, [refreshBefore, this.options.batchSize]);
+
+    const summary: TokenRefreshSummary = { checked: result.rows.length, refreshed: 0, needsReauth: 0, failed: 0 };
+
+    for (const { id } of result.rows) {
+      switch (await this.refreshCredential(id, refreshBefore, now)) {
+        case 'refreshed':
+          summary.refreshed++;
+          break;
+        case 'needs_reauth':
+          summary.needsReauth++;
+          break;
+        case 'failed':
+          summary.failed++;
+          break;
+      }
+    }
+
+    return summary;
+  }
+
+  private async refreshCredential(id: string, refreshBefore: Date, now: Date): Promise<RefreshOutcome> {
+    const client: DatabaseClient = this.db.connect ? await this.db.connect() : this.db;
+    let row: ExpiringCredentialRow | undefined;
+    let outcome: RefreshOutcome;
+    let reason = '';
+
+    try {
+      await client.query('BEGIN');
+
+      // Read the credentials again under the lock: another instance may be
+      // refreshing them, or may already have replaced the refresh token
+      const claimed = await client.query(`
+        SELECT id, tenant_id, platform, credentials, additional_credentials, token_expires_at
+        FROM platform_credentials
+        WHERE id = $1
+          AND is_active = true
+          AND status = 'active'
+          AND token_expires_at <= $2
+        FOR UPDATE SKIP LOCKED
+      `, [id, refreshBefore]);
+      row = claimed.rows[0];
+
+      if (!row) {
+        outcome = 'skipped';
+      } else {
+        try {
+          await this.storeRefreshedCredentials(client, row, now);
+          outcome = 'refreshed';
+        } catch (error) {
+          reason = error instanceof Error ? error.message : 'Unknown error';
+          console.error(`Failed to refresh ${row.platform} token for tenant ${row.tenant_id}:`, reason);
+
+          outcome = this.requiresReauth(reason) ? 'needs_reauth' : 'failed';
+          await this.recordRefreshFailure(client, row, reason, outcome === 'needs_reauth', now);
+        }
+      }
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release?.();
+    }
+
+    if (row && outcome === 'needs_reauth') {
+      try {
+        await this.notifyAdmins(row.tenant_id, row.platform, reason);
+      } catch (error) {
+        console.error(`Failed to notify admins of tenant ${row.tenant_id} about ${row.platform}:`, error);
+      }
+    }
+
+    return outcome;
+  }
+
+  private async storeRefreshedCredentials(client: DatabaseClient, row: ExpiringCredentialRow, now: Date): Promise<void> {
+    const stored = await this.secretEncryption.decrypt<PlatformCredentials>(this.parseJson(row.credentials));
+    const appSecret = stored.appSecret || getOAuthClientSecret(row.platform);
+    const credentials: PlatformCredentials = {
+      ...stored,
+      ...(appSecret && { appSecret }),
+      additionalCredentials: this.parseJson(row.additional_credentials)
+    };
+
+    const adapter = new PlatformAdapterRegistry().registerAdapter(row.platform, credentials);
+    const refreshed = { ...await adapter.refreshCredentials() };
+
+    // Settings, status and an app secret from the server config are not token data
+    delete refreshed.additionalCredentials;
+    delete refreshed.status;
+    if (!stored.appSecret) {
+      delete refreshed.appSecret;
+    }
+
+    const encryptedCredentials = await this.secretEncryption.encrypt(refreshed, row.tenant_id);
+
+    await client.query(`
+      UPDATE platform_credentials
+      SET credentials = $1,
+          token_expires_at = $2,
+          last_refreshed_at = $3,
+          last_refresh_error = NULL,
+          updated_at = $3
+      WHERE id = $4
+    `, [JSON.stringify(encryptedCredentials), refreshed.expiresAt || null, now, row.id]);
+  }
+
+  private async recordRefreshFailure(
+    client: DatabaseClient,
+    row: ExpiringCredentialRow,
+    reason: string,
+    needsReauth: boolean,
+    now: Date
+  ): Promise<void> {
+    await client.query(`
+      UPDATE platform_credentials
+      SET status = $1,
+          last_refresh_error = $2,
+          updated_at = $3
+      WHERE id = $4
+    `, [needsReauth ? 'needs_reauth' : 'active', reason, now, row.id]);
+  }
+
+  /**
+   * Only a rejected refresh grant, or a platform that cannot refresh without
+   * the user, means the account has to be reconnected. Outages, timeouts
+   * and server errors are retried on the next run.
+   */
+  private requiresReauth(reason: string): boolean {
+    return /Token refresh rejected \((400|401)\b|invalid_grant|No refresh token available|requires re-authentication/
+      .test(reason);
+  }
+
+  private async notifyAdmins(tenantId: string, platform: Platform, reason: string): Promise<void> {
+    const admins = await this.db.query(`
+      SELECT email, name
+      FROM users
+      WHERE tenant_id = $1
+        AND is_active = true
+        AND EXISTS (
+          SELECT 1 FROM jsonb_array_elements(roles) AS role
+          WHERE role->>'name' = ANY($2)
+        )
+    `, [tenantId, ADMIN_ROLE_NAMES]);
+
+    const reconnectUrl = `${process.env.APP_URL || 'http://localhost:3000'}/settings/platforms?reconnect=${platform}`;
+
+    for (const admin of admins.rows) {
+      await this.emailService.sendPlatformReconnectEmail(
+        tenantId,
+        admin.email,
+        admin.name,
+        PLATFORM_NAMES[platform],
+        reconnectUrl,
+        reason
+      );
+    }
+  }
+
+  private parseJson(value: unknown): any {
+    if (typeof value === 'string') {
+      try {
+        return JSON.parse(value);
+      } catch {
+        return {};
+      }
+    }
+    return value || {};
+  }
+}
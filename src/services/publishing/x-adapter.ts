@@ -0,0 +1,673 @@
+import {
+  AdaptedContent,
+  ValidationResult,
+  ValidationError
+} from '../../types/index.js';
+import {
+  PlatformAdapter,
+  PlatformCredentials,
+  PublishResult,
+  ContentRequirements,
+  PlatformHealthCheck,
+  PostMetrics
+} from './platform-adapter.js';
+
+export const X_MAX_POST_LENGTH = 280;
+export const X_HASHTAG_LIMIT = 2;
+export const X_MAX_THREAD_LENGTH = 25;
+
+// t.co wraps every link, so URLs always count as 23 characters
+const X_URL_LENGTH = 23;
+// Room kept at the end of each thread post for the " 12/15" counter
+const THREAD_COUNTER_RESERVE = 6;
+
+const URL_REGEX = /https?:\/\/\S+/g;
+const HASHTAG_REGEX = /#[\p{L}\p{N}_]+/gu;
+const TRAILING_HASHTAGS_REGEX = /(?:^|\s)((?:#[\p{L}\p{N}_]+\s*)+)$/u;
+
+interface XPostResponse {
+  data: {
+    id: string;
+    text: string;
+  };
+}
+
+interface XMediaUploadResponse {
+  data: {
+    id: string;
+    processing_info?: {
+      state: 'pending' | 'in_progress' | 'succeeded' | 'failed';
+      check_after_secs?: number;
+      error?: { message: string };
+    };
+  };
+}
+
+/**
+ * Weighted length of a post as counted by X: most Latin, Greek and Cyrillic
+ * characters count once, CJK characters and emoji count twice, URLs count as 23.
+ */
+export function getXTextLength(text: string): number {
+  let length = 0;
+  const withoutUrls = text.replace(URL_REGEX, () => {
+    length += X_URL_LENGTH;
+    return '';
+  });
+
+  for (const char of withoutUrls) {
+    const codePoint = char.codePointAt(0) ?? 0;
+    const isSingleWeight = codePoint <= 0x10ff ||
+      (codePoint >= 0x2000 && codePoint <= 0x200d) ||
+      (codePoint >= 0x2010 && codePoint <= 0x201f) ||
+      (codePoint >= 0x2032 && codePoint <= 0x2037);
+    length += isSingleWeight ? 1 : 2;
+  }
+
+  return length;
+}
+
+/**
+ * Split text into posts of at most maxLength characters.
+ *
+ * Posts break on sentence boundaries where possible, falling back to word and
+ * then character boundaries for very long sentences. Trailing hashtags are kept
+ * together on the last post and trimmed so the whole thread stays within
+ * hashtagLimit. Threads are numbered "1/3", "2/3", ...
+ */
+export function splitIntoThread(
+  text: string,
+  maxLength: number = X_MAX_POST_LENGTH,
+  hashtagLimit: number = X_HASHTAG_LIMIT
+): string[] {
+  const { body, hashtags } = separateTrailingHashtags(text.trim());
+  const inlineHashtagCount = (body.match(HASHTAG_REGEX) || []).length;
+  const hashtagLine = hashtags.slice(0, Math.max(hashtagLimit - inlineHashtagCount, 0)).join(' ');
+
+  const singlePost = [body, hashtagLine].filter(Boolean).join(' ');
+  if (getXTextLength(singlePost) <= maxLength) {
+    return singlePost ? [singlePost] : [];
+  }
+
+  const postLength = maxLength - THREAD_COUNTER_RESERVE;
+  const units = splitSentences(body).flatMap(sentence => splitToLength(sentence, postLength));
+  if (hashtagLine) {
+    units.push(hashtagLine);
+  }
+
+  const posts: string[] = [];
+  for (const unit of units) {
+    const current = posts[posts.length - 1];
+    if (current !== undefined && getXTextLength(`${current} ${unit}`) <= postLength) {
+      posts[posts.length - 1] = `${current} ${unit}`;
+    } else {
+      posts.push(unit);
+    }
+  }
+
+  return posts.map((post, index) => `${post} ${index + 1}/${posts.length}`);
+}
+
+function separateTrailingHashtags(text: string): { body: string; hashtags: string[] } {
+  const match = text.match(TRAILING_HASHTAGS_REGEX);
+  if (!match || match.index === undefined) {
+    return { body: text, hashtags: [] };
+  }
+
+  const seen = new Set<string>();
+  const hashtags = (match[1] || '').trim().split(/\s+/).filter(tag => {
+    const key = tag.toLowerCase();
+    if (seen.has(key)) {
+      return false;
+    }
+    seen.add(key);
+    return true;
+  });
+
+  return { body: text.slice(0, match.index).trim(), hashtags };
+}
+
+function splitSentences(text: string): string[] {
+  return text
+    .split(/(?<=[.!?…])\s+|\n+/)
+    .map(sentence => sentence.trim())
+    .filter(sentence => sentence.length > 0);
+}
+
+function splitToLength(sentence: string, maxLength: number): string[] {
+  if (getXTextLength(sentence) <= maxLength) {
+    return [sentence];
+  }
+
+  const chunks: string[] = [];
+  let current = '';
+
+  for (const word of sentence.split(/\s+/)) {
+    const candidate = current ? `${current} ${word}` : word;
+    if (getXTextLength(candidate) <= maxLength) {
+      current = candidate;
+      continue;
+    }
+
+    if (current) {
+      chunks.push(current);
+    }
+
+    if (getXTextLength(word) <= maxLength) {
+      current = word;
+      continue;
+    }
+
+    // A single word longer than a post is cut by characters
+    current = '';
+    for (const char of word) {
+      if (getXTextLength(current + char) > maxLength) {
+        chunks.push(current);
+        current = '';
+      }
+      current += char;
+    }
+  }
+
+  if (current) {
+    chunks.push(current);
+  }
+
+  return chunks;
+}
+
+export class XAdapter extends PlatformAdapter {
+  private readonly baseUrl: string;
+  private userId?: string;
+
+  constructor(credentials: PlatformCredentials) {
+    super('x', credentials);
+    this.baseUrl = credentials.baseUrl || 'https://api.x.com/2';
+  }
+
+  async authenticate(): Promise<boolean> {
+    try {
+      const response = await fetch(`${this.baseUrl}/users/me`, {
+        headers: {
+          'Authorization': `Bearer ${this.credentials.accessToken}`
+        }
+      });
+
+      const data = await response.json() as { data?: { id: string } };
+
+      if (response.ok && data.data?.id) {
+        this.userId = data.data.id;
+        return true;
+      }
+
+      return false;
+    } catch (error) {
+      console.error('X authentication failed:', error);
+      return false;
+    }
+  }
+
+  async publish(content: AdaptedContent): Promise<PublishResult> {
+    const rateLimited = await this.checkRateLimit();
+    if (rateLimited) {
+      return rateLimited;
+    }
+
+    try {
+      // Validate content before publishing
+      const validation = await this.validateContent(content);
+      if (!validation.isValid) {
+        return {
+          success: false,
+          error: `Content validation failed: ${validation.errors.map(e => e.message).join(', ')}`,
+          retryable: false
+        };
+      }
+
+      // Media-only posts are published as a single post without text
+      const thread = this.getThread(content);
+      const posts = thread.length > 0 ? thread : [''];
+      const mediaIds = await this.uploadMedia(content.mediaUrls || []);
+
+      // Once the first post is live a failure must not be retried, or the
+      // thread would be duplicated
+      const postIds: string[] = [];
+      try {
+        for (const [index, text] of posts.entries()) {
+          const post = await this.createPost(
+            text,
+            index === 0 ? mediaIds : [],
+            postIds[postIds.length - 1]
+          );
+          postIds.push(post.data.id);
+        }
+      } catch (error) {
+        if (postIds.length === 0) {
+          throw error;
+        }
+
+        return {
+          success: false,
+          error: `Thread partially published (${postIds.length}/${posts.length} posts): ${error instanceof Error ? error.message : 'Unknown error'}`,
+          retryable: false,
+          metadata: { postIds }
+        };
+      }
+
+      const [firstPostId] = postIds;
+      return {
+        success: true,
+        ...(firstPostId && { platformPostId: firstPostId }),
+        publishedAt: new Date(),
+        metadata: {
+          postType: posts.length > 1 ? 'thread' : mediaIds.length > 0 ? 'media' : 'text',
+          postIds,
+          mediaIds,
+          userId: this.userId
+        }
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      const isRetryable = this.isRetryableError(error);
+
+      return {
+        success: false,
+        error: errorMessage,
+        retryable: isRetryable
+      };
+    }
+  }
+
+  async validateContent(content: AdaptedContent): Promise<ValidationResult> {
+    const errors: ValidationError[] = [];
+    const requirements = this.getRequirements();
+    const posts = this.getThread(content);
+
+    if (posts.length === 0 && (!content.mediaUrls || content.mediaUrls.length === 0)) {
+      errors.push({
+        field: 'text',
+        message: 'X posts require text or media',
+        code: 'MISSING_CONTENT'
+      });
+    }
+
+    // Validate each post in the thread
+    posts.forEach((post, index) => {
+      if (requirements.maxTextLength && getXTextLength(post) > requirements.maxTextLength) {
+        errors.push({
+          field: `thread[${index}]`,
+          message: `Post ${index + 1} exceeds maximum length of ${requirements.maxTextLength} characters`,
+          code: 'CONTENT_TOO_LONG'
+        });
+      }
+    });
+
+    if (posts.length > X_MAX_THREAD_LENGTH) {
+      errors.push({
+        field: 'thread',
+        message: `Threads are limited to ${X_MAX_THREAD_LENGTH} posts`,
+        code: 'THREAD_TOO_LONG'
+      });
+    }
+
+    // Validate hashtag count across the whole thread
+    const hashtagCount = posts.reduce((count, post) => count + (post.match(HASHTAG_REGEX) || []).length, 0);
+    if (requirements.hashtagLimit && hashtagCount > requirements.hashtagLimit) {
+      errors.push({
+        field: 'hashtags',
+        message: `Too many hashtags. Maximum allowed: ${requirements.hashtagLimit}`,
+        code: 'TOO_MANY_HASHTAGS'
+      });
+    }
+
+    // Validate media: up to 4 images or a single video
+    const mediaUrls = content.mediaUrls || [];
+    const videoCount = mediaUrls.filter(url => this.isVideoUrl(url)).length;
+    if (videoCount > 1 || (videoCount === 1 && mediaUrls.length > 1)) {
+      errors.push({
+        field: 'mediaUrls',
+        message: 'X posts can include a single video without other media',
+        code: 'INVALID_MEDIA_COMBINATION'
+      });
+    } else if (mediaUrls.length > 4) {
+      errors.push({
+        field: 'mediaUrls',
+        message: 'X posts can include at most 4 images',
+        code: 'TOO_MANY_MEDIA'
+      });
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors
+    };
+  }
+
+  getRequirements(): ContentRequirements {
+    return {
+      maxTextLength: X_MAX_POST_LENGTH,
+      hashtagLimit: X_HASHTAG_LIMIT,
+      videoMaxDuration: 140,
+      imageFormats: ['jpg', 'jpeg', 'png', 'gif', 'webp'],
+      videoFormats: ['mp4', 'mov'],
+      aspectRatios: ['16:9', '1:1'],
+      maxFileSize: 512 * 1024 * 1024, // 512MB for videos, 5MB for images
+      requiredFields: ['text']
+    };
+  }
+
+  async checkHealth(): Promise<PlatformHealthCheck> {
+    const startTime = Date.now();
+
+    try {
+      const response = await fetch(`${this.baseUrl}/users/me`, {
+        headers: {
+          'Authorization': `Bearer ${this.credentials.accessToken}`
+        }
+      });
+
+      const responseTime = Date.now() - startTime;
+
+      if (response.ok) {
+        const remaining = response.headers.get('x-rate-limit-remaining');
+        const reset = response.headers.get('x-rate-limit-reset');
+        const rateLimitRemaining = remaining ? parseInt(remaining) : undefined;
+        const rateLimitReset = reset ? new Date(parseInt(reset) * 1000) : undefined;
+
+        return {
+          isHealthy: true,
+          responseTime,
+          timestamp: new Date(),
+          ...(rateLimitRemaining !== undefined && { rateLimitRemaining }),
+          ...(rateLimitReset && { rateLimitReset })
+        };
+      } else {
+        const errorData = await response.json() as { detail?: string; title?: string };
+        return {
+          isHealthy: false,
+          responseTime,
+          timestamp: new Date(),
+          error: errorData.detail || errorData.title || 'Health check failed'
+        };
+      }
+    } catch (error) {
+      return {
+        isHealthy: false,
+        responseTime: Date.now() - startTime,
+        timestamp: new Date(),
+        error: error instanceof Error ? error.message : 'Health check failed'
+      };
+    }
+  }
+
+  async refreshCredentials(): Promise<PlatformCredentials> {
+    if (!this.credentials.refreshToken) {
+      throw new Error('No refresh token available');
+    }
+
+    try {
+      const basicAuth = Buffer.from(`${this.credentials.appId}:${this.credentials.appSecret}`).toString('base64');
+
+      const response = await fetch(`${this.baseUrl}/oauth2/token`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/x-www-form-urlencoded',
+          'Authorization': `Basic ${basicAuth}`
+        },
+        body: new URLSearchParams({
+          grant_type: 'refresh_token',
+          refresh_token: this.credentials.refreshToken,
+          ...(this.credentials.appId && { client_id: this.credentials.appId })
+        })
+      });
+
+      if (!response.ok) {
+        throw await this.refreshRejectedError(response);
+      }
+
+      const data = await response.json() as { access_token: string; refresh_token?: string; expires_in?: number };
+
+      const newCredentials: PlatformCredentials = {
+        ...this.credentials,
+        accessToken: data.access_token,
+        refreshToken: data.refresh_token || this.credentials.refreshToken,
+        ...this.tokenExpiry(data.expires_in)
+      };
+
+      this.updateCredentials(newCredentials);
+      return newCredentials;
+    } catch (error) {
+      throw new Error(`Failed to refresh X credentials: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * X has no API to edit posts. Deleting the first post of a thread leaves
+   * its replies up.
+   */
+  override async deletePost(platformPostId: string): Promise<PublishResult> {
+    return this.managePost(platformPostId, async () => {
+      const response = await fetch(`${this.baseUrl}/tweets/${platformPostId}`, {
+        method: 'DELETE',
+        headers: {
+          'Authorization': `Bearer ${this.credentials.accessToken}`
+        }
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json() as { detail?: string; title?: string };
+        if (response.status === 429) {
+          throw new Error('X rate limit exceeded');
+        }
+        throw new Error(`Failed to delete X post: ${errorData.detail || errorData.title || 'Unknown error'}`);
+      }
+    }, error => this.isRetryableError(error));
+  }
+
+  /**
+   * Threads are matched on their first post; once it is live the rest of
+   * the thread is never published again.
+   */
+  override async findPublishedPost(content: AdaptedContent, since: Date): Promise<PublishResult | null> {
+    if (!this.userId && !await this.authenticate()) {
+      throw new Error('X authentication failed');
+    }
+
+    const response = await fetch(
+      `${this.baseUrl}/users/${this.userId}/tweets?start_time=${since.toISOString()}&max_results=20&tweet.fields=created_at`,
+      {
+        headers: {
+          'Authorization': `Bearer ${this.credentials.accessToken}`
+        }
+      }
+    );
+
+    if (!response.ok) {
+      throw new Error('Failed to list X posts');
+    }
+
+    const data = await response.json() as { data?: { id: string; text: string; created_at?: string }[] };
+    const post = (data.data || []).find(candidate => this.isSameText(candidate.text, this.getThread(content)[0]));
+
+    return post ? {
+      success: true,
+      platformPostId: post.id,
+      publishedAt: post.created_at ? new Date(post.created_at) : new Date(),
+      metadata: {
+        userId: this.userId
+      }
+    } : null;
+  }
+
+  // Metrics are those of the first post; replies in a thread are not summed
+  override async fetchMetrics(platformPostId: string): Promise<PostMetrics> {
+    await this.acquireMetricsRateLimit();
+
+    const response = await fetch(`${this.baseUrl}/tweets/${platformPostId}?tweet.fields=public_metrics`, {
+      headers: {
+        'Authorization': `Bearer ${this.credentials.accessToken}`
+      }
+    });
+
+    if (!response.ok) {
+      if (response.status === 429) {
+        throw new Error('X rate limit exceeded');
+      }
+      throw new Error('Failed to fetch X post metrics');
+    }
+
+    const data = await response.json() as {
+      data?: {
+        public_metrics?: {
+          impression_count?: number;
+          like_count?: number;
+          reply_count?: number;
+          retweet_count?: number;
+          quote_count?: number;
+          bookmark_count?: number;
+        };
+      };
+    };
+    const metrics = data.data?.public_metrics || {};
+
+    return {
+      views: metrics.impression_count || 0,
+      impressions: metrics.impression_count || 0,
+      likes: metrics.like_count || 0,
+      comments: metrics.reply_count || 0,
+      shares: (metrics.retweet_count || 0) + (metrics.quote_count || 0),
+      saves: metrics.bookmark_count || 0
+    };
+  }
+
+  /**
+   * Posts to publish, taken from a pre-split thread when content adaptation
+   * produced one, otherwise split from the adapted text.
+   */
+  private getThread(content: AdaptedContent): string[] {
+    const thread = content.platformSpecific?.thread;
+    if (Array.isArray(thread) && thread.length > 0) {
+      return thread as string[];
+    }
+
+    return splitIntoThread(content.text || '');
+  }
+
+  private async createPost(text: string, mediaIds: string[], replyToId?: string): Promise<XPostResponse> {
+    const body: Record<string, any> = {};
+    if (text) {
+      body.text = text;
+    }
+    if (mediaIds.length > 0) {
+      body.media = { media_ids: mediaIds };
+    }
+    if (replyToId) {
+      body.reply = { in_reply_to_tweet_id: replyToId };
+    }
+
+    const response = await fetch(`${this.baseUrl}/tweets`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${this.credentials.accessToken}`,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify(body)
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json() as { detail?: string; title?: string };
+      if (response.status === 429) {
+        throw new Error('X rate limit exceeded');
+      }
+      throw new Error(`Failed to publish X post: ${errorData.detail || errorData.title || 'Unknown error'}`);
+    }
+
+    return await response.json() as XPostResponse;
+  }
+
+  private async uploadMedia(mediaUrls: string[]): Promise<string[]> {
+    const mediaIds: string[] = [];
+
+    for (const mediaUrl of mediaUrls) {
+      const mediaResponse = await fetch(mediaUrl);
+      if (!mediaResponse.ok) {
+        throw new Error('Failed to fetch media file');
+      }
+
+      const mediaBuffer = await mediaResponse.arrayBuffer();
+      const isVideo = this.isVideoUrl(mediaUrl);
+
+      const form = new FormData();
+      form.append('media', new Blob([mediaBuffer]));
+      form.append('media_category', isVideo ? 'tweet_video' : 'tweet_image');
+
+      const response = await fetch(`${this.baseUrl}/media/upload`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${this.credentials.accessToken}`
+        },
+        body: form
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to upload media to X');
+      }
+
+      const upload = await response.json() as XMediaUploadResponse;
+      if (upload.data.processing_info) {
+        await this.waitForMediaProcessing(upload.data.id, upload.data.processing_info.check_after_secs || 1);
+      }
+
+      mediaIds.push(upload.data.id);
+    }
+
+    return mediaIds;
+  }
+
+  private async waitForMediaProcessing(mediaId: string, checkAfterSecs: number): Promise<void> {
+    const maxAttempts = 30;
+
+    for (let attempt = 0; attempt < maxAttempts; attempt++) {
+      await new Promise(resolve => setTimeout(resolve, checkAfterSecs * 1000));
+
+      const response = await fetch(`${this.baseUrl}/media/upload?command=STATUS&media_id=${mediaId}`, {
+        headers: {
+          'Authorization': `Bearer ${this.credentials.accessToken}`
+        }
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to check X media upload status');
+      }
+
+      const status = await response.json() as XMediaUploadResponse;
+      const info = status.data.processing_info;
+
+      if (!info || info.state === 'succeeded') {
+        return;
+      }
+      if (info.state === 'failed') {
+        throw new Error(`X media processing failed: ${info.error?.message || 'Unknown error'}`);
+      }
+
+      checkAfterSecs = info.check_after_secs || checkAfterSecs;
+    }
+
+    throw new Error('X media processing timeout');
+  }
+
+  private isVideoUrl(url: string): boolean {
+    return /\.(mp4|mov)(\?|$)/i.test(url);
+  }
+
+  private isRetryableError(error: any): boolean {
+    if (error instanceof Error) {
+      const message = error.message.toLowerCase();
+      return message.includes('timeout') ||
+             message.includes('network') ||
+             message.includes('rate limit') ||
+             message.includes('server error') ||
+             message.includes('upload');
+    }
+    return false;
+  }
+}
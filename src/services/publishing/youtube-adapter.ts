@@ -0,0 +1,645 @@
+import {
+  AdaptedContent,
+  ValidationResult,
+  ValidationError
+} from '../../types/index.js';
+import {
+  PlatformAdapter,
+  PlatformCredentials,
+  PublishResult,
+  ContentRequirements,
+  PlatformHealthCheck,
+  PostMetrics
+} from './platform-adapter.js';
+
+export interface YouTubeAdapterOptions {
+  chunkSize: number;
+  maxChunkRetries: number;
+  retryDelayMs: number;
+}
+
+type YouTubePrivacyStatus = 'public' | 'unlisted' | 'private';
+
+interface YouTubeVideoResource {
+  snippet: {
+    title: string;
+    description: string;
+    tags: string[];
+    categoryId: string;
+  };
+  status: {
+    privacyStatus: YouTubePrivacyStatus;
+    publishAt?: string;
+    selfDeclaredMadeForKids: boolean;
+  };
+}
+
+interface YouTubeVideoResponse {
+  id: string;
+  status?: {
+    uploadStatus: string;
+    privacyStatus: YouTubePrivacyStatus;
+    publishAt?: string;
+  };
+}
+
+const TITLE_MAX_LENGTH = 100;
+const TAGS_MAX_LENGTH = 500;
+// Resumable upload chunks must be a multiple of 256 KiB
+const CHUNK_GRANULARITY = 256 * 1024;
+
+export class YouTubeAdapter extends PlatformAdapter {
+  private readonly baseUrl: string;
+  private readonly uploadUrl = 'https://www.googleapis.com/upload/youtube/v3/videos';
+  private channelId?: string;
+  private options: YouTubeAdapterOptions = {
+    chunkSize: 32 * CHUNK_GRANULARITY, // 8 MiB
+    maxChunkRetries: 3,
+    retryDelayMs: 1000
+  };
+
+  constructor(credentials: PlatformCredentials, options: Partial<YouTubeAdapterOptions> = {}) {
+    super('youtube', credentials);
+    this.baseUrl = credentials.baseUrl || 'https://www.googleapis.com/youtube/v3';
+    this.options = { ...this.options, ...options };
+  }
+
+  async authenticate(): Promise<boolean> {
+    try {
+      const response = await fetch(`${this.baseUrl}/channels?part=id&mine=true`, {
+        headers: {
+          'Authorization': `Bearer ${this.credentials.accessToken}`
+        }
+      });
+
+      const data = await response.json() as { items?: { id: string }[] };
+
+      if (response.ok && data.items?.[0]?.id) {
+        this.channelId = data.items[0].id;
+        return true;
+      }
+
+      return false;
+    } catch (error) {
+      console.error('YouTube authentication failed:', error);
+      return false;
+    }
+  }
+
+  async publish(content: AdaptedContent): Promise<PublishResult> {
+    const rateLimited = await this.checkRateLimit();
+    if (rateLimited) {
+      return rateLimited;
+    }
+
+    try {
+      // Validate content before publishing
+      const validation = await this.validateContent(content);
+      const [videoUrl] = content.mediaUrls || [];
+      if (!validation.isValid || !videoUrl) {
+        return {
+          success: false,
+          error: `Content validation failed: ${validation.errors.map(e => e.message).join(', ')}`,
+          retryable: false
+        };
+      }
+
+      const video = await this.fetchVideoFile(videoUrl);
+      const resource = this.buildVideoResource(content);
+
+      const sessionUrl = await this.startResumableSession(resource, video.byteLength, this.getContentType(videoUrl));
+      const uploaded = await this.uploadInChunks(sessionUrl, video);
+
+      return {
+        success: true,
+        platformPostId: uploaded.id,
+        publishedAt: new Date(),
+        metadata: {
+          postType: 'short',
+          url: `https://www.youtube.com/shorts/${uploaded.id}`,
+          privacyStatus: resource.status.privacyStatus,
+          publishAt: resource.status.publishAt,
+          channelId: this.channelId
+        }
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      const isRetryable = this.isRetryableError(error);
+
+      return {
+        success: false,
+        error: errorMessage,
+        retryable: isRetryable
+      };
+    }
+  }
+
+  async validateContent(content: AdaptedContent): Promise<ValidationResult> {
+    const errors: ValidationError[] = [];
+    const requirements = this.getRequirements();
+
+    // Validate video presence and format
+    const videoUrl = content.mediaUrls?.[0];
+    if (!videoUrl) {
+      errors.push({
+        field: 'mediaUrls',
+        message: 'YouTube Shorts require a video file',
+        code: 'MISSING_VIDEO'
+      });
+    } else {
+      const isValidFormat = requirements.videoFormats?.some(format =>
+        videoUrl.toLowerCase().includes(`.${format}`)
+      );
+
+      if (!isValidFormat) {
+        errors.push({
+          field: 'mediaUrls',
+          message: `Invalid video format. Supported: ${requirements.videoFormats?.join(', ')}`,
+          code: 'INVALID_VIDEO_FORMAT'
+        });
+      }
+    }
+
+    // Shorts are at most 60 seconds long
+    const duration = content.platformSpecific?.duration as number;
+    if (duration && requirements.videoMaxDuration && duration > requirements.videoMaxDuration) {
+      errors.push({
+        field: 'duration',
+        message: `Shorts cannot be longer than ${requirements.videoMaxDuration} seconds`,
+        code: 'VIDEO_TOO_LONG'
+      });
+    }
+
+    // Shorts must be vertical
+    if (!this.isVertical(content.platformSpecific || {})) {
+      errors.push({
+        field: 'aspectRatio',
+        message: 'Shorts must be vertical (9:16)',
+        code: 'INVALID_ASPECT_RATIO'
+      });
+    }
+
+    // Validate title
+    const title = this.getTitle(content);
+    if (!title) {
+      errors.push({
+        field: 'title',
+        message: 'YouTube videos require a title',
+        code: 'MISSING_TITLE'
+      });
+    } else if (title.length > TITLE_MAX_LENGTH) {
+      errors.push({
+        field: 'title',
+        message: `Title exceeds maximum length of ${TITLE_MAX_LENGTH} characters`,
+        code: 'TITLE_TOO_LONG'
+      });
+    } else if (/[<>]/.test(title)) {
+      errors.push({
+        field: 'title',
+        message: 'Title cannot contain < or > characters',
+        code: 'INVALID_TITLE'
+      });
+    }
+
+    // Validate description
+    const description = this.getDescription(content);
+    if (requirements.maxTextLength && description.length > requirements.maxTextLength) {
+      errors.push({
+        field: 'description',
+        message: `Description exceeds maximum length of ${requirements.maxTextLength} characters`,
+        code: 'DESCRIPTION_TOO_LONG'
+      });
+    }
+
+    // Validate tags
+    if (this.getTags(content).join(',').length > TAGS_MAX_LENGTH) {
+      errors.push({
+        field: 'tags',
+        message: `Tags exceed maximum combined length of ${TAGS_MAX_LENGTH} characters`,
+        code: 'TAGS_TOO_LONG'
+      });
+    }
+
+    // Validate privacy status
+    const privacyStatus = content.platformSpecific?.privacyStatus as string;
+    if (privacyStatus && !['public', 'unlisted', 'private'].includes(privacyStatus)) {
+      errors.push({
+        field: 'privacyStatus',
+        message: 'Invalid privacy status. Must be public, unlisted, or private',
+        code: 'INVALID_PRIVACY'
+      });
+    }
+
+    // Validate scheduled publish time
+    const publishAt = content.platformSpecific?.publishAt;
+    if (publishAt) {
+      const publishDate = new Date(publishAt);
+      if (isNaN(publishDate.getTime()) || publishDate.getTime() <= Date.now()) {
+        errors.push({
+          field: 'publishAt',
+          message: 'Scheduled publish time must be a valid date in the future',
+          code: 'INVALID_PUBLISH_AT'
+        });
+      }
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors
+    };
+  }
+
+  getRequirements(): ContentRequirements {
+    return {
+      maxTextLength: 5000,
+      hashtagLimit: 15,
+      videoMaxDuration: 60,
+      videoFormats: ['mp4', 'mov', 'webm', 'avi'],
+      aspectRatios: ['9:16'],
+      maxFileSize: 256 * 1024 * 1024 * 1024, // 256GB
+      requiredFields: ['mediaUrls', 'title']
+    };
+  }
+
+  async checkHealth(): Promise<PlatformHealthCheck> {
+    const startTime = Date.now();
+
+    try {
+      const response = await fetch(`${this.baseUrl}/channels?part=id&mine=true`, {
+        headers: {
+          'Authorization': `Bearer ${this.credentials.accessToken}`
+        }
+      });
+
+      const responseTime = Date.now() - startTime;
+
+      if (response.ok) {
+        return {
+          isHealthy: true,
+          responseTime,
+          timestamp: new Date()
+        };
+      } else {
+        const errorData = await response.json() as { error?: { message?: string } };
+        return {
+          isHealthy: false,
+          responseTime,
+          timestamp: new Date(),
+          error: errorData.error?.message || 'Health check failed'
+        };
+      }
+    } catch (error) {
+      return {
+        isHealthy: false,
+        responseTime: Date.now() - startTime,
+        timestamp: new Date(),
+        error: error instanceof Error ? error.message : 'Health check failed'
+      };
+    }
+  }
+
+  async refreshCredentials(): Promise<PlatformCredentials> {
+    if (!this.credentials.refreshToken) {
+      throw new Error('No refresh token available');
+    }
+
+    try {
+      const { appId, appSecret } = this.getAppCredentials();
+      const response = await fetch('https://oauth2.googleapis.com/token', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/x-www-form-urlencoded'
+        },
+        body: new URLSearchParams({
+          grant_type: 'refresh_token',
+          refresh_token: this.credentials.refreshToken,
+          client_id: appId,
+          client_secret: appSecret
+        })
+      });
+
+      if (!response.ok) {
+        throw await this.refreshRejectedError(response);
+      }
+
+      const data = await response.json() as { access_token: string; refresh_token?: string; expires_in?: number };
+
+      // Google only returns a new refresh token when the old one is rotated
+      const newCredentials: PlatformCredentials = {
+        ...this.credentials,
+        accessToken: data.access_token,
+        refreshToken: data.refresh_token || this.credentials.refreshToken,
+        ...this.tokenExpiry(data.expires_in)
+      };
+
+      this.updateCredentials(newCredentials);
+      return newCredentials;
+    } catch (error) {
+      throw new Error(`Failed to refresh YouTube credentials: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Correct the title, description and tags of an uploaded video. The
+   * snippet is replaced as a whole, so every field is sent again.
+   */
+  override async updatePost(platformPostId: string, content: AdaptedContent): Promise<PublishResult> {
+    return this.managePost(platformPostId, async () => {
+      const response = await fetch(`${this.baseUrl}/videos?part=snippet`, {
+        method: 'PUT',
+        headers: {
+          'Authorization': `Bearer ${this.credentials.accessToken}`,
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          id: platformPostId,
+          snippet: this.buildVideoResource(content).snippet
+        })
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json() as { error?: { message?: string } };
+        throw new Error(`Failed to update YouTube video: ${errorData.error?.message || response.status}`);
+      }
+    }, error => this.isRetryableError(error));
+  }
+
+  override async deletePost(platformPostId: string): Promise<PublishResult> {
+    return this.managePost(platformPostId, async () => {
+      const response = await fetch(`${this.baseUrl}/videos?id=${encodeURIComponent(platformPostId)}`, {
+        method: 'DELETE',
+        headers: {
+          'Authorization': `Bearer ${this.credentials.accessToken}`
+        }
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json() as { error?: { message?: string } };
+        throw new Error(`Failed to delete YouTube video: ${errorData.error?.message || response.status}`);
+      }
+    }, error => this.isRetryableError(error));
+  }
+
+  // The Data API reports views, likes and comments; shares are only in YouTube Analytics
+  override async fetchMetrics(platformPostId: string): Promise<PostMetrics> {
+    await this.acquireMetricsRateLimit();
+
+    const response = await fetch(`${this.baseUrl}/videos?part=statistics&id=${encodeURIComponent(platformPostId)}`, {
+      headers: {
+        'Authorization': `Bearer ${this.credentials.accessToken}`
+      }
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json() as { error?: { message?: string } };
+      throw new Error(`Failed to fetch YouTube video statistics: ${errorData.error?.message || response.status}`);
+    }
+
+    // Counts are returned as strings
+    const data = await response.json() as {
+      items?: { statistics?: { viewCount?: string; likeCount?: string; commentCount?: string } }[];
+    };
+    const statistics = data.items?.[0]?.statistics;
+    if (!statistics) {
+      throw new Error(`YouTube video ${platformPostId} not found`);
+    }
+
+    return {
+      views: Number(statistics.viewCount || 0),
+      likes: Number(statistics.likeCount || 0),
+      comments: Number(statistics.commentCount || 0),
+      shares: 0
+    };
+  }
+
+  /**
+   * Map adapted content to a YouTube video resource. Scheduled videos must be
+   * uploaded as private; YouTube makes them public at publishAt.
+   */
+  private buildVideoResource(content: AdaptedContent): YouTubeVideoResource {
+    const platformSpecific = content.platformSpecific || {};
+    const publishAt = platformSpecific.publishAt
+      ? new Date(platformSpecific.publishAt).toISOString()
+      : undefined;
+
+    let description = this.getDescription(content);
+    if (!/#shorts\b/i.test(`${this.getTitle(content)} ${description}`)) {
+      description = description ? `${description}\n\n#Shorts` : '#Shorts';
+    }
+
+    return {
+      snippet: {
+        title: this.getTitle(content),
+        description,
+        tags: this.getTags(content),
+        categoryId: (platformSpecific.categoryId as string) || '22'
+      },
+      status: {
+        privacyStatus: publishAt ? 'private' : (platformSpecific.privacyStatus as YouTubePrivacyStatus) || 'public',
+        ...(publishAt && { publishAt }),
+        selfDeclaredMadeForKids: platformSpecific.madeForKids === true
+      }
+    };
+  }
+
+  private getTitle(content: AdaptedContent): string {
+    const title = content.platformSpecific?.title as string;
+    if (title) {
+      return title.trim();
+    }
+
+    const firstLine = (content.text || '').split('\n')[0]?.trim() || '';
+    return firstLine.length > TITLE_MAX_LENGTH
+      ? firstLine.substring(0, TITLE_MAX_LENGTH - 3) + '...'
+      : firstLine;
+  }
+
+  private getDescription(content: AdaptedContent): string {
+    return (content.platformSpecific?.description as string) ?? content.text ?? '';
+  }
+
+  private getTags(content: AdaptedContent): string[] {
+    const tags = content.platformSpecific?.tags as string[] | undefined;
+    if (tags) {
+      return tags;
+    }
+
+    const hashtags = (content.platformSpecific?.hashtags as string[] | undefined) || [];
+    return hashtags.map(tag => tag.replace(/^#/, ''));
+  }
+
+  private isVertical(platformSpecific: Record<string, any>): boolean {
+    if (platformSpecific.width && platformSpecific.height) {
+      return platformSpecific.height > platformSpecific.width;
+    }
+
+    return !platformSpecific.aspectRatio || platformSpecific.aspectRatio === '9:16';
+  }
+
+  private async startResumableSession(
+    resource: YouTubeVideoResource,
+    contentLength: number,
+    contentType: string
+  ): Promise<string> {
+    const response = await fetch(`${this.uploadUrl}?uploadType=resumable&part=snippet,status`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${this.credentials.accessToken}`,
+        'Content-Type': 'application/json; charset=UTF-8',
+        'X-Upload-Content-Length': contentLength.toString(),
+        'X-Upload-Content-Type': contentType
+      },
+      body: JSON.stringify(resource)
+    });
+
+    const sessionUrl = response.headers.get('location');
+    if (!response.ok || !sessionUrl) {
+      if (response.status === 403) {
+        throw new Error('YouTube upload quota exceeded or permission denied');
+      }
+      throw new Error('Failed to start YouTube resumable upload session');
+    }
+
+    return sessionUrl;
+  }
+
+  /**
+   * Upload the video in chunks. A failed chunk asks the server how many bytes
+   * it has received and resumes from there instead of starting over.
+   */
+  private async uploadInChunks(sessionUrl: string, video: ArrayBuffer): Promise<YouTubeVideoResponse> {
+    const total = video.byteLength;
+    let offset = 0;
+    let retries = 0;
+
+    while (offset < total) {
+      const end = Math.min(offset + this.options.chunkSize, total);
+
+      let response: Response;
+      try {
+        response = await fetch(sessionUrl, {
+          method: 'PUT',
+          headers: {
+            'Authorization': `Bearer ${this.credentials.accessToken}`,
+            'Content-Length': (end - offset).toString(),
+            'Content-Range': `bytes ${offset}-${end - 1}/${total}`
+          },
+          body: video.slice(offset, end)
+        });
+      } catch (error) {
+        await this.waitBeforeRetry(error, ++retries);
+        offset = await this.queryUploadOffset(sessionUrl, total);
+        continue;
+      }
+
+      if (response.status === 200 || response.status === 201) {
+        return await response.json() as YouTubeVideoResponse;
+      }
+
+      if (response.status === 308) {
+        offset = this.parseRangeHeader(response.headers.get('range'));
+        retries = 0;
+        continue;
+      }
+
+      if (response.status >= 500) {
+        await this.waitBeforeRetry(new Error(`YouTube upload server error (${response.status})`), ++retries);
+        offset = await this.queryUploadOffset(sessionUrl, total);
+        continue;
+      }
+
+      throw new Error(`YouTube video upload failed with status ${response.status}`);
+    }
+
+    // Every byte was accepted but the final response was lost; ask for the resource
+    return await this.finalizeUpload(sessionUrl, total);
+  }
+
+  private async waitBeforeRetry(error: unknown, attempt: number): Promise<void> {
+    if (attempt > this.options.maxChunkRetries) {
+      throw new Error(`YouTube video upload failed after ${this.options.maxChunkRetries} retries: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    await new Promise(resolve => setTimeout(resolve, this.options.retryDelayMs * Math.pow(2, attempt - 1)));
+  }
+
+  private async queryUploadOffset(sessionUrl: string, total: number): Promise<number> {
+    const response = await fetch(sessionUrl, {
+      method: 'PUT',
+      headers: {
+        'Authorization': `Bearer ${this.credentials.accessToken}`,
+        'Content-Length': '0',
+        'Content-Range': `bytes */${total}`
+      }
+    });
+
+    if (response.status === 200 || response.status === 201) {
+      return total;
+    }
+    if (response.status === 308) {
+      return this.parseRangeHeader(response.headers.get('range'));
+    }
+
+    throw new Error(`Failed to resume YouTube upload (status ${response.status})`);
+  }
+
+  private async finalizeUpload(sessionUrl: string, total: number): Promise<YouTubeVideoResponse> {
+    const response = await fetch(sessionUrl, {
+      method: 'PUT',
+      headers: {
+        'Authorization': `Bearer ${this.credentials.accessToken}`,
+        'Content-Length': '0',
+        'Content-Range': `bytes */${total}`
+      }
+    });
+
+    if (!response.ok) {
+      throw new Error('Failed to complete YouTube video upload');
+    }
+
+    return await response.json() as YouTubeVideoResponse;
+  }
+
+  /**
+   * "bytes=0-524287" means the next chunk starts at byte 524288. A missing
+   * header means nothing has been stored yet.
+   */
+  private parseRangeHeader(range: string | null): number {
+    const lastByte = range?.match(/bytes=0-(\d+)/)?.[1];
+    return lastByte ? parseInt(lastByte) + 1 : 0;
+  }
+
+  private async fetchVideoFile(videoUrl: string): Promise<ArrayBuffer> {
+    const response = await fetch(videoUrl);
+    if (!response.ok) {
+      throw new Error('Failed to fetch video file');
+    }
+    return await response.arrayBuffer();
+  }
+
+  private getContentType(videoUrl: string): string {
+    const extension = videoUrl.toLowerCase().match(/\.(\w+)(\?|$)/)?.[1];
+    switch (extension) {
+      case 'mov':
+        return 'video/quicktime';
+      case 'webm':
+        return 'video/webm';
+      case 'avi':
+        return 'video/x-msvideo';
+      default:
+        return 'video/mp4';
+    }
+  }
+
+  private isRetryableError(error: any): boolean {
+    if (error instanceof Error) {
+      const message = error.message.toLowerCase();
+      return message.includes('timeout') ||
+             message.includes('network') ||
+             message.includes('rate limit') ||
+             message.includes('quota') ||
+             message.includes('server error');
+    }
+    return false;
+  }
+}
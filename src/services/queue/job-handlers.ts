@@ -0,0 +1,66 @@
+import { DatabasePool } from '../../interfaces/database';
+import { Platform, ScriptGenerationRequest } from '../../types';
+import { AnalyticsService } from '../analytics';
+import { VideoScriptService } from '../video-script';
+import { loadTenantContext } from '../tenant-context';
+import { ClaimedCalendarEvent, ScheduledPublishExecutor } from '../publishing/scheduled-publisher';
+import { Job } from './job-queue';
+import { JobDeferral, JobWorker } from './job-worker';
+
+export interface MetricsCollectionJobData {
+  tenantId: string;
+  platforms?: Platform[];
+}
+
+// The worker loads the tenant context when the job runs
+export interface VideoScriptJobData {
+  request: ScriptGenerationRequest;
+  tenantId: string;
+  userId: string;
+}
+
+/**
+ * Register the handlers for every background queue on a worker
+ */
+export function registerJobHandlers(
+  worker: JobWorker,
+  db: DatabasePool,
+  publishExecutor: ScheduledPublishExecutor
+): void {
+  const analyticsService = new AnalyticsService();
+  const videoScriptService = new VideoScriptService(db);
+
+  worker.register<ClaimedCalendarEvent>('publishing', async (job) => {
+    const result = await publishExecutor.processPublishingJob(job);
+    if (result?.status === 'retrying' && result.nextRetryAt) {
+      const deferral: JobDeferral = { deferUntil: result.nextRetryAt, reason: result.error || 'Rate limit reached' };
+      return deferral;
+    }
+    return result ? { publishJobId: result.jobId, status: result.status } : null;
+  });
+
+  worker.register<MetricsCollectionJobData>('metrics-collection', async (job) => {
+    const collection = await analyticsService.collectMetricsFromPlatforms(job.data.tenantId, job.data.platforms);
+    return {
+      collectionJobId: collection.id,
+      metricsCollected: collection.metricsCollected,
+      contentIds: collection.contentIds
+    };
+  });
+
+  worker.register('ai-generation', async (job: Job) => {
+    switch (job.type) {
+      case 'video-script': {
+        const { request, tenantId, userId } = job.data as VideoScriptJobData;
+        const tenantContext = await loadTenantContext(db, tenantId, userId);
+        if (!tenantContext) {
+          throw new Error(`Tenant ${tenantId} or user ${userId} no longer exists`);
+        }
+        const script = await videoScriptService.generateScript(request, tenantContext);
+        return { scriptId: script.id };
+      }
+      default:
+        throw new Error(`Unsupported ai-generation job type: ${job.type}`);
+    }
+  });
+}
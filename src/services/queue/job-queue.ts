@@ -0,0 +1,334 @@
+import { v4 as uuidv4 } from 'uuid';
+import { RedisManager, redis } from '../../config/redis';
+
+export type QueueName = 'publishing' | 'ai-generation' | 'metrics-collection';
+
+export type JobState = 'waiting' | 'delayed' | 'active' | 'completed' | 'dead';
+
+export interface Job<T = Record<string, any>> {
+  id: string;
+  queue: QueueName;
+  type: string;
+  data: T;
+  state: JobState;
+  attempts: number;
+  maxAttempts: number;
+  backoffMs: number;
+  runAt: Date;
+  result?: any;
+  lastError?: string;
+  createdAt: Date;
+  updatedAt: Date;
+  completedAt?: Date;
+}
+
+export interface JobOptions {
+  delayMs?: number;
+  maxAttempts?: number;
+  backoffMs?: number;
+}
+
+export interface QueueStats {
+  queue: QueueName;
+  waiting: number;
+  delayed: number;
+  active: number;
+  dead: number;
+}
+
+export interface JobQueueOptions {
+  visibilityTimeoutMs: number;
+  completedJobTtlSeconds: number;
+  maxBackoffMs: number;
+}
+
+export const QUEUE_NAMES: QueueName[] = ['publishing', 'ai-generation', 'metrics-collection'];
+
+/**
+ * Durable job queue on top of Redis.
+ *
+ * Each queue keeps ready jobs in a list, delayed and retrying jobs in a sorted set
+ * scored by run time, and reserved jobs in a sorted set scored by visibility deadline.
+ * A reserved job that is neither completed nor failed before its deadline is treated
+ * as a failed attempt, so jobs survive worker crashes and restarts.
+ */
+export class JobQueue {
+  private options: JobQueueOptions = {
+    visibilityTimeoutMs: 5 * 60 * 1000,
+    completedJobTtlSeconds: 24 * 60 * 60,
+    maxBackoffMs: 60 * 60 * 1000
+  };
+
+  constructor(private redis: RedisManager, options: Partial<JobQueueOptions> = {}) {
+    this.options = { ...this.options, ...options };
+  }
+
+  async add<T>(queue: QueueName, type: string, data: T, options: JobOptions = {}): Promise<Job<T>> {
+    const now = new Date();
+    const delayMs = options.delayMs || 0;
+
+    const job: Job<T> = {
+      id: uuidv4(),
+      queue,
+      type,
+      data,
+      state: delayMs > 0 ? 'delayed' : 'waiting',
+      attempts: 0,
+      maxAttempts: options.maxAttempts || 3,
+      backoffMs: options.backoffMs || 30000,
+      runAt: new Date(now.getTime() + delayMs),
+      createdAt: now,
+      updatedAt: now
+    };
+
+    await this.saveJob(job);
+
+    if (job.state === 'delayed') {
+      await this.redis.zAdd(this.key(queue, 'delayed'), job.runAt.getTime(), job.id);
+    } else {
+      await this.redis.lPush(this.key(queue, 'waiting'), job.id);
+    }
+
+    return job;
+  }
+
+  /**
+   * Reserve the next ready job. The caller must complete or fail it before the
+   * visibility timeout expires, otherwise it is handed out again.
+   */
+  async reserve(queue: QueueName): Promise<Job | null> {
+    const now = Date.now();
+
+    await this.promoteDelayedJobs(queue, now);
+    await this.recoverExpiredJobs(queue, now);
+
+    const jobId = await this.redis.popToSortedSet(
+      this.key(queue, 'waiting'),
+      this.key(queue, 'active'),
+      now + this.options.visibilityTimeoutMs
+    );
+    if (!jobId) {
+      return null;
+    }
+
+    const job = await this.getJob(queue, jobId);
+    if (!job) {
+      // Job record expired or was purged while its id was still queued
+      await this.redis.zRem(this.key(queue, 'active'), jobId);
+      return null;
+    }
+
+    job.state = 'active';
+    job.attempts++;
+    job.updatedAt = new Date();
+    await this.saveJob(job);
+
+    return job;
+  }
+
+  async complete(job: Job, result?: any): Promise<void> {
+    await this.redis.zRem(this.key(job.queue, 'active'), job.id);
+
+    job.state = 'completed';
+    job.result = result;
+    job.completedAt = new Date();
+    job.updatedAt = job.completedAt;
+
+    await this.saveJob(job, this.options.completedJobTtlSeconds);
+  }
+
+  /**
+   * Record a failed attempt. Retryable failures are rescheduled with exponential
+   * backoff until maxAttempts is reached; everything else goes to the dead-letter queue.
+   */
+  async fail(job: Job, error: string, retryable: boolean = true): Promise<Job> {
+    const removed = await this.redis.zRem(this.key(job.queue, 'active'), job.id);
+    if (removed === 0) {
+      // The visibility timeout already expired and the job was rescheduled elsewhere
+      console.warn(`Job ${job.id} on queue ${job.queue} failed after its visibility timeout`);
+      return job;
+    }
+
+    return await this.rescheduleOrBury(job, error, retryable);
+  }
+
+  /**
+   * Put an active job back until runAt without counting the attempt, for waits
+   * that are not failures, such as a platform rate limit.
+   */
+  async defer(job: Job, runAt: Date, reason: string): Promise<Job> {
+    const removed = await this.redis.zRem(this.key(job.queue, 'active'), job.id);
+    if (removed === 0) {
+      console.warn(`Job ${job.id} on queue ${job.queue} was deferred after its visibility timeout`);
+      return job;
+    }
+
+    job.state = 'delayed';
+    job.attempts = Math.max(job.attempts - 1, 0);
+    job.runAt = runAt;
+    job.lastError = reason;
+    job.updatedAt = new Date();
+    await this.saveJob(job);
+    await this.redis.zAdd(this.key(job.queue, 'delayed'), runAt.getTime(), job.id);
+
+    return job;
+  }
+
+  async getJob(queue: QueueName, jobId: string): Promise<Job | null> {
+    const raw = await this.redis.get(this.jobKey(queue, jobId));
+    if (!raw) {
+      return null;
+    }
+
+    const parsed = JSON.parse(raw);
+    return {
+      ...parsed,
+      runAt: new Date(parsed.runAt),
+      createdAt: new Date(parsed.createdAt),
+      updatedAt: new Date(parsed.updatedAt),
+      completedAt: parsed.completedAt ? new Date(parsed.completedAt) : undefined
+    };
+  }
+
+  async listJobs(queue: QueueName, state: Exclude<JobState, 'completed'>, limit: number = 50): Promise<Job[]> {
+    const key = this.key(queue, state);
+    const ids = state === 'waiting' || state === 'dead'
+      ? await this.redis.lRange(key, 0, limit - 1)
+      : await this.redis.zRange(key, 0, limit - 1);
+
+    const jobs: Job[] = [];
+    for (const id of ids) {
+      const job = await this.getJob(queue, id);
+      if (job) {
+        jobs.push(job);
+      }
+    }
+    return jobs;
+  }
+
+  async getStats(queue: QueueName): Promise<QueueStats> {
+    return {
+      queue,
+      waiting: await this.redis.getQueueLength(this.key(queue, 'waiting')),
+      delayed: await this.redis.zCard(this.key(queue, 'delayed')),
+      active: await this.redis.zCard(this.key(queue, 'active')),
+      dead: await this.redis.getQueueLength(this.key(queue, 'dead'))
+    };
+  }
+
+  /**
+   * Move a dead-lettered job back to the waiting list with a fresh attempt budget.
+   */
+  async retry(queue: QueueName, jobId: string): Promise<Job | null> {
+    const removed = await this.redis.lRem(this.key(queue, 'dead'), jobId);
+    if (removed === 0) {
+      return null;
+    }
+
+    const job = await this.getJob(queue, jobId);
+    if (!job) {
+      return null;
+    }
+
+    job.state = 'waiting';
+    job.attempts = 0;
+    job.runAt = new Date();
+    job.updatedAt = new Date();
+    await this.saveJob(job);
+    await this.redis.lPush(this.key(queue, 'waiting'), job.id);
+
+    return job;
+  }
+
+  /**
+   * Remove every job in the given state. Active jobs cannot be purged because a
+   * worker may still be processing them.
+   */
+  async purge(queue: QueueName, state: 'waiting' | 'delayed' | 'dead'): Promise<number> {
+    const key = this.key(queue, state);
+    const ids = state === 'delayed'
+      ? await this.redis.zRange(key, 0, -1)
+      : await this.redis.lRange(key, 0, -1);
+
+    await this.redis.del(key);
+    for (const id of ids) {
+      await this.redis.del(this.jobKey(queue, id));
+    }
+
+    return ids.length;
+  }
+
+  private async promoteDelayedJobs(queue: QueueName, now: number): Promise<void> {
+    const dueIds = await this.redis.zRangeByScore(this.key(queue, 'delayed'), 0, now);
+
+    for (const id of dueIds) {
+      // Only the caller that removes the id from the delayed set may promote it
+      if (await this.redis.zRem(this.key(queue, 'delayed'), id) === 0) {
+        continue;
+      }
+
+      const job = await this.getJob(queue, id);
+      if (!job) {
+        continue;
+      }
+
+      job.state = 'waiting';
+      job.updatedAt = new Date();
+      await this.saveJob(job);
+      await this.redis.lPush(this.key(queue, 'waiting'), id);
+    }
+  }
+
+  private async recoverExpiredJobs(queue: QueueName, now: number): Promise<void> {
+    const expiredIds = await this.redis.zRangeByScore(this.key(queue, 'active'), 0, now);
+
+    for (const id of expiredIds) {
+      if (await this.redis.zRem(this.key(queue, 'active'), id) === 0) {
+        continue;
+      }
+
+      const job = await this.getJob(queue, id);
+      if (job) {
+        await this.rescheduleOrBury(job, 'Visibility timeout expired', true);
+      }
+    }
+  }
+
+  private async rescheduleOrBury(job: Job, error: string, retryable: boolean): Promise<Job> {
+    job.lastError = error;
+    job.updatedAt = new Date();
+
+    if (!retryable || job.attempts >= job.maxAttempts) {
+      job.state = 'dead';
+      await this.saveJob(job);
+      await this.redis.lPush(this.key(job.queue, 'dead'), job.id);
+      return job;
+    }
+
+    job.state = 'delayed';
+    job.runAt = new Date(Date.now() + this.getBackoffDelay(job));
+    await this.saveJob(job);
+    await this.redis.zAdd(this.key(job.queue, 'delayed'), job.runAt.getTime(), job.id);
+
+    return job;
+  }
+
+  private getBackoffDelay(job: Job): number {
+    const delay = job.backoffMs * Math.pow(2, Math.max(job.attempts - 1, 0));
+    return Math.min(delay, this.options.maxBackoffMs);
+  }
+
+  private async saveJob<T>(job: Job<T>, expireInSeconds?: number): Promise<void> {
+    await this.redis.set(this.jobKey(job.queue, job.id), JSON.stringify(job), expireInSeconds);
+  }
+
+  private key(queue: QueueName, state: Exclude<JobState, 'completed'>): string {
+    return `queue:${queue}:${state}`;
+  }
+
+  private jobKey(queue: QueueName, jobId: string): string {
+    return `queue:${queue}:job:${jobId}`;
+  }
+}
+
+export const jobQueue = new JobQueue(redis);
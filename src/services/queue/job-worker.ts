@@ -0,0 +1,150 @@
+import { Job, JobQueue, QueueName } from './job-queue';
+
+export type JobHandler<T = any> = (job: Job<T>) => Promise<any>;
+
+/**
+ * Returned by a handler to run the job again at deferUntil without using up
+ * an attempt
+ */
+export interface JobDeferral {
+  deferUntil: Date;
+  reason: string;
+}
+
+function isJobDeferral(result: unknown): result is JobDeferral {
+  return typeof result === 'object' && result !== null && (result as JobDeferral).deferUntil instanceof Date;
+}
+
+export interface JobWorkerOptions {
+  concurrency: number;
+  pollIntervalMs: number;
+}
+
+/**
+ * Polls the registered queues and runs their handlers.
+ *
+ * A handler that resolves completes the job with its return value, unless it
+ * returns a JobDeferral; a handler that throws records a failed attempt, and the
+ * queue decides whether to retry or dead-letter the job.
+ */
+export class JobWorker {
+  private handlers = new Map<QueueName, JobHandler>();
+  private inFlight = new Map<QueueName, Set<Promise<void>>>();
+  private intervalId: NodeJS.Timeout | null = null;
+  private isPolling: boolean = false;
+  private options: JobWorkerOptions = {
+    concurrency: 5,
+    pollIntervalMs: 1000
+  };
+
+  constructor(private jobQueue: JobQueue, options: Partial<JobWorkerOptions> = {}) {
+    this.options = { ...this.options, ...options };
+  }
+
+  register<T>(queue: QueueName, handler: JobHandler<T>): void {
+    this.handlers.set(queue, handler);
+    this.inFlight.set(queue, new Set());
+  }
+
+  start(): void {
+    if (this.intervalId) {
+      console.warn('Job worker is already running');
+      return;
+    }
+
+    console.log(`Starting job worker for queues: ${Array.from(this.handlers.keys()).join(', ')}`);
+
+    this.intervalId = setInterval(() => {
+      this.poll().catch(error => {
+        console.error('Error polling job queues:', error);
+      });
+    }, this.options.pollIntervalMs);
+  }
+
+  /**
+   * Stop polling and wait for jobs that are already running
+   */
+  async stop(): Promise<void> {
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+
+    const running = Array.from(this.inFlight.values()).flatMap(jobs => Array.from(jobs));
+    await Promise.allSettled(running);
+
+    console.log('Job worker stopped');
+  }
+
+  /**
+   * Reserve and run as many jobs as the concurrency limit allows
+   */
+  async poll(): Promise<void> {
+    if (this.isPolling) {
+      return;
+    }
+
+    this.isPolling = true;
+    try {
+      for (const [queue, handler] of this.handlers) {
+        const running = this.inFlight.get(queue);
+        if (!running) {
+          continue;
+        }
+
+        while (running.size < this.options.concurrency) {
+          const job = await this.jobQueue.reserve(queue);
+          if (!job) {
+            break;
+          }
+
+          const execution = this.execute(job, handler).finally(() => {
+            running.delete(execution);
+          });
+          running.add(execution);
+        }
+      }
+    } finally {
+      this.isPolling = false;
+    }
+  }
+
+  /**
+   * Reserve and run a single job, waiting for it to finish
+   */
+  async processNext(queue: QueueName): Promise<Job | null> {
+    const handler = this.handlers.get(queue);
+    if (!handler) {
+      throw new Error(`No handler registered for queue ${queue}`);
+    }
+
+    const job = await this.jobQueue.reserve(queue);
+    if (!job) {
+      return null;
+    }
+
+    await this.execute(job, handler);
+    return job;
+  }
+
+  private async execute(job: Job, handler: JobHandler): Promise<void> {
+    try {
+      const result = await handler(job);
+      if (isJobDeferral(result)) {
+        await this.jobQueue.defer(job, result.deferUntil, result.reason);
+        return;
+      }
+      await this.jobQueue.complete(job, result);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`Job ${job.id} on queue ${job.queue} failed (attempt ${job.attempts}/${job.maxAttempts}):`, message);
+
+      try {
+        await this.jobQueue.fail(job, message);
+      } catch (failError) {
+        // The visibility timeout will requeue the job if the failure cannot be recorded
+        console.error(`Failed to record failure for job ${job.id}:`, failError);
+      }
+    }
+  }
+}
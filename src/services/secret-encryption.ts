@@ -0,0 +1,338 @@
+import crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { EncryptionService, encryptionService } from './encryption';
+
+export interface EncryptedSecret {
+  keyId: string; // encryption_keys row holding the data key
+  ciphertext: string;
+}
+
+export interface SecretEncryptionOptions {
+  keyRotationDays: number;
+}
+
+// Database interface for dependency injection
+interface DatabaseConnection {
+  query(text: string, params?: unknown[]): Promise<any>;
+}
+
+// How long the active data key of a tenant is trusted before it is looked up
+// again, so keys rotated by another process are picked up
+const ACTIVE_KEY_CACHE_MS = 5 * 60 * 1000;
+
+/**
+ * Envelope encryption for secrets stored in the database, such as platform
+ * tokens and AI provider API keys.
+ *
+ * Each tenant gets its own data key, kept in encryption_keys wrapped by the
+ * master key. Secrets are encrypted with the data key, so the master key
+ * never touches the secrets themselves. Platform-wide secrets use a data key
+ * without a tenant.
+ *
+ * Data keys expire after keyRotationDays and are replaced by rotateDueKeys().
+ * Rotated keys stay readable, so secrets are re-encrypted lazily when read
+ * or in bulk by reEncryptStoredData().
+ */
+export class SecretEncryptionService {
+  private database: DatabaseConnection;
+  private masterEncryption: EncryptionService;
+  private options: SecretEncryptionOptions = {
+    keyRotationDays: parseInt(process.env.ENCRYPTION_KEY_ROTATION_DAYS || '90', 10)
+  };
+  private dataKeys: Map<string, EncryptionService> = new Map();
+  private activeKeyIds: Map<string, { keyId: string; loadedAt: number }> = new Map();
+
+  constructor(
+    database: DatabaseConnection,
+    masterEncryption: EncryptionService = encryptionService,
+    options: Partial<SecretEncryptionOptions> = {}
+  ) {
+    this.database = database;
+    this.masterEncryption = masterEncryption;
+    this.options = { ...this.options, ...options };
+  }
+
+  static isEncrypted(value: unknown): value is EncryptedSecret {
+    return typeof value === 'object' && value !== null &&
+      typeof (value as EncryptedSecret).keyId === 'string' &&
+      typeof (value as EncryptedSecret).ciphertext === 'string';
+  }
+
+  /**
+   * Encrypt a secret with the tenant's data key, creating the key on first use
+   */
+  async encrypt(secret: unknown, tenantId: string | null): Promise<EncryptedSecret> {
+    const keyId = await this.getActiveKeyId(tenantId);
+    const dataKey = await this.getDataKey(keyId);
+
+    return {
+      keyId,
+      ciphertext: dataKey.encryptForStorage(JSON.stringify(secret))
+    };
+  }
+
+  /**
+   * Decrypt a stored secret. Values written before encryption was introduced
+   * are returned as they are until the migration has encrypted them.
+   */
+  async decrypt<T>(value: EncryptedSecret | T): Promise<T> {
+    if (!SecretEncryptionService.isEncrypted(value)) {
+      return value;
+    }
+
+    const dataKey = await this.getDataKey(value.keyId);
+    return JSON.parse(dataKey.decryptFromStorage(value.ciphertext)) as T;
+  }
+
+  /**
+   * Whether a stored secret is unencrypted, uses an outdated format or was
+   * encrypted with a data key that has since been rotated
+   */
+  async needsReEncryption(value: unknown, tenantId: string | null): Promise<boolean> {
+    if (!SecretEncryptionService.isEncrypted(value)) {
+      return true;
+    }
+
+    const dataKey = await this.getDataKey(value.keyId);
+    return dataKey.needsReEncryption(value.ciphertext) ||
+      value.keyId !== await this.getActiveKeyId(tenantId);
+  }
+
+  /**
+   * Replace the active data key of a tenant. The old key is kept, marked
+   * as rotated, so data encrypted with it can still be read.
+   */
+  async rotateDataKey(tenantId: string | null): Promise<string> {
+    await this.database.query(
+      `UPDATE encryption_keys
+      SET key_status = 'rotated', rotated_at = $1
+      WHERE ${tenantId ? 'tenant_id = $2' : 'tenant_id IS NULL'}
+        AND key_type = 'data' AND key_status = 'active'`,
+      tenantId ? [new Date(), tenantId] : [new Date()]
+    );
+
+    const keyId = await this.createDataKey(tenantId);
+    this.activeKeyIds.set(tenantId || 'platform', { keyId, loadedAt: Date.now() });
+    return keyId;
+  }
+
+  /**
+   * Rotate every active data key that has expired
+   * @returns Number of keys rotated
+   */
+  async rotateDueKeys(now: Date = new Date()): Promise<number> {
+    const result = await this.database.query(
+      `SELECT DISTINCT tenant_id FROM encryption_keys
+      WHERE key_type = 'data' AND key_status = 'active'
+        AND expires_at IS NOT NULL AND expires_at <= $1`,
+      [now]
+    );
+
+    for (const row of result.rows) {
+      await this.rotateDataKey(row.tenant_id);
+    }
+
+    return result.rows.length;
+  }
+
+  /**
+   * Encrypt data into encrypted_data
+   * @returns ID of the encrypted_data row
+   */
+  async storeEncryptedData(
+    tenantId: string,
+    dataType: string,
+    data: unknown,
+    metadata: Record<string, unknown> = {}
+  ): Promise<string> {
+    const id = uuidv4();
+    const encrypted = await this.encrypt(data, tenantId);
+
+    await this.database.query(
+      `INSERT INTO encrypted_data (id, tenant_id, data_type, encrypted_content, key_id, metadata)
+      VALUES ($1, $2, $3, $4, $5, $6)`,
+      [id, tenantId, dataType, encrypted.ciphertext, encrypted.keyId, JSON.stringify(metadata)]
+    );
+
+    return id;
+  }
+
+  /**
+   * Read data from encrypted_data, re-encrypting it with the tenant's active
+   * data key if it was encrypted with a rotated key or the legacy format
+   */
+  async readEncryptedData<T>(id: string, tenantId: string): Promise<T | null> {
+    const result = await this.database.query(
+      'SELECT id, tenant_id, encrypted_content, key_id FROM encrypted_data WHERE id = $1 AND tenant_id = $2',
+      [id, tenantId]
+    );
+
+    const row = result.rows[0];
+    if (!row) {
+      return null;
+    }
+
+    const stored: EncryptedSecret = { keyId: row.key_id, ciphertext: row.encrypted_content };
+    const data = await this.decrypt<T>(stored);
+
+    if (await this.needsReEncryption(stored, tenantId)) {
+      await this.updateEncryptedData(row.id, await this.encrypt(data, tenantId));
+    }
+
+    return data;
+  }
+
+  /**
+   * Re-encrypt encrypted_data rows written with rotated keys or the legacy
+   * format. Works through the table in batches until nothing is left.
+   * @returns Number of rows re-encrypted
+   */
+  async reEncryptStoredData(batchSize: number = 100): Promise<number> {
+    let reEncrypted = 0;
+
+    // Re-encrypted rows must not land on a key another process has rotated
+    this.activeKeyIds.clear();
+
+    for (;;) {
+      const result = await this.database.query(
+        `SELECT d.id, d.tenant_id, d.encrypted_content, d.key_id
+        FROM encrypted_data d
+        JOIN encryption_keys k ON k.id = d.key_id
+        WHERE k.key_status <> 'active' OR d.encrypted_content NOT LIKE $1
+        ORDER BY d.created_at ASC
+        LIMIT $2`,
+        [`v${this.masterEncryption.getConfig().version}:%`, batchSize]
+      );
+
+      for (const row of result.rows) {
+        const data = await this.decrypt({ keyId: row.key_id, ciphertext: row.encrypted_content });
+        await this.updateEncryptedData(row.id, await this.encrypt(data, row.tenant_id));
+      }
+
+      reEncrypted += result.rows.length;
+      if (result.rows.length < batchSize) {
+        return reEncrypted;
+      }
+    }
+  }
+
+  private async updateEncryptedData(id: string, encrypted: EncryptedSecret): Promise<void> {
+    await this.database.query(
+      'UPDATE encrypted_data SET encrypted_content = $1, key_id = $2 WHERE id = $3',
+      [encrypted.ciphertext, encrypted.keyId, id]
+    );
+  }
+
+  private async getActiveKeyId(tenantId: string | null): Promise<string> {
+    const scope = tenantId || 'platform';
+    const cached = this.activeKeyIds.get(scope);
+    if (cached && Date.now() - cached.loadedAt < ACTIVE_KEY_CACHE_MS) {
+      return cached.keyId;
+    }
+
+    const result = await this.database.query(
+      `SELECT id FROM encryption_keys
+      WHERE ${tenantId ? 'tenant_id = $1' : 'tenant_id IS NULL'}
+        AND key_type = 'data' AND key_status = 'active'
+      ORDER BY created_at DESC
+      LIMIT 1`,
+      tenantId ? [tenantId] : []
+    );
+
+    const keyId = result.rows[0]?.id || await this.createDataKey(tenantId);
+    this.activeKeyIds.set(scope, { keyId, loadedAt: Date.now() });
+    return keyId;
+  }
+
+  private async createDataKey(tenantId: string | null): Promise<string> {
+    const keyId = uuidv4();
+    const key = EncryptionService.generateMasterKey();
+    const expiresAt = new Date(Date.now() + this.options.keyRotationDays * 24 * 60 * 60 * 1000);
+
+    await this.database.query(
+      `INSERT INTO encryption_keys (id, tenant_id, key_type, key_hash, encrypted_key, algorithm, key_status, expires_at)
+      VALUES ($1, $2, 'data', $3, $4, $5, 'active', $6)`,
+      [
+        keyId,
+        tenantId,
+        crypto.createHash('sha256').update(key).digest('hex'),
+        this.masterEncryption.encryptForStorage(key),
+        this.masterEncryption.getConfig().algorithm,
+        expiresAt
+      ]
+    );
+
+    this.dataKeys.set(keyId, new EncryptionService(key, keyId));
+    return keyId;
+  }
+
+  private async getDataKey(keyId: string): Promise<EncryptionService> {
+    const cached = this.dataKeys.get(keyId);
+    if (cached) {
+      return cached;
+    }
+
+    const result = await this.database.query(
+      'SELECT encrypted_key FROM encryption_keys WHERE id = $1',
+      [keyId]
+    );
+
+    const row = result.rows[0];
+    if (!row?.encrypted_key) {
+      throw new Error(`Encryption key not found: ${keyId}`);
+    }
+
+    const dataKey = new EncryptionService(this.masterEncryption.decryptFromStorage(row.encrypted_key), keyId);
+    this.dataKeys.set(keyId, dataKey);
+    return dataKey;
+  }
+}
+
+export interface SecretMigrationSummary {
+  platformCredentials: number;
+  aiProviders: number;
+}
+
+/**
+ * Encrypt platform credentials and AI provider API keys stored before
+ * envelope encryption was introduced. Rows that are already encrypted are
+ * skipped, so it is safe to run again.
+ */
+export async function encryptStoredSecrets(
+  database: DatabaseConnection,
+  secretEncryption: SecretEncryptionService = new SecretEncryptionService(database)
+): Promise<SecretMigrationSummary> {
+  const summary: SecretMigrationSummary = { platformCredentials: 0, aiProviders: 0 };
+  const parse = (value: unknown) => typeof value === 'string' ? JSON.parse(value) : value;
+
+  const credentials = await database.query('SELECT id, tenant_id, credentials FROM platform_credentials');
+  for (const row of credentials.rows) {
+    const stored = parse(row.credentials);
+    if (SecretEncryptionService.isEncrypted(stored)) {
+      continue;
+    }
+
+    await database.query(
+      'UPDATE platform_credentials SET credentials = $1 WHERE id = $2',
+      [JSON.stringify(await secretEncryption.encrypt(stored, row.tenant_id)), row.id]
+    );
+    summary.platformCredentials++;
+  }
+
+  const providers = await database.query('SELECT id, tenant_id, config FROM ai_providers');
+  for (const row of providers.rows) {
+    const config = parse(row.config) || {};
+    if (typeof config.apiKey !== 'string') {
+      continue;
+    }
+
+    const encryptedConfig = { ...config, apiKey: await secretEncryption.encrypt(config.apiKey, row.tenant_id) };
+    await database.query(
+      'UPDATE ai_providers SET config = $1 WHERE id = $2',
+      [JSON.stringify(encryptedConfig), row.id]
+    );
+    summary.aiProviders++;
+  }
+
+  return summary;
+}
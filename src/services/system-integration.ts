@@ -5,6 +5,7 @@ import { WorkflowEngine } from './workflow';
 import { ContentService } from './content';
 import { BriefingService } from './briefing';
 import { PublisherService } from './publishing/publisher-service';
+import { platformRateGovernor } from './publishing/rate-governor';
 import { CalendarSchedulerService } from './calendar-scheduler';
 import { AnalyticsService } from './analytics';
 import { BillingService } from './billing';
@@ -32,7 +33,7 @@ export class SystemIntegrationService {
     this.workflowEngine = new WorkflowEngine(db);
     this.contentService = new ContentService(db);
     this.briefingService = new BriefingService(db);
-    this.publisherService = new PublisherService(db);
+    this.publisherService = new PublisherService(db, platformRateGovernor);
     this.calendarScheduler = new CalendarSchedulerService(db);
     this.analyticsService = new AnalyticsService(db);
     this.billingService = new BillingService(db);
@@ -0,0 +1,64 @@
+import { Tenant, TenantContext, User } from '../types';
+import { DatabasePool } from '../interfaces/database';
+
+/**
+ * Load the tenant context for work that runs outside a request, such as
+ * queued jobs and scheduled publishes. Jobs store only the tenant and user
+ * IDs, so the context always reflects the current tenant and user.
+ * @returns null when the tenant or user no longer exists
+ */
+export async function loadTenantContext(db: DatabasePool, tenantId: string, userId: string): Promise<TenantContext | null> {
+  const result = await db.query(`
+    SELECT t.*, u.id as user_id, u.email as user_email, u.name as user_name
+    FROM tenants t
+    JOIN users u ON u.id = $2 AND u.tenant_id = t.id
+    WHERE t.id = $1
+  `, [tenantId, userId]);
+
+  const row = result.rows[0];
+  if (!row) {
+    return null;
+  }
+
+  const tenant: Tenant = {
+    id: row.id,
+    name: row.name,
+    type: row.type,
+    parentId: row.parent_id,
+    brandConfig: parseJson(row.brand_config),
+    settings: parseJson(row.settings),
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at)
+  };
+
+  const user: User = {
+    id: row.user_id,
+    email: row.user_email,
+    name: row.user_name,
+    passwordHash: '',
+    tenantId: row.id,
+    roles: [],
+    permissions: [],
+    isActive: true,
+    createdAt: new Date(),
+    updatedAt: new Date()
+  };
+
+  return {
+    tenantId: tenant.id,
+    tenant,
+    user,
+    permissions: []
+  };
+}
+
+function parseJson(value: unknown): any {
+  if (typeof value === 'string') {
+    try {
+      return JSON.parse(value);
+    } catch {
+      return {};
+    }
+  }
+  return value || {};
+}
@@ -16,32 +16,50 @@ import {
   Platform
 } from '../types/index.js';
 import { AIIntegrationHub } from './ai-hub.js';
+import { AIServiceRouter } from './ai-routing.js';
+import { aiBillingService } from './ai-billing.js';
 import { BriefingService } from './briefing.js';
 import { BestPracticesService } from './best-practices.js';
+import { PromptTemplateService, PromptVariables } from './prompt-templates.js';
 import { WorkflowEngine } from './workflow.js';
 import { DatabasePool, DatabaseClient } from '../interfaces/database.js';
 
+// Streaming callbacks for script generation over Server-Sent Events
+export interface ScriptGenerationProgress {
+  onSectionStart(section: ScriptTemplateSection, index: number, total: number): void;
+  onToken(sectionType: ScriptSectionType, text: string): void;
+  onSectionComplete(section: ScriptSection, index: number, total: number): void;
+  signal?: AbortSignal; // aborted when the client disconnects
+}
+
 export class VideoScriptService {
   private db: DatabasePool;
   private aiHub: AIIntegrationHub;
+  private aiRouter: AIServiceRouter;
   private briefingService: BriefingService;
   private bestPracticesService: BestPracticesService;
+  private promptTemplateService: PromptTemplateService;
   private workflowEngine: WorkflowEngine;
 
   constructor(db: DatabasePool) {
     this.db = db;
     this.aiHub = new AIIntegrationHub(db);
+    this.aiRouter = new AIServiceRouter(this.aiHub);
     this.briefingService = new BriefingService(db);
     this.bestPracticesService = new BestPracticesService(db);
+    this.promptTemplateService = new PromptTemplateService(db);
     this.workflowEngine = new WorkflowEngine(db);
   }
 
   /**
-   * Generate a new video script based on briefing and template
+   * Generate a new video script based on briefing and template. With
+   * progress callbacks each section is streamed as it is written; an
+   * aborted stream bills the section in progress and saves nothing.
    */
   async generateScript(
     request: ScriptGenerationRequest,
-    tenantContext: TenantContext
+    tenantContext: TenantContext,
+    progress?: ScriptGenerationProgress
   ): Promise<VideoScript> {
     // Validate briefing exists and is active (Requirement 9.1)
     const briefing = await this.briefingService.getBriefing(request.briefingId, tenantContext);
@@ -56,7 +74,7 @@ export class VideoScriptService {
     }
 
     // Generate script sections using AI (Requirement 9.1)
-    const sections = await this.generateScriptSections(request, template, briefing, tenantContext);
+    const sections = await this.generateScriptSections(request, template, briefing, tenantContext, progress);
 
     // Create script record
     const scriptId = uuidv4();
@@ -145,7 +163,8 @@ export class VideoScriptService {
     request: ScriptGenerationRequest,
     template: ScriptTemplate,
     briefing: any,
-    tenantContext: TenantContext
+    tenantContext: TenantContext,
+    progress?: ScriptGenerationProgress
   ): Promise<ScriptSection[]> {
     const sections: ScriptSection[] = [];
 
@@ -158,14 +177,22 @@ export class VideoScriptService {
     );
 
     // Generate each required section
-    for (const templateSection of template.sections) {
+    for (const [index, templateSection] of template.sections.entries()) {
+      // Stop before spending credits on sections nobody is waiting for
+      if (progress?.signal?.aborted) {
+        throw new Error('Script generation aborted');
+      }
+
+      progress?.onSectionStart(templateSection, index, template.sections.length);
+
       const sectionContent = await this.generateSectionContent(
         templateSection,
         request,
         briefing,
         brandVoiceGuidelines,
         bestPractices,
-        tenantContext
+        tenantContext,
+        progress
       );
 
       const section: ScriptSection = {
@@ -184,6 +211,7 @@ export class VideoScriptService {
       };
 
       sections.push(section);
+      progress?.onSectionComplete(section, index, template.sections.length);
     }
 
     return sections.sort((a, b) => a.order - b.order);
@@ -198,15 +226,14 @@ export class VideoScriptService {
     briefing: any,
     brandVoiceGuidelines: string[],
     bestPractices: string[],
-    tenantContext: TenantContext
+    tenantContext: TenantContext,
+    progress?: ScriptGenerationProgress
   ): Promise<string> {
     // Build section-specific prompt
-    const prompt = this.buildSectionPrompt(
-      templateSection,
-      request,
-      briefing,
-      brandVoiceGuidelines,
-      bestPractices
+    const { prompt, template } = await this.promptTemplateService.renderPrompt(
+      'video_script_section',
+      this.getSectionPromptVariables(templateSection, request, briefing, brandVoiceGuidelines, bestPractices),
+      tenantContext
     );
 
     // Create AI request
@@ -214,6 +241,7 @@ export class VideoScriptService {
       id: uuidv4(),
       type: 'text',
       prompt,
+      promptTemplate: template,
       options: {
         maxTokens: 500,
         temperature: 0.7,
@@ -230,102 +258,68 @@ export class VideoScriptService {
       createdAt: new Date()
     };
 
+    // The router picks the provider with the request type's strategy; when it
+    // has no provider to pick, the hub falls back to provider priority
+    const decision = await this.aiRouter.decideRoute(aiRequest).catch(() => null) || undefined;
+
     // Route request through AI hub
-    const aiResponse = await this.aiHub.routeRequest(aiRequest);
+    const aiResponse = progress
+      ? await this.aiHub.streamRequest(aiRequest, text => progress.onToken(templateSection.type, text), progress.signal, decision)
+      : await this.aiHub.routeRequest(aiRequest, decision);
 
     if (aiResponse.status === 'error') {
       throw new Error(`Section generation failed for ${templateSection.type}: ${aiResponse.error}`);
     }
 
+    if (progress) {
+      await aiBillingService.trackUsage(aiRequest, aiResponse);
+      if (aiResponse.status === 'partial') {
+        throw new Error('Script generation aborted');
+      }
+    }
+
     return typeof aiResponse.content.data === 'string' ? 
       aiResponse.content.data : 
       JSON.stringify(aiResponse.content.data);
   }
 
   /**
-   * Build AI prompt for specific script section
+   * Variables for the section prompt template
    */
-  private buildSectionPrompt(
+  private getSectionPromptVariables(
     templateSection: ScriptTemplateSection,
     request: ScriptGenerationRequest,
     briefing: any,
     brandVoiceGuidelines: string[],
     bestPractices: string[]
-  ): string {
-    let prompt = `Generate ${templateSection.type} content for a video script.\n\n`;
-
-    prompt += `SECTION: ${templateSection.title}\n`;
-    prompt += `DESCRIPTION: ${templateSection.description}\n\n`;
-
-    if (templateSection.suggestedDuration) {
-      prompt += `TARGET DURATION: ${templateSection.suggestedDuration} seconds\n\n`;
-    }
-
-    // Add briefing context
-    prompt += `BRIEFING CONTEXT:\n`;
-    prompt += `Title: ${briefing.title}\n`;
-    prompt += `Type: ${briefing.type}\n`;
-    Object.entries(briefing.fields).forEach(([key, value]) => {
-      if (value && typeof value === 'string' && value.trim()) {
-        prompt += `${key}: ${value}\n`;
-      }
-    });
-    prompt += '\n';
-
-    // Add script context
-    prompt += `SCRIPT TITLE: ${request.title}\n`;
-    if (request.description) {
-      prompt += `SCRIPT DESCRIPTION: ${request.description}\n`;
-    }
-    prompt += `TARGET PLATFORM: ${request.targetPlatform}\n\n`;
-
-    // Add brand voice guidelines (Requirement 9.4)
-    if (brandVoiceGuidelines.length > 0) {
-      prompt += `BRAND VOICE GUIDELINES:\n${brandVoiceGuidelines.join('\n')}\n\n`;
-    }
-
-    // Add best practices
-    if (bestPractices.length > 0) {
-      prompt += `BEST PRACTICES:\n${bestPractices.join('\n')}\n\n`;
-    }
-
-    // Add section-specific prompts
-    if (templateSection.prompts.length > 0) {
-      prompt += `SECTION GUIDELINES:\n${templateSection.prompts.join('\n')}\n\n`;
-    }
-
-    // Add examples if available
-    if (templateSection.examples && templateSection.examples.length > 0) {
-      prompt += `EXAMPLES:\n${templateSection.examples.join('\n')}\n\n`;
-    }
-
-    // Add custom prompts if provided
-    if (request.customPrompts && request.customPrompts[templateSection.type]) {
-      prompt += `CUSTOM INSTRUCTIONS:\n${request.customPrompts[templateSection.type]}\n\n`;
-    }
-
+  ): PromptVariables {
     // Add section-specific instructions
-    switch (templateSection.type) {
-      case ScriptSectionType.HOOK:
-        prompt += 'Generate an attention-grabbing opening that hooks the viewer within the first 3-5 seconds.';
-        break;
-      case ScriptSectionType.STORYTELLING:
-        prompt += 'Create compelling narrative content that engages the audience and supports the main message.';
-        break;
-      case ScriptSectionType.TONE:
-        prompt += 'Define the emotional tone and style that should be maintained throughout the video.';
-        break;
-      case ScriptSectionType.EMOTIONS:
-        prompt += 'Specify the emotional journey and feelings the video should evoke in viewers.';
-        break;
-      case ScriptSectionType.CTA:
-        prompt += 'Create a clear, compelling call-to-action that drives the desired viewer response.';
-        break;
-      default:
-        prompt += `Generate appropriate content for the ${templateSection.type} section.`;
-    }
+    const sectionInstructions: Partial<Record<ScriptSectionType, string>> = {
+      [ScriptSectionType.HOOK]: 'Generate an attention-grabbing opening that hooks the viewer within the first 3-5 seconds.',
+      [ScriptSectionType.STORYTELLING]: 'Create compelling narrative content that engages the audience and supports the main message.',
+      [ScriptSectionType.TONE]: 'Define the emotional tone and style that should be maintained throughout the video.',
+      [ScriptSectionType.EMOTIONS]: 'Specify the emotional journey and feelings the video should evoke in viewers.',
+      [ScriptSectionType.CTA]: 'Create a clear, compelling call-to-action that drives the desired viewer response.'
+    };
 
-    return prompt;
+    return {
+      ...this.promptTemplateService.getBriefingVariables(briefing),
+      sectionType: templateSection.type,
+      sectionTitle: templateSection.title,
+      sectionDescription: templateSection.description,
+      targetDuration: templateSection.suggestedDuration ? String(templateSection.suggestedDuration) : undefined,
+      scriptTitle: request.title,
+      scriptDescription: request.description,
+      targetPlatform: request.targetPlatform,
+      // Brand voice guidelines (Requirement 9.4)
+      brandVoice: brandVoiceGuidelines,
+      bestPractices,
+      sectionGuidelines: templateSection.prompts,
+      examples: templateSection.examples,
+      customInstructions: request.customPrompts?.[templateSection.type],
+      sectionInstructions: sectionInstructions[templateSection.type] ||
+        `Generate appropriate content for the ${templateSection.type} section.`
+    };
   }
 
   /**
@@ -874,7 +868,8 @@ export class VideoScriptService {
     request: ScriptGenerationRequest,
     template: ScriptTemplate,
     briefing: any,
-    tenantContext: TenantContext
+    tenantContext: TenantContext,
+    progress?: ScriptGenerationProgress
   ): Promise<ScriptSection[]> {
     const sections: ScriptSection[] = [];
 
@@ -887,14 +882,22 @@ export class VideoScriptService {
     );
 
     // Generate each required section with brand voice integration
-    for (const templateSection of template.sections) {
+    for (const [index, templateSection] of template.sections.entries()) {
+      // Stop before spending credits on sections nobody is waiting for
+      if (progress?.signal?.aborted) {
+        throw new Error('Script generation aborted');
+      }
+
+      progress?.onSectionStart(templateSection, index, template.sections.length);
+
       const sectionContent = await this.generateSectionContent(
         templateSection,
         request,
         briefing,
         brandVoiceGuidelines,
         bestPractices,
-        tenantContext
+        tenantContext,
+        progress
       );
 
       const section: ScriptSection = {
@@ -915,6 +918,7 @@ export class VideoScriptService {
       };
 
       sections.push(section);
+      progress?.onSectionComplete(section, index, template.sections.length);
     }
 
     return sections.sort((a, b) => a.order - b.order);
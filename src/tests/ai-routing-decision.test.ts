@@ -0,0 +1,187 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { AIIntegrationHub } from '../services/ai-hub';
+import { AIServiceRouter } from '../services/ai-routing';
+import { ContentGenerationService } from '../services/content-generation';
+import { db } from '../config/database';
+import {
+  AIProvider,
+  AIProviderInterface,
+  AIRequest,
+  Briefing,
+  ContentGenerationRequest,
+  GenerationOptions,
+  RoutingDecision,
+  TenantContext
+} from '../types';
+
+describe('AI Routing Decisions', () => {
+  const request: AIRequest = {
+    id: 'request-1',
+    type: 'image',
+    prompt: 'A latte on a wooden table',
+    options: { model: 'dall-e-3' },
+    tenantId: 'tenant-1',
+    userId: 'user-1',
+    createdAt: new Date()
+  };
+
+  const createProvider = (id: string, fail: boolean = false) => {
+    const generateContent = vi.fn(async (prompt: string, options: GenerationOptions) => {
+      if (fail) {
+        throw new Error(`${id} is down`);
+      }
+      return { type: 'image' as const, data: `${id}:${options.model}` };
+    });
+    const provider = {
+      id,
+      name: id,
+      capabilities: [],
+      authenticate: async () => true,
+      generateContent,
+      checkHealth: async () => ({ isHealthy: true, responseTime: 100, timestamp: new Date() }),
+      getUsage: async () => ({ creditsConsumed: 4, requestCount: 1, processingTime: 10 })
+    } as unknown as AIProviderInterface;
+    return { provider, generateContent };
+  };
+
+  const createHub = (providers: AIProviderInterface[]) => {
+    const database = { query: vi.fn(async () => ({ rows: [] })) };
+    const hub = new AIIntegrationHub(database);
+    hub.stopHealthMonitoring();
+    for (const provider of providers) {
+      hub['providers'].set(provider.id, provider);
+    }
+    return { hub, database };
+  };
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should dispatch to the decided provider and model and log the decision', async () => {
+    const first = createProvider('provider-a');
+    const second = createProvider('provider-b');
+    const { hub, database } = createHub([first.provider, second.provider]);
+    const decision: RoutingDecision = {
+      strategy: 'cost_optimized',
+      providerId: 'provider-b',
+      model: 'sdxl',
+      fallbackChain: [{ providerId: 'provider-a' }]
+    };
+
+    const response = await hub.routeRequest(request, decision);
+
+    expect(response).toMatchObject({ status: 'success', providerId: 'provider-b', routing: decision });
+    expect(response.content.data).toBe('provider-b:sdxl');
+    expect(first.generateContent).not.toHaveBeenCalled();
+
+    const logCall = database.query.mock.calls.find(([query]) => String(query).includes('INSERT INTO ai_request_logs'));
+    expect(logCall?.[1]).toContain(JSON.stringify(decision));
+  });
+
+  it('should walk the fallback chain in order when the selected provider fails', async () => {
+    const failing = createProvider('provider-a', true);
+    const fallback = createProvider('provider-b');
+    const { hub } = createHub([failing.provider, fallback.provider]);
+
+    const response = await hub.routeRequest(request, {
+      strategy: 'performance_based',
+      providerId: 'provider-a',
+      fallbackChain: [{ providerId: 'unregistered' }, { providerId: 'provider-b', model: 'sdxl' }]
+    });
+
+    expect(response.status).toBe('success');
+    expect(response.providerId).toBe('provider-b');
+    expect(response.content.data).toBe('provider-b:sdxl');
+    expect(failing.generateContent).toHaveBeenCalledWith(request.prompt, { model: 'dall-e-3' });
+  });
+
+  it('should route with the strategy of the request type and pass the decision to the hub', async () => {
+    vi.spyOn(db, 'query').mockResolvedValue({ rows: [{ total_requests: '0', successful_requests: '0' }] });
+    const providers = ['provider-a', 'provider-b'].map(id => ({
+      id,
+      name: id,
+      type: 'image',
+      capabilities: [{ type: 'image_generation', models: id === 'provider-a' ? ['dall-e-3'] : ['sdxl'] }],
+      config: { apiKey: 'key' },
+      isActive: true,
+      healthStatus: { isHealthy: true, lastChecked: new Date(), responseTime: 100, consecutiveFailures: 0 },
+      tenantId: 'tenant-1',
+      createdAt: new Date(),
+      updatedAt: new Date()
+    })) as AIProvider[];
+    const hub = {
+      getProviders: vi.fn(async () => providers),
+      routeRequest: vi.fn(async (routed: AIRequest, decision: RoutingDecision) => ({
+        id: 'response-1',
+        requestId: routed.id,
+        providerId: decision.providerId,
+        content: { type: 'image' as const, data: 'image' },
+        usage: { creditsConsumed: 4, requestCount: 1, processingTime: 10 },
+        status: 'success' as const,
+        processingTime: 10,
+        routing: decision,
+        createdAt: new Date()
+      }))
+    } as unknown as AIIntegrationHub;
+
+    const response = await new AIServiceRouter(hub).routeRequest(request);
+
+    expect(response.routing).toEqual({
+      strategy: 'cost_optimized',
+      providerId: 'provider-a',
+      model: 'dall-e-3',
+      fallbackChain: [{ providerId: 'provider-b', model: 'sdxl' }]
+    });
+    expect(hub.routeRequest).toHaveBeenCalledWith(request, response.routing);
+  });
+
+  it('should generate content with the provider the strategy picked', async () => {
+    vi.spyOn(db, 'query').mockResolvedValue({ rows: [{ total_requests: '0', successful_requests: '0' }] });
+    const service = new ContentGenerationService({ query: vi.fn(async () => ({ rows: [] })) } as any);
+    const hub = service['aiHub'];
+    hub.stopHealthMonitoring();
+    vi.spyOn(service['bestPracticesService'], 'formatBrandVoiceForPrompt').mockResolvedValue([]);
+    vi.spyOn(service['bestPracticesService'], 'formatBestPracticesForPrompt').mockResolvedValue([]);
+
+    // Text requests go to the provider with the best response time
+    const providers = [['provider-a', 900], ['provider-b', 200]].map(([id, responseTime]) => ({
+      id,
+      name: id,
+      type: 'text',
+      capabilities: [{ type: 'text_generation', models: [`${id}-model`] }],
+      config: { apiKey: 'key' },
+      isActive: true,
+      healthStatus: { isHealthy: true, lastChecked: new Date(), responseTime, consecutiveFailures: 0 },
+      tenantId: 'tenant-1',
+      createdAt: new Date(),
+      updatedAt: new Date()
+    })) as AIProvider[];
+    vi.spyOn(hub, 'getProviders').mockResolvedValue(providers);
+    const slow = createProvider('provider-a');
+    const fast = createProvider('provider-b');
+    hub['providers'].set('provider-a', slow.provider);
+    hub['providers'].set('provider-b', fast.provider);
+    const routeRequest = vi.spyOn(hub, 'routeRequest');
+
+    const generationRequest: ContentGenerationRequest = {
+      briefingId: 'briefing-1',
+      contentType: 'text',
+      title: 'Autumn menu',
+      targetPlatforms: ['instagram']
+    };
+    const briefing = { id: 'briefing-1', title: 'Autumn', type: 'internal', fields: {} } as unknown as Briefing;
+    const tenantContext = { tenantId: 'tenant-1', user: { id: 'user-1' } } as TenantContext;
+
+    await service['generateBaseContent'](generationRequest, briefing, tenantContext);
+
+    expect(routeRequest).toHaveBeenCalledWith(expect.objectContaining({ type: 'text' }), {
+      strategy: 'performance_based',
+      providerId: 'provider-b',
+      model: 'provider-b-model',
+      fallbackChain: [{ providerId: 'provider-a', model: 'provider-a-model' }]
+    });
+    expect(fast.generateContent).toHaveBeenCalledWith(expect.any(String), expect.objectContaining({ model: 'provider-b-model' }));
+    expect(slow.generateContent).not.toHaveBeenCalled();
+  });
+});
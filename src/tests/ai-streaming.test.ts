@@ -0,0 +1,192 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { AIIntegrationHub } from '../services/ai-hub';
+import { AnthropicProvider } from '../services/ai-providers/anthropic-provider';
+import { OpenAIProvider } from '../services/ai-providers/openai-provider';
+import { ContentGenerationService, ContentGenerationRequest } from '../services/content-generation';
+import { VideoScriptService } from '../services/video-script';
+import { aiBillingService } from '../services/ai-billing';
+import { AIProviderInterface, AIRequest, Briefing, ScriptTemplate, TenantContext } from '../types';
+
+describe('AI Streaming Generation', () => {
+  const encoder = new TextEncoder();
+
+  // Chunks are split mid-event to check events are reassembled
+  const eventStream = (chunks: string[]) => new Response(new ReadableStream({
+    start(controller) {
+      chunks.forEach(chunk => controller.enqueue(encoder.encode(chunk)));
+      controller.close();
+    }
+  }), { status: 200, headers: { 'Content-Type': 'text/event-stream' } });
+
+  const request: AIRequest = {
+    id: 'request-1',
+    type: 'text',
+    prompt: 'Write a caption for the autumn menu',
+    options: {},
+    tenantId: 'tenant-1',
+    userId: 'user-1',
+    createdAt: new Date()
+  };
+
+  const createHub = (providers: AIProviderInterface[]) => {
+    const hub = new AIIntegrationHub({ query: vi.fn(async () => ({ rows: [] })) });
+    hub.stopHealthMonitoring();
+    for (const provider of providers) {
+      hub['providers'].set(provider.id, provider);
+    }
+    return hub;
+  };
+
+  const decision = (...providerIds: string[]) => ({
+    providerId: providerIds[0]!,
+    strategy: 'priority',
+    fallbackChain: providerIds.slice(1).map(providerId => ({ providerId }))
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should stream Anthropic text deltas with the reported usage', async () => {
+    global.fetch = vi.fn()
+      .mockResolvedValueOnce(new Response('{"data":[]}', { status: 200 }))
+      .mockResolvedValueOnce(eventStream([
+        'event: message_start\ndata: {"type":"message_start","message":{"model":"claude-sonnet-4-5","usage":{"input_tokens":42}}}\n\n',
+        'event: content_block_delta\ndata: {"type":"content_block_delta","delta":{"type":"text_delta","text":"Autumn "}}\n\nevent: content_bl',
+        'ock_delta\ndata: {"type":"content_block_delta","delta":{"type":"text_delta","text":"is here."}}\n\n',
+        'event: message_delta\ndata: {"type":"message_delta","delta":{"stop_reason":"end_turn"},"usage":{"output_tokens":6}}\n\n'
+      ]));
+    const provider = new AnthropicProvider();
+    await provider.authenticate({ apiKey: 'sk-ant-test' });
+    const tokens: string[] = [];
+
+    const response = await createHub([provider]).streamRequest(request, text => tokens.push(text), undefined, decision('anthropic'));
+
+    expect(tokens).toEqual(['Autumn ', 'is here.']);
+    expect(JSON.parse(vi.mocked(global.fetch).mock.calls[1]![1]!.body as string)).toMatchObject({ stream: true });
+    expect(response).toMatchObject({
+      status: 'success',
+      providerId: 'anthropic',
+      content: { data: 'Autumn is here.', metadata: { stopReason: 'end_turn', promptTokens: 42, completionTokens: 6 } },
+      usage: { tokensUsed: 48, requestCount: 1 }
+    });
+  });
+
+  it('should return a partial response with estimated usage when the client aborts', async () => {
+    global.fetch = vi.fn()
+      .mockResolvedValueOnce(new Response('{"data":[]}', { status: 200 }))
+      .mockImplementationOnce(async (url: string, init: RequestInit) => new Response(new ReadableStream({
+        start(controller) {
+          controller.enqueue(encoder.encode('data: {"choices":[{"delta":{"content":"Golden leaves, warm cups"}}]}\n\n'));
+          init.signal!.addEventListener('abort', () => controller.error(init.signal!.reason));
+        }
+      }), { status: 200 }));
+    const provider = new OpenAIProvider();
+    await provider.authenticate({ apiKey: 'sk-test' });
+    const controller = new AbortController();
+
+    const response = await createHub([provider]).streamRequest(request, () => controller.abort(), controller.signal, decision('openai'));
+
+    expect(response.status).toBe('partial');
+    expect(response.content).toMatchObject({ data: 'Golden leaves, warm cups', metadata: { aborted: true, completionTokens: 6 } });
+    expect(response.usage.tokensUsed).toBe(15); // 9 prompt and 6 completion tokens, estimated
+  });
+
+  it('should fall back before the first token but not after it', async () => {
+    const failing = (id: string, tokens: string[]) => ({
+      id,
+      name: id,
+      capabilities: [],
+      generateContent: vi.fn(),
+      streamContent: vi.fn(async (prompt: string, options: unknown, onToken: (text: string) => void) => {
+        tokens.forEach(onToken);
+        throw new Error(`${id} dropped the connection`);
+      })
+    }) as unknown as AIProviderInterface;
+    const whole = {
+      id: 'whole',
+      name: 'whole',
+      capabilities: [],
+      generateContent: vi.fn(async () => ({ type: 'text' as const, data: 'Full caption', metadata: { tokensUsed: 20 } }))
+    } as unknown as AIProviderInterface;
+
+    const tokens: string[] = [];
+    const response = await createHub([failing('early', []), whole]).streamRequest(request, text => tokens.push(text), undefined, decision('early', 'whole'));
+
+    // Providers without streaming send their text as a single token
+    expect(response).toMatchObject({ status: 'success', providerId: 'whole', usage: { tokensUsed: 20 } });
+    expect(tokens).toEqual(['Full caption']);
+
+    const late = await createHub([failing('late', ['Half a ']), whole]).streamRequest(request, () => {}, undefined, decision('late', 'whole'));
+
+    expect(late).toMatchObject({ status: 'error', error: 'late dropped the connection' });
+    expect(whole.generateContent).toHaveBeenCalledTimes(1);
+  });
+
+  it('should bill streamed content generation even when it is aborted', async () => {
+    const service = new ContentGenerationService({ query: vi.fn(async () => ({ rows: [] })) } as any);
+    service['aiHub'].stopHealthMonitoring();
+    vi.spyOn(service['bestPracticesService'], 'formatBrandVoiceForPrompt').mockResolvedValue([]);
+    vi.spyOn(service['bestPracticesService'], 'formatBestPracticesForPrompt').mockResolvedValue([]);
+    const trackUsage = vi.spyOn(aiBillingService, 'trackUsage').mockResolvedValue({ success: true, creditsConsumed: 1, remainingCredits: 99 });
+    const streamRequest = vi.spyOn(service['aiHub'], 'streamRequest').mockImplementation(async (aiRequest, onToken) => {
+      onToken('Autumn');
+      return {
+        id: 'response-1',
+        requestId: aiRequest.id,
+        providerId: 'openai',
+        content: { type: 'text', data: 'Autumn', metadata: { aborted: true } },
+        usage: { tokensUsed: 120, creditsConsumed: 0, requestCount: 1, processingTime: 900 },
+        status: 'partial',
+        processingTime: 900,
+        createdAt: new Date()
+      };
+    });
+
+    const generationRequest: ContentGenerationRequest = {
+      briefingId: 'briefing-1',
+      contentType: 'text',
+      title: 'Autumn menu',
+      targetPlatforms: ['instagram']
+    };
+    const briefing = { id: 'briefing-1', title: 'Autumn', type: 'internal', fields: {} } as unknown as Briefing;
+    const tenantContext = { tenantId: 'tenant-1', user: { id: 'user-1' } } as TenantContext;
+    const onToken = vi.fn();
+
+    await expect(service['generateBaseContent'](generationRequest, briefing, tenantContext, { onToken }))
+      .rejects.toThrow('Content generation aborted');
+
+    expect(onToken).toHaveBeenCalledWith('Autumn');
+    expect(streamRequest).toHaveBeenCalledTimes(1);
+    expect(trackUsage).toHaveBeenCalledWith(
+      expect.objectContaining({ tenantId: 'tenant-1', briefingId: 'briefing-1' }),
+      expect.objectContaining({ status: 'partial', usage: expect.objectContaining({ tokensUsed: 120 }) })
+    );
+  });
+
+  it('should stop generating script sections once the client disconnects', async () => {
+    const service = new VideoScriptService({ query: vi.fn(async () => ({ rows: [] })) } as any);
+    service['aiHub'].stopHealthMonitoring();
+    vi.spyOn(service['bestPracticesService'], 'formatBrandVoiceForPrompt').mockResolvedValue([]);
+    vi.spyOn(service['bestPracticesService'], 'formatBestPracticesForPrompt').mockResolvedValue([]);
+    const generateSectionContent = vi.spyOn(service as any, 'generateSectionContent').mockResolvedValue('Section text');
+
+    const template = {
+      sections: ['hook', 'body', 'call_to_action'].map(type => ({ type, title: type, suggestedDuration: 5 }))
+    } as unknown as ScriptTemplate;
+    const tenantContext = { tenantId: 'tenant-1', user: { id: 'user-1' } } as TenantContext;
+    const controller = new AbortController();
+    const progress = {
+      onSectionStart: vi.fn(),
+      onToken: vi.fn(),
+      onSectionComplete: vi.fn(() => controller.abort()),
+      signal: controller.signal
+    };
+
+    await expect(service['generateScriptSections']({} as any, template, {}, tenantContext, progress))
+      .rejects.toThrow('Script generation aborted');
+
+    expect(generateSectionContent).toHaveBeenCalledTimes(1);
+    expect(progress.onSectionStart).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { AnthropicProvider } from '../services/ai-providers/anthropic-provider';
+import { AIBillingService } from '../services/ai-billing';
+import { AIRequest, AIResponse } from '../types';
+
+describe('Anthropic Provider', () => {
+  const jsonResponse = (status: number, body: unknown, headers: Record<string, string> = {}) =>
+    new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json', ...headers } });
+
+  const message = {
+    id: 'msg_1',
+    model: 'claude-sonnet-4-5',
+    content: [{ type: 'text', text: 'Autumn is ' }, { type: 'text', text: 'here.' }],
+    stop_reason: 'max_tokens',
+    stop_sequence: null,
+    usage: { input_tokens: 1200, output_tokens: 300 }
+  };
+
+  let provider: AnthropicProvider;
+
+  beforeEach(async () => {
+    global.fetch = vi.fn().mockResolvedValueOnce(jsonResponse(200, { data: [] }));
+    provider = new AnthropicProvider({ retryDelayMs: 0 });
+    await provider.authenticate({ apiKey: 'sk-ant-test' });
+  });
+
+  it('should send the system prompt and earlier turns before the prompt', async () => {
+    vi.mocked(global.fetch).mockResolvedValueOnce(jsonResponse(200, message));
+
+    const result = await provider.generateContent('Write the caption', {
+      model: 'claude-haiku-4-5',
+      maxTokens: 500,
+      systemPrompt: 'You write for a café brand.',
+      messages: [
+        { role: 'user', content: 'Give me a theme' },
+        { role: 'assistant', content: 'Autumn menu' }
+      ],
+      stopSequences: ['###']
+    });
+
+    const [url, init] = vi.mocked(global.fetch).mock.calls[1]!;
+    expect(url).toBe('https://api.anthropic.com/v1/messages');
+    expect((init as RequestInit).headers).toMatchObject({ 'x-api-key': 'sk-ant-test', 'anthropic-version': '2023-06-01' });
+    expect(JSON.parse((init as RequestInit).body as string)).toEqual({
+      model: 'claude-haiku-4-5',
+      max_tokens: 500,
+      system: 'You write for a café brand.',
+      messages: [
+        { role: 'user', content: 'Give me a theme' },
+        { role: 'assistant', content: 'Autumn menu' },
+        { role: 'user', content: 'Write the caption' }
+      ],
+      stop_sequences: ['###']
+    });
+
+    expect(result.data).toBe('Autumn is here.');
+    expect(result.metadata).toMatchObject({
+      stopReason: 'max_tokens',
+      truncated: true,
+      promptTokens: 1200,
+      completionTokens: 300,
+      tokensUsed: 1500
+    });
+
+    const usage = await provider.getUsage();
+    expect(usage).toMatchObject({ tokensUsed: 1500, requestCount: 1 });
+  });
+
+  it('should retry overloaded requests and then succeed', async () => {
+    vi.mocked(global.fetch)
+      .mockResolvedValueOnce(jsonResponse(529, { error: { type: 'overloaded_error', message: 'Overloaded' } }))
+      .mockResolvedValueOnce(jsonResponse(200, { ...message, stop_reason: 'end_turn' }));
+
+    const result = await provider.generateContent('Write the caption', {});
+
+    expect(global.fetch).toHaveBeenCalledTimes(3);
+    expect(result.metadata).toMatchObject({ stopReason: 'end_turn', truncated: false });
+  });
+
+  it('should classify rate limits once the retries are used up', async () => {
+    vi.mocked(global.fetch).mockImplementation(async () =>
+      jsonResponse(429, { error: { type: 'rate_limit_error', message: 'Too many requests' } })
+    );
+
+    await expect(provider.generateContent('Write the caption', {}))
+      .rejects.toThrow('Anthropic rate limit exceeded: Too many requests');
+    expect(global.fetch).toHaveBeenCalledTimes(4); // authentication and three attempts
+  });
+
+  it('should not retry authentication failures', async () => {
+    vi.mocked(global.fetch).mockResolvedValueOnce(
+      jsonResponse(401, { error: { type: 'authentication_error', message: 'invalid x-api-key' } })
+    );
+
+    await expect(provider.generateContent('Write the caption', {}))
+      .rejects.toThrow('Anthropic authentication failed: invalid x-api-key');
+    expect(global.fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('should bill Anthropic requests at the Anthropic text rate', async () => {
+    const billing = new AIBillingService();
+    const request = { type: 'text', options: { model: 'claude-opus-4-1' } } as AIRequest;
+    const response = { providerId: 'anthropic', usage: { tokensUsed: 1500 }, processingTime: 800 } as AIResponse;
+
+    const consumption = await billing['calculateCreditConsumption'](request, response);
+
+    // (1 base + 2 token credits) at the Opus multiplier
+    expect(consumption.credits).toBe(8);
+  });
+});
@@ -0,0 +1,166 @@
+import { describe, it, expect, beforeEach, afterEach, vi, Mock } from 'vitest';
+import { InstagramAdapter } from '../services/publishing/instagram-adapter';
+import { LinkedInAdapter } from '../services/publishing/linkedin-adapter';
+import { PublisherService } from '../services/publishing/publisher-service';
+import { ContentGenerationService } from '../services/content-generation';
+import { DatabasePool } from '../interfaces/database';
+import { AdaptedContent, TenantContext } from '../types';
+
+// Mock fetch globally
+global.fetch = vi.fn();
+
+describe('First Comment Publishing', () => {
+  const mockTenantContext = { tenantId: 'tenant-123' } as TenantContext;
+  const instagramContent: AdaptedContent = {
+    text: 'Autumn menu is here',
+    mediaUrls: ['https://cdn.example.com/menu.jpg'],
+    platformSpecific: {
+      mediaType: 'photo',
+      caption: 'Autumn menu is here',
+      hashtags: [],
+      firstComment: '#autumn #brunch'
+    }
+  };
+
+  // Instagram container, publish and comment calls, with the comment failing `commentFailures` times
+  const mockInstagram = (commentFailures: number = 0) => {
+    (global.fetch as Mock).mockImplementation(async (url: string) => {
+      if (url.endsWith('/ig-account/media')) {
+        return { ok: true, json: async () => ({ id: 'container-1' }) };
+      }
+      if (url.endsWith('/ig-account/media_publish')) {
+        return { ok: true, json: async () => ({ id: 'media-1' }) };
+      }
+      if (url.endsWith('/media-1/comments')) {
+        if (commentFailures-- > 0) {
+          return { ok: false, json: async () => ({ error: { message: 'Media not ready' } }) };
+        }
+        return { ok: true, json: async () => ({ id: 'comment-1' }) };
+      }
+      throw new Error(`Unexpected request: ${url}`);
+    });
+  };
+
+  let adapter: InstagramAdapter;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    adapter = new InstagramAdapter({
+      accessToken: 'ig-access',
+      additionalCredentials: { instagramAccountId: 'ig-account' }
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should post the first comment right after publishing', async () => {
+    mockInstagram();
+
+    const result = await adapter.publish(instagramContent, mockTenantContext);
+
+    expect(result.success).toBe(true);
+    expect(result.metadata?.firstComment).toEqual({ status: 'posted', commentId: 'comment-1', attempts: 1 });
+
+    const [, init] = (global.fetch as Mock).mock.calls[2]!;
+    expect(JSON.parse(init.body).message).toBe('#autumn #brunch');
+  });
+
+  it('should retry a failed first comment without failing the publish', async () => {
+    vi.useFakeTimers();
+    mockInstagram(3);
+
+    const publishing = adapter.publish(instagramContent, mockTenantContext);
+    await vi.runAllTimersAsync();
+    const result = await publishing;
+
+    expect(result.success).toBe(true);
+    expect(result.platformPostId).toBe('media-1');
+    expect(result.metadata?.firstComment).toEqual({
+      status: 'failed',
+      error: 'Failed to post Instagram comment: Media not ready',
+      attempts: 3
+    });
+  });
+
+  it('should comment on LinkedIn as the organization the post was shared as', async () => {
+    const linkedin = new LinkedInAdapter({ accessToken: 'li-access', additionalCredentials: { organizationId: '42' } });
+    (global.fetch as Mock).mockImplementation(async (url: string) => {
+      if (url.endsWith('/people/~')) {
+        return { ok: true, json: async () => ({ id: 'person-1' }) };
+      }
+      if (url.endsWith('/ugcPosts')) {
+        return { ok: true, json: async () => ({ id: 'urn:li:share:1', activity: 'urn:li:activity:1' }) };
+      }
+      return { ok: true, json: async () => ({ $URN: 'urn:li:comment:(urn:li:activity:1,9)' }) };
+    });
+
+    const result = await linkedin.publish({
+      text: 'We are hiring',
+      platformSpecific: { postType: 'update', content: 'We are hiring', firstComment: 'Apply at https://jobs.example.com' }
+    }, mockTenantContext);
+
+    expect(result.metadata?.firstComment).toMatchObject({ status: 'posted', commentId: 'urn:li:comment:(urn:li:activity:1,9)' });
+
+    const [url, init] = (global.fetch as Mock).mock.calls[2]!;
+    expect(url).toBe('https://api.linkedin.com/v2/socialActions/urn%3Ali%3Ashare%3A1/comments');
+    expect(JSON.parse(init.body)).toEqual({
+      actor: 'urn:li:organization:42',
+      message: { text: 'Apply at https://jobs.example.com' }
+    });
+  });
+
+  it('should track the first comment status on the platform post', async () => {
+    mockInstagram();
+    const mockDb = {
+      query: vi.fn(async (sql: string, params: any[] = []) => {
+        if (sql.includes('INSERT INTO publish_jobs') && sql.includes('RETURNING')) {
+          return { rows: [{ id: params[0], retry_count: 0 }] };
+        }
+        if (sql.includes('FROM content')) {
+          return {
+            rows: [{
+              id: 'content-123',
+              base_content: JSON.stringify({ text: 'Autumn menu is here' }),
+              adapted_content: JSON.stringify({ instagram: instagramContent })
+            }]
+          };
+        }
+        if (sql.includes('FROM platform_credentials')) {
+          return {
+            rows: [{
+              credentials: JSON.stringify({ accessToken: 'ig-access' }),
+              additional_credentials: JSON.stringify({ instagramAccountId: 'ig-account' })
+            }]
+          };
+        }
+        return { rows: [] };
+      })
+    };
+    const publisherService = new PublisherService(mockDb as unknown as DatabasePool);
+
+    await publisherService.publishContent({ contentId: 'content-123', platforms: ['instagram'] }, mockTenantContext);
+
+    const [, params] = mockDb.query.mock.calls.find(([sql]) => sql.includes('INSERT INTO platform_posts'))!;
+    expect(params.slice(-3)).toEqual(['posted', 'comment-1', null]);
+  });
+
+  it('should move Instagram hashtags into the first comment when asked to', async () => {
+    const service = new ContentGenerationService({ query: vi.fn() } as unknown as DatabasePool);
+    const baseContent = { text: 'Autumn menu is here #autumn #brunch\nSee you soon', mediaUrls: [] };
+
+    const inCaption = await service.adaptContentForPlatform(baseContent, 'instagram', [], []);
+    const inComment = await service.adaptContentForPlatform(baseContent, 'instagram', [], [], {
+      hashtagsInFirstComment: true
+    });
+
+    expect(inCaption.platformSpecific).toMatchObject({ hashtags: ['#autumn', '#brunch'] });
+    expect(inCaption.platformSpecific?.firstComment).toBeUndefined();
+    expect(inComment.platformSpecific).toMatchObject({
+      caption: 'Autumn menu is here\nSee you soon',
+      hashtags: [],
+      firstComment: '#autumn #brunch'
+    });
+  });
+});
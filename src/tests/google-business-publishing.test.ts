@@ -0,0 +1,241 @@
+import { describe, it, expect, beforeEach, vi, Mock } from 'vitest';
+import { GoogleBusinessAdapter } from '../services/publishing/google-business-adapter';
+import { BusinessLocationService } from '../services/publishing/business-locations';
+import { PlatformAdapterRegistry } from '../services/publishing/platform-registry';
+import { PublisherService } from '../services/publishing/publisher-service';
+import { PlatformCredentials } from '../services/publishing/platform-adapter';
+import { DatabasePool } from '../interfaces/database';
+import { AdaptedContent, TenantContext } from '../types';
+
+// Mock fetch globally
+global.fetch = vi.fn();
+
+describe('Google Business Profile Publishing', () => {
+  const mockTenantContext = { tenantId: 'tenant-123' } as TenantContext;
+  const credentials: PlatformCredentials = {
+    accessToken: 'mock_access_token',
+    refreshToken: 'mock_refresh_token',
+    appId: 'mock_client_id',
+    appSecret: 'mock_client_secret',
+    additionalCredentials: { accountId: '100' }
+  };
+  const inOneWeek = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString();
+  const inTwoWeeks = new Date(Date.now() + 14 * 24 * 60 * 60 * 1000).toISOString();
+
+  let adapter: GoogleBusinessAdapter;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    adapter = new GoogleBusinessAdapter(credentials);
+  });
+
+  const mockLocalPosts = () => {
+    (global.fetch as Mock).mockImplementation(async (url: string) => {
+      const location = url.match(/locations\/(\w+)\/localPosts/)![1];
+      return {
+        ok: true,
+        json: async () => ({ name: `accounts/100/locations/${location}/localPosts/post-${location}`, state: 'LIVE' })
+      };
+    });
+  };
+
+  describe('GoogleBusinessAdapter', () => {
+    it('should publish an offer post to every selected location', async () => {
+      mockLocalPosts();
+
+      const content: AdaptedContent = {
+        text: 'Two-for-one pizzas every Tuesday this month',
+        mediaUrls: ['https://cdn.example.com/pizza.jpg'],
+        platformSpecific: {
+          postType: 'offer',
+          locationIds: ['201', 'accounts/300/locations/202'],
+          event: { title: 'Pizza Tuesdays', startDate: inOneWeek, endDate: inTwoWeeks },
+          offer: { couponCode: 'PIZZA2X1', redeemOnlineUrl: 'https://pizzaria.example.com/offer' }
+        }
+      };
+
+      const result = await adapter.publish(content, mockTenantContext);
+
+      expect(result.success).toBe(true);
+      expect(result.metadata?.postIds).toHaveLength(2);
+      expect(result.metadata?.locations).toEqual(['accounts/100/locations/201', 'accounts/300/locations/202']);
+
+      const calls = (global.fetch as Mock).mock.calls;
+      expect(calls[0]![0]).toBe('https://mybusiness.googleapis.com/v4/accounts/100/locations/201/localPosts');
+      expect(calls[1]![0]).toBe('https://mybusiness.googleapis.com/v4/accounts/300/locations/202/localPosts');
+
+      const body = JSON.parse(calls[0]![1].body);
+      expect(body.topicType).toBe('OFFER');
+      expect(body.summary).toBe('Two-for-one pizzas every Tuesday this month');
+      expect(body.media).toEqual([{ mediaFormat: 'PHOTO', sourceUrl: 'https://cdn.example.com/pizza.jpg' }]);
+      expect(body.event.title).toBe('Pizza Tuesdays');
+      expect(body.event.schedule.startDate).toEqual({
+        year: new Date(inOneWeek).getUTCFullYear(),
+        month: new Date(inOneWeek).getUTCMonth() + 1,
+        day: new Date(inOneWeek).getUTCDate()
+      });
+      expect(body.offer).toEqual({ couponCode: 'PIZZA2X1', redeemOnlineUrl: 'https://pizzaria.example.com/offer' });
+      expect(body.callToAction).toBeUndefined();
+    });
+
+    it('should publish a what\'s new post with a call-to-action', async () => {
+      mockLocalPosts();
+
+      await adapter.publish({
+        text: 'Our clinic now offers evening appointments.',
+        platformSpecific: {
+          postType: 'whats_new',
+          locationIds: ['201'],
+          callToAction: { actionType: 'BOOK', url: 'https://clinic.example.com/book' }
+        }
+      }, mockTenantContext);
+
+      const body = JSON.parse((global.fetch as Mock).mock.calls[0]![1].body);
+      expect(body.topicType).toBe('STANDARD');
+      expect(body.callToAction).toEqual({ actionType: 'BOOK', url: 'https://clinic.example.com/book' });
+      expect(body.event).toBeUndefined();
+    });
+
+    it('should not retry locations that already received the post', async () => {
+      (global.fetch as Mock)
+        .mockResolvedValueOnce({ ok: true, json: async () => ({ name: 'accounts/100/locations/201/localPosts/a' }) })
+        .mockResolvedValueOnce({ ok: false, status: 503, json: async () => ({}) });
+
+      const result = await adapter.publish({
+        text: 'Holiday opening hours',
+        platformSpecific: { postType: 'whats_new', locationIds: ['201', '202'] }
+      }, mockTenantContext);
+
+      expect(result.success).toBe(false);
+      expect(result.retryable).toBe(false);
+      expect(result.error).toContain('Post published to 1/2 locations');
+      expect(result.metadata?.postIds).toEqual(['accounts/100/locations/201/localPosts/a']);
+    });
+
+    it('should validate locations, phone numbers and offer and event fields', async () => {
+      const validation = await adapter.validateContent({
+        text: 'Call us on +55 11 98765-4321 to book',
+        platformSpecific: {
+          postType: 'offer',
+          locationIds: [],
+          event: { title: 'Spring offer', startDate: inTwoWeeks, endDate: inOneWeek },
+          offer: { redeemOnlineUrl: 'not a url' },
+          callToAction: { actionType: 'CALL' }
+        }
+      });
+
+      expect(validation.isValid).toBe(false);
+      expect(validation.errors.map(e => e.code)).toEqual(expect.arrayContaining([
+        'MISSING_LOCATION',
+        'PHONE_NUMBER_NOT_ALLOWED',
+        'INVALID_EVENT_SCHEDULE',
+        'INVALID_OFFER_URL',
+        'INVALID_CALL_TO_ACTION'
+      ]));
+    });
+
+    it('should require an event title and valid call-to-action links', async () => {
+      const event = await adapter.validateContent({
+        text: 'Open day',
+        platformSpecific: { postType: 'event', locationIds: ['201'], event: { startDate: inOneWeek, endDate: inTwoWeeks } }
+      });
+      const callToAction = await adapter.validateContent({
+        text: 'New menu',
+        platformSpecific: { postType: 'whats_new', locationIds: ['201'], callToAction: { actionType: 'ORDER' } }
+      });
+
+      expect(event.errors.map(e => e.code)).toEqual(['MISSING_EVENT_TITLE']);
+      expect(callToAction.errors.map(e => e.code)).toEqual(['INVALID_CALL_TO_ACTION_URL']);
+    });
+
+    it('should list locations across all accounts', async () => {
+      (global.fetch as Mock).mockImplementation(async (url: string) => {
+        if (url.endsWith('/accounts')) {
+          return { ok: true, json: async () => ({ accounts: [{ name: 'accounts/100' }] }) };
+        }
+        return {
+          ok: true,
+          json: async () => ({
+            locations: [{
+              name: 'locations/201',
+              title: 'Clínica Centro',
+              storefrontAddress: { addressLines: ['Rua Augusta, 100'], locality: 'São Paulo' }
+            }]
+          })
+        };
+      });
+
+      const locations = await adapter.listLocations();
+
+      expect(locations).toEqual([{
+        accountId: '100',
+        locationId: '201',
+        title: 'Clínica Centro',
+        address: 'Rua Augusta, 100, São Paulo'
+      }]);
+    });
+
+    it('should be registered in the platform registry', () => {
+      const registry = new PlatformAdapterRegistry();
+
+      expect(registry.getSupportedPlatforms()).toContain('google_business');
+      expect(registry.registerAdapter('google_business', credentials)).toBeInstanceOf(GoogleBusinessAdapter);
+    });
+  });
+
+  describe('Business locations', () => {
+    it('should activate the only location of a single-branch business on sync', async () => {
+      const mockDb = { query: vi.fn().mockResolvedValue({ rows: [] }) };
+      const service = new BusinessLocationService(mockDb as unknown as DatabasePool);
+
+      await service.syncLocations([{ accountId: '100', locationId: '201', title: 'Clínica Centro' }], mockTenantContext);
+
+      const [query, params] = mockDb.query.mock.calls[0]!;
+      expect(query).toContain('ON CONFLICT (tenant_id, location_id)');
+      expect(params).toEqual(expect.arrayContaining(['tenant-123', '100', '201', 'Clínica Centro', true]));
+    });
+
+    it('should publish to the tenant\'s active locations when content does not pick any', async () => {
+      mockLocalPosts();
+      const mockDb = {
+        query: vi.fn().mockImplementation(async (query: string, params: any[] = []) => {
+          if (query.includes('INSERT INTO publish_jobs') && query.includes('RETURNING')) {
+            return { rows: [{ id: params[0], retry_count: 0 }] };
+          }
+          if (query.includes('FROM content')) {
+            return {
+              rows: [{
+                id: 'content-123',
+                base_content: JSON.stringify({ text: 'Now open on Sundays' }),
+                adapted_content: JSON.stringify({
+                  google_business: { text: 'Now open on Sundays', platformSpecific: { postType: 'whats_new' } }
+                })
+              }]
+            };
+          }
+          if (query.includes('FROM platform_credentials')) {
+            return { rows: [{ credentials: JSON.stringify(credentials) }] };
+          }
+          if (query.includes('FROM business_locations')) {
+            return {
+              rows: [
+                { id: 'l1', account_id: '100', location_id: '201', title: 'Centro', is_active: true, updated_at: new Date() },
+                { id: 'l2', account_id: '100', location_id: '202', title: 'Pinheiros', is_active: true, updated_at: new Date() }
+              ]
+            };
+          }
+          return { rows: [] };
+        })
+      };
+      const publisherService = new PublisherService(mockDb as unknown as DatabasePool);
+
+      const [result] = await publisherService.publishContent(
+        { contentId: 'content-123', platforms: ['google_business'] },
+        mockTenantContext
+      );
+
+      expect(result!.status).toBe('success');
+      expect(result!.result?.metadata?.locations).toEqual(['accounts/100/locations/201', 'accounts/100/locations/202']);
+    });
+  });
+});
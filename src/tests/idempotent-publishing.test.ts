@@ -0,0 +1,218 @@
+import { describe, it, expect, beforeEach, vi, Mock } from 'vitest';
+import { PublisherService } from '../services/publishing/publisher-service';
+import { BlueskyAdapter } from '../services/publishing/bluesky-adapter';
+import { DatabasePool } from '../interfaces/database';
+import { TenantContext } from '../types';
+
+// Mock fetch globally
+global.fetch = vi.fn();
+
+describe('Idempotent Publishing', () => {
+  const mockTenantContext = { tenantId: 'tenant-123' } as TenantContext;
+  const retryPolicy = { maxRetries: 2, retryDelayMs: 0, backoffMultiplier: 1, retryableErrors: ['timeout'] };
+  const request = { contentId: 'content-123', platforms: ['x' as const], calendarEventId: 'event-1', retryPolicy };
+  const idempotencyKey = 'content-123:x:event-1';
+
+  // In-memory publish_jobs table behind a mocked query function
+  let publishJobs: Array<Record<string, any>>;
+  let mockDb: { query: Mock };
+  let publisherService: PublisherService;
+
+  const mockX = (options: { failPosts?: number; publishedPosts?: Array<{ id: string; text: string }> } = {}) => {
+    let failPosts = options.failPosts || 0;
+    (global.fetch as Mock).mockImplementation(async (url: string, init?: RequestInit) => {
+      if (url.endsWith('/users/me')) {
+        return { ok: true, json: async () => ({ data: { id: 'x-user' } }) };
+      }
+      if (url.includes('/users/x-user/tweets')) {
+        return { ok: true, json: async () => ({ data: options.publishedPosts || [] }) };
+      }
+      if (url.endsWith('/tweets') && init?.method === 'POST') {
+        if (failPosts-- > 0) {
+          throw new Error('Request timeout');
+        }
+        return { ok: true, json: async () => ({ data: { id: 'tweet-new' } }) };
+      }
+      throw new Error(`Unexpected request: ${url}`);
+    });
+  };
+
+  const postRequests = () => (global.fetch as Mock).mock.calls.filter(([, init]) => init?.method === 'POST');
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    publishJobs = [];
+    mockDb = {
+      query: vi.fn(async (sql: string, params: any[] = []) => {
+        if (sql.includes('FROM content')) {
+          return {
+            rows: [{
+              id: 'content-123',
+              base_content: JSON.stringify({ text: 'Grand opening on Friday' }),
+              adapted_content: JSON.stringify({ x: { text: 'Grand opening on Friday' } })
+            }]
+          };
+        }
+        if (sql.includes('FROM platform_credentials')) {
+          return { rows: [{ credentials: JSON.stringify({ accessToken: 'x-access' }) }] };
+        }
+        if (sql.includes('FROM publish_jobs')) {
+          return { rows: publishJobs.filter(job => job.tenant_id === params[0] && job.idempotency_key === params[1]) };
+        }
+        if (sql.includes('RETURNING id, retry_count')) {
+          // Claim: insert, or take over a failed or abandoned job for the key
+          const [id, , , , tenantId, now, , , key, staleBefore] = params;
+          const existing = publishJobs.find(row => row.tenant_id === tenantId && row.idempotency_key === key);
+          if (!existing) {
+            const job = { id, status: 'pending', retry_count: 0, tenant_id: tenantId, created_at: now, updated_at: now, idempotency_key: key };
+            publishJobs.push(job);
+            return { rows: [job] };
+          }
+          if (existing.status === 'success' || (existing.status === 'pending' && existing.updated_at >= staleBefore)) {
+            return { rows: [] };
+          }
+          Object.assign(existing, { status: 'pending', error: null, retry_count: existing.retry_count + 1, updated_at: now });
+          return { rows: [existing] };
+        }
+        if (sql.includes('INSERT INTO publish_jobs')) {
+          const job = {
+            id: params[0], status: params[3], result: params[4], error: params[5], retry_count: params[6],
+            tenant_id: params[9], created_at: params[10], updated_at: params[11], idempotency_key: params[14]
+          };
+          const existing = publishJobs.find(row => row.tenant_id === job.tenant_id && row.idempotency_key === job.idempotency_key);
+          if (existing) {
+            Object.assign(existing, { ...job, id: existing.id, created_at: existing.created_at });
+          } else {
+            publishJobs.push(job);
+          }
+          return { rows: [] };
+        }
+        return { rows: [] };
+      })
+    };
+    publisherService = new PublisherService(mockDb as unknown as DatabasePool);
+  });
+
+  it('should return the stored result for a key that was already published', async () => {
+    mockX();
+
+    const [first] = await publisherService.publishContent(request, mockTenantContext);
+    const [second] = await publisherService.publishContent(request, mockTenantContext);
+
+    expect(first!.status).toBe('success');
+    expect(publishJobs).toHaveLength(1);
+    expect(publishJobs[0]!.idempotency_key).toBe(idempotencyKey);
+    expect(second).toMatchObject({
+      jobId: first!.jobId,
+      status: 'success',
+      idempotencyKey,
+      result: { platformPostId: 'tweet-new' }
+    });
+    expect(postRequests()).toHaveLength(1);
+  });
+
+  it('should detect a post accepted by the platform before retrying a timed out publish', async () => {
+    mockX({ failPosts: 1, publishedPosts: [{ id: 'tweet-accepted', text: 'Grand  opening on Friday\n' }] });
+
+    const [result] = await publisherService.publishContent(request, mockTenantContext);
+
+    expect(result!.status).toBe('success');
+    expect(result!.result?.platformPostId).toBe('tweet-accepted');
+    expect(result!.result?.metadata?.reconciled).toBe(true);
+    expect(postRequests()).toHaveLength(1);
+  });
+
+  it('should look up earlier posts when a failed job for the key is published again', async () => {
+    publishJobs.push({
+      id: 'job-1', status: 'failed', result: '{}', error: 'Request timeout', retry_count: 0,
+      tenant_id: 'tenant-123', idempotency_key: idempotencyKey,
+      created_at: new Date(Date.now() - 60000).toISOString(), updated_at: new Date().toISOString()
+    });
+    mockX();
+
+    const [result] = await publisherService.publishContent(request, mockTenantContext);
+
+    expect(result).toMatchObject({ jobId: 'job-1', status: 'success', retryCount: 1 });
+    expect(result!.result?.platformPostId).toBe('tweet-new');
+
+    const lookup = (global.fetch as Mock).mock.calls.find(([url]) => url.includes('/users/x-user/tweets'));
+    expect(lookup).toBeDefined();
+    expect(publishJobs).toHaveLength(1);
+  });
+
+  it('should not publish while another worker holds the key', async () => {
+    publishJobs.push({
+      id: 'job-1', status: 'pending', result: null, error: null, retry_count: 0,
+      tenant_id: 'tenant-123', idempotency_key: idempotencyKey,
+      created_at: new Date().toISOString(), updated_at: new Date().toISOString()
+    });
+    mockX();
+
+    const [result] = await publisherService.publishContent(request, mockTenantContext);
+
+    expect(result).toMatchObject({ jobId: 'job-1', status: 'in_progress' });
+    expect(global.fetch).not.toHaveBeenCalled();
+  });
+
+  it('should take over a pending job that was abandoned', async () => {
+    publishJobs.push({
+      id: 'job-1', status: 'pending', result: null, error: null, retry_count: 0,
+      tenant_id: 'tenant-123', idempotency_key: idempotencyKey,
+      created_at: new Date(Date.now() - 60 * 60 * 1000).toISOString(),
+      updated_at: new Date(Date.now() - 60 * 60 * 1000).toISOString()
+    });
+    mockX();
+
+    const [result] = await publisherService.publishContent(request, mockTenantContext);
+
+    expect(result).toMatchObject({ jobId: 'job-1', status: 'success', retryCount: 1 });
+    expect(postRequests()).toHaveLength(1);
+  });
+
+  it('should publish only once when the same key is published concurrently', async () => {
+    mockX();
+
+    const [first, second] = await Promise.all([
+      publisherService.publishContent(request, mockTenantContext),
+      publisherService.publishContent(request, mockTenantContext)
+    ]);
+
+    expect(postRequests()).toHaveLength(1);
+    expect(publishJobs).toHaveLength(1);
+    expect([first![0]!.status, second![0]!.status].sort()).toEqual(['in_progress', 'success']);
+    expect(first![0]!.jobId).toBe(second![0]!.jobId);
+  });
+
+  it('should release the key when publishing fails before reaching the platform', async () => {
+    mockX();
+    const queryImplementation = mockDb.query.getMockImplementation()!;
+    mockDb.query.mockImplementation(async (sql: string, params: any[] = []) =>
+      sql.includes('FROM platform_credentials') ? { rows: [] } : queryImplementation(sql, params)
+    );
+
+    const [result] = await publisherService.publishContent(request, mockTenantContext);
+
+    expect(result).toMatchObject({ status: 'failed', error: 'Platform credentials not found' });
+    expect(publishJobs[0]).toMatchObject({ status: 'failed', idempotency_key: idempotencyKey });
+  });
+
+  it('should match Bluesky posts created since the earlier attempt', async () => {
+    const since = new Date('2026-03-02T10:00:00Z');
+    (global.fetch as Mock).mockResolvedValue({
+      ok: true,
+      json: async () => ({
+        records: [
+          { uri: 'at://did:plc:abc/app.bsky.feed.post/new', cid: 'cid-new', value: { text: 'Hello', createdAt: '2026-03-02T10:01:00Z' } },
+          { uri: 'at://did:plc:abc/app.bsky.feed.post/old', cid: 'cid-old', value: { text: 'Hello again', createdAt: '2026-03-01T10:00:00Z' } }
+        ]
+      })
+    });
+    const adapter = new BlueskyAdapter({ accessToken: 'bsky-access', additionalCredentials: { did: 'did:plc:abc' } });
+
+    expect(await adapter.findPublishedPost({ text: 'Hello again' }, since)).toBeNull();
+    expect(await adapter.findPublishedPost({ text: 'Hello' }, since)).toMatchObject({
+      success: true,
+      platformPostId: 'at://did:plc:abc/app.bsky.feed.post/new'
+    });
+  });
+});
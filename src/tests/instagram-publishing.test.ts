@@ -0,0 +1,187 @@
+import { describe, it, expect, beforeEach, vi, Mock } from 'vitest';
+import { InstagramAdapter } from '../services/publishing/instagram-adapter';
+import { PlatformCredentials } from '../services/publishing/platform-adapter';
+import { ContentGenerationService } from '../services/content-generation';
+import { DatabasePool } from '../interfaces/database';
+import { AdaptedContent, TenantContext } from '../types';
+
+// Mock fetch globally
+global.fetch = vi.fn();
+
+describe('Instagram Publishing', () => {
+  const mockTenantContext = { tenantId: 'tenant-123' } as TenantContext;
+  const credentials: PlatformCredentials = {
+    accessToken: 'ig-access',
+    additionalCredentials: { instagramAccountId: 'ig-account' }
+  };
+
+  // Graph API with containers numbered in creation order; containers listed in
+  // `processing` report IN_PROGRESS once before finishing
+  let containerCount: number;
+  const mockGraph = (options: { processing?: string[]; failed?: string } = {}) => {
+    const pending = new Set(options.processing || []);
+    (global.fetch as Mock).mockImplementation(async (url: string) => {
+      if (url.endsWith('/ig-account/media')) {
+        containerCount++;
+        return { ok: true, json: async () => ({ id: `container-${containerCount}` }) };
+      }
+      if (url.endsWith('/ig-account/media_publish')) {
+        return { ok: true, json: async () => ({ id: 'media-1' }) };
+      }
+      if (url.includes('fields=status_code')) {
+        const id = url.split('?')[0]!.split('/').pop()!;
+        if (id === options.failed) {
+          return { ok: true, json: async () => ({ id, status_code: 'ERROR', status: 'Error: Unsupported video codec' }) };
+        }
+        const statusCode = pending.delete(id) ? 'IN_PROGRESS' : 'FINISHED';
+        return { ok: true, json: async () => ({ id, status_code: statusCode }) };
+      }
+      return { ok: true, json: async () => ({ id: 'comment-1' }) };
+    });
+  };
+
+  const requests = (suffix: string) => (global.fetch as Mock).mock.calls
+    .filter(([url]) => url.split('?')[0].endsWith(suffix))
+    .map(([url, init]) => init ? JSON.parse(init.body) : url);
+
+  let adapter: InstagramAdapter;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    containerCount = 0;
+    adapter = new InstagramAdapter(credentials, { containerPollIntervalMs: 0 });
+  });
+
+  it('should create carousel items before the carousel and wait for processing', async () => {
+    mockGraph({ processing: ['container-2'] });
+
+    const result = await adapter.publish({
+      mediaUrls: ['https://cdn.example.com/a.jpg', 'https://cdn.example.com/b.mp4', 'https://cdn.example.com/c.png'],
+      platformSpecific: { mediaType: 'carousel', caption: 'Three looks for autumn', hashtags: ['fashion'] }
+    }, mockTenantContext);
+
+    expect(result).toMatchObject({
+      success: true,
+      platformPostId: 'media-1',
+      metadata: { creationId: 'container-4', mediaType: 'CAROUSEL' }
+    });
+
+    const created = requests('/ig-account/media');
+    expect(created[0]).toMatchObject({ image_url: 'https://cdn.example.com/a.jpg', is_carousel_item: true });
+    expect(created[0].media_type).toBeUndefined();
+    expect(created[1]).toMatchObject({ media_type: 'VIDEO', video_url: 'https://cdn.example.com/b.mp4', is_carousel_item: true });
+    expect(created[3]).toMatchObject({
+      media_type: 'CAROUSEL',
+      caption: 'Three looks for autumn\n\n#fashion',
+      children: 'container-1,container-2,container-3'
+    });
+
+    // The video item is polled until finished, then the carousel itself
+    const polled = (global.fetch as Mock).mock.calls
+      .filter(([url]) => url.includes('fields=status_code'))
+      .map(([url]) => url.split('?')[0].split('/').pop());
+    expect(polled).toEqual(['container-2', 'container-2', 'container-4']);
+    expect(requests('/media_publish')[0].creation_id).toBe('container-4');
+  });
+
+  it('should publish Reels with a cover and keep them off the feed when asked', async () => {
+    mockGraph();
+
+    const result = await adapter.publish({
+      mediaUrls: ['https://cdn.example.com/reel.mp4'],
+      platformSpecific: {
+        mediaType: 'reel',
+        caption: 'Behind the scenes',
+        shareToFeed: false,
+        coverUrl: 'https://cdn.example.com/cover.jpg',
+        thumbOffset: 1500
+      }
+    }, mockTenantContext);
+
+    expect(result.metadata).toMatchObject({ mediaType: 'REELS', shareToFeed: false });
+    expect(requests('/ig-account/media')[0]).toEqual({
+      media_type: 'REELS',
+      video_url: 'https://cdn.example.com/reel.mp4',
+      caption: 'Behind the scenes',
+      share_to_feed: false,
+      cover_url: 'https://cdn.example.com/cover.jpg',
+      thumb_offset: 1500,
+      access_token: 'ig-access'
+    });
+  });
+
+  it('should publish feed videos as Reels shared to the feed', async () => {
+    mockGraph();
+
+    await adapter.publish({
+      mediaUrls: ['https://cdn.example.com/clip.mov'],
+      platformSpecific: { mediaType: 'video', caption: 'New season' }
+    }, mockTenantContext);
+
+    expect(requests('/ig-account/media')[0]).toMatchObject({ media_type: 'REELS', share_to_feed: true });
+  });
+
+  it('should publish Stories without a caption or first comment', async () => {
+    mockGraph();
+
+    const result = await adapter.publish({
+      mediaUrls: ['https://cdn.example.com/story.jpg'],
+      platformSpecific: { mediaType: 'story', caption: 'Ignored', firstComment: '#ignored' }
+    }, mockTenantContext);
+
+    expect(result.success).toBe(true);
+    expect(result.metadata?.firstComment).toBeUndefined();
+    expect(requests('/ig-account/media')[0]).toEqual({
+      media_type: 'STORIES',
+      image_url: 'https://cdn.example.com/story.jpg',
+      access_token: 'ig-access'
+    });
+    expect(requests('/comments')).toHaveLength(0);
+  });
+
+  it('should not publish a container that failed processing', async () => {
+    mockGraph({ failed: 'container-1' });
+
+    const result = await adapter.publish({
+      mediaUrls: ['https://cdn.example.com/reel.mp4'],
+      platformSpecific: { mediaType: 'reel' }
+    }, mockTenantContext);
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('Instagram media processing failed: Error: Unsupported video codec');
+    expect(requests('/media_publish')).toHaveLength(0);
+  });
+
+  it('should validate media per type', async () => {
+    const validate = async (mediaType: string, mediaUrls: string[], extra: Record<string, any> = {}) =>
+      (await adapter.validateContent({ mediaUrls, platformSpecific: { mediaType, ...extra } } as AdaptedContent))
+        .errors.map(error => error.code);
+    const images = (count: number) => Array.from({ length: count }, (_, i) => `https://cdn.example.com/${i}.jpg`);
+
+    expect(await validate('carousel', images(10))).toEqual([]);
+    expect(await validate('carousel', images(11))).toEqual(['INVALID_CAROUSEL_SIZE']);
+    expect(await validate('carousel', images(1))).toEqual(['INVALID_CAROUSEL_SIZE']);
+    expect(await validate('reel', images(1))).toEqual(['INVALID_MEDIA']);
+    expect(await validate('reel', ['https://cdn.example.com/a.mp4'], { coverUrl: 'https://cdn.example.com/b.mp4' }))
+      .toEqual(['INVALID_COVER']);
+    expect(await validate('story', images(2))).toEqual(['TOO_MANY_MEDIA']);
+    expect(await validate('story', ['https://cdn.example.com/a.mp4'], { duration: 90 })).toEqual(['VIDEO_TOO_LONG']);
+    expect(await validate('photo', images(2))).toEqual(['TOO_MANY_MEDIA']);
+  });
+
+  it('should pick carousels and Reels when adapting content with several media or a video', async () => {
+    const service = new ContentGenerationService({ query: vi.fn() } as unknown as DatabasePool);
+
+    const carousel = await service.adaptContentForPlatform({
+      text: 'Our favourites',
+      mediaUrls: ['https://cdn.example.com/a.jpg', 'https://cdn.example.com/b.jpg']
+    }, 'instagram', [], []);
+    const reel = await service.adaptContentForPlatform({
+      text: 'Watch this',
+      mediaUrls: ['https://cdn.example.com/a.mp4']
+    }, 'instagram', [], []);
+
+    expect(carousel.platformSpecific).toMatchObject({ mediaType: 'carousel', aspectRatio: '1:1' });
+    expect(reel.platformSpecific).toMatchObject({ mediaType: 'reel', aspectRatio: '9:16' });
+  });
+});
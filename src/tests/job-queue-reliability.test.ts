@@ -0,0 +1,250 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { RedisManager } from '../config/redis';
+import { JobQueue } from '../services/queue/job-queue';
+import { JobWorker } from '../services/queue/job-worker';
+
+/**
+ * In-memory stand-in for the RedisManager primitives used by the job queue
+ */
+class InMemoryRedis {
+  strings = new Map<string, string>();
+  lists = new Map<string, string[]>();
+  zsets = new Map<string, Map<string, number>>();
+
+  async set(key: string, value: string): Promise<void> {
+    this.strings.set(key, value);
+  }
+
+  async get(key: string): Promise<string | null> {
+    return this.strings.get(key) ?? null;
+  }
+
+  async del(key: string): Promise<void> {
+    this.strings.delete(key);
+    this.lists.delete(key);
+    this.zsets.delete(key);
+  }
+
+  async lPush(key: string, value: string): Promise<void> {
+    this.list(key).unshift(value);
+  }
+
+  async lRem(key: string, value: string): Promise<number> {
+    const list = this.list(key);
+    const remaining = list.filter(item => item !== value);
+    this.lists.set(key, remaining);
+    return list.length - remaining.length;
+  }
+
+  async lRange(key: string, start: number, stop: number): Promise<string[]> {
+    const list = this.list(key);
+    return list.slice(start, stop === -1 ? undefined : stop + 1);
+  }
+
+  async getQueueLength(key: string): Promise<number> {
+    return this.list(key).length;
+  }
+
+  async zAdd(key: string, score: number, member: string): Promise<void> {
+    this.zset(key).set(member, score);
+  }
+
+  async zRem(key: string, member: string): Promise<number> {
+    return this.zset(key).delete(member) ? 1 : 0;
+  }
+
+  async zCard(key: string): Promise<number> {
+    return this.zset(key).size;
+  }
+
+  async zRange(key: string, start: number, stop: number): Promise<string[]> {
+    const members = this.sorted(key).map(([member]) => member);
+    return members.slice(start, stop === -1 ? undefined : stop + 1);
+  }
+
+  async zRangeByScore(key: string, min: number, max: number): Promise<string[]> {
+    return this.sorted(key)
+      .filter(([, score]) => score >= min && score <= max)
+      .map(([member]) => member);
+  }
+
+  async popToSortedSet(listKey: string, zsetKey: string, score: number): Promise<string | null> {
+    const member = this.list(listKey).pop();
+    if (!member) {
+      return null;
+    }
+    this.zset(zsetKey).set(member, score);
+    return member;
+  }
+
+  private list(key: string): string[] {
+    if (!this.lists.has(key)) {
+      this.lists.set(key, []);
+    }
+    return this.lists.get(key)!;
+  }
+
+  private zset(key: string): Map<string, number> {
+    if (!this.zsets.has(key)) {
+      this.zsets.set(key, new Map());
+    }
+    return this.zsets.get(key)!;
+  }
+
+  private sorted(key: string): [string, number][] {
+    return Array.from(this.zset(key).entries()).sort((a, b) => a[1] - b[1]);
+  }
+}
+
+describe('Job Queue Reliability', () => {
+  let redis: InMemoryRedis;
+  let queue: JobQueue;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-01-01T10:00:00Z'));
+
+    redis = new InMemoryRedis();
+    queue = new JobQueue(redis as unknown as RedisManager, { visibilityTimeoutMs: 60000 });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should hand out jobs in FIFO order and complete them', async () => {
+    const first = await queue.add('publishing', 'calendar-event', { id: 'event-1' });
+    await queue.add('publishing', 'calendar-event', { id: 'event-2' });
+
+    const reserved = await queue.reserve('publishing');
+    expect(reserved?.id).toBe(first.id);
+    expect(reserved?.state).toBe('active');
+    expect(reserved?.attempts).toBe(1);
+
+    await queue.complete(reserved!, { ok: true });
+
+    const stored = await queue.getJob('publishing', first.id);
+    expect(stored?.state).toBe('completed');
+    expect(stored?.result).toEqual({ ok: true });
+    expect(await queue.getStats('publishing')).toMatchObject({ waiting: 1, active: 0 });
+  });
+
+  it('should not release delayed jobs before their run time', async () => {
+    await queue.add('metrics-collection', 'collect-metrics', { tenantId: 'tenant-1' }, { delayMs: 30000 });
+
+    expect(await queue.reserve('metrics-collection')).toBeNull();
+
+    vi.advanceTimersByTime(30000);
+    const job = await queue.reserve('metrics-collection');
+    expect(job?.data).toEqual({ tenantId: 'tenant-1' });
+  });
+
+  it('should retry failed jobs with exponential backoff', async () => {
+    const added = await queue.add('ai-generation', 'video-script', {}, { maxAttempts: 3, backoffMs: 1000 });
+
+    const firstAttempt = await queue.reserve('ai-generation');
+    const afterFirst = await queue.fail(firstAttempt!, 'timeout');
+    expect(afterFirst.state).toBe('delayed');
+    expect(afterFirst.runAt.getTime() - Date.now()).toBe(1000);
+
+    vi.advanceTimersByTime(999);
+    expect(await queue.reserve('ai-generation')).toBeNull();
+
+    vi.advanceTimersByTime(1);
+    const secondAttempt = await queue.reserve('ai-generation');
+    expect(secondAttempt?.id).toBe(added.id);
+    expect(secondAttempt?.attempts).toBe(2);
+
+    const afterSecond = await queue.fail(secondAttempt!, 'timeout');
+    expect(afterSecond.runAt.getTime() - Date.now()).toBe(2000);
+  });
+
+  it('should move jobs to the dead-letter queue once attempts are exhausted', async () => {
+    const added = await queue.add('publishing', 'calendar-event', {}, { maxAttempts: 2, backoffMs: 1000 });
+
+    await queue.fail((await queue.reserve('publishing'))!, 'server error');
+    vi.advanceTimersByTime(1000);
+    const dead = await queue.fail((await queue.reserve('publishing'))!, 'server error');
+
+    expect(dead.state).toBe('dead');
+    expect(dead.lastError).toBe('server error');
+    expect(await queue.getStats('publishing')).toMatchObject({ waiting: 0, delayed: 0, active: 0, dead: 1 });
+
+    const retried = await queue.retry('publishing', added.id);
+    expect(retried?.attempts).toBe(0);
+    expect((await queue.reserve('publishing'))?.id).toBe(added.id);
+  });
+
+  it('should dead-letter non-retryable failures immediately', async () => {
+    await queue.add('publishing', 'calendar-event', {}, { maxAttempts: 5 });
+
+    const job = await queue.fail((await queue.reserve('publishing'))!, 'Validation failed', false);
+
+    expect(job.state).toBe('dead');
+    expect(job.attempts).toBe(1);
+  });
+
+  it('should requeue jobs whose visibility timeout expires', async () => {
+    const added = await queue.add('publishing', 'calendar-event', {}, { backoffMs: 1000 });
+
+    // Worker reserves the job and then crashes without completing it
+    await queue.reserve('publishing');
+
+    vi.advanceTimersByTime(60001);
+    expect(await queue.reserve('publishing')).toBeNull();
+
+    const recovered = await queue.getJob('publishing', added.id);
+    expect(recovered?.state).toBe('delayed');
+    expect(recovered?.lastError).toBe('Visibility timeout expired');
+
+    vi.advanceTimersByTime(1000);
+    const redelivered = await queue.reserve('publishing');
+    expect(redelivered?.id).toBe(added.id);
+    expect(redelivered?.attempts).toBe(2);
+  });
+
+  it('should complete or fail jobs through registered worker handlers', async () => {
+    const worker = new JobWorker(queue);
+    const handler = vi.fn()
+      .mockRejectedValueOnce(new Error('network error'))
+      .mockResolvedValueOnce({ scriptId: 'script-1' });
+    worker.register('ai-generation', handler);
+
+    const added = await queue.add('ai-generation', 'video-script', {}, { backoffMs: 1000 });
+
+    await worker.processNext('ai-generation');
+    expect((await queue.getJob('ai-generation', added.id))?.state).toBe('delayed');
+
+    vi.advanceTimersByTime(1000);
+    await worker.processNext('ai-generation');
+
+    const completed = await queue.getJob('ai-generation', added.id);
+    expect(completed?.state).toBe('completed');
+    expect(completed?.result).toEqual({ scriptId: 'script-1' });
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+
+  it('should defer jobs whose handler asks to wait without using up an attempt', async () => {
+    const worker = new JobWorker(queue);
+    const deferUntil = new Date('2026-01-01T11:00:00Z');
+    const handler = vi.fn()
+      .mockResolvedValueOnce({ deferUntil, reason: 'Rate limit reached' })
+      .mockResolvedValueOnce({ publishJobId: 'job-1' });
+    worker.register('publishing', handler);
+
+    const added = await queue.add('publishing', 'calendar-event', {}, { maxAttempts: 1 });
+
+    await worker.processNext('publishing');
+    const deferred = await queue.getJob('publishing', added.id);
+    expect(deferred).toMatchObject({ state: 'delayed', attempts: 0, lastError: 'Rate limit reached' });
+    expect(deferred?.runAt).toEqual(deferUntil);
+
+    vi.advanceTimersByTime(30 * 60 * 1000);
+    expect(await worker.processNext('publishing')).toBeNull();
+
+    vi.setSystemTime(deferUntil);
+    await worker.processNext('publishing');
+    expect((await queue.getJob('publishing', added.id))?.state).toBe('completed');
+  });
+});
+
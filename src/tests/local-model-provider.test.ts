@@ -0,0 +1,77 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { LocalModelProvider } from '../services/ai-providers/local-provider';
+import { AIIntegrationHub } from '../services/ai-hub';
+
+describe('Local Model Provider', () => {
+  const jsonResponse = (status: number, body: unknown) =>
+    new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+  const modelList = { object: 'list', data: [{ id: 'llama3.1:8b' }, { id: 'mistral:7b' }] };
+
+  beforeEach(() => {
+    global.fetch = vi.fn();
+  });
+
+  it('should register against the configured base URL with the discovered models', async () => {
+    vi.mocked(global.fetch).mockImplementation(async () => jsonResponse(200, modelList));
+    const database = { query: vi.fn(async () => ({ rows: [] })) };
+    const hub = new AIIntegrationHub(database);
+    hub.stopHealthMonitoring();
+
+    await hub.registerProvider(new LocalModelProvider(), { apiKey: '', baseUrl: 'http://vllm.internal:8000/v1/' }, 'tenant-1');
+
+    const [url, init] = vi.mocked(global.fetch).mock.calls[0]!;
+    expect(url).toBe('http://vllm.internal:8000/v1/models');
+    expect((init as RequestInit).headers).not.toHaveProperty('Authorization');
+
+    const params = database.query.mock.calls[0]![1] as unknown[];
+    expect(JSON.parse(params[3] as string)[0].models).toEqual(['llama3.1:8b', 'mistral:7b']);
+    expect(JSON.parse(params[6] as string)).toMatchObject({ isHealthy: true, consecutiveFailures: 0 });
+  });
+
+  it('should fall back to a loaded model when the requested one is not served', async () => {
+    const provider = new LocalModelProvider();
+    vi.mocked(global.fetch)
+      .mockResolvedValueOnce(jsonResponse(200, modelList))
+      .mockResolvedValueOnce(jsonResponse(200, {
+        choices: [{ message: { content: 'Bom dia!' }, finish_reason: 'stop' }],
+        usage: { prompt_tokens: 40, completion_tokens: 5, total_tokens: 45 }
+      }));
+
+    await provider.authenticate({ apiKey: 'local-key' });
+    const result = await provider.generateContent('Say good morning', { model: 'gpt-4', systemPrompt: 'Answer in Portuguese.' });
+
+    const [url, init] = vi.mocked(global.fetch).mock.calls[1]!;
+    expect(url).toBe('http://localhost:11434/v1/chat/completions');
+    expect((init as RequestInit).headers).toMatchObject({ 'Authorization': 'Bearer local-key' });
+    expect(JSON.parse((init as RequestInit).body as string)).toMatchObject({
+      model: 'llama3.1:8b',
+      messages: [
+        { role: 'system', content: 'Answer in Portuguese.' },
+        { role: 'user', content: 'Say good morning' }
+      ]
+    });
+    expect(result).toMatchObject({ data: 'Bom dia!', metadata: { model: 'llama3.1:8b', tokensUsed: 45 } });
+  });
+
+  it('should report a server without loaded models as unhealthy', async () => {
+    const provider = new LocalModelProvider();
+    vi.mocked(global.fetch)
+      .mockResolvedValueOnce(jsonResponse(200, modelList))
+      .mockResolvedValueOnce(jsonResponse(200, { object: 'list', data: [] }))
+      .mockRejectedValueOnce(new Error('connect ECONNREFUSED 127.0.0.1:11434'));
+
+    await provider.authenticate({ apiKey: '' });
+
+    expect(await provider.checkHealth()).toMatchObject({
+      isHealthy: false,
+      error: 'No models loaded on the local model server'
+    });
+    expect(provider.capabilities[0]!.models).toEqual([]);
+
+    expect(await provider.checkHealth()).toMatchObject({
+      isHealthy: false,
+      error: 'connect ECONNREFUSED 127.0.0.1:11434'
+    });
+  });
+});
@@ -0,0 +1,139 @@
+import { describe, it, expect, beforeEach, vi, Mock } from 'vitest';
+import { InstagramAdapter } from '../services/publishing/instagram-adapter';
+import { LinkedInAdapter } from '../services/publishing/linkedin-adapter';
+import { XAdapter } from '../services/publishing/x-adapter';
+import { YouTubeAdapter } from '../services/publishing/youtube-adapter';
+import { TikTokAdapter } from '../services/publishing/tiktok-adapter';
+import { PlatformAdapterRegistry } from '../services/publishing/platform-registry';
+import { AnalyticsService } from '../services/analytics';
+import { platformRateGovernor } from '../services/publishing/rate-governor';
+
+// Mock fetch globally
+global.fetch = vi.fn();
+
+describe('Platform Metrics Ingestion', () => {
+  const respond = (body: any, ok: boolean = true) => {
+    (global.fetch as Mock).mockResolvedValue({ ok, status: ok ? 200 : 404, json: async () => body });
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should combine Instagram media fields and insights', async () => {
+    respond({
+      like_count: 42,
+      comments_count: 7,
+      insights: {
+        data: [
+          { name: 'views', values: [{ value: 1200 }] },
+          { name: 'reach', values: [{ value: 900 }] },
+          { name: 'saved', values: [{ value: 15 }] },
+          { name: 'shares', values: [{ value: 4 }] }
+        ]
+      }
+    });
+
+    const metrics = await new InstagramAdapter({ accessToken: 'ig-access' }).fetchMetrics('media-1');
+
+    expect(metrics).toEqual({ views: 1200, impressions: 1200, reach: 900, likes: 42, comments: 7, shares: 4, saves: 15 });
+    expect((global.fetch as Mock).mock.calls[0]![0]).toContain('/media-1?fields=like_count,comments_count,insights.metric(views,reach,saved,shares)');
+  });
+
+  it('should read share statistics for LinkedIn organization posts', async () => {
+    respond({
+      elements: [{
+        totalShareStatistics: {
+          impressionCount: 500,
+          uniqueImpressionsCount: 320,
+          clickCount: 25,
+          likeCount: 18,
+          commentCount: 3,
+          shareCount: 2
+        }
+      }]
+    });
+
+    const adapter = new LinkedInAdapter({ accessToken: 'li-access', additionalCredentials: { organizationId: '123' } });
+    const metrics = await adapter.fetchMetrics('urn:li:ugcPost:9');
+
+    expect(metrics).toEqual({ views: 500, impressions: 500, reach: 320, likes: 18, comments: 3, shares: 2, clicks: 25 });
+    expect((global.fetch as Mock).mock.calls[0]![0]).toContain('ugcPosts=List(urn%3Ali%3AugcPost%3A9)');
+  });
+
+  it('should count reposts and quotes as shares on X', async () => {
+    respond({
+      data: {
+        public_metrics: { impression_count: 800, like_count: 30, reply_count: 5, retweet_count: 6, quote_count: 2, bookmark_count: 4 }
+      }
+    });
+
+    const metrics = await new XAdapter({ accessToken: 'x-access' }).fetchMetrics('tweet-1');
+
+    expect(metrics).toEqual({ views: 800, impressions: 800, likes: 30, comments: 5, shares: 8, saves: 4 });
+  });
+
+  it('should convert YouTube statistics from strings and fail for unknown videos', async () => {
+    respond({ items: [{ statistics: { viewCount: '3021', likeCount: '120', commentCount: '9' } }] });
+    const adapter = new YouTubeAdapter({ accessToken: 'yt-access' });
+
+    expect(await adapter.fetchMetrics('video-1')).toEqual({ views: 3021, likes: 120, comments: 9, shares: 0 });
+
+    respond({ items: [] });
+    await expect(adapter.fetchMetrics('missing')).rejects.toThrow('YouTube video missing not found');
+  });
+
+  it('should query TikTok videos by ID', async () => {
+    respond({ data: { videos: [{ id: 'video-1', view_count: 5000, like_count: 200, comment_count: 20, share_count: 10 }] } });
+
+    const metrics = await new TikTokAdapter({ accessToken: 'tt-access' }).fetchMetrics('video-1');
+
+    expect(metrics).toEqual({ views: 5000, likes: 200, comments: 20, shares: 10 });
+    const [, request] = (global.fetch as Mock).mock.calls[0]!;
+    expect(JSON.parse(request.body)).toEqual({ filters: { video_ids: ['video-1'] } });
+  });
+
+  it('should not read metrics while the account is rate limited', async () => {
+    const adapter = new XAdapter({ accessToken: 'x-access' });
+    adapter.setRateGovernor({ acquireMetricsRead: vi.fn(async () => new Date('2026-03-01T13:00:00Z')) } as any);
+
+    await expect(adapter.fetchMetrics('tweet-1')).rejects.toThrow('Metrics rate limit reached for x, retry after 2026-03-01T13:00:00.000Z');
+    expect(global.fetch).not.toHaveBeenCalled();
+  });
+
+  it('should fetch metrics on every platform except Google Business Profile', () => {
+    const registry = new PlatformAdapterRegistry();
+    const withMetrics = registry.getSupportedPlatforms()
+      .filter(platform => typeof registry.registerAdapter(platform, { accessToken: platform }).fetchMetrics === 'function');
+
+    expect(withMetrics).toEqual(['instagram', 'tiktok', 'facebook', 'linkedin', 'x', 'youtube', 'pinterest', 'threads', 'bluesky']);
+  });
+
+  it('should load credentials through the publisher and reuse one adapter per account', async () => {
+    const analyticsService = new AnalyticsService();
+    const getPlatformCredentials = vi.spyOn(analyticsService['publisherService'], 'getPlatformCredentials')
+      .mockResolvedValue({ accessToken: 'x-access' });
+    vi.spyOn(analyticsService['shortLinkService'], 'getClickCount').mockResolvedValue(0);
+    const registerAdapter = vi.spyOn(analyticsService['adapterRegistry'], 'registerAdapter');
+    vi.spyOn(platformRateGovernor, 'acquireMetricsRead').mockResolvedValue(null);
+    respond({ data: { public_metrics: { impression_count: 100, like_count: 1, reply_count: 0, retweet_count: 0, quote_count: 0 } } });
+
+    await analyticsService['fetchPlatformMetrics']('x', 'tweet-1', 'content-1', 'tenant-1');
+    await analyticsService['fetchPlatformMetrics']('x', 'tweet-2', 'content-2', 'tenant-1');
+
+    expect(getPlatformCredentials).toHaveBeenCalledWith('x', expect.objectContaining({ tenantId: 'tenant-1' }));
+    expect(registerAdapter).toHaveBeenCalledTimes(1);
+  });
+
+  it('should collect hourly on the first day, then daily for a month', () => {
+    const analyticsService = new AnalyticsService();
+    const publishedAt = new Date('2026-03-01T12:00:00Z');
+    const hoursAfter = (hours: number) => new Date(publishedAt.getTime() + hours * 60 * 60 * 1000);
+
+    expect(analyticsService.getNextCollectionTime(publishedAt, hoursAfter(2))).toEqual(hoursAfter(3));
+    expect(analyticsService.getNextCollectionTime(publishedAt, hoursAfter(23))).toEqual(hoursAfter(24));
+    expect(analyticsService.getNextCollectionTime(publishedAt, hoursAfter(24))).toEqual(hoursAfter(48));
+    expect(analyticsService.getNextCollectionTime(publishedAt, hoursAfter(29 * 24))).toEqual(hoursAfter(30 * 24));
+    expect(analyticsService.getNextCollectionTime(publishedAt, hoursAfter(30 * 24))).toBeNull();
+  });
+});
@@ -0,0 +1,204 @@
+import { describe, it, expect, beforeEach, vi, Mock } from 'vitest';
+import { PinterestAdapter } from '../services/publishing/pinterest-adapter';
+import { PlatformAdapterRegistry } from '../services/publishing/platform-registry';
+import { PublisherService } from '../services/publishing/publisher-service';
+import { PlatformCredentials } from '../services/publishing/platform-adapter';
+import { ContentGenerationService } from '../services/content-generation';
+import { DatabasePool } from '../interfaces/database';
+import { AdaptedContent, TenantContext } from '../types';
+
+// Mock fetch globally
+global.fetch = vi.fn();
+
+describe('Pinterest Publishing', () => {
+  let adapter: PinterestAdapter;
+  let mockTenantContext: TenantContext;
+  const credentials: PlatformCredentials = {
+    accessToken: 'mock_access_token',
+    refreshToken: 'mock_refresh_token',
+    appId: 'mock_app_id',
+    appSecret: 'mock_app_secret',
+    additionalCredentials: { boardId: 'board-default' }
+  };
+
+  const mockPinCreation = () => {
+    (global.fetch as Mock).mockImplementation(async (url: string) => {
+      if (url.endsWith('/pins')) {
+        return { ok: true, json: async () => ({ id: 'pin-123', board_id: 'board-default' }) };
+      }
+      throw new Error(`Unexpected request to ${url}`);
+    });
+  };
+
+  const getPinRequest = () => {
+    const pinCall = (global.fetch as Mock).mock.calls.find(([url]) => url.endsWith('/pins'));
+    return JSON.parse(pinCall![1].body);
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    adapter = new PinterestAdapter(credentials, { mediaPollIntervalMs: 0 });
+    mockTenantContext = { tenantId: 'tenant-123' } as TenantContext;
+  });
+
+  describe('PinterestAdapter', () => {
+    it('should publish an image pin to the default board with link and alt text', async () => {
+      mockPinCreation();
+
+      const result = await adapter.publish({
+        text: 'Five ways to style a reading nook',
+        mediaUrls: ['https://cdn.example.com/nook.jpg'],
+        platformSpecific: {
+          title: 'Reading nook ideas',
+          link: 'https://shop.example.com/nook',
+          altText: 'Armchair beside a window with a stack of books'
+        }
+      }, mockTenantContext);
+
+      expect(result.success).toBe(true);
+      expect(result.platformPostId).toBe('pin-123');
+      expect(result.metadata?.postType).toBe('image');
+      expect(getPinRequest()).toEqual({
+        board_id: 'board-default',
+        title: 'Reading nook ideas',
+        description: 'Five ways to style a reading nook',
+        link: 'https://shop.example.com/nook',
+        alt_text: 'Armchair beside a window with a stack of books',
+        media_source: { source_type: 'image_url', url: 'https://cdn.example.com/nook.jpg' }
+      });
+    });
+
+    it('should prefer the board chosen for the content over the default board', async () => {
+      mockPinCreation();
+
+      await adapter.publish({
+        text: 'Spring table settings',
+        mediaUrls: ['https://cdn.example.com/table.jpg'],
+        platformSpecific: { boardId: 'board-spring', boardSectionId: 'section-1' }
+      }, mockTenantContext);
+
+      expect(getPinRequest()).toMatchObject({ board_id: 'board-spring', board_section_id: 'section-1' });
+    });
+
+    it('should publish several images as a multi-image pin', async () => {
+      mockPinCreation();
+
+      const result = await adapter.publish({
+        text: 'Living room makeover',
+        mediaUrls: ['https://cdn.example.com/before.jpg', 'https://cdn.example.com/after.jpg'],
+        platformSpecific: { link: 'https://shop.example.com/living' }
+      }, mockTenantContext);
+
+      expect(result.metadata?.postType).toBe('idea');
+      expect(getPinRequest().media_source).toEqual({
+        source_type: 'multiple_image_urls',
+        items: [
+          { url: 'https://cdn.example.com/before.jpg', link: 'https://shop.example.com/living' },
+          { url: 'https://cdn.example.com/after.jpg', link: 'https://shop.example.com/living' }
+        ]
+      });
+    });
+
+    it('should upload videos and wait for processing before creating the pin', async () => {
+      let statusChecks = 0;
+      (global.fetch as Mock).mockImplementation(async (url: string) => {
+        if (url.endsWith('/media')) {
+          return {
+            ok: true,
+            json: async () => ({
+              media_id: 'media-1',
+              media_type: 'video',
+              upload_url: 'https://upload.example.com/',
+              upload_parameters: { key: 'uploads/media-1' }
+            })
+          };
+        }
+        if (url === 'https://cdn.example.com/tour.mp4') {
+          return { ok: true, arrayBuffer: async () => new ArrayBuffer(1024) };
+        }
+        if (url === 'https://upload.example.com/') {
+          return { ok: true };
+        }
+        if (url.endsWith('/media/media-1')) {
+          statusChecks++;
+          return { ok: true, json: async () => ({ media_id: 'media-1', status: statusChecks < 2 ? 'processing' : 'succeeded' }) };
+        }
+        return { ok: true, json: async () => ({ id: 'pin-456', board_id: 'board-default' }) };
+      });
+
+      const result = await adapter.publish({
+        text: 'Kitchen tour',
+        mediaUrls: ['https://cdn.example.com/tour.mp4'],
+        platformSpecific: { coverImageUrl: 'https://cdn.example.com/tour-cover.jpg' }
+      }, mockTenantContext);
+
+      expect(result.success).toBe(true);
+      expect(result.metadata?.postType).toBe('video');
+      expect(statusChecks).toBe(2);
+      expect(getPinRequest().media_source).toEqual({
+        source_type: 'video_id',
+        media_id: 'media-1',
+        cover_image_url: 'https://cdn.example.com/tour-cover.jpg'
+      });
+    });
+
+    it('should reject pins without a board, media or a valid link', async () => {
+      const noBoardAdapter = new PinterestAdapter({ accessToken: 'mock_access_token' });
+
+      const validation = await noBoardAdapter.validateContent({
+        text: 'Missing everything',
+        platformSpecific: { link: 'not a url' }
+      } as AdaptedContent);
+
+      expect(validation.isValid).toBe(false);
+      expect(validation.errors.map(e => e.code)).toEqual(
+        expect.arrayContaining(['MISSING_BOARD', 'MISSING_MEDIA', 'INVALID_LINK'])
+      );
+    });
+
+    it('should be registered in the platform registry', () => {
+      const registry = new PlatformAdapterRegistry();
+
+      expect(registry.getSupportedPlatforms()).toContain('pinterest');
+      expect(registry.registerAdapter('pinterest', credentials)).toBeInstanceOf(PinterestAdapter);
+    });
+  });
+
+  describe('Board selection storage', () => {
+    it('should store board selection in additional_credentials', async () => {
+      const mockDb = { query: vi.fn().mockResolvedValue({ rows: [] }) };
+      const publisherService = new PublisherService(mockDb as unknown as DatabasePool);
+
+      await publisherService.registerPlatformCredentials('pinterest', credentials, mockTenantContext);
+
+      const [query, params] = mockDb.query.mock.calls.find(([sql]) => sql.includes('INSERT INTO platform_credentials'))!;
+      expect(query).toContain('additional_credentials');
+      expect(JSON.parse(params[3])).not.toHaveProperty('additionalCredentials');
+      expect(JSON.parse(params[3])).toHaveProperty('ciphertext');
+      expect(JSON.parse(params[4])).toEqual({ boardId: 'board-default' });
+    });
+  });
+
+  describe('Content adaptation for Pinterest', () => {
+    it('should adapt content into pin metadata', async () => {
+      const service = new ContentGenerationService({ query: vi.fn() } as unknown as DatabasePool);
+
+      const adapted = await service.adaptContentForPlatform({
+        text: 'Cozy autumn porch ideas. Shop the look at https://shop.example.com/autumn #autumndecor #porch',
+        mediaUrls: ['https://cdn.example.com/porch-1.jpg', 'https://cdn.example.com/porch-2.jpg'],
+        metadata: { altText: 'Front porch with pumpkins and a wool throw' }
+      }, 'pinterest', [], []);
+
+      expect(adapted.platformSpecific).toMatchObject({
+        postType: 'idea',
+        title: 'Cozy autumn porch ideas',
+        link: 'https://shop.example.com/autumn',
+        altText: 'Front porch with pumpkins and a wool throw',
+        hashtags: ['#autumndecor', '#porch']
+      });
+
+      const validation = await service.validatePlatformRequirements(adapted, 'pinterest');
+      expect(validation.isValid).toBe(true);
+    });
+  });
+});
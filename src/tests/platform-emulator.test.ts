@@ -0,0 +1,168 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { PlatformEmulator } from '../services/publishing/emulator/platform-emulator';
+import { GRAPH_INSTAGRAM_ACCOUNT_ID } from '../services/publishing/emulator/graph-api';
+import { TikTokAdapter } from '../services/publishing/tiktok-adapter';
+import { InstagramAdapter } from '../services/publishing/instagram-adapter';
+import { LinkedInAdapter } from '../services/publishing/linkedin-adapter';
+import { XAdapter } from '../services/publishing/x-adapter';
+import { TenantContext } from '../types';
+
+describe('Publishing against the platform emulator', () => {
+  const mockTenantContext = { tenantId: 'tenant-123' } as TenantContext;
+  const emulator = new PlatformEmulator({
+    rateLimit: 5,
+    videoProcessingChecks: 1,
+    processingCheckAfterSecs: 0
+  });
+
+  beforeAll(async () => {
+    await emulator.start();
+  });
+
+  afterAll(async () => {
+    await emulator.stop();
+  });
+
+  beforeEach(() => {
+    emulator.reset();
+  });
+
+  describe('TikTok', () => {
+    it('should upload and publish a video, which then finishes processing', async () => {
+      const credentials = emulator.issueCredentials('tiktok');
+      const adapter = new TikTokAdapter(credentials);
+
+      const result = await adapter.publish({
+        text: 'Behind the scenes',
+        mediaUrls: [emulator.getMediaUrl('clip.mp4')],
+        platformSpecific: { privacy: 'public', hashtags: ['bts'] }
+      }, mockTenantContext);
+
+      expect(result.success).toBe(true);
+      expect(emulator.getPosts('tiktok')).toHaveLength(1);
+      expect(emulator.getPosts('tiktok')[0]!.body.post_info.title).toBe('Behind the scenes #bts');
+
+      const checkStatus = async () => {
+        const response = await fetch(`${credentials.baseUrl}/v2/post/publish/status/fetch/`, {
+          method: 'POST',
+          headers: {
+            'Authorization': `Bearer ${credentials.accessToken}`,
+            'Content-Type': 'application/json'
+          },
+          body: JSON.stringify({ publish_id: result.metadata?.videoId })
+        });
+        return (await response.json() as { data: { status: string } }).data.status;
+      };
+
+      expect(await checkStatus()).toBe('PUBLISH_COMPLETE');
+    });
+
+    it('should report rate limits through headers and fail retryably when exceeded', async () => {
+      const adapter = new TikTokAdapter(emulator.issueCredentials('tiktok'));
+
+      const health = await adapter.checkHealth();
+      expect(health.isHealthy).toBe(true);
+      expect(health.rateLimitRemaining).toBe(4);
+      expect(health.rateLimitReset!.getTime()).toBeGreaterThan(Date.now());
+
+      emulator.failNext('tiktok', 'rate_limit');
+      const result = await adapter.publish({
+        text: 'Rate limited',
+        mediaUrls: [emulator.getMediaUrl('clip.mp4')],
+        platformSpecific: { privacy: 'public' }
+      }, mockTenantContext);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('The API rate limit was exceeded');
+      expect(result.retryable).toBe(true);
+    });
+  });
+
+  describe('Instagram', () => {
+    it('should publish an image and report app usage from x-app-usage', async () => {
+      const adapter = new InstagramAdapter(emulator.issueCredentials('instagram'));
+
+      const result = await adapter.publish({
+        text: 'New collection',
+        mediaUrls: [emulator.getMediaUrl('look.jpg')],
+        platformSpecific: { caption: 'New collection', mediaType: 'photo', hashtags: ['fashion'] }
+      }, mockTenantContext);
+
+      expect(result.success).toBe(true);
+      expect(emulator.getPosts('instagram')).toHaveLength(1);
+
+      // Four of the five allowed calls are used once health is checked
+      const health = await adapter.checkHealth();
+      expect(health.rateLimitRemaining).toBe(0);
+
+      const limited = await adapter.checkHealth();
+      expect(limited.isHealthy).toBe(false);
+      expect(limited.error).toBe('(#4) Application request limit reached');
+    });
+
+    it('should reject publishing a video container until processing finishes', async () => {
+      const credentials = emulator.issueCredentials('instagram');
+      const graph = (path: string, init?: RequestInit) => fetch(`${credentials.baseUrl}${path}`, init);
+      const post = (path: string, body: Record<string, unknown>) => graph(path, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...body, access_token: credentials.accessToken })
+      });
+
+      const container = await (await post(`/${GRAPH_INSTAGRAM_ACCOUNT_ID}/media`, {
+        media_type: 'VIDEO',
+        video_url: emulator.getMediaUrl('reel.mp4')
+      })).json() as { id: string };
+
+      const early = await post(`/${GRAPH_INSTAGRAM_ACCOUNT_ID}/media_publish`, { creation_id: container.id });
+      expect(early.status).toBe(400);
+      expect((await early.json() as { error: { code: number } }).error.code).toBe(9007);
+
+      const status = await (await graph(
+        `/${container.id}?fields=status_code&access_token=${credentials.accessToken}`
+      )).json() as { status_code: string };
+      expect(status.status_code).toBe('FINISHED');
+
+      const published = await post(`/${GRAPH_INSTAGRAM_ACCOUNT_ID}/media_publish`, { creation_id: container.id });
+      expect(published.ok).toBe(true);
+    });
+  });
+
+  describe('Token expiry', () => {
+    it('should reject expired X tokens until credentials are refreshed', async () => {
+      const credentials = emulator.issueCredentials('x');
+      const adapter = new XAdapter(credentials);
+      emulator.expireToken(credentials.accessToken);
+
+      const expired = await adapter.publish({ text: 'Launch day' }, mockTenantContext);
+      expect(expired.success).toBe(false);
+      expect(expired.error).toContain('Unauthorized');
+      expect(expired.retryable).toBe(false);
+
+      const refreshed = await adapter.refreshCredentials();
+      expect(refreshed.accessToken).not.toBe(credentials.accessToken);
+      expect(refreshed.baseUrl).toBe(credentials.baseUrl);
+
+      const result = await adapter.publish({ text: 'Launch day' }, mockTenantContext);
+      expect(result.success).toBe(true);
+      expect(emulator.getPosts('x')).toHaveLength(1);
+    });
+
+    it('should refresh LinkedIn tokens through the emulated OAuth endpoint', async () => {
+      const credentials = emulator.issueCredentials('linkedin', 0);
+      const adapter = new LinkedInAdapter(credentials);
+
+      expect(await adapter.authenticate()).toBe(false);
+
+      await adapter.refreshCredentials();
+      const result = await adapter.publish({
+        text: 'Hiring engineers',
+        platformSpecific: { postType: 'update', content: 'Hiring engineers' }
+      }, mockTenantContext);
+
+      expect(result.success).toBe(true);
+      expect(emulator.getPosts('linkedin')[0]!.body.specificContent['com.linkedin.ugc.ShareContent'].shareCommentary.text)
+        .toBe('Hiring engineers');
+    });
+  });
+});
@@ -459,7 +459,7 @@ describe('Platform Integrations Unit Tests', () => {
 
     it('should return supported platforms', () => {
       const supportedPlatforms = registry.getSupportedPlatforms();
-      expect(supportedPlatforms).toEqual(['instagram', 'tiktok', 'facebook', 'linkedin']);
+      expect(supportedPlatforms).toEqual(['instagram', 'tiktok', 'facebook', 'linkedin', 'x', 'youtube', 'pinterest', 'threads', 'bluesky', 'google_business']);
     });
 
     it('should throw error for unsupported platform', () => {
@@ -0,0 +1,265 @@
+import { createHash } from 'crypto';
+import { describe, it, expect, beforeEach, vi, Mock } from 'vitest';
+import { PlatformConnectionService } from '../services/publishing/platform-connections';
+import { PublisherService } from '../services/publishing/publisher-service';
+import { FacebookAdapter } from '../services/publishing/facebook-adapter';
+import { LinkedInAdapter } from '../services/publishing/linkedin-adapter';
+import { PlatformCredentials } from '../services/publishing/platform-adapter';
+import { DatabasePool } from '../interfaces/database';
+import { isAllowedReturnUrl } from '../routes/platforms';
+import { TenantContext } from '../types';
+
+// Mock fetch globally
+global.fetch = vi.fn();
+
+describe('Platform OAuth Connect', () => {
+  const mockTenantContext = { tenantId: 'tenant-123', user: { id: 'user-1' } } as TenantContext;
+
+  let mockDb: DatabasePool;
+  let mockPublisher: PublisherService;
+  let service: PlatformConnectionService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    process.env.X_CLIENT_ID = 'x-client';
+    process.env.X_CLIENT_SECRET = 'x-secret';
+    process.env.FACEBOOK_CLIENT_ID = 'fb-client';
+    process.env.FACEBOOK_CLIENT_SECRET = 'fb-secret';
+    process.env.APP_URL = 'https://app.zingmedia.test';
+
+    mockDb = { query: vi.fn().mockResolvedValue({ rows: [] }) } as unknown as DatabasePool;
+    mockPublisher = {
+      registerPlatformCredentials: vi.fn().mockResolvedValue(undefined),
+      getPlatformCredentials: vi.fn()
+    } as unknown as PublisherService;
+    service = new PlatformConnectionService(mockDb, mockPublisher);
+  });
+
+  describe('createAuthorizationUrl', () => {
+    it('should build a PKCE authorization URL for X and store the state', async () => {
+      const url = new URL(await service.createAuthorizationUrl('x', mockTenantContext, '/settings/platforms'));
+
+      expect(url.origin + url.pathname).toBe('https://x.com/i/oauth2/authorize');
+      expect(url.searchParams.get('client_id')).toBe('x-client');
+      expect(url.searchParams.get('redirect_uri')).toBe('https://app.zingmedia.test/api/v1/oauth/x/callback');
+      expect(url.searchParams.get('code_challenge_method')).toBe('S256');
+
+      const [sql, params] = (mockDb.query as Mock).mock.calls[0]!;
+      expect(sql).toContain('INSERT INTO platform_oauth_states');
+      expect(params[1]).toBe('tenant-123');
+      expect(params[4]).toBe(url.searchParams.get('state'));
+      expect(params[6]).toBe('/settings/platforms');
+
+      const codeVerifier = params[5] as string;
+      expect(url.searchParams.get('code_challenge'))
+        .toBe(createHash('sha256').update(codeVerifier).digest('base64url'));
+    });
+
+    it('should not use PKCE for platforms without it and reject unsupported ones', async () => {
+      const url = new URL(await service.createAuthorizationUrl('facebook', mockTenantContext));
+
+      expect(url.searchParams.get('scope')).toBe('pages_show_list,pages_read_engagement,pages_manage_posts');
+      expect(url.searchParams.has('code_challenge')).toBe(false);
+      expect((mockDb.query as Mock).mock.calls[0]![1][5]).toBeNull();
+
+      await expect(service.createAuthorizationUrl('bluesky', mockTenantContext))
+        .rejects.toThrow('OAuth connect is not supported for platform: bluesky');
+    });
+  });
+
+  describe('completeConnection', () => {
+    it('should exchange the code with the PKCE verifier and store the tokens', async () => {
+      (mockDb.query as Mock).mockResolvedValueOnce({
+        rows: [{
+          tenant_id: 'tenant-123',
+          code_verifier: 'verifier-abc',
+          return_url: '/settings/platforms',
+          expires_at: new Date(Date.now() + 60000).toISOString()
+        }]
+      });
+      (global.fetch as Mock).mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ access_token: 'x-access', refresh_token: 'x-refresh', expires_in: 7200 })
+      });
+      (mockPublisher.getPlatformCredentials as Mock).mockResolvedValue({ accessToken: 'x-access' });
+
+      const result = await service.completeConnection('x', 'auth-code', 'state-1');
+
+      const [tokenUrl, init] = (global.fetch as Mock).mock.calls[0]!;
+      const body = init.body as URLSearchParams;
+      expect(tokenUrl).toBe('https://api.x.com/2/oauth2/token');
+      expect(init.headers['Authorization']).toBe(`Basic ${Buffer.from('x-client:x-secret').toString('base64')}`);
+      expect(body.get('code')).toBe('auth-code');
+      expect(body.get('code_verifier')).toBe('verifier-abc');
+      expect(body.has('client_secret')).toBe(false);
+
+      const [platform, credentials, tenantContext] = (mockPublisher.registerPlatformCredentials as Mock).mock.calls[0]!;
+      expect(platform).toBe('x');
+      expect(credentials.accessToken).toBe('x-access');
+      expect(credentials.refreshToken).toBe('x-refresh');
+      expect(new Date(credentials.expiresAt).getTime()).toBeGreaterThan(Date.now() + 7100 * 1000);
+      expect(tenantContext.tenantId).toBe('tenant-123');
+
+      expect(result).toEqual({
+        tenantId: 'tenant-123',
+        platform: 'x',
+        returnUrl: '/settings/platforms',
+        accounts: []
+      });
+    });
+
+    it('should swap Facebook codes for a long-lived token and keep the app secret out of the credentials', async () => {
+      (mockDb.query as Mock).mockResolvedValueOnce({
+        rows: [{ tenant_id: 'tenant-123', code_verifier: null, return_url: null, expires_at: new Date(Date.now() + 60000).toISOString() }]
+      });
+      (global.fetch as Mock)
+        .mockResolvedValueOnce({ ok: true, json: async () => ({ access_token: 'fb-short', expires_in: 3600 }) })
+        .mockResolvedValueOnce({ ok: true, json: async () => ({ access_token: 'fb-long', expires_in: 5184000 }) })
+        .mockResolvedValueOnce({ ok: true, json: async () => ({ data: [] }) });
+      (mockPublisher.getPlatformCredentials as Mock).mockResolvedValue({ accessToken: 'fb-long' });
+
+      await service.completeConnection('facebook', 'auth-code', 'state-1');
+
+      const exchangeUrl = new URL((global.fetch as Mock).mock.calls[1]![0]);
+      expect(exchangeUrl.origin + exchangeUrl.pathname).toBe('https://graph.facebook.com/v18.0/oauth/access_token');
+      expect(exchangeUrl.searchParams.get('grant_type')).toBe('fb_exchange_token');
+      expect(exchangeUrl.searchParams.get('fb_exchange_token')).toBe('fb-short');
+      expect(exchangeUrl.searchParams.get('client_secret')).toBe('fb-secret');
+
+      const [, credentials] = (mockPublisher.registerPlatformCredentials as Mock).mock.calls[0]!;
+      expect(credentials.accessToken).toBe('fb-long');
+      expect(new Date(credentials.expiresAt).getTime()).toBeGreaterThan(Date.now() + 59 * 24 * 3600 * 1000);
+      expect(credentials.appId).toBe('fb-client');
+      expect(credentials).not.toHaveProperty('appSecret');
+    });
+
+    it('should reject unknown and expired states', async () => {
+      await expect(service.completeConnection('x', 'auth-code', 'unknown'))
+        .rejects.toThrow('Invalid or expired OAuth state');
+
+      (mockDb.query as Mock).mockResolvedValueOnce({
+        rows: [{ tenant_id: 'tenant-123', code_verifier: 'v', return_url: null, expires_at: new Date(Date.now() - 1000).toISOString() }]
+      });
+      await expect(service.completeConnection('x', 'auth-code', 'stale'))
+        .rejects.toThrow('Invalid or expired OAuth state');
+
+      expect(global.fetch).not.toHaveBeenCalled();
+      expect(mockPublisher.registerPlatformCredentials).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('account selection', () => {
+    beforeEach(() => {
+      (mockPublisher.getPlatformCredentials as Mock).mockResolvedValue({
+        accessToken: 'fb-access',
+        appId: 'fb-client',
+        appSecret: 'fb-secret',
+        additionalCredentials: { pageId: 'page-2' }
+      });
+      (global.fetch as Mock).mockResolvedValue({
+        ok: true,
+        json: async () => ({ data: [{ id: 'page-1', name: 'Pizzaria Centro' }, { id: 'page-2', name: 'Pizzaria Norte' }] })
+      });
+    });
+
+    it('should list Facebook pages and mark the selected one', async () => {
+      const accounts = await service.listAccounts('facebook', mockTenantContext);
+
+      expect(accounts).toEqual([
+        { id: 'page-1', name: 'Pizzaria Centro', type: 'page', isSelected: false },
+        { id: 'page-2', name: 'Pizzaria Norte', type: 'page', isSelected: true }
+      ]);
+    });
+
+    it('should store the selected page and reject accounts the user cannot post to', async () => {
+      const account = await service.selectAccount('facebook', 'page-1', mockTenantContext);
+
+      expect(account.isSelected).toBe(true);
+      const [sql, params] = (mockDb.query as Mock).mock.calls[0]!;
+      expect(sql).toContain('additional_credentials = additional_credentials || $1::jsonb');
+      expect(JSON.parse(params[0])).toEqual({ pageId: 'page-1' });
+      expect(params.slice(2)).toEqual(['tenant-123', 'facebook']);
+
+      await expect(service.selectAccount('facebook', 'page-9', mockTenantContext))
+        .rejects.toThrow('Account not found: page-9');
+    });
+  });
+
+  describe('adapters', () => {
+    it('should authenticate Facebook against the selected page', async () => {
+      (global.fetch as Mock)
+        .mockResolvedValueOnce({ ok: true, json: async () => ({ id: 'user-1' }) })
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({
+            data: [
+              { id: 'page-1', name: 'Pizzaria Centro', access_token: 'token-1' },
+              { id: 'page-2', name: 'Pizzaria Norte', access_token: 'token-2' }
+            ]
+          })
+        })
+        .mockResolvedValueOnce({ ok: true, json: async () => ({ id: 'post-1' }) });
+
+      const adapter = new FacebookAdapter({
+        accessToken: 'fb-access',
+        appId: 'fb-client',
+        appSecret: 'fb-secret',
+        additionalCredentials: { pageId: 'page-2' }
+      });
+
+      expect(await adapter.authenticate()).toBe(true);
+      const result = await adapter.publish({
+        text: 'Pizza night',
+        platformSpecific: { postType: 'text', content: 'Pizza night' }
+      }, mockTenantContext);
+
+      expect(result.success).toBe(true);
+
+      expect((global.fetch as Mock).mock.calls[2]![0]).toContain('/page-2/feed');
+      expect(JSON.parse((global.fetch as Mock).mock.calls[2]![1].body).access_token).toBe('token-2');
+    });
+
+    it('should post to LinkedIn as the selected organization', async () => {
+      const credentials: PlatformCredentials = {
+        accessToken: 'li-access',
+        appId: 'li-client',
+        appSecret: 'li-secret',
+        additionalCredentials: { organizationId: '5550' }
+      };
+      (global.fetch as Mock)
+        .mockResolvedValueOnce({ ok: true, json: async () => ({ id: 'member-1' }) })
+        .mockResolvedValueOnce({ ok: true, headers: new Headers({ 'x-restli-id': 'share-1' }), json: async () => ({ id: 'share-1' }) });
+
+      const adapter = new LinkedInAdapter(credentials);
+      const result = await adapter.publish({
+        text: 'We are hiring',
+        platformSpecific: { postType: 'update', content: 'We are hiring' }
+      }, mockTenantContext);
+
+      expect(result.success).toBe(true);
+      const shareBody = JSON.parse((global.fetch as Mock).mock.calls[1]![1].body);
+      expect(shareBody.author).toBe('urn:li:organization:5550');
+    });
+  });
+
+  describe('isAllowedReturnUrl', () => {
+    it('should allow app paths and app URLs', () => {
+      expect(isAllowedReturnUrl('/settings/platforms')).toBe(true);
+      expect(isAllowedReturnUrl('/settings/platforms?tab=x')).toBe(true);
+      expect(isAllowedReturnUrl('https://app.zingmedia.test/settings')).toBe(true);
+    });
+
+    it('should reject URLs that browsers resolve to another host', () => {
+      expect(isAllowedReturnUrl('//evil.com')).toBe(false);
+      expect(isAllowedReturnUrl('/\\evil.com')).toBe(false);
+      expect(isAllowedReturnUrl('\\\\evil.com')).toBe(false);
+      expect(isAllowedReturnUrl('/%5Cevil.com')).toBe(false);
+      expect(isAllowedReturnUrl('/%2F%2Fevil.com')).toBe(false);
+      expect(isAllowedReturnUrl('/\t/evil.com')).toBe(false);
+      expect(isAllowedReturnUrl('/settings%0A/evil.com')).toBe(false);
+      expect(isAllowedReturnUrl('/settings\u007f')).toBe(false);
+      expect(isAllowedReturnUrl('https://evil.com/settings')).toBe(false);
+      expect(isAllowedReturnUrl('javascript:alert(1)')).toBe(false);
+    });
+  });
+});
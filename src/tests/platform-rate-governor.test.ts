@@ -0,0 +1,99 @@
+import { describe, it, expect, beforeEach, vi, Mock } from 'vitest';
+import { RedisManager } from '../config/redis';
+import { PlatformRateGovernor } from '../services/publishing/rate-governor';
+import { PlatformAdapterRegistry } from '../services/publishing/platform-registry';
+import { TenantContext } from '../types';
+
+// Mock fetch globally
+global.fetch = vi.fn();
+
+describe('Platform Rate Governor', () => {
+  const now = new Date('2026-03-02T10:00:00Z').getTime();
+  const mockTenantContext = { tenantId: 'tenant-123' } as TenantContext;
+
+  let mockRedis: { get: Mock; set: Mock; takeToken: Mock };
+  let governor: PlatformRateGovernor;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockRedis = {
+      get: vi.fn().mockResolvedValue(null),
+      set: vi.fn().mockResolvedValue(undefined),
+      takeToken: vi.fn().mockResolvedValue(0)
+    };
+    governor = new PlatformRateGovernor(mockRedis as unknown as RedisManager, {
+      x: { burst: 2, requestsPerHour: 60 }
+    });
+  });
+
+  it('should take tokens from a bucket per platform and account', async () => {
+    expect(await governor.acquire('x', 'account-1', now)).toBeNull();
+    expect(mockRedis.takeToken).toHaveBeenCalledWith('ratelimit:x:account-1', 2, 60 / (60 * 60 * 1000), now);
+
+    mockRedis.takeToken.mockResolvedValueOnce(45000);
+    expect(await governor.acquire('x', 'account-1', now)).toEqual(new Date(now + 45000));
+  });
+
+  it('should take metrics reads from a separate bucket', async () => {
+    const reads = new PlatformRateGovernor(mockRedis as unknown as RedisManager, {}, {
+      instagram: { burst: 20, requestsPerHour: 120 }
+    });
+
+    expect(await reads.acquireMetricsRead('instagram', 'account-1', now)).toBeNull();
+    expect(mockRedis.takeToken).toHaveBeenCalledWith('ratelimit:instagram:account-1:metrics', 20, 120 / (60 * 60 * 1000), now);
+  });
+
+  it('should block an account until the reported reset once no requests are left', async () => {
+    const reset = new Date(now + 15 * 60 * 1000);
+
+    await governor.recordRateLimit('x', 'account-1', 10, reset, now);
+    expect(mockRedis.set).not.toHaveBeenCalled();
+
+    await governor.recordRateLimit('x', 'account-1', 0, reset, now);
+    expect(mockRedis.set).toHaveBeenCalledWith('ratelimit:x:account-1:blocked', reset.getTime().toString(), 900);
+
+    mockRedis.get.mockResolvedValueOnce(reset.getTime().toString());
+    expect(await governor.acquire('x', 'account-1', now)).toEqual(reset);
+    expect(mockRedis.takeToken).not.toHaveBeenCalled();
+  });
+
+  it('should return a retryable result from adapters without calling the platform', async () => {
+    const registry = new PlatformAdapterRegistry(governor);
+    const adapter = registry.registerAdapter('x', { accessToken: 'x-access', appId: 'x-client' });
+    mockRedis.takeToken.mockResolvedValueOnce(60000);
+
+    const result = await adapter.publish({ text: 'Launch day' }, mockTenantContext);
+
+    expect(result.success).toBe(false);
+    expect(result.retryable).toBe(true);
+    expect(result.retryAt!.getTime()).toBeGreaterThan(Date.now());
+    expect(global.fetch).not.toHaveBeenCalled();
+  });
+
+  it('should share one Facebook budget across client accounts of the same app', async () => {
+    const registry = new PlatformAdapterRegistry(governor);
+    const first = registry.registerAdapter('facebook', { accessToken: 'client-a', appId: 'fb-app' });
+    const second = registry.registerAdapter('facebook', { accessToken: 'client-b', appId: 'fb-app' });
+    const x = registry.registerAdapter('x', { accessToken: 'client-a', appId: 'x-client' });
+
+    expect(first.getRateLimitAccount()).toBe('app-fb-app');
+    expect(second.getRateLimitAccount()).toBe('app-fb-app');
+    expect(x.getRateLimitAccount()).not.toBe(registry.registerAdapter('x', { accessToken: 'client-b' }).getRateLimitAccount());
+
+    // Health checks feed the platform's reported usage back to the governor
+    (global.fetch as Mock).mockResolvedValue({
+      ok: true,
+      headers: new Headers({ 'x-app-usage': JSON.stringify({ call_count: 100 }) }),
+      json: async () => ({ id: 'me' })
+    });
+    await first.recordRateLimit(await first.checkHealth());
+
+    expect(mockRedis.set).toHaveBeenCalledWith('ratelimit:facebook:app-fb-app:blocked', expect.any(String), 3600);
+  });
+
+  it('should let requests through when Redis is unavailable', async () => {
+    mockRedis.get.mockRejectedValueOnce(new Error('connection refused'));
+
+    expect(await governor.acquire('x', 'account-1', now)).toBeNull();
+  });
+});
@@ -0,0 +1,233 @@
+import { describe, it, expect, beforeEach, vi, Mock } from 'vitest';
+import { PlatformTokenRefreshService } from '../services/publishing/token-refresh';
+import { PlatformAdapterRegistry } from '../services/publishing/platform-registry';
+import { TransactionalEmailService } from '../services/email';
+import { SecretEncryptionService } from '../services/secret-encryption';
+import { DatabasePool } from '../interfaces/database';
+
+// Mock fetch globally
+global.fetch = vi.fn();
+
+describe('Platform Token Refresh', () => {
+  const now = new Date('2026-03-02T10:00:00Z');
+  const xRow = {
+    id: 'cred-x',
+    tenant_id: 'tenant-123',
+    platform: 'x',
+    credentials: JSON.stringify({
+      accessToken: 'old-access',
+      refreshToken: 'old-refresh',
+      appId: 'x-client',
+      appSecret: 'x-secret',
+      expiresAt: '2026-03-02T12:00:00Z'
+    }),
+    additional_credentials: {},
+    token_expires_at: '2026-03-02T12:00:00Z'
+  };
+
+  let mockDb: DatabasePool;
+  let mockEmailService: TransactionalEmailService;
+  let service: PlatformTokenRefreshService;
+  let lockedRows: Record<string, unknown>[];
+  let admins: { email: string; name: string }[];
+
+  const queryCalls = (fragment: string) =>
+    (mockDb.query as Mock).mock.calls.filter(([sql]) => String(sql).includes(fragment));
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    lockedRows = [xRow];
+    admins = [];
+    mockDb = {
+      query: vi.fn().mockImplementation(async (sql: string) => {
+        if (sql.includes('SELECT id\n')) {
+          return { rows: lockedRows.map(row => ({ id: row.id })) };
+        }
+        if (sql.includes('FOR UPDATE SKIP LOCKED')) {
+          return { rows: lockedRows.splice(0, 1) };
+        }
+        if (sql.includes('FROM users')) {
+          return { rows: admins };
+        }
+        return { rows: [] };
+      })
+    } as unknown as DatabasePool;
+    mockEmailService = {
+      sendPlatformReconnectEmail: vi.fn().mockResolvedValue({ success: true })
+    } as unknown as TransactionalEmailService;
+    service = new PlatformTokenRefreshService(mockDb, mockEmailService, { refreshAheadMinutes: 60 * 6 });
+  });
+
+  it('should refresh tokens expiring within the refresh-ahead window', async () => {
+    (global.fetch as Mock).mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({ access_token: 'new-access', refresh_token: 'new-refresh', expires_in: 7200 })
+    });
+
+    const summary = await service.refreshExpiringCredentials(now);
+
+    expect(summary).toEqual({ checked: 1, refreshed: 1, needsReauth: 0, failed: 0 });
+    expect((mockDb.query as Mock).mock.calls[0]![1][0]).toEqual(new Date('2026-03-02T16:00:00Z'));
+
+    const [sql, params] = queryCalls('UPDATE platform_credentials')[0]!;
+    expect(sql).toContain('SET credentials = $1');
+    const encrypted = JSON.parse(params[0]);
+    expect(SecretEncryptionService.isEncrypted(encrypted)).toBe(true);
+    expect(params[0]).not.toContain('new-access');
+
+    // Decrypt with the data key the service created for the tenant
+    const [, keyParams] = queryCalls('INSERT INTO encryption_keys')[0]!;
+    expect(keyParams[1]).toBe('tenant-123');
+    (mockDb.query as Mock).mockResolvedValueOnce({ rows: [{ encrypted_key: keyParams[3] }] });
+    const stored = await new SecretEncryptionService(mockDb).decrypt<Record<string, string>>(encrypted);
+    expect(stored.accessToken).toBe('new-access');
+    expect(stored.refreshToken).toBe('new-refresh');
+    expect(stored.additionalCredentials).toBeUndefined();
+    expect(params[1]).toBe(stored.expiresAt);
+    expect(new Date(params[1]).getTime()).toBeGreaterThan(Date.now() + 7100 * 1000);
+    expect(params[3]).toBe('cred-x');
+    expect(mockEmailService.sendPlatformReconnectEmail).not.toHaveBeenCalled();
+  });
+
+  it('should read the app secret from the server config for OAuth connections', async () => {
+    process.env.X_CLIENT_SECRET = 'x-config-secret';
+    const { appSecret, ...connected } = JSON.parse(xRow.credentials);
+    expect(appSecret).toBe('x-secret');
+    lockedRows = [{ ...xRow, credentials: JSON.stringify(connected) }];
+    (global.fetch as Mock).mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({ access_token: 'new-access', refresh_token: 'new-refresh', expires_in: 7200 })
+    });
+
+    const summary = await service.refreshExpiringCredentials(now);
+    delete process.env.X_CLIENT_SECRET;
+
+    expect(summary.refreshed).toBe(1);
+    expect((global.fetch as Mock).mock.calls[0]![1].headers['Authorization'])
+      .toBe(`Basic ${Buffer.from('x-client:x-config-secret').toString('base64')}`);
+
+    // The secret is not copied into the tenant's stored credentials
+    const [, params] = queryCalls('UPDATE platform_credentials')[0]!;
+    const [, keyParams] = queryCalls('INSERT INTO encryption_keys')[0]!;
+    (mockDb.query as Mock).mockResolvedValueOnce({ rows: [{ encrypted_key: keyParams[3] }] });
+    const stored = await new SecretEncryptionService(mockDb).decrypt<Record<string, string>>(JSON.parse(params[0]));
+    expect(stored.accessToken).toBe('new-access');
+    expect(stored.appSecret).toBeUndefined();
+  });
+
+  it('should refresh each credential under a row lock inside a transaction', async () => {
+    (global.fetch as Mock).mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({ access_token: 'new-access', refresh_token: 'new-refresh', expires_in: 7200 })
+    });
+
+    await service.refreshExpiringCredentials(now);
+
+    const statements = (mockDb.query as Mock).mock.calls.map(([sql]) => String(sql).trim());
+    const beginIndex = statements.indexOf('BEGIN');
+    const lockIndex = statements.findIndex(sql => sql.includes('FOR UPDATE SKIP LOCKED'));
+    const updateIndex = statements.findIndex(sql => sql.includes('SET credentials = $1'));
+    const commitIndex = statements.indexOf('COMMIT');
+
+    expect(beginIndex).toBeGreaterThanOrEqual(0);
+    expect(lockIndex).toBeGreaterThan(beginIndex);
+    expect(updateIndex).toBeGreaterThan(lockIndex);
+    expect(commitIndex).toBeGreaterThan(updateIndex);
+  });
+
+  it('should skip credentials another instance has locked or already refreshed', async () => {
+    (mockDb.query as Mock).mockImplementation(async (sql: string) => {
+      if (sql.includes('SELECT id\n')) {
+        return { rows: [{ id: 'cred-x' }] };
+      }
+      return { rows: [] };
+    });
+
+    const summary = await service.refreshExpiringCredentials(now);
+
+    expect(summary).toEqual({ checked: 1, refreshed: 0, needsReauth: 0, failed: 0 });
+    expect(global.fetch).not.toHaveBeenCalled();
+    expect(queryCalls('UPDATE platform_credentials')).toHaveLength(0);
+  });
+
+  it('should mark credentials as needing reauth and email the tenant admins when the grant is rejected', async () => {
+    admins = [
+      { email: 'ana@client.example.com', name: 'Ana' },
+      { email: 'bruno@client.example.com', name: 'Bruno' }
+    ];
+    (global.fetch as Mock).mockResolvedValueOnce({ ok: false, status: 400, json: async () => ({ error: 'invalid_grant' }) });
+
+    const summary = await service.refreshExpiringCredentials(now);
+
+    expect(summary).toEqual({ checked: 1, refreshed: 0, needsReauth: 1, failed: 0 });
+
+    const [sql, params] = queryCalls('UPDATE platform_credentials')[0]!;
+    expect(sql).toContain('SET status = $1');
+    expect(params).toEqual([
+      'needs_reauth',
+      'Failed to refresh X credentials: Token refresh rejected (400 invalid_grant)',
+      now,
+      'cred-x'
+    ]);
+
+    expect(queryCalls('FROM users')[0]![1]).toEqual(['tenant-123', ['Agency Admin', 'Platform Admin']]);
+    expect(mockEmailService.sendPlatformReconnectEmail).toHaveBeenCalledTimes(2);
+    expect(mockEmailService.sendPlatformReconnectEmail).toHaveBeenCalledWith(
+      'tenant-123',
+      'ana@client.example.com',
+      'Ana',
+      'X',
+      expect.stringContaining('/settings/platforms?reconnect=x'),
+      expect.stringContaining('Failed to refresh X credentials')
+    );
+  });
+
+  it('should keep credentials active and retry later when the refresh fails transiently', async () => {
+    admins = [{ email: 'ana@client.example.com', name: 'Ana' }];
+    (global.fetch as Mock).mockResolvedValueOnce({ ok: false, status: 503, json: async () => ({}) });
+
+    const summary = await service.refreshExpiringCredentials(now);
+
+    expect(summary).toEqual({ checked: 1, refreshed: 0, needsReauth: 0, failed: 1 });
+    const [, params] = queryCalls('UPDATE platform_credentials')[0]!;
+    expect(params).toEqual(['active', 'Failed to refresh X credentials: Token refresh rejected (503)', now, 'cred-x']);
+    expect(mockEmailService.sendPlatformReconnectEmail).not.toHaveBeenCalled();
+
+    lockedRows = [xRow];
+    (global.fetch as Mock).mockRejectedValueOnce(new Error('network error'));
+    expect((await service.refreshExpiringCredentials(now)).failed).toBe(1);
+    expect(mockEmailService.sendPlatformReconnectEmail).not.toHaveBeenCalled();
+  });
+
+  it('should mark platforms that cannot refresh without the user as needing reauth', async () => {
+    lockedRows = [{
+      ...xRow,
+      id: 'cred-fb',
+      platform: 'facebook',
+      credentials: { accessToken: 'fb-access', expiresAt: '2026-03-02T12:00:00Z' }
+    }];
+
+    const summary = await service.refreshExpiringCredentials(now);
+
+    expect(summary.needsReauth).toBe(1);
+    expect(global.fetch).not.toHaveBeenCalled();
+    expect(queryCalls('UPDATE platform_credentials')[0]![1][1]).toContain('requires re-authentication');
+  });
+
+  it('should report credential health alongside platform health', async () => {
+    const registry = new PlatformAdapterRegistry();
+    const inOneHour = new Date(Date.now() + 60 * 60 * 1000).toISOString();
+    const inTenDays = new Date(Date.now() + 10 * 24 * 60 * 60 * 1000).toISOString();
+
+    registry.registerAdapter('x', { accessToken: 'x-expiring', appId: 'x1', expiresAt: inOneHour });
+    registry.registerAdapter('linkedin', { accessToken: 'li-valid', appId: 'li1', expiresAt: inTenDays });
+    registry.registerAdapter('pinterest', { accessToken: 'pin-reauth', appId: 'pin1', status: 'needs_reauth' });
+
+    (global.fetch as Mock).mockRejectedValue(new Error('network error'));
+
+    const results = Object.values(await registry.healthCheckAll());
+
+    expect(results.map(result => result.credentials.status)).toEqual(['expiring', 'valid', 'needs_reauth']);
+    expect(results[0].credentials.expiresAt).toEqual(new Date(inOneHour));
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import { PostPreviewRenderer } from '../services/publishing/post-preview';
+import { BrandConfig } from '../types';
+
+describe('Post Preview Renderer', () => {
+  const brandConfig: BrandConfig = {
+    primaryColor: '#123456',
+    secondaryColor: '#654321',
+    fontFamily: 'Inter',
+    companyName: 'Café Aurora',
+    logo: 'https://cdn.example.com/logo.png'
+  };
+  const renderer = new PostPreviewRenderer();
+
+  it('should fold Instagram captions after 125 characters and style hashtags', () => {
+    const caption = 'Our new autumn menu is here. '.repeat(6);
+    const preview = renderer.renderPost('instagram', {
+      mediaUrls: ['https://cdn.example.com/1.jpg', 'https://cdn.example.com/2.mp4', 'https://cdn.example.com/3.jpg'],
+      platformSpecific: { mediaType: 'carousel', aspectRatio: '4:5', caption, hashtags: ['autumn', '#brunch'] }
+    }, brandConfig);
+
+    expect(preview).toMatchObject({ platform: 'instagram', folded: true, truncated: false });
+    expect(preview.html).toContain(`${caption.slice(0, 125)}<details class="preview-fold"><summary>more</summary>`);
+    expect(preview.html).toContain('<span class="preview-tag">#autumn</span> <span class="preview-tag">#brunch</span>');
+
+    // Carousel items keep their order and the feed crop
+    expect(preview.html.match(/preview-index">\d\/3/g)).toEqual(['preview-index">1/3', 'preview-index">2/3', 'preview-index">3/3']);
+    expect(preview.html).toContain('style="aspect-ratio: 4 / 5"');
+    expect(preview.html).toContain('<video src="https://cdn.example.com/2.mp4"');
+    expect(preview.html).toContain('Café Aurora');
+  });
+
+  it('should show each post of an X thread and strike text past the limit', () => {
+    const tooLong = `${'a'.repeat(280)}bcd`;
+    const preview = renderer.renderPost('x', {
+      text: 'ignored',
+      platformSpecific: { postType: 'thread', thread: ['First post 1/2', tooLong] }
+    }, brandConfig);
+
+    expect(preview).toMatchObject({ folded: false, truncated: true });
+    expect(preview.html.match(/class="preview-text"/g)).toHaveLength(2);
+    expect(preview.html).toContain('<span class="preview-overflow" title="Cut at 280 characters">bcd</span>');
+    expect(preview.html).not.toContain('ignored');
+  });
+
+  it('should escape content and branding', () => {
+    const preview = renderer.renderPost('linkedin', {
+      platformSpecific: { postType: 'update', content: '<script>alert(1)</script> @team' }
+    }, { ...brandConfig, companyName: '<b>Evil</b>' });
+
+    expect(preview.html).not.toContain('<script>');
+    expect(preview.html).toContain('&lt;script&gt;alert(1)&lt;/script&gt; <span class="preview-tag">@team</span>');
+    expect(preview.html).toContain('&lt;b&gt;Evil&lt;/b&gt;');
+  });
+
+  it('should frame the previews with the tenant branding and flag folded or cut text', () => {
+    const previews = [
+      renderer.renderPost('linkedin', { platformSpecific: { content: 'x'.repeat(300) } }, brandConfig),
+      renderer.renderPost('bluesky', { text: 'y'.repeat(301) }, brandConfig)
+    ];
+
+    const page = renderer.renderPage('Autumn launch', previews, brandConfig);
+
+    expect(page).toMatch(/^<!DOCTYPE html>/);
+    expect(page).toContain('<title>Preview: Autumn launch</title>');
+    expect(page).toContain('background: #123456');
+    expect(page).toContain('<img src="https://cdn.example.com/logo.png" alt="">');
+    expect(page).toContain('<li>LinkedIn: part of the text is hidden behind &quot;see more&quot;</li>');
+    expect(page).toContain('<li>Bluesky: text is longer than the platform allows and will be cut</li>');
+  });
+
+  it('should fall back to default styles for brand values that are not plain CSS', () => {
+    const page = renderer.renderPage('Autumn launch', [], {
+      ...brandConfig,
+      primaryColor: 'red; } body { background: url(https://evil.example.com/x)',
+      fontFamily: 'Inter; } </style><script>alert(1)</script>'
+    });
+
+    expect(page).toContain('background: #1c1e21; color: #fff;');
+    expect(page).toContain('font-family: system-ui, sans-serif;');
+    expect(page).not.toContain('evil.example.com');
+    expect(page).not.toContain('alert(1)');
+
+    const rgba = renderer.renderPage('Autumn launch', [], { ...brandConfig, primaryColor: 'rgba(18, 52, 86, 0.9)', fontFamily: '"Open Sans", Arial' });
+    expect(rgba).toContain('background: rgba(18, 52, 86, 0.9);');
+    expect(rgba).toContain('font-family: "Open Sans", Arial, sans-serif;');
+  });
+});
@@ -0,0 +1,170 @@
+import { describe, it, expect, vi } from 'vitest';
+import { PromptTemplateService, DEFAULT_PROMPT_TEMPLATES } from '../services/prompt-templates';
+import { AIIntegrationHub } from '../services/ai-hub';
+import { AIProviderInterface, AIRequest, TenantContext } from '../types';
+
+describe('Prompt Templates', () => {
+  const tenantContext = {
+    tenantId: 'tenant-1',
+    tenant: { id: 'tenant-1' },
+    user: { id: 'user-1' },
+    permissions: []
+  } as unknown as TenantContext;
+
+  // Keeps prompt_templates and prompt_template_versions rows in memory,
+  // answering the queries PromptTemplateService issues
+  const createDatabase = () => {
+    const templates: any[] = [];
+    const versions: any[] = [];
+
+    const query = vi.fn(async (sql: string, params: any[] = []) => {
+      if (sql.includes('SELECT * FROM prompt_templates')) {
+        const [key, tenantId] = params;
+        const row = templates.find(t => t.key === key && t.tenant_id === tenantId)
+          || templates.find(t => t.key === key && t.tenant_id === null);
+        return { rows: row ? [row] : [] };
+      }
+      if (sql.includes('INSERT INTO prompt_templates')) {
+        const [id, key, name, body, version, tenantId, createdBy, createdAt, updatedAt] = params;
+        const row = {
+          id, key, name, body, version, tenant_id: tenantId, created_by: createdBy,
+          created_at: createdAt, updated_at: updatedAt
+        };
+        templates.push(row);
+        return { rows: [row] };
+      }
+      if (sql.includes('UPDATE prompt_templates')) {
+        const [body, updatedAt, id] = params;
+        const row = templates.find(t => t.id === id);
+        Object.assign(row, { body, version: row.version + 1, updated_at: updatedAt });
+        return { rows: [row] };
+      }
+      if (sql.includes('INSERT INTO prompt_template_versions')) {
+        const [id, templateId, version, body, changeNote, tenantId, createdBy, createdAt] = params;
+        versions.push({
+          id, template_id: templateId, version, body, change_note: changeNote,
+          tenant_id: tenantId, created_by: createdBy, created_at: createdAt
+        });
+        return { rows: [] };
+      }
+      if (sql.includes('FROM prompt_template_versions')) {
+        const [key, tenantId] = params;
+        const ids = templates.filter(t => t.key === key && t.tenant_id === tenantId).map(t => t.id);
+        return { rows: versions.filter(v => ids.includes(v.template_id)).sort((a, b) => b.version - a.version) };
+      }
+      return { rows: [] };
+    });
+
+    return { query, templates, versions };
+  };
+
+  it('should render the built-in default when no template has been saved', async () => {
+    const service = new PromptTemplateService({ query: vi.fn(async () => ({ rows: [] })) });
+
+    const { prompt, template } = await service.renderPrompt('content_generation', {
+      contentType: 'text',
+      ...service.getBriefingVariables({ title: 'Launch', type: 'internal', fields: { goal: 'Awareness', budget: 500 } }),
+      targetPlatforms: 'instagram, facebook',
+      title: 'Spring launch',
+      contentInstructions: 'Keep it short.'
+    }, tenantContext);
+
+    expect(template).toEqual({ key: 'content_generation', version: 1 });
+    expect(prompt).toBe(
+      'Generate text content with the following requirements:\n\n' +
+      'BRIEFING CONTEXT:\nTitle: Launch\nType: internal\ngoal: Awareness\n\n\n' +
+      'TARGET PLATFORMS: instagram, facebook\n\n' +
+      'CONTENT TITLE: Spring launch\n' +
+      '\nKeep it short.'
+    );
+  });
+
+  it('should fill briefing fields, brand voice and best practice lists', () => {
+    const service = new PromptTemplateService({ query: vi.fn(async () => ({ rows: [] })) });
+
+    const prompt = service.render(
+      'Goal: {{briefing.goal}}\n{{#brandVoice}}Voice: {{brandVoice}}\n{{/brandVoice}}{{#bestPractices}}{{bestPractices}}{{/bestPractices}}',
+      {
+        ...service.getBriefingVariables({ title: 'Launch', type: 'internal', fields: { goal: 'Awareness' } }),
+        brandVoice: '',
+        bestPractices: ['Hook in the first line', 'End with a question']
+      }
+    );
+
+    expect(prompt).toBe('Goal: Awareness\nHook in the first line\nEnd with a question');
+  });
+
+  it('should reject templates with unknown variables or unclosed sections', async () => {
+    const { query } = createDatabase();
+    const service = new PromptTemplateService({ query });
+
+    await expect(service.saveTemplate('content_generation', 'Write about {{topic}}', tenantContext))
+      .rejects.toThrow('Unknown prompt template variables: topic');
+    await expect(service.saveTemplate('content_generation', '{{#brandVoice}}{{brandVoice}}', tenantContext))
+      .rejects.toThrow('Unclosed section in prompt template');
+    expect(query).not.toHaveBeenCalled();
+  });
+
+  it('should keep a version history and roll back as a new version', async () => {
+    const { query, templates } = createDatabase();
+    templates.push({
+      id: 'platform-template', key: 'content_generation', name: 'Content generation',
+      body: DEFAULT_PROMPT_TEMPLATES.content_generation.body, version: 1, tenant_id: null,
+      created_at: new Date(), updated_at: new Date()
+    });
+    const service = new PromptTemplateService({ query });
+
+    const first = await service.saveTemplate('content_generation', 'First {{title}}', tenantContext, 'Shorter');
+    const second = await service.saveTemplate('content_generation', 'Second {{title}}', tenantContext);
+    expect(first).toMatchObject({ version: 1, tenantId: 'tenant-1' });
+    expect(second).toMatchObject({ id: first.id, version: 2 });
+
+    const rolledBack = await service.rollbackTemplate('content_generation', 1, tenantContext);
+    expect(rolledBack).toMatchObject({ id: first.id, version: 3, body: 'First {{title}}' });
+
+    const versions = await service.getTemplateVersions('content_generation', tenantContext);
+    expect(versions.map(v => [v.version, v.changeNote])).toEqual([
+      [3, 'Rollback to version 1'],
+      [2, undefined],
+      [1, 'Shorter']
+    ]);
+
+    // Other tenants still get the platform default
+    const other = await service.getTemplate('content_generation', { ...tenantContext, tenantId: 'tenant-2' });
+    expect(other.id).toBe('platform-template');
+
+    await expect(service.rollbackTemplate('content_generation', 7, tenantContext))
+      .rejects.toThrow('Prompt template version not found');
+  });
+
+  it('should log the template version that produced an AI request', async () => {
+    const database = { query: vi.fn(async () => ({ rows: [] })) };
+    const hub = new AIIntegrationHub(database);
+    hub.stopHealthMonitoring();
+    hub['providers'].set('provider-a', {
+      id: 'provider-a',
+      name: 'provider-a',
+      capabilities: [],
+      authenticate: async () => true,
+      generateContent: async () => ({ type: 'text' as const, data: 'Generated' }),
+      checkHealth: async () => ({ providerId: 'provider-a', isHealthy: true, responseTime: 100, timestamp: new Date() }),
+      getUsage: async () => ({ creditsConsumed: 1, requestCount: 1, processingTime: 10 })
+    } as unknown as AIProviderInterface);
+
+    const request: AIRequest = {
+      id: 'request-1',
+      type: 'text',
+      prompt: 'Rendered prompt',
+      options: {},
+      tenantId: 'tenant-1',
+      userId: 'user-1',
+      promptTemplate: { key: 'content_generation', templateId: 'template-1', version: 4 },
+      createdAt: new Date()
+    };
+
+    await hub.routeRequest(request, { strategy: 'cost_optimized', providerId: 'provider-a', fallbackChain: [] });
+
+    const logCall = database.query.mock.calls.find(([query]) => String(query).includes('INSERT INTO ai_request_logs'));
+    expect(logCall?.[1]?.slice(-2)).toEqual(['template-1', 4]);
+  });
+});
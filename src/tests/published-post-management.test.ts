@@ -0,0 +1,136 @@
+import { describe, it, expect, beforeEach, vi, Mock } from 'vitest';
+import { PublisherService } from '../services/publishing/publisher-service';
+import { PlatformAdapterRegistry } from '../services/publishing/platform-registry';
+import { BlueskyAdapter } from '../services/publishing/bluesky-adapter';
+import { DatabasePool } from '../interfaces/database';
+import { TenantContext } from '../types';
+
+// Mock fetch globally
+global.fetch = vi.fn();
+
+describe('Published Post Management', () => {
+  const mockTenantContext = { tenantId: 'tenant-123' } as TenantContext;
+
+  let mockDb: { query: Mock };
+  let publisherService: PublisherService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockDb = {
+      query: vi.fn(async (sql: string) => {
+        if (sql.includes('FROM content')) {
+          return {
+            rows: [{
+              id: 'content-123',
+              base_content: JSON.stringify({ text: 'Open on Sundays' }),
+              adapted_content: JSON.stringify({
+                pinterest: {
+                  text: 'Open on Sundays',
+                  mediaUrls: ['https://cdn.example.com/menu.jpg'],
+                  platformSpecific: { boardId: 'board-1', description: 'Now open on Sundays' }
+                }
+              })
+            }]
+          };
+        }
+        if (sql.includes('FROM platform_posts')) {
+          return {
+            rows: [
+              { id: 'post-1', platform: 'x', platform_post_id: 'tweet-1' },
+              { id: 'post-2', platform: 'instagram', platform_post_id: 'ig-1' },
+              { id: 'post-3', platform: 'pinterest', platform_post_id: 'pin-1' }
+            ]
+          };
+        }
+        if (sql.includes('FROM platform_credentials')) {
+          return { rows: [{ credentials: JSON.stringify({ accessToken: 'access-token' }) }] };
+        }
+        return { rows: [] };
+      })
+    };
+    publisherService = new PublisherService(mockDb as unknown as DatabasePool);
+  });
+
+  it('should report which platforms can edit or delete published posts', () => {
+    const registry = new PlatformAdapterRegistry();
+
+    expect(registry.getPostCapabilities('facebook')).toEqual({ update: true, delete: true });
+    expect(registry.getPostCapabilities('x')).toEqual({ update: false, delete: true });
+    expect(registry.getPostCapabilities('instagram')).toEqual({ update: false, delete: false });
+    expect(publisherService.getPostCapabilities().pinterest).toEqual({ update: true, delete: true });
+  });
+
+  it('should take posts down where the platform allows it and mark them deleted', async () => {
+    (global.fetch as Mock).mockResolvedValue({ ok: true, status: 204, json: async () => ({}) });
+
+    const results = await publisherService.takeDownContent('content-123', mockTenantContext);
+
+    expect(results).toEqual([
+      { platform: 'x', platformPostId: 'tweet-1', status: 'success' },
+      {
+        platform: 'instagram',
+        platformPostId: 'ig-1',
+        status: 'unsupported',
+        error: 'instagram does not allow published posts to be deleted'
+      },
+      { platform: 'pinterest', platformPostId: 'pin-1', status: 'success' }
+    ]);
+    expect((global.fetch as Mock).mock.calls.map(([url, init]) => [url, init.method])).toEqual([
+      ['https://api.x.com/2/tweets/tweet-1', 'DELETE'],
+      ['https://api.pinterest.com/v5/pins/pin-1', 'DELETE']
+    ]);
+
+    const updates = mockDb.query.mock.calls.filter(([sql]) => sql.startsWith('UPDATE platform_posts'));
+    expect(updates.map(([, params]) => [params[0], params[2]])).toEqual([
+      ['deleted', 'post-1'],
+      ['deleted', 'post-3']
+    ]);
+  });
+
+  it('should correct published posts on the platforms that were picked', async () => {
+    (global.fetch as Mock).mockResolvedValueOnce({ ok: true, json: async () => ({ id: 'pin-1' }) });
+
+    const results = await publisherService.updatePublishedContent('content-123', mockTenantContext, ['pinterest', 'x']);
+
+    expect(results).toEqual([
+      {
+        platform: 'x',
+        platformPostId: 'tweet-1',
+        status: 'unsupported',
+        error: 'x does not allow published posts to be edited'
+      },
+      { platform: 'pinterest', platformPostId: 'pin-1', status: 'success' }
+    ]);
+
+    const [url, init] = (global.fetch as Mock).mock.calls[0]!;
+    expect(url).toBe('https://api.pinterest.com/v5/pins/pin-1');
+    expect(init.method).toBe('PATCH');
+    expect(JSON.parse(init.body)).toEqual({ description: 'Now open on Sundays' });
+  });
+
+  it('should report platform errors without marking the post', async () => {
+    (global.fetch as Mock).mockResolvedValue({ ok: false, status: 404, json: async () => ({ message: 'Pin not found' }) });
+
+    const results = await publisherService.takeDownContent('content-123', mockTenantContext, ['pinterest']);
+
+    expect(results).toEqual([{
+      platform: 'pinterest',
+      platformPostId: 'pin-1',
+      status: 'failed',
+      error: 'Failed to delete Pinterest pin: Pin not found'
+    }]);
+    expect(mockDb.query.mock.calls.some(([sql]) => sql.startsWith('UPDATE platform_posts'))).toBe(false);
+  });
+
+  it('should delete Bluesky posts by their record URI', async () => {
+    (global.fetch as Mock).mockResolvedValue({ ok: true, json: async () => ({}) });
+    const adapter = new BlueskyAdapter({ accessToken: 'bsky-access' });
+
+    const result = await adapter.deletePost('at://did:plc:abc/app.bsky.feed.post/3kxyz');
+
+    expect(result).toEqual({ success: true, platformPostId: 'at://did:plc:abc/app.bsky.feed.post/3kxyz' });
+    const [url, init] = (global.fetch as Mock).mock.calls[0]!;
+    expect(url).toBe('https://bsky.social/xrpc/com.atproto.repo.deleteRecord');
+    expect(JSON.parse(init.body)).toEqual({ repo: 'did:plc:abc', collection: 'app.bsky.feed.post', rkey: '3kxyz' });
+  });
+});
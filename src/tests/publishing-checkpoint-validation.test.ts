@@ -88,7 +88,13 @@ describe('Publishing System Checkpoint Validation', () => {
       expect(supportedPlatforms).toContain('facebook');
       expect(supportedPlatforms).toContain('tiktok');
       expect(supportedPlatforms).toContain('linkedin');
-      expect(supportedPlatforms).toHaveLength(4);
+      expect(supportedPlatforms).toContain('x');
+      expect(supportedPlatforms).toContain('youtube');
+      expect(supportedPlatforms).toContain('pinterest');
+      expect(supportedPlatforms).toContain('threads');
+      expect(supportedPlatforms).toContain('bluesky');
+      expect(supportedPlatforms).toContain('google_business');
+      expect(supportedPlatforms).toHaveLength(10);
     });
 
     it('should provide platform requirements for all supported platforms', () => {
@@ -141,7 +147,7 @@ describe('Publishing System Checkpoint Validation', () => {
           expect.any(String), // credentialsId
           mockTenantContext.tenantId,
           'instagram',
-          JSON.stringify(mockCredentials),
+          expect.stringContaining('"ciphertext"'), // encrypted credentials
           true,
           expect.any(String), // created_at
           expect.any(String)  // updated_at
@@ -194,7 +200,7 @@ describe('Publishing System Checkpoint Validation', () => {
       const registry = new PlatformAdapterRegistry();
       const supportedPlatforms = registry.getSupportedPlatforms();
       
-      expect(supportedPlatforms).toEqual(['instagram', 'tiktok', 'facebook', 'linkedin']);
+      expect(supportedPlatforms).toEqual(['instagram', 'tiktok', 'facebook', 'linkedin', 'x', 'youtube', 'pinterest', 'threads', 'bluesky', 'google_business']);
     });
 
     it('should throw error for unsupported platform registration', () => {
@@ -207,7 +207,7 @@ describe('Publishing System Validation', () => {
           expect.any(String), // credentialsId
           mockTenantContext.tenantId,
           'instagram',
-          JSON.stringify(mockCredentials),
+          expect.stringContaining('"ciphertext"'), // encrypted credentials
           true,
           expect.any(String), // created_at
           expect.any(String)  // updated_at
@@ -222,7 +222,13 @@ describe('Publishing System Validation', () => {
       expect(supportedPlatforms).toContain('facebook');
       expect(supportedPlatforms).toContain('tiktok');
       expect(supportedPlatforms).toContain('linkedin');
-      expect(supportedPlatforms).toHaveLength(4);
+      expect(supportedPlatforms).toContain('x');
+      expect(supportedPlatforms).toContain('youtube');
+      expect(supportedPlatforms).toContain('pinterest');
+      expect(supportedPlatforms).toContain('threads');
+      expect(supportedPlatforms).toContain('bluesky');
+      expect(supportedPlatforms).toContain('google_business');
+      expect(supportedPlatforms).toHaveLength(10);
     });
 
     it('should return platform requirements for all supported platforms', () => {
@@ -0,0 +1,288 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { DatabasePool } from '../interfaces/database';
+import { ScheduledPublishExecutor } from '../services/publishing/scheduled-publisher';
+import { PublisherService, PublishJobResult } from '../services/publishing/publisher-service';
+import { Job, JobQueue } from '../services/queue/job-queue';
+
+describe('Scheduled Publishing Execution', () => {
+  let mockDb: DatabasePool;
+  let queries: { text: string; params?: unknown[] }[];
+  let publishContent: ReturnType<typeof vi.fn>;
+  let executor: ScheduledPublishExecutor;
+
+  const dueEvent = {
+    id: 'event-123',
+    content_id: 'content-123',
+    platform: 'instagram',
+    scheduled_at: new Date('2026-01-01T10:00:00Z').toISOString(),
+    tenant_id: 'tenant-123',
+    created_by: 'user-123',
+    retry_count: 0
+  };
+
+  beforeEach(() => {
+    queries = [];
+
+    mockDb = {
+      query: vi.fn().mockImplementation(async (text: string, params?: unknown[]) => {
+        queries.push({ text, params });
+
+        if (text.includes('FOR UPDATE SKIP LOCKED')) {
+          return { rows: [dueEvent], rowCount: 1 };
+        }
+        if (text.includes("WHERE id = $1 AND status = 'publishing'")) {
+          return { rows: [{ id: dueEvent.id }], rowCount: 1 };
+        }
+        if (text.includes('FROM tenants t')) {
+          return {
+            rows: [{
+              id: 'tenant-123',
+              name: 'Test Agency',
+              type: 'agency',
+              brand_config: '{}',
+              settings: '{}',
+              created_at: new Date().toISOString(),
+              updated_at: new Date().toISOString(),
+              user_id: 'user-123',
+              user_email: 'owner@example.com',
+              user_name: 'Owner'
+            }]
+          };
+        }
+        return { rows: [], rowCount: 0 };
+      })
+    };
+
+    publishContent = vi.fn();
+    const publisherService = { publishContent } as unknown as PublisherService;
+    executor = new ScheduledPublishExecutor(mockDb, publisherService);
+  });
+
+  it('should claim due events inside a transaction with row locking', async () => {
+    publishContent.mockResolvedValue([]);
+
+    await executor.publishDueEvents(new Date('2026-01-01T10:01:00Z'));
+
+    const statements = queries.map(q => q.text.trim());
+    const beginIndex = statements.indexOf('BEGIN');
+    const claimIndex = statements.findIndex(text => text.includes('FOR UPDATE SKIP LOCKED'));
+    const commitIndex = statements.indexOf('COMMIT');
+
+    expect(beginIndex).toBeGreaterThanOrEqual(0);
+    expect(claimIndex).toBeGreaterThan(beginIndex);
+    expect(commitIndex).toBeGreaterThan(claimIndex);
+    expect(statements[claimIndex]).toContain("SET status = 'publishing'");
+  });
+
+  it('should publish claimed events and mark them as published', async () => {
+    const jobResult: PublishJobResult = {
+      jobId: 'job-123',
+      contentId: 'content-123',
+      platform: 'instagram',
+      status: 'success',
+      retryCount: 0,
+      calendarEventId: 'event-123',
+      publishedAt: new Date('2026-01-01T10:01:05Z')
+    };
+    publishContent.mockResolvedValue([jobResult]);
+
+    const summary = await executor.publishDueEvents(new Date('2026-01-01T10:01:00Z'));
+
+    expect(summary).toMatchObject({ claimed: 1, published: 1, failed: 0 });
+    expect(publishContent).toHaveBeenCalledWith(
+      expect.objectContaining({
+        contentId: 'content-123',
+        platforms: ['instagram'],
+        calendarEventId: 'event-123'
+      }),
+      expect.objectContaining({ tenantId: 'tenant-123' })
+    );
+
+    const update = queries.find(q => q.text.includes("SET status = 'published'"));
+    expect(update?.params).toEqual([jobResult.publishedAt, 'event-123']);
+  });
+
+  it('should mark failed publishes with the failure reason and bump the retry count', async () => {
+    publishContent.mockResolvedValue([{
+      jobId: 'job-123',
+      contentId: 'content-123',
+      platform: 'instagram',
+      status: 'failed',
+      error: 'Platform credentials not found',
+      retryCount: 0
+    }]);
+
+    const summary = await executor.publishDueEvents(new Date('2026-01-01T10:01:00Z'));
+
+    expect(summary).toMatchObject({ claimed: 1, published: 0, failed: 1 });
+
+    const update = queries.find(q =>
+      q.text.includes("SET status = 'failed'") && q.text.includes('failure_reason = $1')
+    );
+    expect(update?.text).toContain('retry_count = retry_count + 1');
+    expect(update?.params).toEqual(['Platform credentials not found', 'event-123']);
+  });
+
+  it('should leave events to the worker that is still publishing them', async () => {
+    publishContent.mockResolvedValue([{
+      jobId: 'job-123',
+      contentId: 'content-123',
+      platform: 'instagram',
+      status: 'in_progress',
+      retryCount: 0,
+      calendarEventId: 'event-123'
+    }]);
+
+    const summary = await executor.publishDueEvents(new Date('2026-01-01T10:01:00Z'));
+    const result = await executor.processPublishingJob({ data: dueEvent, attempts: 3, maxAttempts: 3 } as unknown as Job<any>);
+
+    expect(summary).toMatchObject({ claimed: 1, published: 0, failed: 0, inProgress: 1 });
+    expect(result?.status).toBe('in_progress');
+    expect(queries.some(q => q.text.includes("SET status = 'failed'") && q.text.includes('failure_reason = $1'))).toBe(false);
+  });
+
+  it('should only settle events that are still being published', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    publishContent.mockResolvedValue([{
+      jobId: 'job-123',
+      contentId: 'content-123',
+      platform: 'instagram',
+      status: 'success',
+      retryCount: 0,
+      publishedAt: new Date('2026-01-01T10:01:05Z')
+    }]);
+
+    // Recovery failed the event while this worker was publishing
+    await executor.publishDueEvents(new Date('2026-01-01T10:01:00Z'));
+
+    const update = queries.find(q => q.text.includes("SET status = 'published'"));
+    expect(update?.text).toContain("WHERE id = $2 AND status = 'publishing'");
+    expect(warn).toHaveBeenCalledWith('Calendar event event-123 was already settled, keeping its status');
+    warn.mockRestore();
+  });
+
+  it('should roll back the claim when the locking query fails', async () => {
+    (mockDb.query as ReturnType<typeof vi.fn>).mockImplementation(async (text: string) => {
+      queries.push({ text });
+      if (text.includes('FOR UPDATE SKIP LOCKED')) {
+        throw new Error('could not obtain lock');
+      }
+      return { rows: [], rowCount: 0 };
+    });
+
+    await expect(executor.publishDueEvents()).rejects.toThrow('could not obtain lock');
+    expect(queries.map(q => q.text.trim())).toContain('ROLLBACK');
+    expect(publishContent).not.toHaveBeenCalled();
+  });
+
+  it('should hand claimed events to the publishing queue when one is configured', async () => {
+    const add = vi.fn().mockResolvedValue({ id: 'job-1' });
+    const queuedExecutor = new ScheduledPublishExecutor(
+      mockDb,
+      { publishContent } as unknown as PublisherService,
+      {},
+      { add } as unknown as JobQueue
+    );
+
+    const summary = await queuedExecutor.publishDueEvents(new Date('2026-01-01T10:01:00Z'));
+
+    expect(summary).toMatchObject({ claimed: 1, queued: 1, published: 0 });
+    expect(add).toHaveBeenCalledWith('publishing', 'calendar-event', dueEvent, expect.any(Object));
+    expect(publishContent).not.toHaveBeenCalled();
+  });
+
+  it('should only recover stale queued claims whose job is dead or missing', async () => {
+    const staleRows = [
+      { id: 'event-waiting', queue_job_id: 'job-waiting' },
+      { id: 'event-dead', queue_job_id: 'job-dead' },
+      { id: 'event-missing', queue_job_id: 'job-missing' }
+    ];
+    (mockDb.query as ReturnType<typeof vi.fn>).mockImplementation(async (text: string, params?: unknown[]) => {
+      queries.push({ text, params });
+      if (text.includes('SELECT id, queue_job_id FROM calendar_events')) {
+        return { rows: staleRows };
+      }
+      if (text.includes("SET status = 'failed'")) {
+        return { rows: [], rowCount: 1 };
+      }
+      return { rows: [], rowCount: 0 };
+    });
+    const jobs: Record<string, Partial<Job>> = {
+      'job-waiting': { state: 'waiting' },
+      'job-dead': { state: 'dead' }
+    };
+    const getJob = vi.fn(async (queue: string, id: string) => jobs[id] || null);
+    const queuedExecutor = new ScheduledPublishExecutor(
+      mockDb,
+      { publishContent } as unknown as PublisherService,
+      {},
+      { add: vi.fn(), getJob } as unknown as JobQueue
+    );
+
+    const summary = await queuedExecutor.publishDueEvents(new Date('2026-01-01T10:30:00Z'));
+
+    expect(summary.recovered).toBe(2);
+    const failedIds = queries
+      .filter(q => q.text.includes("SET status = 'failed'"))
+      .map(q => q.params?.[0]);
+    expect(failedIds).toEqual(['event-dead', 'event-missing']);
+  });
+
+  it('should touch the claim when a worker picks up the job', async () => {
+    publishContent.mockResolvedValue([]);
+
+    await executor.processPublishingJob({ data: dueEvent, attempts: 1, maxAttempts: 3 } as unknown as Job<any>);
+
+    const touch = queries.find(q => q.text.includes("WHERE id = $1 AND status = 'publishing'"));
+    expect(touch?.text).toContain('SET updated_at = CURRENT_TIMESTAMP');
+    expect(touch?.params).toEqual(['event-123']);
+  });
+
+  it('should throw retryable failures back to the queue while attempts remain', async () => {
+    publishContent.mockResolvedValue([{
+      jobId: 'job-123',
+      contentId: 'content-123',
+      platform: 'instagram',
+      status: 'failed',
+      error: 'rate limit exceeded',
+      result: { success: false, error: 'rate limit exceeded', retryable: true },
+      retryCount: 0
+    }]);
+
+    const job = { data: dueEvent, attempts: 1, maxAttempts: 3 } as unknown as Job<any>;
+    await expect(executor.processPublishingJob(job)).rejects.toThrow('rate limit exceeded');
+    expect(publishContent).toHaveBeenCalledWith(
+      expect.objectContaining({ retryPolicy: expect.objectContaining({ maxRetries: 0 }) }),
+      expect.anything()
+    );
+    expect(queries.some(q => q.text.includes("SET status = 'failed'"))).toBe(false);
+
+    const lastAttempt = { data: dueEvent, attempts: 3, maxAttempts: 3 } as unknown as Job<any>;
+    await executor.processPublishingJob(lastAttempt);
+    const update = queries.find(q => q.text.includes("SET status = 'failed'") && q.text.includes('failure_reason = $1'));
+    expect(update?.params).toEqual(['rate limit exceeded', 'event-123']);
+  });
+
+  it('should defer rate-limited publishes without failing the event', async () => {
+    const retryAt = new Date('2026-01-01T11:00:00Z');
+    publishContent.mockResolvedValue([{
+      jobId: 'job-123',
+      contentId: 'content-123',
+      platform: 'instagram',
+      status: 'retrying',
+      error: 'Rate limit reached for instagram',
+      result: { success: false, error: 'Rate limit reached for instagram', retryable: true, retryAt },
+      retryCount: 0,
+      nextRetryAt: retryAt
+    }]);
+
+    const job = { data: dueEvent, attempts: 3, maxAttempts: 3 } as unknown as Job<any>;
+    const result = await executor.processPublishingJob(job);
+
+    expect(result?.status).toBe('retrying');
+    expect(queries.some(q => q.text.includes("SET status = 'failed'"))).toBe(false);
+    const deferral = queries.find(q => q.text.includes('updated_at = $2'));
+    expect(deferral?.params).toEqual(['Rate limit reached for instagram', retryAt, 'event-123']);
+  });
+});
+
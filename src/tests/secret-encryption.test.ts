@@ -0,0 +1,184 @@
+import crypto from 'crypto';
+import { describe, it, expect, beforeEach, vi, Mock } from 'vitest';
+import { SecretEncryptionService, encryptStoredSecrets } from '../services/secret-encryption';
+import { EncryptionService } from '../services/encryption';
+
+describe('Secret Encryption', () => {
+  const masterEncryption = new EncryptionService('0123456789abcdef0123456789abcdef0123456789abcdef0123456789abcdef');
+
+  // In-memory encryption_keys and encrypted_data tables behind a mocked query function
+  let keys: Array<{ id: string; tenant_id: string | null; encrypted_key: string; key_status: string; expires_at: Date }>;
+  let encryptedData: Array<{ id: string; tenant_id: string; encrypted_content: string; key_id: string }>;
+  let mockDb: { query: Mock };
+
+  beforeEach(() => {
+    keys = [];
+    encryptedData = [];
+    mockDb = {
+      query: vi.fn(async (sql: string, params: any[] = []) => {
+        const activeKeys = () => keys.filter(key => key.key_status === 'active');
+
+        if (sql.includes('INSERT INTO encryption_keys')) {
+          keys.push({ id: params[0], tenant_id: params[1], encrypted_key: params[3], key_status: 'active', expires_at: params[5] });
+          return { rows: [] };
+        }
+        if (sql.includes('SELECT encrypted_key FROM encryption_keys')) {
+          return { rows: keys.filter(key => key.id === params[0]) };
+        }
+        if (sql.includes('SELECT id FROM encryption_keys')) {
+          return { rows: activeKeys().filter(key => key.tenant_id === (params[0] ?? null)) };
+        }
+        if (sql.includes('SELECT DISTINCT tenant_id FROM encryption_keys')) {
+          return { rows: activeKeys().filter(key => key.expires_at <= params[0]) };
+        }
+        if (sql.includes('UPDATE encryption_keys')) {
+          activeKeys()
+            .filter(key => key.tenant_id === (params[1] ?? null))
+            .forEach(key => { key.key_status = 'rotated'; });
+          return { rows: [] };
+        }
+        if (sql.includes('INSERT INTO encrypted_data')) {
+          encryptedData.push({ id: params[0], tenant_id: params[1], encrypted_content: params[3], key_id: params[4] });
+          return { rows: [] };
+        }
+        if (sql.includes('FROM encrypted_data d')) {
+          const stale = encryptedData.filter(row =>
+            !activeKeys().some(key => key.id === row.key_id) || !row.encrypted_content.startsWith('v2:'));
+          return { rows: stale.slice(0, params[1]) };
+        }
+        if (sql.includes('FROM encrypted_data')) {
+          return { rows: encryptedData.filter(row => row.id === params[0] && row.tenant_id === params[1]) };
+        }
+        if (sql.includes('UPDATE encrypted_data')) {
+          const row = encryptedData.find(candidate => candidate.id === params[2])!;
+          row.encrypted_content = params[0];
+          row.key_id = params[1];
+          return { rows: [] };
+        }
+        return { rows: [] };
+      })
+    };
+  });
+
+  it('should encrypt secrets with a data key wrapped by the master key', async () => {
+    const service = new SecretEncryptionService(mockDb, masterEncryption);
+    const secret = { accessToken: 'ig-access', refreshToken: 'ig-refresh' };
+
+    const encrypted = await service.encrypt(secret, 'tenant-123');
+
+    expect(JSON.stringify(encrypted)).not.toContain('ig-access');
+    expect(keys).toHaveLength(1);
+    expect(keys[0]!.tenant_id).toBe('tenant-123');
+    expect(masterEncryption.decryptFromStorage(keys[0]!.encrypted_key)).toMatch(/^[0-9a-f]{64}$/);
+
+    // A fresh instance has to unwrap the data key from the database
+    const decrypted = await new SecretEncryptionService(mockDb, masterEncryption).decrypt(encrypted);
+    expect(decrypted).toEqual(secret);
+  });
+
+  it('should pass through secrets stored before encryption was introduced', async () => {
+    const service = new SecretEncryptionService(mockDb, masterEncryption);
+
+    expect(await service.decrypt({ accessToken: 'plain' })).toEqual({ accessToken: 'plain' });
+    expect(mockDb.query).not.toHaveBeenCalled();
+  });
+
+  it('should keep a separate data key per tenant and reuse it', async () => {
+    const service = new SecretEncryptionService(mockDb, masterEncryption);
+
+    const first = await service.encrypt('key-a', 'tenant-a');
+    const second = await service.encrypt('key-a2', 'tenant-a');
+    const other = await service.encrypt('key-b', 'tenant-b');
+    const platform = await service.encrypt('key-p', null);
+
+    expect(second.keyId).toBe(first.keyId);
+    expect(new Set([first.keyId, other.keyId, platform.keyId]).size).toBe(3);
+    expect(keys.map(key => key.tenant_id)).toEqual(['tenant-a', 'tenant-b', null]);
+  });
+
+  it('should encrypt stored secrets once and skip rows that are already encrypted', async () => {
+    const service = new SecretEncryptionService(mockDb, masterEncryption);
+    const alreadyEncrypted = await service.encrypt({ accessToken: 'done' }, 'tenant-123');
+
+    mockDb.query
+      .mockResolvedValueOnce({
+        rows: [
+          { id: 'cred-1', tenant_id: 'tenant-123', credentials: JSON.stringify({ accessToken: 'plain' }) },
+          { id: 'cred-2', tenant_id: 'tenant-123', credentials: alreadyEncrypted }
+        ]
+      })
+      .mockResolvedValueOnce({ rows: [] })
+      .mockResolvedValueOnce({
+        rows: [
+          { id: 'provider-1', tenant_id: null, config: { apiKey: 'sk-plain', timeout: 30000 } },
+          { id: 'provider-2', tenant_id: null, config: { apiKey: alreadyEncrypted } }
+        ]
+      });
+
+    const summary = await encryptStoredSecrets(mockDb, service);
+
+    expect(summary).toEqual({ platformCredentials: 1, aiProviders: 1 });
+
+    const updates = mockDb.query.mock.calls.filter(([sql]) => sql.startsWith('UPDATE'));
+    expect(updates.map(([, params]) => params[1])).toEqual(['cred-1', 'provider-1']);
+
+    const providerConfig = JSON.parse(updates[1]![1][0]);
+    expect(providerConfig.timeout).toBe(30000);
+    expect(await service.decrypt(providerConfig.apiKey)).toBe('sk-plain');
+  });
+
+  describe('key rotation', () => {
+    it('should rotate a data key and keep data encrypted with the old key readable', async () => {
+      const service = new SecretEncryptionService(mockDb, masterEncryption);
+      const before = await service.encrypt({ accessToken: 'old' }, 'tenant-123');
+
+      const newKeyId = await service.rotateDataKey('tenant-123');
+      const after = await service.encrypt({ accessToken: 'new' }, 'tenant-123');
+
+      expect(after.keyId).toBe(newKeyId);
+      expect(newKeyId).not.toBe(before.keyId);
+      expect(keys.map(key => key.key_status)).toEqual(['rotated', 'active']);
+      expect(after.ciphertext.startsWith(`v2:${newKeyId}:`)).toBe(true);
+
+      expect(await service.decrypt(before)).toEqual({ accessToken: 'old' });
+      expect(await service.needsReEncryption(before, 'tenant-123')).toBe(true);
+      expect(await service.needsReEncryption(after, 'tenant-123')).toBe(false);
+    });
+
+    it('should rotate only data keys that have expired', async () => {
+      const service = new SecretEncryptionService(mockDb, masterEncryption, { keyRotationDays: 30 });
+      await service.encrypt('secret-a', 'tenant-a');
+
+      expect(await service.rotateDueKeys(new Date(Date.now() + 29 * 24 * 60 * 60 * 1000))).toBe(0);
+      expect(await service.rotateDueKeys(new Date(Date.now() + 31 * 24 * 60 * 60 * 1000))).toBe(1);
+      expect(keys.map(key => [key.tenant_id, key.key_status])).toEqual([
+        ['tenant-a', 'rotated'],
+        ['tenant-a', 'active']
+      ]);
+    });
+
+    it('should re-encrypt encrypted_data lazily on read and in bulk, including legacy CBC rows', async () => {
+      const service = new SecretEncryptionService(mockDb, masterEncryption);
+      const lazyId = await service.storeEncryptedData('tenant-123', 'document', { cpf: '123' });
+      const bulkId = await service.storeEncryptedData('tenant-123', 'document', { cpf: '456' });
+
+      // Rewrite one row in the pre-GCM format with the same data key
+      const legacyRow = encryptedData.find(row => row.id === bulkId)!;
+      const dataKey = Buffer.from(masterEncryption.decryptFromStorage(keys[0]!.encrypted_key), 'hex');
+      const iv = crypto.randomBytes(16);
+      const cipher = crypto.createCipheriv('aes-256-cbc', dataKey, iv);
+      const legacyData = cipher.update(JSON.stringify({ cpf: '456' }), 'utf8', 'hex') + cipher.final('hex');
+      const legacyTag = crypto.createHash('sha256').update(legacyData + iv.toString('hex')).digest('hex').substring(0, 32);
+      legacyRow.encrypted_content = `${iv.toString('hex')}:${legacyTag}:${legacyData}`;
+
+      const newKeyId = await service.rotateDataKey('tenant-123');
+
+      expect(await service.readEncryptedData(lazyId, 'tenant-123')).toEqual({ cpf: '123' });
+      expect(encryptedData.find(row => row.id === lazyId)!.key_id).toBe(newKeyId);
+
+      expect(await service.reEncryptStoredData(10)).toBe(1);
+      expect(encryptedData.every(row => row.key_id === newKeyId && row.encrypted_content.startsWith('v2:'))).toBe(true);
+      expect(await service.readEncryptedData(bulkId, 'tenant-123')).toEqual({ cpf: '456' });
+    });
+  });
+});
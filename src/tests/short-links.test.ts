@@ -0,0 +1,154 @@
+import { describe, it, expect, vi } from 'vitest';
+import { ShortLinkService } from '../services/publishing/short-links';
+import { DatabasePool } from '../interfaces/database';
+import { TenantContext } from '../types';
+
+describe('Short Link Service', () => {
+  const tenantContext = {
+    tenantId: 'tenant-1',
+    tenant: { id: 'tenant-1', brandConfig: { customDomain: 'go.cafe-aurora.com' } }
+  } as unknown as TenantContext;
+
+  function createDb(existingCode?: string) {
+    const targets = new Map<string, string>();
+    const query = vi.fn(async (text: string, params: unknown[] = []) => {
+      if (text.includes('FROM briefings')) {
+        return { rows: [{ title: 'Autumn Menu Launch', fields: JSON.stringify({}) }] };
+      }
+      if (text.includes('INSERT INTO short_links')) {
+        const code = existingCode || (params[4] as string);
+        targets.set(code, params[5] as string);
+        return { rows: [{ code }] };
+      }
+      if (text.includes('UPDATE short_links') || text.includes('SELECT target_url')) {
+        const target = targets.get(params[0] as string);
+        return { rows: target ? [{ target_url: target }] : [] };
+      }
+      return { rows: [] };
+    });
+    return { db: { query } as DatabasePool, query, targets };
+  }
+
+  it('should add UTM parameters without overriding the ones already set', () => {
+    const service = new ShortLinkService({ query: vi.fn() } as unknown as DatabasePool);
+
+    const url = new URL(service.addUtmParameters(
+      'https://cafe-aurora.com/menu?utm_medium=newsletter',
+      { contentId: 'content-1', platform: 'instagram' },
+      'Autumn Menu Launch'
+    ));
+
+    expect(url.searchParams.get('utm_source')).toBe('instagram');
+    expect(url.searchParams.get('utm_medium')).toBe('newsletter');
+    expect(url.searchParams.get('utm_campaign')).toBe('autumn-menu-launch');
+    expect(url.searchParams.get('utm_content')).toBe('content-1');
+  });
+
+  it('should rewrite links in the text, caption and thread to short links on the custom domain', async () => {
+    const { db, targets } = createDb();
+    const service = new ShortLinkService(db);
+
+    const tagged = await service.tagLinks({
+      text: 'See the menu: https://cafe-aurora.com/menu.',
+      platformSpecific: {
+        caption: 'Book at https://cafe-aurora.com/book!',
+        thread: ['Opening soon', '(https://cafe-aurora.com/menu)']
+      }
+    }, { contentId: 'content-1', platform: 'x', briefingId: 'briefing-1' }, tenantContext);
+
+    expect(tagged.text).toMatch(/^See the menu: https:\/\/go\.cafe-aurora\.com\/l\/[A-Za-z0-9]{7}\.$/);
+    expect(tagged.platformSpecific?.caption).toMatch(/^Book at https:\/\/go\.cafe-aurora\.com\/l\/[A-Za-z0-9]{7}!$/);
+    expect(tagged.platformSpecific?.thread[1]).toBe(`(${tagged.text?.slice(14, -1)})`);
+
+    // One link per distinct URL, tagged with the briefing as campaign
+    expect(targets.size).toBe(2);
+    for (const target of targets.values()) {
+      expect(target).toContain('utm_source=x&utm_medium=social&utm_campaign=autumn-menu-launch&utm_content=content-1');
+    }
+  });
+
+  it('should reuse the existing code when the link was created before', async () => {
+    const { db } = createDb('Abc1234');
+    const service = new ShortLinkService(db);
+
+    const tagged = await service.tagLinks(
+      { text: 'https://cafe-aurora.com/menu' },
+      { contentId: 'content-1', platform: 'linkedin' },
+      tenantContext
+    );
+
+    expect(tagged.text).toBe('https://go.cafe-aurora.com/l/Abc1234');
+
+    // Already shortened links are left alone
+    const again = await service.tagLinks(tagged, { contentId: 'content-1', platform: 'linkedin' }, tenantContext);
+    expect(again).toBe(tagged);
+  });
+
+  it('should leave text that only looks like a link untagged', async () => {
+    const { db, targets } = createDb();
+    const service = new ShortLinkService(db);
+
+    const tagged = await service.tagLinks(
+      { text: 'Draft: https://[draft, live at https://cafe-aurora.com/menu' },
+      { contentId: 'content-1', platform: 'x' },
+      tenantContext
+    );
+
+    expect(tagged.text).toMatch(/^Draft: https:\/\/\[draft, live at https:\/\/go\.cafe-aurora\.com\/l\/[A-Za-z0-9]{7}$/);
+    expect(targets.size).toBe(1);
+  });
+
+  it('should draw a new code when the random one is already taken', async () => {
+    const { db, query, targets } = createDb();
+    query.mockRejectedValueOnce(new Error('duplicate key value violates unique constraint "short_links_code_key"'));
+    const service = new ShortLinkService(db);
+
+    const tagged = await service.tagLinks(
+      { text: 'https://cafe-aurora.com/menu' },
+      { contentId: 'content-1', platform: 'x' },
+      tenantContext
+    );
+
+    const code = tagged.text?.split('/l/')[1];
+    expect(code).toMatch(/^[A-Za-z0-9]{7}$/);
+    expect(targets.has(code as string)).toBe(true);
+    expect(query).toHaveBeenCalledTimes(2);
+  });
+
+  it('should give up on codes after repeated conflicts', async () => {
+    const query = vi.fn().mockRejectedValue(new Error('duplicate key value violates unique constraint "short_links_code_key"'));
+    const service = new ShortLinkService({ query } as unknown as DatabasePool);
+
+    await expect(service.tagLinks(
+      { text: 'https://cafe-aurora.com/menu' },
+      { contentId: 'content-1', platform: 'x' },
+      tenantContext
+    )).rejects.toThrow('short_links_code_key');
+    expect(query).toHaveBeenCalledTimes(5);
+  });
+
+  it('should not query anything when the post has no links', async () => {
+    const { db, query } = createDb();
+    const service = new ShortLinkService(db);
+
+    const content = { text: 'No links here', platformSpecific: { caption: 'Still none' } };
+    const tagged = await service.tagLinks(content, { contentId: 'content-1', platform: 'instagram', briefingId: 'briefing-1' }, tenantContext);
+
+    expect(tagged).toBe(content);
+    expect(query).not.toHaveBeenCalled();
+  });
+
+  it('should count clicks from people but not from link preview crawlers', async () => {
+    const { db, query, targets } = createDb();
+    targets.set('Abc1234', 'https://cafe-aurora.com/menu?utm_source=facebook');
+    const service = new ShortLinkService(db);
+
+    expect(await service.resolve('Abc1234', 'facebookexternalhit/1.1')).toBe('https://cafe-aurora.com/menu?utm_source=facebook');
+    expect(query.mock.calls[0]?.[0]).toContain('SELECT target_url');
+
+    expect(await service.resolve('Abc1234', 'Mozilla/5.0 (iPhone)')).toBe('https://cafe-aurora.com/menu?utm_source=facebook');
+    expect(query.mock.calls[1]?.[0]).toContain('click_count = click_count + 1');
+
+    expect(await service.resolve('missing', 'Mozilla/5.0')).toBeNull();
+  });
+});
@@ -0,0 +1,217 @@
+import { describe, it, expect, beforeEach, vi, Mock } from 'vitest';
+import { ThreadsAdapter } from '../services/publishing/threads-adapter';
+import { BlueskyAdapter, buildBlueskyFacets, getBlueskyTextLength } from '../services/publishing/bluesky-adapter';
+import { PlatformAdapterRegistry } from '../services/publishing/platform-registry';
+import { PlatformCredentials } from '../services/publishing/platform-adapter';
+import { ContentGenerationService } from '../services/content-generation';
+import { DatabasePool } from '../interfaces/database';
+import { TenantContext } from '../types';
+
+// Mock fetch globally
+global.fetch = vi.fn();
+
+describe('Threads and Bluesky Publishing', () => {
+  const mockTenantContext = { tenantId: 'tenant-123' } as TenantContext;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('buildBlueskyFacets', () => {
+    it('should index links, mentions and hashtags by UTF-8 byte offsets', () => {
+      const text = 'Olá @alice.bsky.social! Veja https://example.com/relatório. #café';
+      const facets = buildBlueskyFacets(text);
+      const bytes = Buffer.from(text, 'utf8');
+      const slice = (i: number) => bytes.subarray(facets[i]!.index.byteStart, facets[i]!.index.byteEnd).toString('utf8');
+
+      expect(facets).toHaveLength(3);
+      expect(slice(0)).toBe('@alice.bsky.social');
+      expect(facets[0]!.features[0]).toEqual({ $type: 'app.bsky.richtext.facet#mention', did: 'alice.bsky.social' });
+      expect(slice(1)).toBe('https://example.com/relatório');
+      expect(facets[1]!.features[0]).toEqual({ $type: 'app.bsky.richtext.facet#link', uri: 'https://example.com/relatório' });
+      expect(slice(2)).toBe('#café');
+      expect(facets[2]!.features[0]).toEqual({ $type: 'app.bsky.richtext.facet#tag', tag: 'café' });
+
+      // Byte offsets differ from string offsets once multi-byte characters appear
+      expect(facets[2]!.index.byteStart).toBeGreaterThan(text.indexOf('#café'));
+    });
+
+    it('should ignore emails, numeric tags and mentions inside links', () => {
+      const facets = buildBlueskyFacets('Write to team@example.com about #2024 or see https://example.com/@bob.example.com');
+
+      expect(facets).toHaveLength(1);
+      expect(facets[0]!.features[0]!.$type).toBe('app.bsky.richtext.facet#link');
+    });
+
+    it('should count graphemes rather than UTF-16 code units', () => {
+      expect(getBlueskyTextLength('café')).toBe(4);
+      expect(getBlueskyTextLength('👍🏽')).toBe(1);
+      expect(getBlueskyTextLength('👨‍👩‍👧')).toBe(1);
+    });
+  });
+
+  describe('BlueskyAdapter', () => {
+    const credentials: PlatformCredentials = {
+      accessToken: 'mock_access_jwt',
+      refreshToken: 'mock_refresh_jwt',
+      additionalCredentials: { did: 'did:plc:agency' }
+    };
+
+    it('should create a post record with resolved mention facets', async () => {
+      (global.fetch as Mock).mockImplementation(async (url: string) => {
+        if (url.includes('resolveHandle')) {
+          return { ok: true, json: async () => ({ did: 'did:plc:alice' }) };
+        }
+        return {
+          ok: true,
+          json: async () => ({ uri: 'at://did:plc:agency/app.bsky.feed.post/3kabc', cid: 'bafy123' })
+        };
+      });
+
+      const adapter = new BlueskyAdapter(credentials);
+      const result = await adapter.publish({ text: 'Thanks @alice.bsky.social for the #launch support' }, mockTenantContext);
+
+      expect(result.success).toBe(true);
+      expect(result.platformPostId).toBe('at://did:plc:agency/app.bsky.feed.post/3kabc');
+      expect(result.metadata?.url).toBe('https://bsky.app/profile/did:plc:agency/post/3kabc');
+
+      const createCall = (global.fetch as Mock).mock.calls.find(([url]) => url.endsWith('com.atproto.repo.createRecord'));
+      const body = JSON.parse(createCall![1].body);
+      expect(body.repo).toBe('did:plc:agency');
+      expect(body.collection).toBe('app.bsky.feed.post');
+      expect(body.record.facets.map((f: any) => f.features[0])).toEqual([
+        { $type: 'app.bsky.richtext.facet#mention', did: 'did:plc:alice' },
+        { $type: 'app.bsky.richtext.facet#tag', tag: 'launch' }
+      ]);
+    });
+
+    it('should upload images as blobs and embed them', async () => {
+      const blob = { $type: 'blob', ref: { $link: 'bafyimg' }, mimeType: 'image/png', size: 512 };
+      (global.fetch as Mock).mockImplementation(async (url: string) => {
+        if (url === 'https://cdn.example.com/chart.png') {
+          return { ok: true, headers: new Headers({ 'content-type': 'image/png' }), arrayBuffer: async () => new ArrayBuffer(512) };
+        }
+        if (url.endsWith('com.atproto.repo.uploadBlob')) {
+          return { ok: true, json: async () => ({ blob }) };
+        }
+        return { ok: true, json: async () => ({ uri: 'at://did:plc:agency/app.bsky.feed.post/3kimg', cid: 'bafy456' }) };
+      });
+
+      const adapter = new BlueskyAdapter(credentials);
+      const result = await adapter.publish({
+        text: 'Q3 results',
+        mediaUrls: ['https://cdn.example.com/chart.png'],
+        platformSpecific: { altTexts: ['Bar chart of quarterly revenue'] }
+      }, mockTenantContext);
+
+      expect(result.metadata?.postType).toBe('media');
+      const createCall = (global.fetch as Mock).mock.calls.find(([url]) => url.endsWith('com.atproto.repo.createRecord'));
+      expect(JSON.parse(createCall![1].body).record.embed).toEqual({
+        $type: 'app.bsky.embed.images',
+        images: [{ alt: 'Bar chart of quarterly revenue', image: blob }]
+      });
+    });
+
+    it('should reject posts over 300 characters', async () => {
+      const adapter = new BlueskyAdapter(credentials);
+      const validation = await adapter.validateContent({ text: 'a'.repeat(301) });
+
+      expect(validation.isValid).toBe(false);
+      expect(validation.errors[0]!.code).toBe('TEXT_TOO_LONG');
+    });
+  });
+
+  describe('ThreadsAdapter', () => {
+    const credentials: PlatformCredentials = {
+      accessToken: 'mock_access_token',
+      additionalCredentials: { userId: 'threads-user-1' }
+    };
+
+    it('should create and publish a text container', async () => {
+      (global.fetch as Mock).mockImplementation(async (url: string) => ({
+        ok: true,
+        json: async () => ({ id: url.endsWith('/threads_publish') ? 'post-1' : 'container-1' })
+      }));
+
+      const adapter = new ThreadsAdapter(credentials);
+      const result = await adapter.publish({
+        text: 'Big news for #marketing teams',
+        platformSpecific: { topicTag: 'marketing', replyControl: 'everyone' }
+      }, mockTenantContext);
+
+      expect(result.success).toBe(true);
+      expect(result.platformPostId).toBe('post-1');
+
+      const [createCall, publishCall] = (global.fetch as Mock).mock.calls;
+      expect(createCall![0]).toContain('/threads-user-1/threads');
+      expect(JSON.parse(createCall![1].body)).toMatchObject({
+        media_type: 'TEXT',
+        text: 'Big news for #marketing teams',
+        topic_tag: 'marketing',
+        reply_control: 'everyone'
+      });
+      expect(JSON.parse(publishCall![1].body).creation_id).toBe('container-1');
+    });
+
+    it('should create carousel items and wait for them to finish processing', async () => {
+      let containerCount = 0;
+      (global.fetch as Mock).mockImplementation(async (url: string) => {
+        if (url.includes('fields=status')) {
+          return { ok: true, json: async () => ({ id: 'c', status: 'FINISHED' }) };
+        }
+        if (url.endsWith('/threads_publish')) {
+          return { ok: true, json: async () => ({ id: 'post-2' }) };
+        }
+        containerCount++;
+        return { ok: true, json: async () => ({ id: `container-${containerCount}` }) };
+      });
+
+      const adapter = new ThreadsAdapter(credentials, { containerPollIntervalMs: 0 });
+      const result = await adapter.publish({
+        text: 'Behind the scenes',
+        mediaUrls: ['https://cdn.example.com/a.jpg', 'https://cdn.example.com/b.mp4']
+      }, mockTenantContext);
+
+      expect(result.success).toBe(true);
+      expect(result.metadata?.postType).toBe('carousel');
+
+      const createBodies = (global.fetch as Mock).mock.calls
+        .filter(([url]) => url.endsWith('/threads'))
+        .map(([, init]) => JSON.parse(init.body));
+      expect(createBodies[0]).toMatchObject({ media_type: 'IMAGE', is_carousel_item: true });
+      expect(createBodies[1]).toMatchObject({ media_type: 'VIDEO', is_carousel_item: true });
+      expect(createBodies[2]).toMatchObject({ media_type: 'CAROUSEL', children: 'container-1,container-2' });
+    });
+
+    it('should reject posts over 500 characters', async () => {
+      const adapter = new ThreadsAdapter(credentials);
+      const validation = await adapter.validateContent({ text: 'a'.repeat(501) });
+
+      expect(validation.isValid).toBe(false);
+      expect(validation.errors[0]!.code).toBe('TEXT_TOO_LONG');
+    });
+  });
+
+  describe('Registration and adaptation', () => {
+    it('should register both adapters in the platform registry', () => {
+      const registry = new PlatformAdapterRegistry();
+
+      expect(registry.getSupportedPlatforms()).toEqual(expect.arrayContaining(['threads', 'bluesky']));
+      expect(registry.registerAdapter('threads', { accessToken: 'token' })).toBeInstanceOf(ThreadsAdapter);
+      expect(registry.registerAdapter('bluesky', { accessToken: 'token' })).toBeInstanceOf(BlueskyAdapter);
+    });
+
+    it('should apply 500 and 300 character limits when adapting content', async () => {
+      const service = new ContentGenerationService({ query: vi.fn() } as unknown as DatabasePool);
+      const baseContent = { text: 'word '.repeat(150).trim() + ' #growth #b2b' };
+
+      const threads = await service.adaptContentForPlatform(baseContent, 'threads', [], []);
+      const bluesky = await service.adaptContentForPlatform(baseContent, 'bluesky', [], []);
+
+      expect(threads.text!.length).toBeLessThanOrEqual(500);
+      expect(threads.platformSpecific?.topicTag).toBe('growth');
+      expect(bluesky.text!.length).toBeLessThanOrEqual(300);
+      expect((await service.validatePlatformRequirements(bluesky, 'bluesky')).isValid).toBe(true);
+    });
+  });
+});
@@ -181,6 +181,9 @@ describe('Video Script Structure Property Tests', () => {
         response_status TEXT NOT NULL CHECK (response_status IN ('success', 'error', 'partial')),
         error_message TEXT,
         processing_time INTEGER NOT NULL DEFAULT 0,
+        routing_decision TEXT,
+        prompt_template_id TEXT,
+        prompt_template_version INTEGER,
         created_at TEXT DEFAULT CURRENT_TIMESTAMP
       )
     `);
@@ -214,6 +217,20 @@ describe('Video Script Structure Property Tests', () => {
       )
     `);
 
+    await testDb.query(`
+      CREATE TABLE IF NOT EXISTS prompt_templates (
+        id TEXT PRIMARY KEY,
+        key TEXT NOT NULL,
+        name TEXT NOT NULL,
+        body TEXT NOT NULL,
+        version INTEGER NOT NULL DEFAULT 1,
+        tenant_id TEXT,
+        created_by TEXT,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        updated_at TEXT DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
     await testDb.query(`
       CREATE TABLE IF NOT EXISTS brand_voice_guidelines (
         id TEXT PRIMARY KEY,
@@ -0,0 +1,159 @@
+import { describe, it, expect, beforeEach, vi, Mock } from 'vitest';
+import { XAdapter, splitIntoThread, getXTextLength } from '../services/publishing/x-adapter';
+import { PlatformAdapterRegistry } from '../services/publishing/platform-registry';
+import { PublisherService } from '../services/publishing/publisher-service';
+import { PlatformCredentials } from '../services/publishing/platform-adapter';
+import { DatabasePool } from '../interfaces/database';
+import { AdaptedContent, Content, TenantContext } from '../types';
+
+// Mock fetch globally
+global.fetch = vi.fn();
+
+const longText = [
+  'Our quarterly B2B report is out and the numbers are better than we expected.',
+  'Pipeline grew by 40% compared to last quarter, driven mostly by inbound leads from LinkedIn and X.',
+  'Average deal size stayed flat, which tells us the growth came from volume rather than pricing.',
+  'Customer retention reached an all-time high of 96% thanks to the new onboarding programme.',
+  'Next quarter we will double down on partner marketing and publish more case studies.',
+  'Thanks to everyone on the team who made this possible. #B2B #Marketing #Growth'
+].join(' ');
+
+describe('X Thread Publishing', () => {
+  describe('splitIntoThread', () => {
+    it('should keep short text as a single post', () => {
+      expect(splitIntoThread('Short update for our followers.')).toEqual(['Short update for our followers.']);
+    });
+
+    it('should split long text on sentence boundaries with numbered posts', () => {
+      const thread = splitIntoThread(longText);
+
+      expect(thread.length).toBeGreaterThan(1);
+      thread.forEach((post, index) => {
+        expect(getXTextLength(post)).toBeLessThanOrEqual(280);
+        expect(post.endsWith(` ${index + 1}/${thread.length}`)).toBe(true);
+      });
+
+      // Every post except the hashtag tail ends on a full sentence
+      const bodies = thread.map(post => post.replace(/ \d+\/\d+$/, ''));
+      bodies.slice(0, -1).forEach(body => expect(body).toMatch(/[.!?]$/));
+    });
+
+    it('should trim trailing hashtags to the limit and keep them on the last post', () => {
+      const thread = splitIntoThread(longText);
+      const hashtags = thread.join(' ').match(/#\w+/g) || [];
+
+      expect(hashtags).toEqual(['#B2B', '#Marketing']);
+      expect(thread[thread.length - 1]).toContain('#B2B #Marketing');
+    });
+
+    it('should split sentences longer than a post on word boundaries', () => {
+      const sentence = Array.from({ length: 80 }, (_, i) => `word${i}`).join(' ') + '.';
+      const thread = splitIntoThread(sentence);
+
+      expect(thread.length).toBeGreaterThan(1);
+      thread.forEach(post => {
+        expect(getXTextLength(post)).toBeLessThanOrEqual(280);
+        expect(post).not.toMatch(/word\d+word/);
+      });
+    });
+
+    it('should count URLs as 23 characters and emoji as two', () => {
+      expect(getXTextLength('https://example.com/a/very/long/path/that/is/longer/than/twenty/three')).toBe(23);
+      expect(getXTextLength('🚀')).toBe(2);
+      expect(getXTextLength('café')).toBe(4);
+    });
+  });
+
+  describe('XAdapter', () => {
+    let adapter: XAdapter;
+    let mockTenantContext: TenantContext;
+    const credentials: PlatformCredentials = {
+      accessToken: 'mock_access_token',
+      refreshToken: 'mock_refresh_token',
+      appId: 'mock_client_id',
+      appSecret: 'mock_client_secret'
+    };
+
+    beforeEach(() => {
+      vi.clearAllMocks();
+      adapter = new XAdapter(credentials);
+      mockTenantContext = { tenantId: 'tenant-123' } as TenantContext;
+    });
+
+    it('should publish a thread as a chain of replies', async () => {
+      let postCount = 0;
+      (global.fetch as Mock).mockImplementation(async (url: string) => {
+        if (url.endsWith('/users/me')) {
+          return { ok: true, json: async () => ({ data: { id: 'user-1' } }) };
+        }
+        postCount++;
+        return { ok: true, json: async () => ({ data: { id: `post-${postCount}`, text: '' } }) };
+      });
+
+      const content: AdaptedContent = { text: longText, mediaUrls: [] };
+      const result = await adapter.publish(content, mockTenantContext);
+
+      expect(result.success).toBe(true);
+      expect(result.platformPostId).toBe('post-1');
+      expect(result.metadata?.postType).toBe('thread');
+
+      const postCalls = (global.fetch as Mock).mock.calls.filter(([url]) => url.endsWith('/tweets'));
+      expect(postCalls.length).toBe(result.metadata?.postIds.length);
+      expect(JSON.parse(postCalls[0][1].body).reply).toBeUndefined();
+      expect(JSON.parse(postCalls[1][1].body).reply).toEqual({ in_reply_to_tweet_id: 'post-1' });
+    });
+
+    it('should not retry a partially published thread', async () => {
+      let postCount = 0;
+      (global.fetch as Mock).mockImplementation(async () => {
+        postCount++;
+        if (postCount === 2) {
+          return { ok: false, status: 503, json: async () => ({ title: 'Service Unavailable' }) };
+        }
+        return { ok: true, json: async () => ({ data: { id: `post-${postCount}`, text: '' } }) };
+      });
+
+      const result = await adapter.publish({ text: longText }, mockTenantContext);
+
+      expect(result.success).toBe(false);
+      expect(result.retryable).toBe(false);
+      expect(result.error).toContain('Thread partially published (1/');
+      expect(result.metadata?.postIds).toEqual(['post-1']);
+    });
+
+    it('should reject mixing a video with other media', async () => {
+      const validation = await adapter.validateContent({
+        text: 'Launch video',
+        mediaUrls: ['https://example.com/launch.mp4', 'https://example.com/cover.jpg']
+      });
+
+      expect(validation.isValid).toBe(false);
+      expect(validation.errors[0].code).toBe('INVALID_MEDIA_COMBINATION');
+    });
+
+    it('should be registered in the platform registry', () => {
+      const registry = new PlatformAdapterRegistry();
+
+      expect(registry.getSupportedPlatforms()).toContain('x');
+      expect(registry.registerAdapter('x', credentials)).toBeInstanceOf(XAdapter);
+    });
+  });
+
+  describe('Content adaptation for X', () => {
+    it('should split long content into a thread instead of truncating it', async () => {
+      const publisherService = new PublisherService({ query: vi.fn() } as unknown as DatabasePool);
+      const content = {
+        id: 'content-123',
+        baseContent: { text: longText, mediaUrls: [] }
+      } as unknown as Content;
+
+      const adapted = await publisherService.adaptContentForPlatform(content, 'x', [], []);
+
+      expect(adapted.text).toBe(longText);
+      expect(adapted.platformSpecific?.thread.length).toBeGreaterThan(1);
+
+      const validation = await publisherService.validatePlatformRequirements(adapted, 'x');
+      expect(validation.isValid).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,173 @@
+import { describe, it, expect, beforeEach, vi, Mock } from 'vitest';
+import { YouTubeAdapter } from '../services/publishing/youtube-adapter';
+import { PlatformAdapterRegistry } from '../services/publishing/platform-registry';
+import { PlatformCredentials } from '../services/publishing/platform-adapter';
+import { AdaptedContent, TenantContext } from '../types';
+
+// Mock fetch globally
+global.fetch = vi.fn();
+
+const CHUNK_SIZE = 256 * 1024;
+const SESSION_URL = 'https://www.googleapis.com/upload/youtube/v3/videos?upload_id=session-123';
+
+describe('YouTube Shorts Upload', () => {
+  let adapter: YouTubeAdapter;
+  let mockTenantContext: TenantContext;
+  let shortContent: AdaptedContent;
+  const credentials: PlatformCredentials = {
+    accessToken: 'mock_access_token',
+    refreshToken: 'mock_refresh_token',
+    appId: 'mock_client_id',
+    appSecret: 'mock_client_secret'
+  };
+
+  // 2.5 chunks worth of video
+  const videoBytes = new Uint8Array(CHUNK_SIZE * 2 + CHUNK_SIZE / 2);
+
+  const mockUploadFlow = (chunkResponses: Array<() => any>) => {
+    const uploads: { range: string; size: number }[] = [];
+
+    (global.fetch as Mock).mockImplementation(async (url: string, init?: RequestInit) => {
+      if (url === 'https://cdn.example.com/short.mp4') {
+        return { ok: true, arrayBuffer: async () => videoBytes.buffer };
+      }
+      if (url.includes('uploadType=resumable')) {
+        return { ok: true, status: 200, headers: new Headers({ location: SESSION_URL }) };
+      }
+      if (url === SESSION_URL) {
+        const headers = init!.headers as Record<string, string>;
+        uploads.push({
+          range: headers['Content-Range']!,
+          size: (init!.body as ArrayBuffer | undefined)?.byteLength || 0
+        });
+        const next = chunkResponses.shift();
+        return next!();
+      }
+      throw new Error(`Unexpected request to ${url}`);
+    });
+
+    return uploads;
+  };
+
+  const incomplete = (lastByte: number) => () => ({
+    ok: false,
+    status: 308,
+    headers: new Headers({ range: `bytes=0-${lastByte}` })
+  });
+
+  const complete = () => ({
+    ok: true,
+    status: 200,
+    headers: new Headers(),
+    json: async () => ({ id: 'video-123', status: { uploadStatus: 'uploaded', privacyStatus: 'public' } })
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    adapter = new YouTubeAdapter(credentials, { chunkSize: CHUNK_SIZE, retryDelayMs: 0 });
+    mockTenantContext = { tenantId: 'tenant-123' } as TenantContext;
+
+    shortContent = {
+      text: 'Three tips for faster onboarding\nA quick walkthrough of our onboarding checklist.',
+      mediaUrls: ['https://cdn.example.com/short.mp4'],
+      platformSpecific: {
+        title: 'Three tips for faster onboarding',
+        tags: ['onboarding', 'saas'],
+        duration: 45,
+        aspectRatio: '9:16'
+      }
+    };
+  });
+
+  it('should upload the video in resumable chunks', async () => {
+    const uploads = mockUploadFlow([
+      incomplete(CHUNK_SIZE - 1),
+      incomplete(CHUNK_SIZE * 2 - 1),
+      complete
+    ]);
+
+    const result = await adapter.publish(shortContent, mockTenantContext);
+
+    expect(result.success).toBe(true);
+    expect(result.platformPostId).toBe('video-123');
+    expect(result.metadata?.url).toBe('https://www.youtube.com/shorts/video-123');
+    expect(uploads.map(u => u.range)).toEqual([
+      `bytes 0-${CHUNK_SIZE - 1}/${videoBytes.length}`,
+      `bytes ${CHUNK_SIZE}-${CHUNK_SIZE * 2 - 1}/${videoBytes.length}`,
+      `bytes ${CHUNK_SIZE * 2}-${videoBytes.length - 1}/${videoBytes.length}`
+    ]);
+  });
+
+  it('should resume from the server offset after a failed chunk', async () => {
+    const uploads = mockUploadFlow([
+      incomplete(CHUNK_SIZE - 1),
+      () => ({ ok: false, status: 503, headers: new Headers() }),
+      // Status query reports that only half of the second chunk arrived
+      incomplete(CHUNK_SIZE + CHUNK_SIZE / 2 - 1),
+      incomplete(CHUNK_SIZE * 2 + CHUNK_SIZE / 2 - 1),
+      complete
+    ]);
+
+    const result = await adapter.publish(shortContent, mockTenantContext);
+
+    expect(result.success).toBe(true);
+    expect(uploads[2]!.range).toBe(`bytes */${videoBytes.length}`);
+    expect(uploads[3]!.range).toBe(`bytes ${CHUNK_SIZE + CHUNK_SIZE / 2}-${CHUNK_SIZE * 2 + CHUNK_SIZE / 2 - 1}/${videoBytes.length}`);
+  });
+
+  it('should map title, description, tags and scheduled publish time', async () => {
+    mockUploadFlow([complete]);
+    const publishAt = new Date(Date.now() + 24 * 60 * 60 * 1000);
+    shortContent.platformSpecific!.publishAt = publishAt.toISOString();
+    shortContent.platformSpecific!.privacyStatus = 'public';
+
+    await adapter.publish(shortContent, mockTenantContext);
+
+    const sessionCall = (global.fetch as Mock).mock.calls.find(([url]) => url.includes('uploadType=resumable'));
+    const resource = JSON.parse(sessionCall![1].body);
+
+    expect(resource.snippet.title).toBe('Three tips for faster onboarding');
+    expect(resource.snippet.description).toContain('onboarding checklist');
+    expect(resource.snippet.description).toContain('#Shorts');
+    expect(resource.snippet.tags).toEqual(['onboarding', 'saas']);
+    // Scheduled videos stay private until YouTube publishes them
+    expect(resource.status.privacyStatus).toBe('private');
+    expect(resource.status.publishAt).toBe(publishAt.toISOString());
+  });
+
+  it('should reject videos longer than 60 seconds or not vertical', async () => {
+    shortContent.platformSpecific!.duration = 90;
+    shortContent.platformSpecific!.aspectRatio = '16:9';
+
+    const validation = await adapter.validateContent(shortContent);
+
+    expect(validation.isValid).toBe(false);
+    expect(validation.errors.map(e => e.code)).toEqual(
+      expect.arrayContaining(['VIDEO_TOO_LONG', 'INVALID_ASPECT_RATIO'])
+    );
+  });
+
+  it('should reject a scheduled publish time in the past', async () => {
+    shortContent.platformSpecific!.publishAt = '2020-01-01T00:00:00Z';
+
+    const validation = await adapter.validateContent(shortContent);
+
+    expect(validation.errors.map(e => e.code)).toContain('INVALID_PUBLISH_AT');
+  });
+
+  it('should not retry client errors during upload', async () => {
+    mockUploadFlow([() => ({ ok: false, status: 400, headers: new Headers() })]);
+
+    const result = await adapter.publish(shortContent, mockTenantContext);
+
+    expect(result.success).toBe(false);
+    expect(result.retryable).toBe(false);
+  });
+
+  it('should be registered in the platform registry', () => {
+    const registry = new PlatformAdapterRegistry();
+
+    expect(registry.getSupportedPlatforms()).toContain('youtube');
+    expect(registry.registerAdapter('youtube', credentials)).toBeInstanceOf(YouTubeAdapter);
+  });
+});
@@ -343,10 +343,15 @@ export interface AdaptedContent {
   text?: string;
   mediaUrls?: string[];
   metadata?: Record<string, any>;
-  platformSpecific?: Record<string, any>;
+  platformSpecific?: PlatformSpecificContent;
 }
 
-export type Platform = 'instagram' | 'tiktok' | 'facebook' | 'linkedin';
+export interface PlatformSpecificContent {
+  [key: string]: any;
+  firstComment?: string; // posted right after publishing on Instagram, Facebook and LinkedIn
+}
+
+export type Platform = 'instagram' | 'tiktok' | 'facebook' | 'linkedin' | 'x' | 'youtube' | 'pinterest' | 'threads' | 'bluesky' | 'google_business';
 
 export interface WorkflowTransition {
   from: WorkflowState;
@@ -415,14 +420,54 @@ export interface AIRequest {
   tenantId: string;
   userId: string;
   briefingId?: string;
+  promptTemplate?: PromptTemplateRef; // template version the prompt was rendered from
+  createdAt: Date;
+}
+
+export type PromptTemplateKey = 'content_generation' | 'video_script_section';
+
+export interface PromptTemplate {
+  id?: string; // unset for the built-in default
+  key: PromptTemplateKey;
+  name: string;
+  body: string; // {{variable}} placeholders, {{#variable}}...{{/variable}} kept only when set
+  version: number;
+  tenantId?: string; // unset for platform defaults
+  createdBy?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface PromptTemplateVersion {
+  id: string;
+  templateId: string;
+  version: number;
+  body: string;
+  changeNote?: string;
+  tenantId?: string;
+  createdBy?: string;
   createdAt: Date;
 }
 
+export interface PromptTemplateRef {
+  key: PromptTemplateKey;
+  templateId?: string;
+  version: number;
+}
+
+export interface ChatMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
 export interface GenerationOptions {
   model?: string;
   maxTokens?: number;
   temperature?: number;
   topP?: number;
+  systemPrompt?: string;
+  messages?: ChatMessage[]; // earlier turns of a conversation; the prompt is sent as the last user turn
+  stopSequences?: string[];
   format?: string;
   dimensions?: {
     width: number;
@@ -433,15 +478,27 @@ export interface GenerationOptions {
   metadata?: Record<string, any>;
 }
 
+export interface RoutingTarget {
+  providerId: string;
+  model?: string; // model to request from the provider; the request's own model when not set
+}
+
+// Which provider serves a request, decided before it is dispatched
+export interface RoutingDecision extends RoutingTarget {
+  strategy: string; // strategy that made the decision, e.g. 'cost_optimized'
+  fallbackChain: RoutingTarget[]; // tried in order when the selected provider fails
+}
+
 export interface AIResponse {
   id: string;
   requestId: string;
-  providerId: string;
+  providerId: string; // provider that served the response, which is a fallback when the selected one failed
   content: GeneratedContent;
   usage: UsageMetrics;
   status: 'success' | 'error' | 'partial';
   error?: string;
   processingTime: number;
+  routing?: RoutingDecision;
   createdAt: Date;
 }
 
@@ -574,6 +631,7 @@ export interface HealthCheck {
 export interface ProviderCredentials {
   apiKey: string;
   secretKey?: string;
+  baseUrl?: string; // overrides the provider's default API endpoint
   additionalCredentials?: Record<string, string>;
 }
 
@@ -583,6 +641,14 @@ export interface AIProviderInterface {
   capabilities: AICapability[];
   authenticate(credentials: ProviderCredentials): Promise<boolean>;
   generateContent(prompt: string, options: GenerationOptions): Promise<GeneratedContent>;
+  // Text generation that calls onToken as text arrives. When the signal is
+  // aborted it resolves with the text so far and metadata.aborted set.
+  streamContent?(
+    prompt: string,
+    options: GenerationOptions,
+    onToken: (text: string) => void,
+    signal?: AbortSignal
+  ): Promise<GeneratedContent>;
   checkHealth(): Promise<HealthCheck>;
   getUsage(tenantId: string, timeRange?: { start: Date; end: Date }): Promise<UsageMetrics>;
 }
@@ -595,7 +661,7 @@ export interface CalendarEvent {
   description?: string;
   scheduledAt: Date;
   platform: Platform;
-  status: 'scheduled' | 'published' | 'failed' | 'cancelled';
+  status: 'scheduled' | 'publishing' | 'published' | 'failed' | 'cancelled';
   tenantId: string;
   clientId?: string;
   createdBy: string;